@@ -1,4 +1,3 @@
-const STUDIO_URL = "https://api.studio.thegraph.com/query/1742338/ach/version/latest";
 const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || "")
   .split(",")
   .map((v) => normalizeOrigin(v))
@@ -31,6 +30,7 @@ const UPSTASH_REDIS_REST_URL = (process.env.UPSTASH_REDIS_REST_URL || "").trim()
 const UPSTASH_REDIS_REST_TOKEN = (process.env.UPSTASH_REDIS_REST_TOKEN || "").trim();
 const RATE_LIMIT_WINDOW_SECONDS = Math.max(1, Math.floor(RATE_LIMIT_WINDOW_MS / 1000));
 import { serializeAndCompress, deserializeAndDecompress, monitorRedisHealth } from './utils/redis.js';
+import { SUBGRAPH_URL } from './utils/chain-config.js';
 
 const rateLimitByKey = new Map();
 let rateLimitRequestCount = 0;
@@ -221,7 +221,7 @@ async function checkRateLimit(req) {
 
 async function fetchSubgraph(token, query, variables) {
   return fetchJsonWithTimeout(
-    STUDIO_URL,
+    SUBGRAPH_URL,
     {
       method: "POST",
       headers: {
@@ -0,0 +1,245 @@
+import { ethers } from "ethers";
+import { CONTRACT_ADDRESS } from "./relay.js";
+import { NATIVE_USDC_ADDRESS } from "./utils/chain-config.js";
+import { createDcaOrder, getDcaOrder, getUserDcaOrders, hasPendingSlices, lockDcaOrder, unlockDcaOrder, updateDcaOrder } from "./utils/dca-store.js";
+import { readNonceBitmap } from "./utils/permit-nonces.js";
+import { RelayPolicyError, checkDcaSignature, checkPermitSignature, checkSponsoredTrade, getDeadlinePolicy } from "./utils/relay-policy.js";
+import { providers } from "./utils/relayer-pool.js";
+
+// Recurring (DCA) orders. The user signs one Permit2 permit per slice up front,
+// each valid from its due time until the next slice is due, plus an EIP-712
+// order over the whole schedule; /api/dca/watch fills each slice through the
+// relayer when it comes due, with its minimum output quoted at fill time.
+//
+// GET ?user=0x…                           the wallet's orders
+// POST { user, tokenIn, tokenOut, startAt, intervalSeconds, slippageBps, slices: [{ amountIn, permitNonce, permitSig }], orderSig }
+// DELETE { user, id, signature }           signature is personal_sign of getCancelMessage(id)
+
+const MIN_SLICES = 2;
+const MAX_SLICES = 60;
+const MIN_INTERVAL_SECONDS = 5 * 60;
+const MAX_SLIPPAGE_BPS = 5000; // Same ceiling as the settings panel
+const MAX_START_SKEW_SECONDS = 30 * 60; // startAt is when signing began; a long schedule takes a while to sign
+const MAX_ACTIVE_ORDERS_PER_USER = 10;
+
+/**
+ * Same text as getDcaCancelMessage in client/src/lib/dca-orders.ts.
+ */
+function getCancelMessage(id) {
+  return `Cancel Achswap DCA order ${id}`;
+}
+
+// The signed permits stay server-side; anyone holding one could spend its slice
+function toPublicOrder(order) {
+  const { orderSig, slices, ...rest } = order;
+  return { ...rest, slices: slices.map(({ permitSig, ...slice }) => slice) };
+}
+
+function toBigInt(value, field) {
+  try {
+    return BigInt(value);
+  } catch {
+    throw new Error(`invalid ${field}`);
+  }
+}
+
+/**
+ * Which of the nonces Permit2 has already marked spent, one bitmap read per word.
+ */
+async function findSpentNonces(user, nonces) {
+  const bitmaps = new Map();
+  for (const nonce of nonces) {
+    const word = nonce >> 8n;
+    if (!bitmaps.has(word)) bitmaps.set(word, await readNonceBitmap(user, word));
+  }
+  return nonces.filter((nonce) => ((bitmaps.get(nonce >> 8n) >> (nonce & 0xffn)) & 1n) === 1n);
+}
+
+async function handleList(req, res) {
+  const user = req.query?.user;
+  if (!ethers.isAddress(user)) return res.status(400).json({ error: "invalid user" });
+
+  const orders = await getUserDcaOrders(user);
+  res.setHeader("Cache-Control", "no-store");
+  res.json({ orders: orders.map(toPublicOrder) });
+}
+
+async function handleCreate(req, res) {
+  const { user, tokenIn, tokenOut, startAt, intervalSeconds, slippageBps, slices, orderSig } = req.body ?? {};
+  if (!user || !tokenIn || !tokenOut || startAt == null || intervalSeconds == null || slippageBps == null || !Array.isArray(slices) || !orderSig) {
+    return res.status(400).json({ error: "missing required parameters" });
+  }
+  if (!ethers.isAddress(user) || !ethers.isAddress(tokenIn) || !ethers.isAddress(tokenOut)) {
+    return res.status(400).json({ error: "invalid address" });
+  }
+  if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) {
+    return res.status(400).json({ error: "tokenIn and tokenOut must differ" });
+  }
+  // Routes pay out pool tokens; USDC proceeds arrive as wUSDC
+  if (tokenOut.toLowerCase() === NATIVE_USDC_ADDRESS) {
+    return res.status(400).json({ error: "use wUSDC as tokenOut for USDC orders" });
+  }
+  if (slices.length < MIN_SLICES || slices.length > MAX_SLICES) {
+    return res.status(400).json({ error: `use ${MIN_SLICES} to ${MAX_SLICES} slices` });
+  }
+
+  let parsed;
+  try {
+    parsed = {
+      startAt: Number(toBigInt(startAt, "startAt")),
+      intervalSeconds: Number(toBigInt(intervalSeconds, "intervalSeconds")),
+      slippageBps: Number(toBigInt(slippageBps, "slippageBps")),
+      slices: slices.map((slice, index) => ({
+        amountIn: toBigInt(slice?.amountIn, `slices[${index}].amountIn`),
+        permitNonce: toBigInt(slice?.permitNonce, `slices[${index}].permitNonce`),
+        permitSig: slice?.permitSig,
+      })),
+    };
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
+  if (parsed.slices.some((slice) => slice.amountIn <= 0n || typeof slice.permitSig !== "string")) {
+    return res.status(400).json({ error: "every slice needs a positive amountIn and a permitSig" });
+  }
+  if (new Set(parsed.slices.map((slice) => slice.permitNonce)).size !== parsed.slices.length) {
+    return res.status(400).json({ error: "slices must use distinct permit nonces" });
+  }
+  if (parsed.intervalSeconds < MIN_INTERVAL_SECONDS) {
+    return res.status(400).json({ error: `interval must be at least ${MIN_INTERVAL_SECONDS / 60} minutes` });
+  }
+  if (parsed.slippageBps <= 0 || parsed.slippageBps > MAX_SLIPPAGE_BPS) {
+    return res.status(400).json({ error: `slippageBps must be between 1 and ${MAX_SLIPPAGE_BPS}` });
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const { minSeconds, maxOrderSeconds } = getDeadlinePolicy();
+  if (Math.abs(parsed.startAt - nowSeconds) > MAX_START_SKEW_SECONDS) {
+    return res.status(400).json({ error: "startAt must be the current time" });
+  }
+  // Slice i is due at startAt + i·interval and its permit runs until the next one is due
+  const schedule = parsed.slices.map((slice, index) => ({
+    ...slice,
+    index,
+    dueAt: parsed.startAt + index * parsed.intervalSeconds,
+    deadline: parsed.startAt + (index + 1) * parsed.intervalSeconds,
+  }));
+  if (schedule[0].deadline <= nowSeconds + minSeconds) {
+    return res.status(400).json({ error: "the first slice's window passed while signing; use a longer interval" });
+  }
+  if (schedule[schedule.length - 1].deadline > nowSeconds + maxOrderSeconds) {
+    return res.status(400).json({ error: `the schedule must end within ${maxOrderSeconds / 86400} days` });
+  }
+
+  try {
+    // Each permit is what the watcher will spend for its slice, so it has to be valid for exactly that slice
+    for (const slice of schedule) {
+      checkPermitSignature(
+        { user, tokenIn, totalAmountIn: slice.amountIn, permitNonce: slice.permitNonce, permitDeadline: BigInt(slice.deadline), permitSig: slice.permitSig },
+        CONTRACT_ADDRESS,
+      );
+    }
+    // ...and the order signature binds the output token, slippage and schedule the permits don't cover
+    const fields = {
+      user: user.toLowerCase(),
+      tokenIn: tokenIn.toLowerCase(),
+      tokenOut: tokenOut.toLowerCase(),
+      totalAmountIn: schedule.reduce((sum, slice) => sum + slice.amountIn, 0n).toString(),
+      startAt: parsed.startAt,
+      intervalSeconds: parsed.intervalSeconds,
+      slippageBps: parsed.slippageBps,
+      orderSig,
+      slices: schedule.map((slice) => ({
+        index: slice.index,
+        amountIn: slice.amountIn.toString(),
+        permitNonce: slice.permitNonce.toString(),
+        permitSig: slice.permitSig,
+        dueAt: slice.dueAt,
+        deadline: slice.deadline,
+        status: "scheduled",
+        relayId: null,
+        txHash: null,
+        quotedOut: null,
+        minOut: null,
+        amountOut: null,
+        attempts: 0,
+        error: null,
+      })),
+    };
+    checkDcaSignature(fields, CONTRACT_ADDRESS);
+    await checkSponsoredTrade(providers[0], tokenIn, schedule[0].amountIn);
+
+    if ((await findSpentNonces(user, schedule.map((slice) => slice.permitNonce))).length > 0) {
+      return res.status(409).json({ error: "a slice's permit nonce has already been used" });
+    }
+    const active = (await getUserDcaOrders(user)).filter(hasPendingSlices);
+    if (active.length >= MAX_ACTIVE_ORDERS_PER_USER) {
+      return res.status(429).json({ error: `at most ${MAX_ACTIVE_ORDERS_PER_USER} active DCA orders per wallet` });
+    }
+
+    const { created, order } = await createDcaOrder(fields);
+    if (!created) {
+      return res.status(409).json({ error: "an order already uses this permit nonce", order: toPublicOrder(order) });
+    }
+    res.status(201).json({ order: toPublicOrder(order) });
+  } catch (err) {
+    if (err instanceof RelayPolicyError) {
+      return res.status(err.status).json({ error: err.message, code: err.code, ...err.details });
+    }
+    res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+async function handleCancel(req, res) {
+  const { user, id, signature } = req.body ?? {};
+  if (!ethers.isAddress(user) || typeof id !== "string" || typeof signature !== "string") {
+    return res.status(400).json({ error: "missing required parameters" });
+  }
+
+  let signer;
+  try {
+    signer = ethers.verifyMessage(getCancelMessage(id.toLowerCase()), signature);
+  } catch {
+    return res.status(400).json({ error: "signature is malformed" });
+  }
+  if (signer.toLowerCase() !== user.toLowerCase()) {
+    return res.status(403).json({ error: "cancellation was not signed by user" });
+  }
+
+  const order = await getDcaOrder(id.toLowerCase());
+  if (!order || order.user !== user.toLowerCase()) return res.status(404).json({ error: "unknown order" });
+
+  // The watcher holds the lock while it submits a slice; re-read once it's ours
+  if (!(await lockDcaOrder(order.id))) {
+    return res.status(409).json({ error: "a slice is being submitted; try again in a minute", order: toPublicOrder(order) });
+  }
+  try {
+    const current = await getDcaOrder(order.id);
+    if (current?.status !== "active") {
+      return res.status(409).json({ error: `order is already ${current?.status ?? "gone"}`, order: current ? toPublicOrder(current) : null });
+    }
+    // A slice already in flight settles; the signed permits stay valid until their deadlines
+    const cancelled = await updateDcaOrder(order.id, {
+      status: "cancelled",
+      slices: current.slices.map((slice) => (slice.status === "scheduled" ? { ...slice, status: "cancelled" } : slice)),
+    });
+    res.json({ order: toPublicOrder(cancelled) });
+  } finally {
+    await unlockDcaOrder(order.id);
+  }
+}
+
+export default async function handler(req, res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  if (req.method === "OPTIONS") return res.status(200).end();
+
+  try {
+    if (req.method === "GET") return await handleList(req, res);
+    if (req.method === "POST") return await handleCreate(req, res);
+    if (req.method === "DELETE") return await handleCancel(req, res);
+  } catch (err) {
+    return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+  res.status(405).json({ error: "method not allowed" });
+}
@@ -0,0 +1,160 @@
+import { CONTRACT_ADDRESS, getRefreshedRelayRecord, submitRelayRequest } from "../relay.js";
+import { readFillAmount } from "../orders/watch.js";
+import { getActiveDcaOrders, getDcaOrder, lockDcaOrder, unlockDcaOrder, updateDcaOrder } from "../utils/dca-store.js";
+import { buildOrderSegment, quoteOrder } from "../utils/order-router.js";
+import { isNonceSpent } from "../utils/permit-nonces.js";
+import { RelayPolicyError, checkDcaSignature, getDeadlinePolicy } from "../utils/relay-policy.js";
+import { getErrorMessage, providers, withReadProvider } from "../utils/relayer-pool.js";
+
+// DCA watcher, run by Vercel cron every minute. Submits each order's due slice
+// through the relay with its own pre-signed permit and a minimum output quoted
+// now, follows in-flight slices to mined, and marks slices missed once their
+// permit window has passed. Only requests carrying CRON_SECRET as a bearer
+// token are served, and the route refuses to run when it isn't set.
+
+const MAX_ORDERS_PER_RUN = 25;
+const RUN_BUDGET_MS = 45_000; // Leave headroom under the function's maxDuration
+const FILL_DEADLINE_SECONDS = 5 * 60; // Segment deadline for a fill; the permit runs to the slice deadline
+const MAX_FILL_ATTEMPTS = 10; // A slice that keeps failing simulation stops being retried
+
+// Relay rejections no later run can fix
+const PERMANENT_RELAY_CODES = ["INVALID_SIGNATURE", "TOKEN_NOT_ALLOWED", "NOTIONAL_TOO_SMALL", "NOTIONAL_TOO_LARGE"];
+
+async function followSlice(order, slice, nowSeconds) {
+  const relay = slice.relayId ? await getRefreshedRelayRecord(slice.relayId) : null;
+  if (relay?.state === "mined") {
+    const amountOut = await readFillAmount(relay.txHash, order).catch(() => null);
+    await updateDcaOrder(order.id, {}, slice.index, { status: "filled", txHash: relay.txHash, amountOut, error: null });
+    return "filled";
+  }
+  if (relay && relay.state !== "failed" && relay.state !== "replaced") return "filling";
+
+  // The fill didn't land (or its record is gone); the permit is reusable unless its nonce was spent
+  if (!relay && (await isNonceSpent(order.user, slice.permitNonce))) {
+    await updateDcaOrder(order.id, {}, slice.index, { status: "filled", error: null });
+    return "filled";
+  }
+  const status = order.status !== "active" ? "cancelled" : slice.deadline <= nowSeconds ? "missed" : "scheduled";
+  await updateDcaOrder(order.id, {}, slice.index, { status, relayId: null, txHash: null, error: relay?.error ?? "fill was not confirmed" });
+  return status;
+}
+
+async function fillSlice(order, slice, nowSeconds, maxOrderSeconds) {
+  if (await isNonceSpent(order.user, slice.permitNonce)) {
+    await updateDcaOrder(order.id, {}, slice.index, { status: "missed", error: "permit nonce was used or revoked" });
+    return "missed";
+  }
+
+  // Only relay the schedule the user signed, whatever the store says
+  try {
+    checkDcaSignature(order, CONTRACT_ADDRESS);
+  } catch (err) {
+    if (!(err instanceof RelayPolicyError)) throw err;
+    const slices = order.slices.map((entry) => (entry.status === "scheduled" ? { ...entry, status: "failed", error: err.message } : entry));
+    await updateDcaOrder(order.id, { status: "cancelled", slices });
+    return "failed";
+  }
+
+  const attempts = slice.attempts + 1;
+  const quote = await withReadProvider((provider) => quoteOrder(provider, { tokenIn: order.tokenIn, tokenOut: order.tokenOut, amountIn: slice.amountIn }));
+  if (!quote) {
+    const failed = attempts >= MAX_FILL_ATTEMPTS;
+    await updateDcaOrder(order.id, {}, slice.index, { status: failed ? "failed" : "scheduled", attempts, error: "no route for this slice" });
+    return failed ? "failed" : "scheduled";
+  }
+
+  const minOut = (quote.amountOut * BigInt(10_000 - order.slippageBps)) / 10_000n;
+  const segment = buildOrderSegment(quote, BigInt(slice.amountIn), minOut, Math.min(slice.deadline, nowSeconds + FILL_DEADLINE_SECONDS));
+  const { status, body } = await submitRelayRequest(
+    {
+      user: order.user,
+      tokenIn: order.tokenIn,
+      totalAmountIn: slice.amountIn,
+      permitNonce: slice.permitNonce,
+      permitDeadline: slice.deadline,
+      permitSig: slice.permitSig,
+      segment,
+    },
+    { maxPermitSeconds: maxOrderSeconds },
+  );
+
+  const quoted = { quotedOut: quote.amountOut.toString(), minOut: minOut.toString(), attempts };
+  if (status === 200 || status === 202) {
+    await updateDcaOrder(order.id, {}, slice.index, { ...quoted, status: "filling", relayId: body.idempotencyKey, txHash: body.txHash, error: null });
+    return "filling";
+  }
+
+  const permanent = PERMANENT_RELAY_CODES.includes(body.code) || (status === 400 && !body.code) || attempts >= MAX_FILL_ATTEMPTS;
+  await updateDcaOrder(order.id, {}, slice.index, { ...quoted, status: permanent ? "failed" : "scheduled", error: body.error });
+  return permanent ? "failed" : "scheduled";
+}
+
+async function runOrder(id, nowSeconds, maxOrderSeconds) {
+  // Held for the whole check so a cancel can't land between reading a slice and relaying it
+  if (!(await lockDcaOrder(id))) return "skipped";
+  try {
+    const order = await getDcaOrder(id);
+    if (!order) return "skipped";
+
+    const inFlight = order.slices.find((slice) => slice.status === "filling");
+    if (inFlight) return await followSlice(order, inFlight, nowSeconds);
+    if (order.status !== "active") return "skipped";
+
+    // Slices whose permit window closed before a run got to them are missed, not made up later
+    const { minSeconds } = getDeadlinePolicy();
+    const overdue = (slice) => slice.status === "scheduled" && slice.deadline <= nowSeconds + minSeconds;
+    if (order.slices.some(overdue)) {
+      const slices = order.slices.map((slice) => (overdue(slice) ? { ...slice, status: "missed", error: slice.error ?? "slice window passed" } : slice));
+      await updateDcaOrder(order.id, { slices });
+      return "missed";
+    }
+
+    const due = order.slices.find((slice) => slice.status === "scheduled" && slice.dueAt <= nowSeconds);
+    if (!due) return "scheduled";
+    return await fillSlice(order, due, nowSeconds, maxOrderSeconds);
+  } finally {
+    await unlockDcaOrder(id);
+  }
+}
+
+export default async function handler(req, res) {
+  if (req.method !== "GET") return res.status(405).json({ error: "method not allowed" });
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return res.status(500).json({ error: "CRON_SECRET is not set" });
+  if (req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: "unauthorized" });
+  }
+  if (providers.length === 0) return res.status(503).json({ error: "no RPC configured" });
+
+  const startedAt = Date.now();
+  const { maxOrderSeconds } = getDeadlinePolicy();
+  const summary = { checked: 0, skipped: 0, scheduled: 0, filling: 0, filled: 0, missed: 0, cancelled: 0, failed: 0 };
+
+  try {
+    // Least recently touched first, so a long list is worked through across runs
+    const orders = (await getActiveDcaOrders())
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, MAX_ORDERS_PER_RUN);
+
+    for (const order of orders) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) {
+        summary.skipped += 1;
+        continue;
+      }
+      const nowSeconds = Math.floor(Date.now() / 1000);
+      try {
+        const outcome = await runOrder(order.id, nowSeconds, maxOrderSeconds);
+        summary[outcome] = (summary[outcome] ?? 0) + 1;
+      } catch (err) {
+        // RPC trouble on one order shouldn't stop the rest
+        console.warn(`[dca] Order ${order.id} check failed:`, getErrorMessage(err));
+        summary.scheduled += 1;
+      }
+      summary.checked += 1;
+    }
+
+    res.json(summary);
+  } catch (err) {
+    res.status(500).json({ error: getErrorMessage(err) });
+  }
+}
@@ -0,0 +1,90 @@
+import { ethers } from "ethers";
+import { countNonceRequest, getReservedNonces, readNonceBitmap, reserveNonce } from "./utils/permit-nonces.js";
+import { getDeadlinePolicy } from "./utils/relay-policy.js";
+
+// Fresh Permit2 nonces for gasless swaps. Permit2's signature-transfer nonces
+// are unordered: bit `nonce & 0xff` of word `nonce >> 8` in nonceBitmap(user, word)
+// is set once the nonce is spent. We hand out the lowest unset bit and reserve
+// it for a few minutes, so two tabs signing at once don't pick the same one.
+// Anyone can ask for any wallet, so reservations are capped per wallet and
+// requests per client IP; a capped wallet's app falls back to a random nonce.
+
+const RESERVATION_SECONDS = 5 * 60; // Long enough to sign and submit; unused nonces free up after
+const MAX_WORDS_SCANNED = 16;
+const MAX_CLAIM_ATTEMPTS = 4; // Claims only lose to a request racing for the same nonce
+const MAX_RESERVATIONS_PER_WALLET = 10; // Per RESERVATION_SECONDS
+const MAX_REQUESTS_PER_IP = 30; // Per IP_WINDOW_SECONDS
+const IP_WINDOW_SECONDS = 60;
+
+function getClientIp(req) {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (typeof forwarded === "string" && forwarded.length > 0) {
+    return forwarded.split(",")[0].trim();
+  }
+  return req.socket?.remoteAddress || "unknown";
+}
+
+/**
+ * Lowest nonce that is unspent on-chain and not reserved by another request.
+ */
+async function findUnusedNonce(user) {
+  let attempts = 0;
+  for (let word = 0n; word < BigInt(MAX_WORDS_SCANNED); word += 1n) {
+    const bitmap = await readNonceBitmap(user, word);
+    if (bitmap === ethers.MaxUint256) continue;
+    const unspent = [];
+    for (let bit = 0n; bit < 256n; bit += 1n) {
+      if (!((bitmap >> bit) & 1n)) unspent.push((word << 8n) | bit);
+    }
+
+    const reserved = await getReservedNonces(user, unspent);
+    for (const nonce of unspent) {
+      if (reserved.has(nonce)) continue;
+      if (await reserveNonce(user, nonce, RESERVATION_SECONDS)) return { nonce, word, bit: nonce & 0xffn };
+      if (++attempts >= MAX_CLAIM_ATTEMPTS) return null;
+    }
+  }
+  return null;
+}
+
+export default async function handler(req, res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "GET") return res.status(405).json({ error: "method not allowed" });
+
+  const user = req.query?.user;
+  if (!ethers.isAddress(user)) return res.status(400).json({ error: "invalid user" });
+
+  try {
+    if ((await countNonceRequest(`ip:${getClientIp(req)}`, IP_WINDOW_SECONDS)) > MAX_REQUESTS_PER_IP) {
+      return res.status(429).json({ error: "too many nonce requests; try again in a minute" });
+    }
+    if ((await countNonceRequest(`wallet:${user}`, RESERVATION_SECONDS)) > MAX_RESERVATIONS_PER_WALLET) {
+      return res.status(429).json({ error: "too many nonces reserved for this wallet; try again in a few minutes" });
+    }
+
+    const found = await findUnusedNonce(user.toLowerCase());
+    if (!found) {
+      return res.status(409).json({ error: "no unused nonce available; try again in a few minutes" });
+    }
+
+    const policy = getDeadlinePolicy();
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    res.setHeader("Cache-Control", "no-store");
+    res.json({
+      nonce: found.nonce.toString(),
+      word: found.word.toString(),
+      bit: Number(found.bit),
+      reservedUntil: Date.now() + RESERVATION_SECONDS * 1000,
+      // Permit and segment deadlines must fall inside [earliestDeadline, latestDeadline]
+      earliestDeadline: nowSeconds + policy.minSeconds,
+      latestDeadline: nowSeconds + policy.maxSeconds,
+      // Limit orders rest longer; their permit deadline is the order expiry
+      latestOrderExpiry: nowSeconds + policy.maxOrderSeconds,
+    });
+  } catch (err) {
+    res.status(502).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
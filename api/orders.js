@@ -0,0 +1,191 @@
+import { ethers } from "ethers";
+import { CONTRACT_ADDRESS } from "./relay.js";
+import { NATIVE_USDC_ADDRESS } from "./utils/chain-config.js";
+import { createOrder, getOrder, getUserOrders, lockOrder, unlockOrder, updateOrder } from "./utils/order-store.js";
+import { holdNonce, isNonceSpent } from "./utils/permit-nonces.js";
+import { RelayPolicyError, checkOrderSignature, checkPermitSignature, checkSponsoredTrade, getDeadlinePolicy } from "./utils/relay-policy.js";
+import { providers } from "./utils/relayer-pool.js";
+
+// Off-chain limit orders. The user signs a Permit2 permit for the full input
+// with the order expiry as its deadline, plus an EIP-712 order over the terms
+// the permit doesn't cover (tokenOut, minOut); /api/orders/watch fills the
+// order through the relayer once a route pays at least minOut.
+//
+// GET ?user=0x…                           the wallet's orders
+// POST { user, tokenIn, tokenOut, amountIn, minOut, expiry, permitNonce, permitSig, orderSig }
+// DELETE { user, id, signature }           signature is personal_sign of getCancelMessage(id)
+
+const MIN_ORDER_SECONDS = 5 * 60;
+const MAX_ACTIVE_ORDERS_PER_USER = 20;
+
+/**
+ * Same text as getLimitOrderCancelMessage in client/src/lib/limit-orders.ts.
+ */
+function getCancelMessage(id) {
+  return `Cancel Achswap limit order ${id}`;
+}
+
+// The signatures stay server-side; anyone holding the permit could spend the input
+function toPublicOrder(order) {
+  const { permitSig, orderSig, ...rest } = order;
+  return rest;
+}
+
+function toBigInt(value, field) {
+  try {
+    return BigInt(value);
+  } catch {
+    throw new Error(`invalid ${field}`);
+  }
+}
+
+async function handleList(req, res) {
+  const user = req.query?.user;
+  if (!ethers.isAddress(user)) return res.status(400).json({ error: "invalid user" });
+
+  const orders = await getUserOrders(user);
+  res.setHeader("Cache-Control", "no-store");
+  res.json({ orders: orders.map(toPublicOrder) });
+}
+
+async function handleCreate(req, res) {
+  const { user, tokenIn, tokenOut, amountIn, minOut, expiry, permitNonce, permitSig, orderSig } = req.body ?? {};
+  if (!user || !tokenIn || !tokenOut || amountIn == null || minOut == null || expiry == null || permitNonce == null || !permitSig || !orderSig) {
+    return res.status(400).json({ error: "missing required parameters" });
+  }
+  if (!ethers.isAddress(user) || !ethers.isAddress(tokenIn) || !ethers.isAddress(tokenOut)) {
+    return res.status(400).json({ error: "invalid address" });
+  }
+  if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) {
+    return res.status(400).json({ error: "tokenIn and tokenOut must differ" });
+  }
+  // Routes pay out pool tokens; USDC proceeds arrive as wUSDC
+  if (tokenOut.toLowerCase() === NATIVE_USDC_ADDRESS) {
+    return res.status(400).json({ error: "use wUSDC as tokenOut for USDC orders" });
+  }
+
+  let parsed;
+  try {
+    parsed = {
+      amountIn: toBigInt(amountIn, "amountIn"),
+      minOut: toBigInt(minOut, "minOut"),
+      expiry: Number(toBigInt(expiry, "expiry")),
+      permitNonce: toBigInt(permitNonce, "permitNonce"),
+    };
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
+  if (parsed.amountIn <= 0n || parsed.minOut <= 0n) {
+    return res.status(400).json({ error: "amountIn and minOut must be positive" });
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const { maxOrderSeconds } = getDeadlinePolicy();
+  if (parsed.expiry < nowSeconds + MIN_ORDER_SECONDS) {
+    return res.status(400).json({ error: `expiry must be at least ${MIN_ORDER_SECONDS / 60} minutes away` });
+  }
+  if (parsed.expiry > nowSeconds + maxOrderSeconds) {
+    return res.status(400).json({ error: `expiry must be within ${maxOrderSeconds / 86400} days` });
+  }
+
+  try {
+    // The permit is what the watcher will spend, so it has to be valid for exactly this order
+    checkPermitSignature(
+      { user, tokenIn, totalAmountIn: parsed.amountIn, permitNonce: parsed.permitNonce, permitDeadline: BigInt(parsed.expiry), permitSig },
+      CONTRACT_ADDRESS,
+    );
+    // ...and the order signature is what keeps anyone from filling it into another token or price
+    checkOrderSignature({ user, tokenIn, tokenOut, amountIn: parsed.amountIn, minOut: parsed.minOut, expiry: parsed.expiry, permitNonce: parsed.permitNonce, orderSig }, CONTRACT_ADDRESS);
+    await checkSponsoredTrade(providers[0], tokenIn, parsed.amountIn);
+
+    if (await isNonceSpent(user, parsed.permitNonce)) {
+      return res.status(409).json({ error: "permit nonce has already been used" });
+    }
+    const active = (await getUserOrders(user)).filter((order) => order.status === "open" || order.status === "filling");
+    if (active.length >= MAX_ACTIVE_ORDERS_PER_USER) {
+      return res.status(429).json({ error: `at most ${MAX_ACTIVE_ORDERS_PER_USER} open orders per wallet` });
+    }
+
+    const { created, order } = await createOrder({
+      user: user.toLowerCase(),
+      tokenIn: tokenIn.toLowerCase(),
+      tokenOut: tokenOut.toLowerCase(),
+      amountIn: parsed.amountIn.toString(),
+      minOut: parsed.minOut.toString(),
+      expiry: parsed.expiry,
+      permitNonce: parsed.permitNonce.toString(),
+      permitSig,
+      orderSig,
+    });
+    if (!created) {
+      return res.status(409).json({ error: "an order already uses this permit nonce", order: toPublicOrder(order) });
+    }
+
+    // Keep /api/nonce from handing the nonce to another swap while the order rests
+    await holdNonce(user, parsed.permitNonce, parsed.expiry - nowSeconds);
+    res.status(201).json({ order: toPublicOrder(order) });
+  } catch (err) {
+    if (err instanceof RelayPolicyError) {
+      return res.status(err.status).json({ error: err.message, code: err.code, ...err.details });
+    }
+    res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+async function handleCancel(req, res) {
+  const { user, id, signature } = req.body ?? {};
+  if (!ethers.isAddress(user) || typeof id !== "string" || typeof signature !== "string") {
+    return res.status(400).json({ error: "missing required parameters" });
+  }
+
+  let signer;
+  try {
+    signer = ethers.verifyMessage(getCancelMessage(id.toLowerCase()), signature);
+  } catch {
+    return res.status(400).json({ error: "signature is malformed" });
+  }
+  if (signer.toLowerCase() !== user.toLowerCase()) {
+    return res.status(403).json({ error: "cancellation was not signed by user" });
+  }
+
+  const order = await getOrder(id.toLowerCase());
+  if (!order || order.user !== user.toLowerCase()) return res.status(404).json({ error: "unknown order" });
+  if (order.status === "filling") {
+    return res.status(409).json({ error: "order is being filled", order: toPublicOrder(order) });
+  }
+  if (order.status !== "open") {
+    return res.status(409).json({ error: `order is already ${order.status}`, order: toPublicOrder(order) });
+  }
+
+  // The watcher holds the lock while it submits a fill; re-read once it's ours
+  if (!(await lockOrder(order.id))) {
+    return res.status(409).json({ error: "order is being filled", order: toPublicOrder(order) });
+  }
+  try {
+    const current = await getOrder(order.id);
+    if (current?.status !== "open") {
+      return res.status(409).json({ error: `order is already ${current?.status ?? "gone"}`, order: current ? toPublicOrder(current) : null });
+    }
+    // The signed permit itself stays valid until expiry; revoking it on-chain is up to the user
+    const cancelled = await updateOrder(order.id, { status: "cancelled" });
+    res.json({ order: toPublicOrder(cancelled) });
+  } finally {
+    await unlockOrder(order.id);
+  }
+}
+
+export default async function handler(req, res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  if (req.method === "OPTIONS") return res.status(200).end();
+
+  try {
+    if (req.method === "GET") return await handleList(req, res);
+    if (req.method === "POST") return await handleCreate(req, res);
+    if (req.method === "DELETE") return await handleCancel(req, res);
+  } catch (err) {
+    return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+  res.status(405).json({ error: "method not allowed" });
+}
@@ -0,0 +1,163 @@
+import { ethers } from "ethers";
+import { CONTRACT_ADDRESS, getRefreshedRelayRecord, submitRelayRequest } from "../relay.js";
+import { buildOrderSegment, quoteOrder } from "../utils/order-router.js";
+import { getActiveOrders, getOrder, lockOrder, unlockOrder, updateOrder } from "../utils/order-store.js";
+import { isNonceSpent } from "../utils/permit-nonces.js";
+import { RelayPolicyError, checkOrderSignature, getDeadlinePolicy } from "../utils/relay-policy.js";
+import { getErrorMessage, providers, withReadProvider } from "../utils/relayer-pool.js";
+
+// Limit-order watcher, run by Vercel cron every minute. Re-quotes open orders
+// and submits the ones whose best route pays at least minOut through the
+// relay, then follows in-flight fills to mined or back to open. Only requests
+// carrying CRON_SECRET as a bearer token are served, and the route refuses to
+// run when it isn't set.
+
+const MAX_ORDERS_PER_RUN = 25;
+const RUN_BUDGET_MS = 45_000; // Leave headroom under the function's maxDuration
+const FILL_DEADLINE_SECONDS = 5 * 60; // Segment deadline for a fill; the permit runs to the order expiry
+const MAX_FILL_ATTEMPTS = 10; // Fills that keep failing simulation stop being retried
+
+// Relay rejections no later run can fix
+const PERMANENT_RELAY_CODES = ["INVALID_SIGNATURE", "TOKEN_NOT_ALLOWED", "NOTIONAL_TOO_SMALL", "NOTIONAL_TOO_LARGE"];
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+/**
+ * tokenOut the fill delivered to the user, summed from the receipt's Transfer logs.
+ * Shared with the DCA watcher, whose orders carry the same user and tokenOut.
+ */
+export async function readFillAmount(txHash, order) {
+  const receipt = await withReadProvider((provider) => provider.getTransactionReceipt(txHash));
+  if (!receipt) return null;
+  const userTopic = ethers.zeroPadValue(order.user, 32).toLowerCase();
+  return receipt.logs
+    .filter((log) => log.address.toLowerCase() === order.tokenOut && log.topics[0] === TRANSFER_TOPIC && log.topics[2]?.toLowerCase() === userTopic)
+    .reduce((sum, log) => sum + BigInt(log.data), 0n)
+    .toString();
+}
+
+async function followFill(order, nowSeconds) {
+  const relay = order.relayId ? await getRefreshedRelayRecord(order.relayId) : null;
+  if (relay?.state === "mined") {
+    const amountOut = await readFillAmount(relay.txHash, order).catch(() => null);
+    await updateOrder(order.id, { status: "filled", txHash: relay.txHash, amountOut, error: null });
+    return "filled";
+  }
+  if (relay && relay.state !== "failed" && relay.state !== "replaced") return "filling";
+
+  // The fill didn't land (or its record is gone); the permit is reusable unless its nonce was spent
+  if (!relay && (await isNonceSpent(order.user, order.permitNonce))) {
+    await updateOrder(order.id, { status: "filled", error: null });
+    return "filled";
+  }
+  const status = order.expiry <= nowSeconds ? "expired" : "open";
+  await updateOrder(order.id, { status, relayId: null, txHash: null, error: relay?.error ?? "fill was not confirmed" });
+  return status;
+}
+
+async function tryFill(order, nowSeconds, maxOrderSeconds) {
+  const { minSeconds } = getDeadlinePolicy();
+  if (order.expiry <= nowSeconds + minSeconds) {
+    await updateOrder(order.id, { status: "expired" });
+    return "expired";
+  }
+  if (await isNonceSpent(order.user, order.permitNonce)) {
+    await updateOrder(order.id, { status: "cancelled", error: "permit nonce was used or revoked" });
+    return "cancelled";
+  }
+
+  // Only quote and relay the terms the user signed, whatever the store says
+  try {
+    checkOrderSignature(order, CONTRACT_ADDRESS);
+  } catch (err) {
+    if (!(err instanceof RelayPolicyError)) throw err;
+    await updateOrder(order.id, { status: "failed", error: err.message });
+    return "failed";
+  }
+
+  const quote = await withReadProvider((provider) => quoteOrder(provider, order));
+  const checked = { lastQuote: quote ? quote.amountOut.toString() : null, lastCheckedAt: Date.now() };
+  if (!quote || quote.amountOut < BigInt(order.minOut)) {
+    await updateOrder(order.id, checked);
+    return "open";
+  }
+
+  // Hold the order while submitting so a cancel can't land between the check and the fill
+  if (!(await lockOrder(order.id))) return "open";
+  try {
+    // A cancel may have landed while quoting
+    const current = await getOrder(order.id);
+    if (current?.status !== "open") return current?.status ?? "open";
+    return await submitFill(order, quote, checked, nowSeconds, maxOrderSeconds);
+  } finally {
+    await unlockOrder(order.id);
+  }
+}
+
+async function submitFill(order, quote, checked, nowSeconds, maxOrderSeconds) {
+  const segment = buildOrderSegment(quote, BigInt(order.amountIn), BigInt(order.minOut), Math.min(order.expiry, nowSeconds + FILL_DEADLINE_SECONDS));
+  const { status, body } = await submitRelayRequest(
+    {
+      user: order.user,
+      tokenIn: order.tokenIn,
+      totalAmountIn: order.amountIn,
+      permitNonce: order.permitNonce,
+      permitDeadline: order.expiry,
+      permitSig: order.permitSig,
+      segment,
+    },
+    { maxPermitSeconds: maxOrderSeconds },
+  );
+
+  const attempts = order.attempts + 1;
+  if (status === 200 || status === 202) {
+    await updateOrder(order.id, { ...checked, status: "filling", relayId: body.idempotencyKey, txHash: body.txHash, attempts, error: null });
+    return "filling";
+  }
+
+  const permanent = PERMANENT_RELAY_CODES.includes(body.code) || (status === 400 && !body.code) || attempts >= MAX_FILL_ATTEMPTS;
+  await updateOrder(order.id, { ...checked, status: permanent ? "failed" : "open", attempts, error: body.error });
+  return permanent ? "failed" : "open";
+}
+
+export default async function handler(req, res) {
+  if (req.method !== "GET") return res.status(405).json({ error: "method not allowed" });
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return res.status(500).json({ error: "CRON_SECRET is not set" });
+  if (req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: "unauthorized" });
+  }
+  if (providers.length === 0) return res.status(503).json({ error: "no RPC configured" });
+
+  const startedAt = Date.now();
+  const { maxOrderSeconds } = getDeadlinePolicy();
+  const summary = { checked: 0, skipped: 0, open: 0, filling: 0, filled: 0, expired: 0, cancelled: 0, failed: 0 };
+
+  try {
+    // Least recently checked first, so a long book is worked through across runs
+    const orders = (await getActiveOrders())
+      .sort((a, b) => (a.lastCheckedAt ?? 0) - (b.lastCheckedAt ?? 0))
+      .slice(0, MAX_ORDERS_PER_RUN);
+
+    for (const order of orders) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) {
+        summary.skipped += 1;
+        continue;
+      }
+      const nowSeconds = Math.floor(Date.now() / 1000);
+      try {
+        const outcome = order.status === "filling" ? await followFill(order, nowSeconds) : await tryFill(order, nowSeconds, maxOrderSeconds);
+        summary[outcome] = (summary[outcome] ?? 0) + 1;
+      } catch (err) {
+        // RPC trouble on one order shouldn't stop the rest
+        console.warn(`[orders] Order ${order.id} check failed:`, getErrorMessage(err));
+        summary.open += 1;
+      }
+      summary.checked += 1;
+    }
+
+    res.json(summary);
+  } catch (err) {
+    res.status(500).json({ error: getErrorMessage(err) });
+  }
+}
@@ -1,289 +1,478 @@
 import { ethers } from "ethers";
+import { SEGMENT_KIND } from "./utils/chain-config.js";
+import { RWA_SEGMENTS_ENABLED, RelayPolicyError, checkSignedRequest, checkTradePolicy, decodeExecutionError, getRevertData, isRwaSegmentKind } from "./utils/relay-policy.js";
+import {
+  TERMINAL_RELAY_STATES,
+  claimRelayRecord,
+  getBroadcastRelayRecords,
+  getIdempotencyKey,
+  getRelayRecord,
+  isValidIdempotencyKey,
+  releaseRelayRecord,
+  updateRelayRecord,
+} from "./utils/relay-store.js";
+import {
+  acquireRelayer,
+  ensureProviderReady,
+  getErrorMessage,
+  getFeeOverrides,
+  getNextNonce,
+  isInsufficientFundsError,
+  isRetryableError,
+  markNonceFailure,
+  markNonceSuccess,
+  providers,
+  relayerAccounts,
+  releaseRelayer,
+  replaceStuckTransaction,
+  sleep,
+  withReadProvider,
+} from "./utils/relayer-pool.js";
+import { chargeSponsoredGas, getMaxGasCost, releaseSponsoredSwap, reserveSponsoredSwap } from "./utils/relay-sponsorship.js";
 
 const ABI = [
-  "function execute(address user, address tokenIn, uint256 totalAmountIn, uint256 permitNonce, uint256 permitDeadline, bytes permitSig, (uint8 kind, uint256 amountIn, uint256 amountOutMin, uint256 deadline, bytes params) segment)"
+  "function execute(address user, address tokenIn, uint256 totalAmountIn, uint256 permitNonce, uint256 permitDeadline, bytes permitSig, (uint8 kind, uint256 amountIn, uint256 amountOutMin, uint256 deadline, bytes params) segment)",
+  "function executeSplit(address user, address tokenIn, uint256 totalAmountIn, uint256 permitNonce, uint256 permitDeadline, bytes permitSig, (uint8 kind, uint256 amountIn, uint256 amountOutMin, uint256 deadline, bytes params)[] segments)"
 ];
 
-const CONTRACT_ADDRESS = "0x32a484dfFB67F4aABB14048248E1DC31F40FF957";
-const RPC_URLS = [
-  process.env.RELAYER_RPC_URL,
-  "https://arc-testnet.drpc.org",
-  "https://rpc.testnet.arc.network",
-].filter((v, idx, arr) => typeof v === "string" && v.length > 0 && arr.indexOf(v) === idx);
+const contractInterface = new ethers.Interface(ABI);
 
-const providers = RPC_URLS.map((url) => new ethers.JsonRpcProvider(url));
-const providerReadyByIndex = new Map();
+const VALID_SEGMENT_KINDS = Object.values(SEGMENT_KIND);
+const MAX_SPLIT_SEGMENTS = 8;
+const REUSABLE_RELAY_STATES = ["failed", "replaced"]; // The permit nonce is still unspent
 
-let relayerWallets = [];
-let contracts = [];
+export const CONTRACT_ADDRESS = "0x32a484dfFB67F4aABB14048248E1DC31F40FF957";
 
-if (process.env.RELAYER_PRIVATE_KEY) {
-  relayerWallets = providers.map((provider) => new ethers.Wallet(process.env.RELAYER_PRIVATE_KEY, provider));
-  contracts = relayerWallets.map((wallet) => new ethers.Contract(CONTRACT_ADDRESS, ABI, wallet));
+function toBigInt(value, field) {
+  try {
+    return BigInt(value);
+  } catch {
+    throw new Error(`invalid ${field}`);
+  }
 }
 
-const nonceStateByWallet = new Map();
-const nonceLockByWallet = new Map();
+function getExecuteArgs(payload) {
+  const common = [
+    payload.user,
+    payload.tokenIn,
+    payload.totalAmountIn,
+    payload.permitNonce,
+    payload.permitDeadline,
+    payload.permitSig,
+  ];
+  return payload.segments ? { method: "executeSplit", args: [...common, payload.segments] } : { method: "execute", args: [...common, payload.segment] };
+}
 
-async function withNonceLock(walletAddress, task) {
-  const key = walletAddress.toLowerCase();
-  const previous = nonceLockByWallet.get(key) ?? Promise.resolve();
+/**
+ * eth_call the request from the relayer address so reverts surface before any
+ * gas is spent. Transport failures move on to the next RPC.
+ */
+async function simulateExecute(payload, from) {
+  const { method, args } = getExecuteArgs(payload);
+  const data = contractInterface.encodeFunctionData(method, args);
+  let lastError = null;
 
-  let release;
-  const current = new Promise((resolve) => {
-    release = resolve;
-  });
+  for (let idx = 0; idx < providers.length; idx += 1) {
+    try {
+      await providers[idx].call({ from, to: CONTRACT_ADDRESS, data });
+      return;
+    } catch (err) {
+      const revertData = getRevertData(err);
+      if (revertData !== null) {
+        const reason = decodeExecutionError(revertData);
+        throw new RelayPolicyError("SIMULATION_REVERTED", `swap would revert: ${reason}`, 422, { reason, revertData });
+      }
+      lastError = err;
+    }
+  }
 
-  const lock = previous.then(() => current);
-  nonceLockByWallet.set(key, lock);
+  throw lastError;
+}
+
+/**
+ * Send from the least-loaded relayer account, retrying transient RPC errors
+ * across providers. An account that runs out of gas hands the request to the
+ * next one instead of failing it.
+ */
+async function sendExecuteWithRetry(payload) {
+  const { method, args } = getExecuteArgs(payload);
+  const exhausted = [];
+  let account = await acquireRelayer();
+
+  let lastError = null;
 
-  await previous;
   try {
-    return await task();
-  } finally {
-    release();
-    if (nonceLockByWallet.get(key) === lock) {
-      nonceLockByWallet.delete(key);
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      const idx = attempt % providers.length;
+      const provider = providers[idx];
+      const wallet = account.signers[idx];
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, ABI, wallet);
+      let nonce = null;
+
+      try {
+        await ensureProviderReady(provider, idx);
+        const feeOverrides = await getFeeOverrides(provider, attempt);
+        nonce = await getNextNonce(provider, wallet.address);
+
+        const txRequest = await contract[method].populateTransaction(...args);
+
+        let gasLimit;
+        try {
+          const estimatedGas = await provider.estimateGas({
+            ...txRequest,
+            from: wallet.address,
+          });
+          gasLimit = (estimatedGas * 130n) / 100n + 25_000n;
+        } catch {
+          gasLimit = 2_400_000n;
+        }
+
+        const tx = await contract[method](...args, {
+          ...feeOverrides,
+          gasLimit,
+          nonce,
+        });
+
+        await markNonceSuccess(wallet.address, nonce);
+
+        return tx;
+      } catch (err) {
+        lastError = err;
+        if (nonce !== null) {
+          await markNonceFailure(provider, wallet.address, nonce, err);
+        }
+        if (isInsufficientFundsError(err) && exhausted.length + 1 < relayerAccounts.length && attempt < 4) {
+          console.warn(`[relay] ${wallet.address} is out of gas; switching relayer`);
+          exhausted.push(account);
+          releaseRelayer(account);
+          account = await acquireRelayer(exhausted);
+          continue;
+        }
+        const message = getErrorMessage(err);
+        if (!isRetryableError(message) || attempt === 4) {
+          break;
+        }
+        await sleep(150 * (attempt + 1));
+      }
     }
+  } finally {
+    releaseRelayer(account);
   }
-}
 
-async function getNextNonce(provider, walletAddress) {
-  return withNonceLock(walletAddress, async () => {
-    const key = walletAddress.toLowerCase();
-    const state = nonceStateByWallet.get(key) ?? { nextNonce: null };
+  throw lastError;
+}
 
-    const pending = BigInt(await provider.getTransactionCount(walletAddress, "pending"));
-    if (state.nextNonce === null || state.nextNonce < pending) {
-      state.nextNonce = pending;
-    }
+function isValidSegment(segment) {
+  return (
+    segment != null &&
+    segment.kind != null &&
+    segment.amountIn != null &&
+    segment.amountOutMin != null &&
+    segment.deadline != null &&
+    !!segment.params
+  );
+}
 
-    const nonce = state.nextNonce;
-    state.nextNonce = nonce + 1n;
-    nonceStateByWallet.set(key, state);
-    return nonce;
-  });
+function parseSegment(segment, field) {
+  return {
+    kind: toBigInt(segment.kind, `${field}.kind`),
+    amountIn: toBigInt(segment.amountIn, `${field}.amountIn`),
+    amountOutMin: toBigInt(segment.amountOutMin, `${field}.amountOutMin`),
+    deadline: toBigInt(segment.deadline, `${field}.deadline`),
+    params: segment.params,
+  };
 }
 
-async function markNonceSuccess(walletAddress, nonce) {
-  await withNonceLock(walletAddress, async () => {
-    const key = walletAddress.toLowerCase();
-    const state = nonceStateByWallet.get(key) ?? { nextNonce: null };
-    const expectedNext = nonce + 1n;
-    if (state.nextNonce === null || state.nextNonce < expectedNext) {
-      state.nextNonce = expectedNext;
-    }
-    nonceStateByWallet.set(key, state);
-  });
+/**
+ * Bring the gas charged to the user's daily budget in line with `costWei` and
+ * return the record fields to store. Broadcast charges the worst case; the
+ * receipt settles it to what was actually paid.
+ */
+async function settleSponsoredGas(record, costWei) {
+  if (!record.sponsorDay || record.gasCharged == null) return {};
+  await chargeSponsoredGas({ day: record.sponsorDay, user: record.user }, costWei - BigInt(record.gasCharged));
+  return { gasCharged: costWei.toString() };
 }
 
-async function markNonceFailure(provider, walletAddress, nonce, err) {
-  await withNonceLock(walletAddress, async () => {
-    const key = walletAddress.toLowerCase();
-    const state = nonceStateByWallet.get(key) ?? { nextNonce: null };
-    const message = getErrorMessage(err);
-    const retryable = isRetryableError(message);
+/**
+ * Move a broadcast record to mined/failed once a receipt exists, or to replaced
+ * when the relayer nonce it used was consumed by a different transaction. With
+ * `replaceStuck` (the relayer's sweep only, never a status request), a
+ * transaction that has been pending too long is re-sent with bumped fees and
+ * the new hash is recorded alongside the old ones.
+ */
+async function refreshRelayRecord(record, { replaceStuck = false } = {}) {
+  if (record.state !== "broadcast" || !record.txHash) return record;
+
+  return withReadProvider(async (provider) => {
+    const findReceipt = async () => {
+      for (const txHash of [...record.txHashes].reverse()) {
+        const receipt = await provider.getTransactionReceipt(txHash);
+        if (receipt) return receipt;
+      }
+      return null;
+    };
+
+    const receipt = await findReceipt();
+    if (receipt) {
+      const gas = await settleSponsoredGas(record, receipt.gasUsed * receipt.gasPrice);
+      return updateRelayRecord(record.id, receipt.status === 1
+        ? { state: "mined", txHash: receipt.hash, blockNumber: receipt.blockNumber, ...gas }
+        : { state: "failed", txHash: receipt.hash, blockNumber: receipt.blockNumber, error: "transaction reverted", ...gas });
+    }
 
-    try {
-      const pending = BigInt(await provider.getTransactionCount(walletAddress, "pending"));
-      state.nextNonce = retryable ? (pending > nonce ? pending : nonce + 1n) : pending;
-    } catch {
-      state.nextNonce = retryable ? nonce + 1n : nonce;
+    if (record.relayer && record.relayerNonce != null) {
+      const confirmedNonce = await provider.getTransactionCount(record.relayer, "latest");
+      if (confirmedNonce > record.relayerNonce) {
+        // Re-check: the receipt may have landed between the two reads
+        if (!(await findReceipt())) {
+          const gas = await settleSponsoredGas(record, 0n);
+          return updateRelayRecord(record.id, { state: "replaced", error: "relayer nonce was used by another transaction", ...gas });
+        }
+        return record;
+      }
     }
 
-    nonceStateByWallet.set(key, state);
+    if (!replaceStuck) return record;
+    const replacement = await replaceStuckTransaction(record.txHash, record.broadcastAt ?? record.updatedAt);
+    if (replacement) {
+      const gas = await settleSponsoredGas(record, getMaxGasCost(replacement));
+      return updateRelayRecord(record.id, { txHash: replacement.hash, broadcastAt: Date.now(), ...gas });
+    }
+    return record;
   });
 }
 
-function toBigInt(value, field) {
+/**
+ * The stored relay record for `id`, refreshed against the chain when it is
+ * still in flight. Read-only towards the chain: it never re-sends anything.
+ * Null for unknown ids.
+ */
+export async function getRefreshedRelayRecord(id) {
+  const record = await getRelayRecord(id);
+  if (!record) return null;
   try {
-    return BigInt(value);
-  } catch {
-    throw new Error(`invalid ${field}`);
+    return await refreshRelayRecord(record);
+  } catch (err) {
+    console.warn("[relay] Status refresh failed:", getErrorMessage(err));
+    return record;
   }
 }
 
-function getErrorMessage(err) {
-  if (!err) return "unknown error";
-  if (typeof err === "string") return err;
-  if (err.shortMessage) return String(err.shortMessage);
-  if (err.message) return String(err.message);
-  return JSON.stringify(err);
-}
-
-function isRetryableError(message) {
-  const text = String(message || "").toLowerCase();
-  return (
-    text.includes("nonce too low") ||
-    text.includes("replacement transaction underpriced") ||
-    text.includes("already known") ||
-    text.includes("transaction underpriced") ||
-    text.includes("timeout") ||
-    text.includes("timed out") ||
-    text.includes("429") ||
-    text.includes("rate") ||
-    text.includes("network") ||
-    text.includes("failed to detect network") ||
-    text.includes("server error") ||
-    text.includes("internal server error") ||
-    text.includes("temporarily") ||
-    text.includes("header not found")
-  );
+/**
+ * Refresh every broadcast record and re-send the stuck ones with bumped fees.
+ * Run by /api/relay/sweep; stops starting new records once `budgetMs` is spent.
+ */
+export async function sweepBroadcastRelays(budgetMs) {
+  const startedAt = Date.now();
+  const summary = { checked: 0, skipped: 0, broadcast: 0, mined: 0, failed: 0, replaced: 0 };
+  for (const record of await getBroadcastRelayRecords()) {
+    if (Date.now() - startedAt > budgetMs) {
+      summary.skipped += 1;
+      continue;
+    }
+    try {
+      const refreshed = await refreshRelayRecord(record, { replaceStuck: true });
+      summary[refreshed.state] = (summary[refreshed.state] ?? 0) + 1;
+    } catch (err) {
+      console.warn(`[relay] Sweep of ${record.id} failed:`, getErrorMessage(err));
+      summary.broadcast += 1;
+    }
+    summary.checked += 1;
+  }
+  return summary;
 }
 
-async function sleep(ms) {
-  await new Promise((resolve) => setTimeout(resolve, ms));
+function toStatusResponse(record) {
+  return {
+    idempotencyKey: record.id,
+    status: record.state,
+    txHash: record.txHash,
+    txHashes: record.txHashes,
+    error: record.error,
+    updatedAt: record.updatedAt,
+  };
 }
 
-async function getFeeOverrides(provider, attempt) {
-  const feeData = await provider.getFeeData();
-  const bumpPct = 140n + BigInt(attempt) * 20n;
-
-  if (feeData.maxFeePerGas !== null || feeData.maxPriorityFeePerGas !== null) {
-    const basePriority = feeData.maxPriorityFeePerGas ?? 1_500_000_000n;
-    const baseMax = feeData.maxFeePerGas ?? (feeData.gasPrice !== null ? feeData.gasPrice * 2n : basePriority * 2n);
-    const maxPriorityFeePerGas = (basePriority * bumpPct) / 100n + 1n;
-    const bumpedMax = (baseMax * bumpPct) / 100n + 1n;
-    const minMax = maxPriorityFeePerGas * 2n;
-    const maxFeePerGas = bumpedMax > minMax ? bumpedMax : minMax;
-    return { maxFeePerGas, maxPriorityFeePerGas };
+async function handleStatus(req, res) {
+  const id = req.query?.id;
+  if (!isValidIdempotencyKey(id)) {
+    return res.status(400).json({ error: "invalid id" });
   }
 
-  if (feeData.gasPrice !== null) {
-    return { gasPrice: (feeData.gasPrice * bumpPct) / 100n + 1n };
-  }
+  const record = await getRefreshedRelayRecord(id.toLowerCase());
+  if (!record) return res.status(404).json({ error: "unknown relay request" });
 
-  return {};
+  res.setHeader("Cache-Control", "no-store");
+  res.json(toStatusResponse(record));
 }
 
-async function ensureProviderReady(provider, idx) {
-  if (providerReadyByIndex.get(idx)) return;
-  await provider.getNetwork();
-  providerReadyByIndex.set(idx, true);
-}
+/**
+ * Validate, claim, police and broadcast one relay request. Shared by the POST
+ * handler and the limit-order watcher, which passes a longer maxPermitSeconds
+ * because an order's permit lives until the order expires. Resolves to the
+ * HTTP status and JSON body to answer with.
+ */
+export async function submitRelayRequest(body, { maxPermitSeconds } = {}) {
+  if (relayerAccounts.length === 0) {
+    return { status: 503, body: { error: "relayer not configured" } };
+  }
 
-async function sendExecuteWithRetry(payload) {
-  let lastError = null;
+  try {
+    const { user, tokenIn, totalAmountIn, permitNonce, permitDeadline, permitSig, segment, segments } = body;
 
-  for (let attempt = 0; attempt < 5; attempt += 1) {
-    const idx = attempt % contracts.length;
-    const contract = contracts[idx];
-    const wallet = relayerWallets[idx];
-    const provider = providers[idx];
-    let nonce = null;
+    // `segment` goes to execute; `segments` (a split from the same input token) goes to executeSplit
+    if (!user || !tokenIn || totalAmountIn == null || permitNonce == null || permitDeadline == null || !permitSig || (!segment && !segments)) {
+      return { status: 400, body: { error: "missing required parameters" } };
+    }
+    if (segment && segments) {
+      return { status: 400, body: { error: "send either segment or segments, not both" } };
+    }
+    if (segments && (!Array.isArray(segments) || segments.length === 0 || segments.length > MAX_SPLIT_SEGMENTS)) {
+      return { status: 400, body: { error: `segments must be an array of 1 to ${MAX_SPLIT_SEGMENTS} entries` } };
+    }
 
-    try {
-      await ensureProviderReady(provider, idx);
-      const feeOverrides = await getFeeOverrides(provider, attempt);
-      nonce = await getNextNonce(provider, wallet.address);
-
-      const txRequest = await contract.execute.populateTransaction(
-        payload.user,
-        payload.tokenIn,
-        payload.totalAmountIn,
-        payload.permitNonce,
-        payload.permitDeadline,
-        payload.permitSig,
-        payload.segment,
-      );
-
-      let gasLimit;
-      try {
-        const estimatedGas = await provider.estimateGas({
-          ...txRequest,
-          from: wallet.address,
-        });
-        gasLimit = (estimatedGas * 130n) / 100n + 25_000n;
-      } catch {
-        gasLimit = 2_400_000n;
-      }
+    // Validate segments
+    const rawSegments = segments ?? [segment];
+    if (!rawSegments.every(isValidSegment)) {
+      return { status: 400, body: { error: "invalid segment" } };
+    }
 
-      const tx = await contract.execute(
-        payload.user,
-        payload.tokenIn,
-        payload.totalAmountIn,
-        payload.permitNonce,
-        payload.permitDeadline,
-        payload.permitSig,
-        payload.segment,
-        {
-          ...feeOverrides,
-          gasLimit,
-          nonce,
-        },
-      );
+    // Validate kind is one the contract executes
+    if (!rawSegments.every((s) => VALID_SEGMENT_KINDS.includes(Number(s.kind)))) {
+      return { status: 400, body: { error: "invalid segment kind" } };
+    }
+    if (!RWA_SEGMENTS_ENABLED && rawSegments.some((s) => isRwaSegmentKind(s.kind))) {
+      return { status: 400, body: { error: "the gasless contract doesn't run RWA segments yet", code: "RWA_SEGMENTS_DISABLED" } };
+    }
+    // RWA vault trades settle in native USDC on one side, so they don't split
+    if (segments && rawSegments.some((s) => isRwaSegmentKind(s.kind))) {
+      return { status: 400, body: { error: "RWA segments can't be part of a split" } };
+    }
 
-      await markNonceSuccess(wallet.address, nonce);
+    // Validate addresses
+    if (!ethers.isAddress(user) || !ethers.isAddress(tokenIn)) {
+      return { status: 400, body: { error: "invalid address" } };
+    }
 
-      return tx;
+    let parsedSegments;
+    let parsedTotal;
+    try {
+      parsedTotal = toBigInt(totalAmountIn, "totalAmountIn");
+      parsedSegments = rawSegments.map((s, i) => parseSegment(s, segments ? `segments[${i}]` : "segment"));
     } catch (err) {
-      lastError = err;
-      if (nonce !== null) {
-        await markNonceFailure(provider, wallet.address, nonce, err);
+      return { status: 400, body: { error: getErrorMessage(err) } };
+    }
+
+    // The permit covers totalAmountIn; every unit of it must be routed by some segment
+    if (segments) {
+      if (parsedSegments.some((s) => s.amountIn <= 0n)) {
+        return { status: 400, body: { error: "segment amountIn must be positive" } };
       }
-      const message = getErrorMessage(err);
-      if (!isRetryableError(message) || attempt === 4) {
-        break;
+      const segmentSum = parsedSegments.reduce((sum, s) => sum + s.amountIn, 0n);
+      if (segmentSum !== parsedTotal) {
+        return { status: 400, body: { error: `segment amounts sum to ${segmentSum}, expected totalAmountIn ${parsedTotal}` } };
       }
-      await sleep(150 * (attempt + 1));
     }
-  }
-
-  throw lastError;
-}
 
-export default async function handler(req, res) {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
-  if (req.method === "OPTIONS") return res.status(200).end();
-  if (req.method !== "POST") return res.status(405).json({ error: "method not allowed" });
-
-  if (contracts.length === 0) {
-    return res.status(503).json({ error: "relayer not configured" });
-  }
-
-  try {
-    const { user, tokenIn, totalAmountIn, permitNonce, permitDeadline, permitSig, segment } = req.body;
-
-    if (!user || !tokenIn || totalAmountIn == null || permitNonce == null || permitDeadline == null || !permitSig || !segment) {
-      return res.status(400).json({ error: "missing required parameters" });
+    let payload;
+    try {
+      payload = {
+        user,
+        tokenIn,
+        totalAmountIn: parsedTotal,
+        permitNonce: toBigInt(permitNonce, "permitNonce"),
+        permitDeadline: toBigInt(permitDeadline, "permitDeadline"),
+        permitSig,
+        ...(segments ? { segments: parsedSegments } : { segment: parsedSegments[0] }),
+      };
+    } catch (err) {
+      return { status: 400, body: { error: getErrorMessage(err) } };
     }
 
-    // Validate segment
-    if (segment.kind == null || segment.amountIn == null || segment.amountOutMin == null || segment.deadline == null || !segment.params) {
-      return res.status(400).json({ error: "invalid segment" });
+    // A permit nonce is single-use, so user + nonce identifies this swap across retries and reloads
+    const idempotencyKey = getIdempotencyKey(user, payload.permitNonce);
+    if (body.idempotencyKey != null && String(body.idempotencyKey).toLowerCase() !== idempotencyKey) {
+      return { status: 400, body: { error: "idempotencyKey does not match user and permitNonce" } };
     }
 
-    // Validate kind is 0, 1, or 2
-    const validKinds = [0, 1, 2];
-    if (!validKinds.includes(Number(segment.kind))) {
-      return res.status(400).json({ error: "invalid segment kind" });
+    // Only the permit's signer may claim its key; a forged body for someone else's
+    // user + nonce would otherwise shadow their real request as a "duplicate"
+    checkSignedRequest(payload, CONTRACT_ADDRESS, { maxPermitSeconds });
+
+    const recordFields = {
+      user: user.toLowerCase(),
+      tokenIn: tokenIn.toLowerCase(),
+      totalAmountIn: parsedTotal.toString(),
+      segmentCount: parsedSegments.length,
+    };
+    let claim = await claimRelayRecord(idempotencyKey, recordFields);
+    if (!claim.claimed && REUSABLE_RELAY_STATES.includes(claim.record.state)) {
+      // A reverted or dropped transaction leaves the Permit2 nonce unspent, and
+      // /api/nonce hands it out again; this is a new swap, not a retry
+      await releaseRelayRecord(idempotencyKey);
+      claim = await claimRelayRecord(idempotencyKey, recordFields);
+    }
+    if (!claim.claimed) {
+      // Duplicate submission: report the original instead of broadcasting again
+      const record = TERMINAL_RELAY_STATES.includes(claim.record.state) ? claim.record : await refreshRelayRecord(claim.record).catch(() => claim.record);
+      return { status: record.state === "queued" ? 202 : 200, body: { ...toStatusResponse(record), duplicate: true } };
     }
 
-    // Validate addresses
-    if (!ethers.isAddress(user) || !ethers.isAddress(tokenIn)) {
-      return res.status(400).json({ error: "invalid address" });
+    let tx;
+    let reservation = null;
+    try {
+      // Nothing is signed or broadcast until the trade passes policy, fits the
+      // wallet's daily quota and simulates cleanly
+      await checkTradePolicy(providers[0], payload);
+      reservation = await reserveSponsoredSwap(user);
+      await simulateExecute(payload, relayerAccounts[0].address);
+
+      tx = await sendExecuteWithRetry(payload);
+    } catch (err) {
+      // Never reached the chain; free the key so the same signed permit can be retried
+      await releaseRelayRecord(idempotencyKey);
+      if (reservation) await releaseSponsoredSwap(reservation);
+      throw err;
     }
 
-    const tx = await sendExecuteWithRetry({
-      user,
-      tokenIn,
-      totalAmountIn: toBigInt(totalAmountIn, "totalAmountIn"),
-      permitNonce: toBigInt(permitNonce, "permitNonce"),
-      permitDeadline: toBigInt(permitDeadline, "permitDeadline"),
-      permitSig,
-      segment: {
-        kind: toBigInt(segment.kind, "segment.kind"),
-        amountIn: toBigInt(segment.amountIn, "segment.amountIn"),
-        amountOutMin: toBigInt(segment.amountOutMin, "segment.amountOutMin"),
-        deadline: toBigInt(segment.deadline, "segment.deadline"),
-        params: segment.params,
-      },
+    // Record the broadcast before anything else can throw, so the sweep and
+    // status requests always see the transaction
+    const gasCharged = getMaxGasCost(tx);
+    const record = await updateRelayRecord(idempotencyKey, {
+      state: "broadcast",
+      txHash: tx.hash,
+      relayer: tx.from.toLowerCase(),
+      relayerNonce: tx.nonce,
+      broadcastAt: Date.now(),
+      sponsorDay: reservation.day,
+      gasCharged: gasCharged.toString(),
     });
+    try {
+      await chargeSponsoredGas(reservation, gasCharged);
+    } catch (err) {
+      // Nothing was charged; settling the receipt then charges the full cost
+      console.warn(`[relay] Gas charge for ${idempotencyKey} failed:`, getErrorMessage(err));
+      await updateRelayRecord(idempotencyKey, { gasCharged: "0" }).catch(() => {});
+    }
 
-    res.json({ txHash: tx.hash, rpc: providers.length });
+    return { status: 200, body: { ...toStatusResponse(record), rpc: providers.length } };
   } catch (err) {
-    res.status(500).json({ error: getErrorMessage(err) });
+    if (err instanceof RelayPolicyError) {
+      return { status: err.status, body: { error: err.message, code: err.code, ...err.details } };
+    }
+    return { status: 500, body: { error: getErrorMessage(err) } };
   }
 }
+
+export default async function handler(req, res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method === "GET") return handleStatus(req, res);
+  if (req.method !== "POST") return res.status(405).json({ error: "method not allowed" });
+
+  const { status, body } = await submitRelayRequest(req.body ?? {});
+  res.status(status).json(body);
+}
@@ -0,0 +1,18 @@
+import { getRelayerHealth } from "../utils/relayer-pool.js";
+
+// Relayer balances and backlog. 503 when no account can sponsor a swap, so
+// uptime checks can alert before gasless swaps start failing.
+export default async function handler(req, res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "GET") return res.status(405).json({ error: "method not allowed" });
+
+  res.setHeader("Cache-Control", "no-store");
+  const health = await getRelayerHealth();
+  if (health.configured === 0) {
+    return res.status(503).json({ ...health, error: "relayer not configured" });
+  }
+  res.status(health.ok ? 200 : 503).json(health);
+}
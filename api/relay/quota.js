@@ -0,0 +1,60 @@
+import { ethers } from "ethers";
+import { RelayPolicyError, checkSponsoredTrade } from "../utils/relay-policy.js";
+import { providers } from "../utils/relayer-pool.js";
+import { getQuotaViolation, getSponsorshipUsage } from "../utils/relay-sponsorship.js";
+
+function getRemaining(used, limit) {
+  if (!limit) return null;
+  return used >= limit ? 0n : BigInt(limit) - BigInt(used);
+}
+
+// Remaining gasless quota for a wallet, and whether a given trade would be
+// sponsored. GET ?user=0x…[&tokenIn=0x…&amountIn=<wei>]
+export default async function handler(req, res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  if (req.method === "OPTIONS") return res.status(200).end();
+  if (req.method !== "GET") return res.status(405).json({ error: "method not allowed" });
+
+  const { user, tokenIn, amountIn } = req.query ?? {};
+  if (!ethers.isAddress(user)) return res.status(400).json({ error: "invalid user" });
+  if (tokenIn != null && !ethers.isAddress(tokenIn)) return res.status(400).json({ error: "invalid tokenIn" });
+
+  let amount = null;
+  if (amountIn != null) {
+    try {
+      amount = BigInt(amountIn);
+    } catch {
+      return res.status(400).json({ error: "invalid amountIn" });
+    }
+  }
+
+  try {
+    const usage = await getSponsorshipUsage(user);
+    let violation = getQuotaViolation(usage);
+    if (!violation && tokenIn && amount !== null && amount > 0n) {
+      try {
+        await checkSponsoredTrade(providers[0], tokenIn, amount);
+      } catch (err) {
+        if (!(err instanceof RelayPolicyError)) throw err;
+        violation = err;
+      }
+    }
+
+    const walletGasRemaining = getRemaining(usage.walletGasUsed, usage.walletGasLimit);
+    res.setHeader("Cache-Control", "no-store");
+    res.json({
+      eligible: violation === null,
+      code: violation?.code ?? null,
+      reason: violation?.message ?? null,
+      swapsUsed: usage.swapsUsed,
+      swapsLimit: usage.swapsLimit || null,
+      swapsRemaining: usage.swapsLimit ? Math.max(0, usage.swapsLimit - usage.swapsUsed) : null,
+      gasRemaining: walletGasRemaining === null ? null : ethers.formatEther(walletGasRemaining),
+      resetAt: usage.resetAt,
+    });
+  } catch (err) {
+    res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
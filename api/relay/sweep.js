@@ -0,0 +1,26 @@
+import { sweepBroadcastRelays } from "../relay.js";
+import { getErrorMessage, relayerAccounts } from "../utils/relayer-pool.js";
+
+// Stuck-transaction sweep, run by Vercel cron every minute. Settles broadcast
+// relay records and re-sends the ones pending too long with bumped fees, so
+// status requests never have to touch the chain's mempool. Every run can spend
+// relayer funds, so only requests carrying CRON_SECRET as a bearer token are
+// served, and the route refuses to run when it isn't set.
+
+const RUN_BUDGET_MS = 45_000; // Leave headroom under the function's maxDuration
+
+export default async function handler(req, res) {
+  if (req.method !== "GET") return res.status(405).json({ error: "method not allowed" });
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return res.status(500).json({ error: "CRON_SECRET is not set" });
+  if (req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: "unauthorized" });
+  }
+  if (relayerAccounts.length === 0) return res.status(503).json({ error: "relayer not configured" });
+
+  try {
+    res.json(await sweepBroadcastRelays(RUN_BUDGET_MS));
+  } catch (err) {
+    res.status(500).json({ error: getErrorMessage(err) });
+  }
+}
@@ -1,4 +1,5 @@
-const STUDIO_URL = "https://api.studio.thegraph.com/query/1742338/ach/version/latest";
+import { SUBGRAPH_URL } from "./utils/chain-config.js";
+
 const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || "")
   .split(",")
   .map((v) => normalizeOrigin(v))
@@ -239,7 +240,7 @@ export default async function handler(req, res) {
   }
 
   try {
-    const upstream = await fetchWithTimeout(STUDIO_URL, {
+    const upstream = await fetchWithTimeout(SUBGRAPH_URL, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -0,0 +1,23 @@
+// Arc Testnet addresses shared by the relay, its policy checks and the limit-order
+// watcher. Client-side counterparts live in client/src/lib/contracts.ts and
+// client/src/lib/gasless-config.ts.
+
+export const CHAIN_ID = 5042002;
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+// Native USDC's ERC-20 interface; Permit2 moves it in 6 decimals while pools hold 18-decimal wUSDC
+export const NATIVE_USDC_ADDRESS = "0x3600000000000000000000000000000000000000";
+export const NATIVE_USDC_SCALE = 10n ** 12n;
+export const WUSDC_ADDRESS = "0xDe5DB9049a8dd344dC1B7Bbb098f9da60930A6dA";
+
+export const V2_ROUTER_ADDRESS = "0xB92428D440c335546b69138F7fAF689F5ba8D436";
+export const V3_QUOTER_ADDRESS = "0xcC3d26f4811B6861cD8fD2BC547629D6701c6F5F";
+export const V3_FEE_TIERS = [500, 3000, 10000];
+
+export const RWA_VAULT_ADDRESS = "0xb8dc1f767167b567227326D8849175a188A0e78C";
+export const RWA_ORACLE_ADDRESS = "0x76398cfa526D4a76EaEC0c4709d6B7C966E5ABdB";
+
+export const SUBGRAPH_URL = "https://api.studio.thegraph.com/query/1742338/ach/version/latest";
+
+// Segment kinds of the gasless contract; same values as SEGMENT_KIND in client/src/lib/gasless-swap.ts
+export const SEGMENT_KIND = { V2: 0, V3: 1, V3_MULTIHOP: 2, RWA_BUY: 3, RWA_REDEEM: 4 };
@@ -0,0 +1,145 @@
+import { addToSet, deleteKey, deserializeAndDecompress, getSetMembers, removeFromSet, serializeAndCompress, setIfAbsent } from "./redis.js";
+import { getIdempotencyKey } from "./relay-store.js";
+
+// Recurring (DCA) orders: a schedule of equal slices, each with its own signed
+// Permit2 permit, that /api/dca/watch fills as the slices come due. Keyed like
+// limit orders by user + the first slice's permit nonce. Redis when configured;
+// process memory otherwise (memory-only orders only run while the instance that
+// took them stays warm).
+
+export const DCA_ORDER_STATES = ["active", "completed", "cancelled"];
+export const DCA_SLICE_STATES = ["scheduled", "filling", "filled", "missed", "failed", "cancelled"];
+
+const ORDER_PREFIX = "dca:order:";
+const USER_PREFIX = "dca:user:";
+const ACTIVE_SET_KEY = "dca:active";
+const LOCK_PREFIX = "dca:lock:";
+const LOCK_TTL_SECONDS = 120; // Outlives the watcher's maxDuration, so a held lock is never taken over mid-fill
+const RETENTION_SECONDS = 7 * 24 * 60 * 60; // Finished orders stay listed for a week past the last slice
+const MEMORY_MAX_ENTRIES = 2000;
+
+const memoryOrders = new Map();
+const memoryLocks = new Map();
+
+function getTtlSeconds(order) {
+  const lastDeadline = order.slices[order.slices.length - 1].deadline;
+  return Math.max(0, lastDeadline - Math.floor(Date.now() / 1000)) + RETENTION_SECONDS;
+}
+
+function rememberInMemory(order) {
+  memoryOrders.delete(order.id);
+  memoryOrders.set(order.id, order);
+  while (memoryOrders.size > MEMORY_MAX_ENTRIES) {
+    memoryOrders.delete(memoryOrders.keys().next().value);
+  }
+}
+
+/**
+ * Whether the watcher still has work on an order: a slice in flight, or
+ * scheduled slices of an order that hasn't been cancelled.
+ */
+export function hasPendingSlices(order) {
+  return order.slices.some((slice) => slice.status === "filling" || (order.status === "active" && slice.status === "scheduled"));
+}
+
+export function getDcaOrderId(user, firstPermitNonce) {
+  return getIdempotencyKey(user, firstPermitNonce);
+}
+
+export async function getDcaOrder(id) {
+  const stored = await deserializeAndDecompress(ORDER_PREFIX + id);
+  return stored ?? memoryOrders.get(id) ?? null;
+}
+
+/**
+ * Store a new active order. Returns { created: false, order } with the existing
+ * order when its id is already taken.
+ */
+export async function createDcaOrder(fields) {
+  const now = Date.now();
+  const id = getDcaOrderId(fields.user, fields.slices[0].permitNonce);
+  const order = { id, status: "active", createdAt: now, updatedAt: now, ...fields };
+
+  const written = await setIfAbsent(ORDER_PREFIX + id, order, getTtlSeconds(order));
+  const existing = written === false ? await getDcaOrder(id) : written === null ? memoryOrders.get(id) : null;
+  if (existing) return { created: false, order: existing };
+
+  rememberInMemory(order);
+  await addToSet(USER_PREFIX + order.user, id);
+  await addToSet(ACTIVE_SET_KEY, id);
+  return { created: true, order };
+}
+
+/**
+ * Apply `patch` to the order and `slicePatch` to slice `index` (when given).
+ * An active order with nothing left to run is marked completed.
+ */
+export async function updateDcaOrder(id, patch, index = null, slicePatch = null) {
+  const current = await getDcaOrder(id);
+  if (!current) return null;
+  const base = patch.slices ?? current.slices;
+  const slices = index == null ? base : base.map((slice) => (slice.index === index ? { ...slice, ...slicePatch } : slice));
+  let order = { ...current, ...patch, slices, updatedAt: Date.now() };
+  if (order.status === "active" && !hasPendingSlices(order)) order = { ...order, status: "completed" };
+
+  rememberInMemory(order);
+  await serializeAndCompress(ORDER_PREFIX + id, order, getTtlSeconds(order));
+  if (!hasPendingSlices(order)) await removeFromSet(ACTIVE_SET_KEY, id);
+  return order;
+}
+
+/**
+ * Claim an order before changing a slice's state, so a fill and a cancel can't
+ * both act on it. Resolves false while the other side holds the lock; a lock
+ * left by a crashed run lapses after LOCK_TTL_SECONDS.
+ */
+export async function lockDcaOrder(id) {
+  const claimed = await setIfAbsent(LOCK_PREFIX + id, { lockedAt: Date.now() }, LOCK_TTL_SECONDS);
+  if (claimed !== null) return claimed;
+
+  const now = Date.now();
+  if ((memoryLocks.get(id) ?? 0) > now) return false;
+  memoryLocks.set(id, now + LOCK_TTL_SECONDS * 1000);
+  return true;
+}
+
+export async function unlockDcaOrder(id) {
+  memoryLocks.delete(id);
+  await deleteKey(LOCK_PREFIX + id);
+}
+
+/**
+ * A wallet's orders, newest first. Ids whose records have aged out are dropped
+ * from the wallet's index as they're found.
+ */
+export async function getUserDcaOrders(user) {
+  const key = USER_PREFIX + user.toLowerCase();
+  const ids = await getSetMembers(key);
+  if (ids === null) {
+    return [...memoryOrders.values()].filter((order) => order.user === user.toLowerCase()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  const orders = [];
+  for (const id of ids) {
+    const order = await getDcaOrder(id);
+    if (order) orders.push(order);
+    else await removeFromSet(key, id);
+  }
+  return orders.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Orders the watcher still has to look at.
+ */
+export async function getActiveDcaOrders() {
+  const ids = await getSetMembers(ACTIVE_SET_KEY);
+  if (ids === null) return [...memoryOrders.values()].filter(hasPendingSlices);
+
+  const orders = [];
+  for (const id of ids) {
+    const order = await getDcaOrder(id);
+    if (order && hasPendingSlices(order)) orders.push(order);
+    else await removeFromSet(ACTIVE_SET_KEY, id);
+  }
+  return orders;
+}
@@ -0,0 +1,137 @@
+import { ethers } from "ethers";
+import {
+  NATIVE_USDC_ADDRESS,
+  NATIVE_USDC_SCALE,
+  SEGMENT_KIND,
+  V2_ROUTER_ADDRESS,
+  V3_FEE_TIERS,
+  V3_QUOTER_ADDRESS,
+  WUSDC_ADDRESS,
+} from "./chain-config.js";
+import { findPoolPaths, getPoolGraph } from "./pool-graph.js";
+
+// Server-side quoting for limit orders. Finds V2-only and V3-only paths of up
+// to three pools over the subgraph's pool graph, as the Swap page does over its
+// own, and builds the same gasless segments, so the watcher can fill an order
+// without a browser. Each fill is one segment: split and mixed V2/V3 routes and
+// the user's route filters aren't used. When the subgraph is down it falls back
+// to direct and via-wUSDC routes.
+
+const QUOTE_ABI = [
+  "function getAmountsOut(uint amountIn, address[] path) view returns (uint[] amounts)",
+  "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+  "function quoteExactInput(bytes path, uint256 amountIn) returns (uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)",
+];
+const quoteInterface = new ethers.Interface(QUOTE_ABI);
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+async function readQuote(provider, to, method, args) {
+  try {
+    const raw = await provider.call({ to, data: quoteInterface.encodeFunctionData(method, args) });
+    const result = quoteInterface.decodeFunctionResult(method, raw);
+    return method === "getAmountsOut" ? result[0][result[0].length - 1] : result[0];
+  } catch {
+    return 0n; // No pool or no liquidity on this route
+  }
+}
+
+function encodeV3Path(tokens, fees) {
+  const types = [];
+  const values = [];
+  tokens.forEach((token, idx) => {
+    types.push("address");
+    values.push(token);
+    if (idx < fees.length) {
+      types.push("uint24");
+      values.push(fees[idx]);
+    }
+  });
+  return ethers.solidityPacked(types, values);
+}
+
+/**
+ * Fallback candidates when the pool graph can't be loaded: direct and via-wUSDC
+ * routes on each protocol.
+ */
+function getFallbackCandidates(tokenIn, tokenOut) {
+  const viaWrapped = tokenIn.toLowerCase() !== WUSDC_ADDRESS.toLowerCase() && tokenOut.toLowerCase() !== WUSDC_ADDRESS.toLowerCase();
+  const candidates = [
+    { kind: SEGMENT_KIND.V2, path: [tokenIn, tokenOut] },
+    ...V3_FEE_TIERS.map((fee) => ({ kind: SEGMENT_KIND.V3, fee })),
+  ];
+  if (viaWrapped) {
+    candidates.push({ kind: SEGMENT_KIND.V2, path: [tokenIn, WUSDC_ADDRESS, tokenOut] });
+    for (const firstFee of V3_FEE_TIERS) {
+      for (const secondFee of V3_FEE_TIERS) {
+        candidates.push({ kind: SEGMENT_KIND.V3_MULTIHOP, path: encodeV3Path([tokenIn, WUSDC_ADDRESS, tokenOut], [firstFee, secondFee]) });
+      }
+    }
+  }
+  return candidates;
+}
+
+function toCandidate(path) {
+  const tokens = [path[0].tokenIn, ...path.map((hop) => hop.tokenOut)];
+  if (path[0].edge.protocol === "V2") return { kind: SEGMENT_KIND.V2, path: tokens };
+  if (path.length === 1) return { kind: SEGMENT_KIND.V3, fee: path[0].edge.fee };
+  return { kind: SEGMENT_KIND.V3_MULTIHOP, path: encodeV3Path(tokens, path.map((hop) => hop.edge.fee)) };
+}
+
+/**
+ * Candidate routes from tokenIn to tokenOut, each with the segment kind and
+ * params the gasless contract expects.
+ */
+async function getRouteCandidates(tokenIn, tokenOut) {
+  try {
+    const graph = await getPoolGraph();
+    const paths = [...findPoolPaths(graph, tokenIn, tokenOut, "V2"), ...findPoolPaths(graph, tokenIn, tokenOut, "V3")];
+    if (paths.length > 0) return paths.map(toCandidate);
+  } catch (error) {
+    console.warn("[order-router] Pool graph unavailable, using fallback routes:", error?.message || error);
+  }
+  return getFallbackCandidates(tokenIn, tokenOut);
+}
+
+function quoteCandidate(provider, candidate, tokenIn, tokenOut, amountIn) {
+  if (candidate.kind === SEGMENT_KIND.V2) {
+    return readQuote(provider, V2_ROUTER_ADDRESS, "getAmountsOut", [amountIn, candidate.path]);
+  }
+  if (candidate.kind === SEGMENT_KIND.V3) {
+    return readQuote(provider, V3_QUOTER_ADDRESS, "quoteExactInputSingle", [
+      { tokenIn, tokenOut, amountIn, fee: candidate.fee, sqrtPriceLimitX96: 0n },
+    ]);
+  }
+  return readQuote(provider, V3_QUOTER_ADDRESS, "quoteExactInput", [candidate.path, amountIn]);
+}
+
+/**
+ * Best output for an order's full input across every candidate route, or null
+ * when no route has liquidity. `amountIn` is in Permit2 units.
+ */
+export async function quoteOrder(provider, { tokenIn, tokenOut, amountIn }) {
+  const isNativeIn = tokenIn.toLowerCase() === NATIVE_USDC_ADDRESS.toLowerCase();
+  const routeTokenIn = isNativeIn ? WUSDC_ADDRESS : tokenIn;
+  const routeAmountIn = isNativeIn ? BigInt(amountIn) * NATIVE_USDC_SCALE : BigInt(amountIn);
+
+  const candidates = await getRouteCandidates(routeTokenIn, tokenOut);
+  const quotes = await Promise.all(candidates.map((candidate) => quoteCandidate(provider, candidate, routeTokenIn, tokenOut, routeAmountIn)));
+
+  let best = null;
+  quotes.forEach((amountOut, idx) => {
+    if (amountOut > 0n && (!best || amountOut > best.amountOut)) best = { route: candidates[idx], amountOut };
+  });
+  return best && { ...best, tokenOut };
+}
+
+/**
+ * The gasless segment for a quoted route, with the same params encoding as
+ * buildV2Segment/buildV3Segment/buildV3MultiHopSegment on the client.
+ */
+export function buildOrderSegment(quote, amountIn, amountOutMin, deadline) {
+  const { route, tokenOut } = quote;
+  let params;
+  if (route.kind === SEGMENT_KIND.V2) params = abiCoder.encode(["address[]"], [route.path]);
+  else if (route.kind === SEGMENT_KIND.V3) params = abiCoder.encode(["address", "uint24"], [tokenOut, route.fee]);
+  else params = abiCoder.encode(["bytes"], [route.path]);
+  return { kind: route.kind, amountIn, amountOutMin, deadline, params };
+}
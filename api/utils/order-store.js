@@ -0,0 +1,143 @@
+import { addToSet, deleteKey, deserializeAndDecompress, getSetMembers, removeFromSet, serializeAndCompress, setIfAbsent } from "./redis.js";
+import { getIdempotencyKey } from "./relay-store.js";
+
+// Resting limit orders. An order is a signed Permit2 permit plus the trade the
+// watcher should run with it, keyed like relay records (user + permit nonce) so
+// the fill shares the order's id. Redis when configured; process memory
+// otherwise (not shared across serverless instances, so memory-only orders
+// only fill while the instance that took them stays warm).
+
+export const ORDER_STATES = ["open", "filling", "filled", "cancelled", "expired", "failed"];
+export const ACTIVE_ORDER_STATES = ["open", "filling"];
+
+const ORDER_PREFIX = "orders:order:";
+const USER_PREFIX = "orders:user:";
+const OPEN_SET_KEY = "orders:open";
+const LOCK_PREFIX = "orders:lock:";
+const LOCK_TTL_SECONDS = 120; // Outlives the watcher's maxDuration, so a held lock is never taken over mid-fill
+const RETENTION_SECONDS = 7 * 24 * 60 * 60; // Settled orders stay listed for a week past expiry
+const MEMORY_MAX_ENTRIES = 5000;
+
+const memoryOrders = new Map();
+const memoryLocks = new Map();
+
+function getTtlSeconds(order) {
+  return Math.max(0, order.expiry - Math.floor(Date.now() / 1000)) + RETENTION_SECONDS;
+}
+
+function rememberInMemory(order) {
+  memoryOrders.delete(order.id);
+  memoryOrders.set(order.id, order);
+  while (memoryOrders.size > MEMORY_MAX_ENTRIES) {
+    memoryOrders.delete(memoryOrders.keys().next().value);
+  }
+}
+
+export function getOrderId(user, permitNonce) {
+  return getIdempotencyKey(user, permitNonce);
+}
+
+export async function getOrder(id) {
+  const stored = await deserializeAndDecompress(ORDER_PREFIX + id);
+  return stored ?? memoryOrders.get(id) ?? null;
+}
+
+/**
+ * Store a new open order. Returns { created: false, order } with the existing
+ * order when its id (user + permit nonce) is already taken.
+ */
+export async function createOrder(fields) {
+  const now = Date.now();
+  const id = getOrderId(fields.user, fields.permitNonce);
+  const order = {
+    id,
+    status: "open",
+    relayId: null,
+    txHash: null,
+    amountOut: null,
+    lastQuote: null,
+    lastCheckedAt: null,
+    attempts: 0,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  };
+
+  const written = await setIfAbsent(ORDER_PREFIX + id, order, getTtlSeconds(order));
+  const existing = written === false ? await getOrder(id) : written === null ? memoryOrders.get(id) : null;
+  if (existing) return { created: false, order: existing };
+
+  rememberInMemory(order);
+  await addToSet(USER_PREFIX + order.user, id);
+  await addToSet(OPEN_SET_KEY, id);
+  return { created: true, order };
+}
+
+export async function updateOrder(id, patch) {
+  const current = await getOrder(id);
+  if (!current) return null;
+  const order = { ...current, ...patch, updatedAt: Date.now() };
+  rememberInMemory(order);
+  await serializeAndCompress(ORDER_PREFIX + id, order, getTtlSeconds(order));
+  if (!ACTIVE_ORDER_STATES.includes(order.status)) await removeFromSet(OPEN_SET_KEY, id);
+  return order;
+}
+
+/**
+ * Claim an open order before moving it out of "open", so a fill submission
+ * and a cancel can't both act on it. Resolves false while the other side
+ * holds the lock; a lock left by a crashed run lapses after LOCK_TTL_SECONDS.
+ */
+export async function lockOrder(id) {
+  const claimed = await setIfAbsent(LOCK_PREFIX + id, { lockedAt: Date.now() }, LOCK_TTL_SECONDS);
+  if (claimed !== null) return claimed;
+
+  const now = Date.now();
+  if ((memoryLocks.get(id) ?? 0) > now) return false;
+  memoryLocks.set(id, now + LOCK_TTL_SECONDS * 1000);
+  return true;
+}
+
+export async function unlockOrder(id) {
+  memoryLocks.delete(id);
+  await deleteKey(LOCK_PREFIX + id);
+}
+
+/**
+ * A wallet's orders, newest first. Ids whose records have aged out are dropped
+ * from the wallet's index as they're found.
+ */
+export async function getUserOrders(user) {
+  const key = USER_PREFIX + user.toLowerCase();
+  const ids = await getSetMembers(key);
+  if (ids === null) {
+    return [...memoryOrders.values()].filter((order) => order.user === user.toLowerCase()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  const orders = [];
+  for (const id of ids) {
+    const order = await getOrder(id);
+    if (order) orders.push(order);
+    else await removeFromSet(key, id);
+  }
+  return orders.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Orders the watcher still has to look at: open ones, and ones with a fill in flight.
+ */
+export async function getActiveOrders() {
+  const ids = await getSetMembers(OPEN_SET_KEY);
+  if (ids === null) {
+    return [...memoryOrders.values()].filter((order) => ACTIVE_ORDER_STATES.includes(order.status));
+  }
+
+  const orders = [];
+  for (const id of ids) {
+    const order = await getOrder(id);
+    if (order && ACTIVE_ORDER_STATES.includes(order.status)) orders.push(order);
+    else await removeFromSet(OPEN_SET_KEY, id);
+  }
+  return orders;
+}
@@ -0,0 +1,100 @@
+import { ethers } from "ethers";
+import { PERMIT2_ADDRESS } from "./chain-config.js";
+import { findExistingKeys, incrementCounter, serializeAndCompress, setIfAbsent } from "./redis.js";
+import { withReadProvider } from "./relayer-pool.js";
+
+// Permit2 nonce state: the on-chain bitmap, and reservations so /api/nonce
+// doesn't hand out a nonce that another tab is about to sign or that a resting
+// limit order is holding, plus request counters /api/nonce rate-limits with.
+// Both live in Redis when configured; process memory otherwise.
+
+const PERMIT2_ABI = ["function nonceBitmap(address owner, uint256 wordPos) view returns (uint256)"];
+const permit2Interface = new ethers.Interface(PERMIT2_ABI);
+
+const KEY_PREFIX = "permit2:nonce:";
+const REQUESTS_PREFIX = "permit2:requests:";
+const MEMORY_MAX_ENTRIES = 5000;
+
+const memoryReservations = new Map();
+const memoryRequestCounts = new Map();
+
+function getKey(user, nonce) {
+  return `${KEY_PREFIX}${String(user).toLowerCase()}:${BigInt(nonce).toString()}`;
+}
+
+function rememberInMemory(key, ttlSeconds) {
+  memoryReservations.delete(key);
+  memoryReservations.set(key, Date.now() + ttlSeconds * 1000);
+  while (memoryReservations.size > MEMORY_MAX_ENTRIES) {
+    memoryReservations.delete(memoryReservations.keys().next().value);
+  }
+}
+
+/**
+ * Permit2's signature-transfer nonces are unordered: bit `nonce & 0xff` of word
+ * `nonce >> 8` in nonceBitmap(user, word) is set once the nonce is spent.
+ */
+export async function readNonceBitmap(user, wordPos) {
+  const data = permit2Interface.encodeFunctionData("nonceBitmap", [user, wordPos]);
+  const raw = await withReadProvider((provider) => provider.call({ to: PERMIT2_ADDRESS, data }));
+  return BigInt(permit2Interface.decodeFunctionResult("nonceBitmap", raw)[0]);
+}
+
+export async function isNonceSpent(user, nonce) {
+  const value = BigInt(nonce);
+  const bitmap = await readNonceBitmap(user, value >> 8n);
+  return ((bitmap >> (value & 0xffn)) & 1n) === 1n;
+}
+
+/**
+ * The subset of `nonces` someone currently holds, read in one batch.
+ */
+export async function getReservedNonces(user, nonces) {
+  const keys = nonces.map((nonce) => getKey(user, nonce));
+  const existing = await findExistingKeys(keys);
+  const now = Date.now();
+  return new Set(nonces.filter((_, idx) => (existing ? existing[idx] : (memoryReservations.get(keys[idx]) ?? 0) > now)));
+}
+
+/**
+ * Count one /api/nonce request against `scope` (a wallet or a client IP) in a
+ * fixed window. Resolves the number of requests seen in the current window.
+ */
+export async function countNonceRequest(scope, windowSeconds) {
+  const window = Math.floor(Date.now() / (windowSeconds * 1000));
+  const key = `${REQUESTS_PREFIX}${String(scope).toLowerCase()}:${window}`;
+  const stored = await incrementCounter(key, 1, windowSeconds);
+  if (stored !== null) return stored;
+
+  const count = (memoryRequestCounts.get(key) ?? 0) + 1;
+  memoryRequestCounts.delete(key);
+  memoryRequestCounts.set(key, count);
+  while (memoryRequestCounts.size > MEMORY_MAX_ENTRIES) {
+    memoryRequestCounts.delete(memoryRequestCounts.keys().next().value);
+  }
+  return count;
+}
+
+/**
+ * Claim a nonce for `ttlSeconds` unless someone else holds it. Resolves true if claimed.
+ */
+export async function reserveNonce(user, nonce, ttlSeconds) {
+  const key = getKey(user, nonce);
+  const claimed = await setIfAbsent(key, { reservedAt: Date.now() }, ttlSeconds);
+  if (claimed !== null) return claimed;
+
+  const expiresAt = memoryReservations.get(key);
+  if (expiresAt && expiresAt > Date.now()) return false;
+  rememberInMemory(key, ttlSeconds);
+  return true;
+}
+
+/**
+ * Hold a nonce the caller already owns (e.g. one reserved for signing) for
+ * longer, overwriting the existing reservation.
+ */
+export async function holdNonce(user, nonce, ttlSeconds) {
+  const key = getKey(user, nonce);
+  rememberInMemory(key, ttlSeconds);
+  await serializeAndCompress(key, { reservedAt: Date.now() }, ttlSeconds);
+}
@@ -0,0 +1,132 @@
+import { SUBGRAPH_URL } from "./chain-config.js";
+
+// Pool graph for server-side routing, built from the subgraph's pool list the
+// way client/src/lib/route-graph.ts builds one for the Swap page. Paths stay
+// within one protocol: a gasless segment runs against a single router.
+
+const GRAPH_TTL_MS = 5 * 60 * 1000;
+const POOLS_PAGE_SIZE = 1000;
+const MAX_POOL_PAGES = 5;
+const SUBGRAPH_TIMEOUT_MS = 5_000;
+const MAX_HOPS = 3; // Same default as the Swap page's route settings
+const MAX_PATHS_PER_PROTOCOL = 8;
+
+const POOLS_QUERY = `
+  query RoutablePools($first: Int!, $skip: Int!) {
+    pools(first: $first, skip: $skip, orderBy: tvlUsd, orderDirection: desc, where: { tvlUsd_gt: "0" }) {
+      id
+      version
+      feeTier
+      tvlUsd
+      token0 { id }
+      token1 { id }
+    }
+  }
+`;
+
+let cachedGraph = null;
+let graphInFlight = null;
+
+async function fetchPoolsPage(token, skip) {
+  const response = await fetch(SUBGRAPH_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ query: POOLS_QUERY, variables: { first: POOLS_PAGE_SIZE, skip } }),
+    signal: AbortSignal.timeout(SUBGRAPH_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`subgraph request failed with ${response.status}`);
+  const json = await response.json();
+  if (json.errors?.length) throw new Error(json.errors[0]?.message ?? "subgraph error");
+  return json.data?.pools ?? [];
+}
+
+async function buildGraph() {
+  const token = process.env.GRAPH_QUERY_TOKEN;
+  if (!token) throw new Error("GRAPH_QUERY_TOKEN is not set");
+
+  const adjacency = new Map();
+  const addEdge = (edge) => {
+    for (const address of [edge.tokenA, edge.tokenB]) {
+      const edges = adjacency.get(address);
+      if (edges) edges.push(edge);
+      else adjacency.set(address, [edge]);
+    }
+  };
+
+  for (let page = 0; page < MAX_POOL_PAGES; page++) {
+    const pools = await fetchPoolsPage(token, page * POOLS_PAGE_SIZE);
+    for (const pool of pools) {
+      if (pool.version !== "V2" && pool.version !== "V3") continue;
+      addEdge({
+        protocol: pool.version,
+        pool: pool.id.toLowerCase(),
+        tokenA: pool.token0.id.toLowerCase(),
+        tokenB: pool.token1.id.toLowerCase(),
+        fee: pool.version === "V3" ? Number(pool.feeTier) : undefined,
+        tvlUsd: Number(pool.tvlUsd) || 0,
+      });
+    }
+    if (pools.length < POOLS_PAGE_SIZE) break;
+  }
+  return { adjacency, builtAt: Date.now() };
+}
+
+/**
+ * The cached pool graph, rebuilt every few minutes. Throws when the subgraph
+ * can't be read and no graph was built yet.
+ */
+export async function getPoolGraph() {
+  if (cachedGraph && Date.now() - cachedGraph.builtAt < GRAPH_TTL_MS) return cachedGraph;
+  graphInFlight ??= buildGraph()
+    .then((graph) => {
+      cachedGraph = graph;
+      return graph;
+    })
+    .catch((error) => {
+      if (cachedGraph) {
+        console.warn("[pool-graph] Rebuild failed, keeping the previous graph:", error?.message || error);
+        return cachedGraph;
+      }
+      throw error;
+    })
+    .finally(() => {
+      graphInFlight = null;
+    });
+  return graphInFlight;
+}
+
+/**
+ * Single-protocol paths of up to MAX_HOPS pools from tokenIn to tokenOut
+ * (lowercase addresses), deepest pools first. Each path is a list of
+ * { edge, tokenIn, tokenOut } hops.
+ */
+export function findPoolPaths(graph, tokenIn, tokenOut, protocol) {
+  const from = tokenIn.toLowerCase();
+  const to = tokenOut.toLowerCase();
+  const edgesOf = (address) => (graph.adjacency.get(address) ?? []).filter((edge) => edge.protocol === protocol);
+  const otherSide = (edge, address) => (edge.tokenA === address ? edge.tokenB : edge.tokenA);
+  // Tokens one pool away from tokenOut; the second-to-last hop has to land on one
+  const nextToOut = new Set(edgesOf(to).map((edge) => otherSide(edge, to)));
+
+  const paths = [];
+  const walk = (address, hops, visited) => {
+    const remaining = MAX_HOPS - hops.length;
+    for (const edge of edgesOf(address)) {
+      const next = otherSide(edge, address);
+      if (visited.has(next)) continue;
+      const path = [...hops, { edge, tokenIn: address, tokenOut: next }];
+      if (next === to) {
+        paths.push(path);
+        continue;
+      }
+      if (remaining <= 1 || (remaining === 2 && !nextToOut.has(next))) continue;
+      walk(next, path, new Set(visited).add(next));
+    }
+  };
+  walk(from, [], new Set([from]));
+
+  const depth = (path) => Math.min(...path.map((hop) => hop.edge.tvlUsd));
+  return paths
+    .sort((a, b) => a.length - b.length || depth(b) - depth(a))
+    .slice(0, MAX_PATHS_PER_PROTOCOL);
+}
@@ -117,3 +117,116 @@ export async function monitorRedisHealth() {
     console.error('[Redis Monitor] Failed to fetch stats', err.message);
   }
 }
+
+/**
+ * SET NX with a TTL, for claiming a key exactly once across instances.
+ * Resolves true if written, false if the key already existed, and null when
+ * Redis is unavailable so callers can fall back to process memory.
+ */
+export async function setIfAbsent(cacheKey, dataObj, ttlSeconds) {
+  if (!HAS_REDIS) return null;
+  try {
+    const result = await upstashRequest('SET', cacheKey, JSON.stringify(dataObj), 'EX', ttlSeconds, 'NX');
+    return result === 'OK';
+  } catch (err) {
+    const redactedKey = cacheKey.replace(/:[^:]+$/, ':<redacted>');
+    console.error(`[Redis] Claim Error for ${redactedKey}:`, err.message);
+    return null;
+  }
+}
+
+export async function deleteKey(cacheKey) {
+  if (!HAS_REDIS) return;
+  try {
+    await upstashRequest('DEL', cacheKey);
+  } catch (err) {
+    const redactedKey = cacheKey.replace(/:[^:]+$/, ':<redacted>');
+    console.error(`[Redis] Delete Error for ${redactedKey}:`, err.message);
+  }
+}
+
+/**
+ * INCRBY with a TTL set on first write. Resolves the new value, or null when
+ * Redis is unavailable so callers can fall back to process memory.
+ */
+export async function incrementCounter(cacheKey, amount, ttlSeconds) {
+  if (!HAS_REDIS) return null;
+  try {
+    const value = await upstashRequest('INCRBY', cacheKey, String(amount));
+    await upstashRequest('EXPIRE', cacheKey, ttlSeconds, 'NX');
+    return Number(value);
+  } catch (err) {
+    const redactedKey = cacheKey.replace(/:[^:]+$/, ':<redacted>');
+    console.error(`[Redis] Counter Error for ${redactedKey}:`, err.message);
+    return null;
+  }
+}
+
+/**
+ * Current values of integer counters (0 for missing keys), or null when Redis is unavailable.
+ */
+export async function getCounters(cacheKeys) {
+  if (!HAS_REDIS) return null;
+  try {
+    const values = await upstashRequest('MGET', ...cacheKeys);
+    return cacheKeys.map((_, idx) => Number(values?.[idx] ?? 0));
+  } catch (err) {
+    console.error('[Redis] Counter Read Error:', err.message);
+    return null;
+  }
+}
+
+/**
+ * Which of the keys exist, in order (one MGET), or null when Redis is unavailable.
+ */
+export async function findExistingKeys(cacheKeys) {
+  if (!HAS_REDIS) return null;
+  if (cacheKeys.length === 0) return [];
+  try {
+    const values = await upstashRequest('MGET', ...cacheKeys);
+    return cacheKeys.map((_, idx) => values?.[idx] != null);
+  } catch (err) {
+    console.error('[Redis] Batch Read Error:', err.message);
+    return null;
+  }
+}
+
+/**
+ * SADD/SREM on a set of ids. Resolves false when Redis is unavailable.
+ */
+export async function addToSet(cacheKey, member) {
+  if (!HAS_REDIS) return false;
+  try {
+    await upstashRequest('SADD', cacheKey, member);
+    return true;
+  } catch (err) {
+    const redactedKey = cacheKey.replace(/:[^:]+$/, ':<redacted>');
+    console.error(`[Redis] Set Add Error for ${redactedKey}:`, err.message);
+    return false;
+  }
+}
+
+export async function removeFromSet(cacheKey, member) {
+  if (!HAS_REDIS) return;
+  try {
+    await upstashRequest('SREM', cacheKey, member);
+  } catch (err) {
+    const redactedKey = cacheKey.replace(/:[^:]+$/, ':<redacted>');
+    console.error(`[Redis] Set Remove Error for ${redactedKey}:`, err.message);
+  }
+}
+
+/**
+ * Members of a set, or null when Redis is unavailable.
+ */
+export async function getSetMembers(cacheKey) {
+  if (!HAS_REDIS) return null;
+  try {
+    const members = await upstashRequest('SMEMBERS', cacheKey);
+    return Array.isArray(members) ? members : [];
+  } catch (err) {
+    const redactedKey = cacheKey.replace(/:[^:]+$/, ':<redacted>');
+    console.error(`[Redis] Set Read Error for ${redactedKey}:`, err.message);
+    return null;
+  }
+}
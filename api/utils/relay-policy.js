@@ -0,0 +1,454 @@
+import { ethers } from "ethers";
+import {
+  CHAIN_ID,
+  NATIVE_USDC_ADDRESS,
+  NATIVE_USDC_SCALE,
+  PERMIT2_ADDRESS,
+  RWA_ORACLE_ADDRESS,
+  RWA_VAULT_ADDRESS,
+  SEGMENT_KIND,
+  V2_ROUTER_ADDRESS,
+  V3_FEE_TIERS,
+  V3_QUOTER_ADDRESS,
+  WUSDC_ADDRESS,
+} from "./chain-config.js";
+
+// Checks run before the relayer signs anything, so a request that would revert
+// or that the relayer shouldn't sponsor is rejected without spending gas.
+
+// Segment kinds that trade against the RWA vault instead of a pool
+export const RWA_SEGMENT_KIND = { BUY: SEGMENT_KIND.RWA_BUY, REDEEM: SEGMENT_KIND.RWA_REDEEM };
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const EXECUTION_FAILED_SELECTOR = "0x3ee5aeb5";
+
+const PRICING_ABI = [
+  "function decimals() view returns (uint8)",
+  "function getAmountsOut(uint amountIn, address[] path) view returns (uint[] amounts)",
+  "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+];
+const pricingInterface = new ethers.Interface(PRICING_ABI);
+
+const RWA_ABI = [
+  "function quoteBuy(uint256 pairId, uint256 usdcIn) view returns (uint256 synthOut, uint256 fee, uint256 netUsdc, uint256 price, bool isStale)",
+  "function quoteRedeem(uint256 pairId, uint256 synthAmount) view returns (uint256 usdcOut, uint256 fee, uint256 grossUsdc, uint256 price, bool isStale, bool reserveOk)",
+  "function getAllPairs() view returns (tuple(uint256 pairId, string name, string symbol, uint8 category, string priceSource, string description, address synth, uint256 price, uint256 lastUpdated, uint256 maxStaleness, uint256 maxDeviation, bool active, bool frozen, uint256 createdAt)[])",
+];
+const rwaInterface = new ethers.Interface(RWA_ABI);
+
+// Tokens the relayer sponsors. usdPegged tokens count 1:1 toward notional; others are priced against wUSDC
+const DEFAULT_ALLOWED_TOKENS = {
+  "0x3600000000000000000000000000000000000000": { symbol: "USDC", decimals: 6, usdPegged: true },
+  "0xde5db9049a8dd344dc1b7bbb098f9da60930a6da": { symbol: "wUSDC", decimals: 18, usdPegged: true },
+  "0x89b50855aa3be2f677cd6303cec089b5f319d72a": { symbol: "EURC", decimals: 6 },
+  "0x45bb5425f293bdd209c894364c462421ff5ffa48": { symbol: "ACHS", decimals: 18 },
+};
+
+export function readEnvNumber(name, fallback) {
+  const raw = process.env[name];
+  if (raw == null || raw === "") return fallback;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    console.warn(`[relay] Invalid ${name}=${raw}; using default ${fallback}`);
+    return fallback;
+  }
+  return parsed;
+}
+
+const MIN_NOTIONAL_USD = readEnvNumber("RELAYER_MIN_NOTIONAL_USD", 0.1);
+const MAX_NOTIONAL_USD = readEnvNumber("RELAYER_MAX_NOTIONAL_USD", 10_000);
+const MIN_DEADLINE_SECONDS = 15; // Less than this can't be mined in time
+const MAX_DEADLINE_SECONDS = readEnvNumber("RELAYER_MAX_DEADLINE_MINUTES", 180) * 60;
+const MAX_ORDER_SECONDS = readEnvNumber("RELAYER_MAX_ORDER_DAYS", 30) * 24 * 60 * 60;
+const MAX_RWA_FEE_BPS = readEnvNumber("RELAYER_MAX_RWA_FEE_BPS", 100);
+// The deployed gasless contract predates the RWA segment kinds; set once the upgrade that decodes them is live
+export const RWA_SEGMENTS_ENABLED = process.env.RELAYER_RWA_SEGMENTS === "true";
+const RWA_PAIRS_TTL_MS = 5 * 60 * 1000;
+
+// RELAYER_TOKEN_ALLOWLIST adds comma-separated token addresses; decimals are read on-chain
+const EXTRA_ALLOWED_TOKENS = (process.env.RELAYER_TOKEN_ALLOWLIST || "")
+  .split(",")
+  .map((v) => v.trim().toLowerCase())
+  .filter((v) => ethers.isAddress(v));
+
+const tokenDecimalsCache = new Map();
+let rwaPairsCache = null; // { pairs: Map<synth, { pairId, symbol, tradable }>, loadedAt }
+
+/**
+ * Deadline window the relay accepts, in seconds from now. Served by /api/nonce
+ * so clients sign permits the relay won't reject. Limit-order permits may run
+ * to maxOrderSeconds.
+ */
+export function getDeadlinePolicy() {
+  return { minSeconds: MIN_DEADLINE_SECONDS, maxSeconds: MAX_DEADLINE_SECONDS, maxOrderSeconds: MAX_ORDER_SECONDS };
+}
+
+export class RelayPolicyError extends Error {
+  constructor(code, message, status = 400, details = {}) {
+    super(message);
+    this.name = "RelayPolicyError";
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Same decoding as decodeExecutionError in client/src/lib/gasless-swap.ts:
+ * Error(string), and ExecutionFailed(bytes) unwrapped recursively.
+ */
+export function decodeExecutionError(data) {
+  if (!data || data === "0x") return "Unknown error";
+  try {
+    if (data.startsWith("0x") && data.length > 4) {
+      const selector = data.slice(0, 10);
+      if (selector === ERROR_STRING_SELECTOR) {
+        const iface = new ethers.Interface(["error Error(string)"]);
+        return iface.decodeErrorResult("Error(string)", data).args[0];
+      }
+      if (selector === EXECUTION_FAILED_SELECTOR) {
+        const iface = new ethers.Interface(["error ExecutionFailed(bytes)"]);
+        return decodeExecutionError(iface.decodeErrorResult("ExecutionFailed(bytes)", data).args[0]);
+      }
+      return `Error selector: ${selector}`;
+    }
+  } catch (err) {
+    console.error("[relay] Decode error:", err);
+  }
+  return data;
+}
+
+/**
+ * Revert data from an eth_call failure, or null when the failure wasn't a revert.
+ */
+export function getRevertData(err) {
+  const candidates = [err?.data, err?.info?.error?.data, err?.error?.data];
+  for (const data of candidates) {
+    if (typeof data === "string" && data.startsWith("0x")) return data;
+    if (typeof data?.data === "string" && data.data.startsWith("0x")) return data.data;
+  }
+  return err?.code === "CALL_EXCEPTION" ? "0x" : null;
+}
+
+function checkDeadline(value, field, nowSeconds, maxSeconds = MAX_DEADLINE_SECONDS) {
+  if (value < BigInt(nowSeconds + MIN_DEADLINE_SECONDS)) {
+    throw new RelayPolicyError("DEADLINE_TOO_SOON", `${field} has passed or is too close`);
+  }
+  if (value > BigInt(nowSeconds + maxSeconds)) {
+    throw new RelayPolicyError("DEADLINE_TOO_FAR", `${field} is more than ${maxSeconds / 60} minutes away`);
+  }
+}
+
+/**
+ * The Permit2 signature over tokenIn/totalAmountIn/permitNonce/permitDeadline
+ * was produced by payload.user for `contractAddress`. Throws RelayPolicyError.
+ */
+export function checkPermitSignature(payload, contractAddress) {
+  const domain = { name: "Permit2", chainId: CHAIN_ID, verifyingContract: PERMIT2_ADDRESS };
+  const types = {
+    PermitTransferFrom: [
+      { name: "permitted", type: "TokenPermissions" },
+      { name: "spender", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+    TokenPermissions: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+  };
+  const values = {
+    permitted: { token: payload.tokenIn, amount: payload.totalAmountIn },
+    spender: contractAddress,
+    nonce: payload.permitNonce,
+    deadline: payload.permitDeadline,
+  };
+
+  let recovered;
+  try {
+    recovered = ethers.verifyTypedData(domain, types, values, payload.permitSig);
+  } catch {
+    throw new RelayPolicyError("INVALID_SIGNATURE", "permit signature is malformed");
+  }
+  if (recovered.toLowerCase() !== payload.user.toLowerCase()) {
+    throw new RelayPolicyError("INVALID_SIGNATURE", "permit signature was not signed by user");
+  }
+}
+
+// EIP-712 order terms; same domains and types as signLimitOrder in
+// client/src/lib/limit-orders.ts and signDcaOrder in client/src/lib/dca-orders.ts
+const LIMIT_ORDER_TYPES = {
+  LimitOrder: [
+    { name: "tokenIn", type: "address" },
+    { name: "tokenOut", type: "address" },
+    { name: "amountIn", type: "uint256" },
+    { name: "minOut", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+const DCA_ORDER_TYPES = {
+  DcaOrder: [
+    { name: "tokenIn", type: "address" },
+    { name: "tokenOut", type: "address" },
+    { name: "startAt", type: "uint256" },
+    { name: "interval", type: "uint256" },
+    { name: "slippageBps", type: "uint256" },
+    { name: "amounts", type: "uint256[]" },
+    { name: "nonces", type: "uint256[]" },
+  ],
+};
+
+function checkOrderSigner(name, types, values, signature, user, contractAddress) {
+  const domain = { name, version: "1", chainId: CHAIN_ID, verifyingContract: contractAddress };
+  let recovered;
+  try {
+    recovered = ethers.verifyTypedData(domain, types, values, signature);
+  } catch {
+    throw new RelayPolicyError("INVALID_SIGNATURE", "order signature is missing or malformed");
+  }
+  if (recovered.toLowerCase() !== user.toLowerCase()) {
+    throw new RelayPolicyError("INVALID_SIGNATURE", "order signature was not signed by user");
+  }
+}
+
+/**
+ * The order signature over tokenIn/tokenOut/amountIn/minOut/expiry/permitNonce
+ * was produced by order.user for `contractAddress`. The permit alone doesn't
+ * bind what the input is swapped into, so fills are checked against this.
+ * Throws RelayPolicyError.
+ */
+export function checkOrderSignature(order, contractAddress) {
+  const values = {
+    tokenIn: order.tokenIn,
+    tokenOut: order.tokenOut,
+    amountIn: BigInt(order.amountIn),
+    minOut: BigInt(order.minOut),
+    expiry: BigInt(order.expiry),
+    nonce: BigInt(order.permitNonce),
+  };
+  checkOrderSigner("Achswap Limit Order", LIMIT_ORDER_TYPES, values, order.orderSig, order.user, contractAddress);
+}
+
+/**
+ * Same for a DCA schedule: the tokens, start, interval and slippage, and every
+ * slice's amount and permit nonce in order. Throws RelayPolicyError.
+ */
+export function checkDcaSignature(order, contractAddress) {
+  const values = {
+    tokenIn: order.tokenIn,
+    tokenOut: order.tokenOut,
+    startAt: BigInt(order.startAt),
+    interval: BigInt(order.intervalSeconds),
+    slippageBps: BigInt(order.slippageBps),
+    amounts: order.slices.map((slice) => BigInt(slice.amountIn)),
+    nonces: order.slices.map((slice) => BigInt(slice.permitNonce)),
+  };
+  checkOrderSigner("Achswap DCA Order", DCA_ORDER_TYPES, values, order.orderSig, order.user, contractAddress);
+}
+
+function getAllowedToken(tokenIn) {
+  const key = tokenIn.toLowerCase();
+  if (DEFAULT_ALLOWED_TOKENS[key]) return DEFAULT_ALLOWED_TOKENS[key];
+  if (EXTRA_ALLOWED_TOKENS.includes(key)) return { symbol: key, decimals: null };
+  return null;
+}
+
+async function readCall(provider, to, method, args) {
+  const raw = await provider.call({ to, data: pricingInterface.encodeFunctionData(method, args) });
+  return pricingInterface.decodeFunctionResult(method, raw);
+}
+
+async function getTokenDecimals(provider, tokenIn, token) {
+  if (token.decimals !== null) return token.decimals;
+  const key = tokenIn.toLowerCase();
+  if (!tokenDecimalsCache.has(key)) {
+    const [decimals] = await readCall(provider, tokenIn, "decimals", []);
+    tokenDecimalsCache.set(key, Number(decimals));
+  }
+  return tokenDecimalsCache.get(key);
+}
+
+/**
+ * Value of the input in wUSDC wei, from the V2 router or the best V3 fee tier.
+ */
+async function quoteInWrappedUsdc(provider, tokenIn, amount) {
+  const quotes = await Promise.all([
+    readCall(provider, V2_ROUTER_ADDRESS, "getAmountsOut", [amount, [tokenIn, WUSDC_ADDRESS]])
+      .then(([amounts]) => amounts[amounts.length - 1])
+      .catch(() => 0n),
+    ...V3_FEE_TIERS.map((fee) =>
+      readCall(provider, V3_QUOTER_ADDRESS, "quoteExactInputSingle", [
+        { tokenIn, tokenOut: WUSDC_ADDRESS, amountIn: amount, fee, sqrtPriceLimitX96: 0n },
+      ])
+        .then(([amountOut]) => amountOut)
+        .catch(() => 0n),
+    ),
+  ]);
+  return quotes.reduce((best, quote) => (quote > best ? quote : best), 0n);
+}
+
+async function readRwaCall(provider, to, method, args) {
+  const raw = await provider.call({ to, data: rwaInterface.encodeFunctionData(method, args) });
+  return rwaInterface.decodeFunctionResult(method, raw);
+}
+
+/**
+ * RWA pairs keyed by lowercase synth address, from the oracle. Cached for a few
+ * minutes; pairs are rarely added.
+ */
+async function getRwaPairs(provider) {
+  if (rwaPairsCache && Date.now() - rwaPairsCache.loadedAt < RWA_PAIRS_TTL_MS) return rwaPairsCache.pairs;
+  const [list] = await readRwaCall(provider, RWA_ORACLE_ADDRESS, "getAllPairs", []);
+  const pairs = new Map();
+  for (const pair of list) {
+    pairs.set(pair.synth.toLowerCase(), { pairId: pair.pairId, symbol: pair.symbol, tradable: pair.active && !pair.frozen });
+  }
+  rwaPairsCache = { pairs, loadedAt: Date.now() };
+  return pairs;
+}
+
+async function getRwaPairById(provider, pairId) {
+  const pairs = await getRwaPairs(provider);
+  for (const [synth, pair] of pairs) {
+    if (pair.pairId === pairId) return { ...pair, synth };
+  }
+  return null;
+}
+
+/**
+ * Vault quote for an RWA segment, with the same fields getRWAQuote reads on the
+ * client. `amountIn` is in Permit2 units (6-decimal USDC for buys).
+ */
+async function quoteRwaSegment(provider, kind, pairId, amountIn) {
+  if (kind === RWA_SEGMENT_KIND.BUY) {
+    const [synthOut, fee, netUsdc, , isStale] = await readRwaCall(provider, RWA_VAULT_ADDRESS, "quoteBuy", [pairId, amountIn * NATIVE_USDC_SCALE]);
+    return { amountOut: synthOut, fee, grossUsdc: netUsdc + fee, isStale, reserveOk: true };
+  }
+  const [usdcOut, fee, grossUsdc, , isStale, reserveOk] = await readRwaCall(provider, RWA_VAULT_ADDRESS, "quoteRedeem", [pairId, amountIn]);
+  return { amountOut: usdcOut, fee, grossUsdc, isStale, reserveOk };
+}
+
+async function getNotionalUsd(provider, tokenIn, token, amount) {
+  const decimals = await getTokenDecimals(provider, tokenIn, token);
+  if (token.usdPegged) return Number(ethers.formatUnits(amount, decimals));
+  const wrapped = await quoteInWrappedUsdc(provider, tokenIn, amount);
+  if (wrapped === 0n) {
+    throw new RelayPolicyError("UNPRICEABLE_TOKEN", "input token has no liquidity to price the trade against USDC");
+  }
+  return Number(ethers.formatUnits(wrapped, 18));
+}
+
+/**
+ * Token allowlist and notional limits on their own, for checking eligibility
+ * before the user signs anything. Throws RelayPolicyError.
+ */
+export async function checkSponsoredTrade(provider, tokenIn, amount) {
+  const token = getAllowedToken(tokenIn);
+  // RWA synths aren't on the allowlist; they're eligible to redeem and priced by the vault
+  const rwaPair = token ? null : (await getRwaPairs(provider)).get(tokenIn.toLowerCase());
+  if (!token && !rwaPair?.tradable) {
+    throw new RelayPolicyError("TOKEN_NOT_ALLOWED", "input token is not eligible for gasless swaps");
+  }
+
+  const notional = token
+    ? await getNotionalUsd(provider, tokenIn, token, amount)
+    : Number(ethers.formatEther((await quoteRwaSegment(provider, RWA_SEGMENT_KIND.REDEEM, rwaPair.pairId, amount)).grossUsdc));
+  if (notional < MIN_NOTIONAL_USD) {
+    throw new RelayPolicyError("NOTIONAL_TOO_SMALL", `trade is below the $${MIN_NOTIONAL_USD} gasless minimum`, 400, { notionalUsd: notional });
+  }
+  if (notional > MAX_NOTIONAL_USD) {
+    throw new RelayPolicyError("NOTIONAL_TOO_LARGE", `trade is above the $${MAX_NOTIONAL_USD} gasless maximum`, 400, { notionalUsd: notional });
+  }
+}
+
+/**
+ * Server-side version of the checks the Swap page makes on getRWAQuote before
+ * an RWA trade: the pair is tradable and matches the input token, the oracle
+ * price isn't stale, the vault can cover a redeem, the fee is within
+ * RELAYER_MAX_RWA_FEE_BPS, and the quote still meets amountOutMin.
+ */
+async function checkRwaSegment(provider, payload, segment) {
+  let pairId;
+  try {
+    [pairId] = ethers.AbiCoder.defaultAbiCoder().decode(["uint256"], segment.params);
+  } catch {
+    throw new RelayPolicyError("INVALID_RWA_SEGMENT", "RWA segment params must encode a pairId");
+  }
+
+  const pair = await getRwaPairById(provider, pairId);
+  if (!pair?.tradable) {
+    throw new RelayPolicyError("RWA_PAIR_UNAVAILABLE", "RWA pair is not active");
+  }
+  const kind = Number(segment.kind);
+  const expectedTokenIn = kind === RWA_SEGMENT_KIND.BUY ? NATIVE_USDC_ADDRESS : pair.synth;
+  if (payload.tokenIn.toLowerCase() !== expectedTokenIn.toLowerCase()) {
+    throw new RelayPolicyError(
+      "INVALID_RWA_SEGMENT",
+      kind === RWA_SEGMENT_KIND.BUY ? "RWA buys must be paid in native USDC" : `RWA redeems must spend ${pair.symbol}`,
+    );
+  }
+
+  const quote = await quoteRwaSegment(provider, kind, pairId, segment.amountIn);
+  if (quote.isStale) {
+    throw new RelayPolicyError("RWA_PRICE_STALE", `${pair.symbol} oracle price is stale; try again once it updates`, 409);
+  }
+  if (!quote.reserveOk) {
+    throw new RelayPolicyError("RWA_RESERVE_LOW", "RWA vault reserve can't cover this redeem right now", 409);
+  }
+  const feeBps = quote.grossUsdc > 0n ? Number((quote.fee * 10000n) / quote.grossUsdc) : 0;
+  if (feeBps > MAX_RWA_FEE_BPS) {
+    throw new RelayPolicyError("RWA_FEE_TOO_HIGH", `RWA fee of ${feeBps / 100}% is above the ${MAX_RWA_FEE_BPS / 100}% gasless limit`, 400, { feeBps });
+  }
+  if (quote.amountOut < segment.amountOutMin) {
+    throw new RelayPolicyError("RWA_QUOTE_BELOW_MIN", "RWA vault quote is below amountOutMin; refresh the quote", 409, {
+      quotedOut: quote.amountOut.toString(),
+    });
+  }
+}
+
+/**
+ * Reject requests the relayer won't sponsor: tokens off the allowlist, trades
+ * outside the notional limits, unreasonable deadlines, permits that weren't
+ * signed by `user`, and RWA segments the vault would reject or price badly.
+ * Limit-order fills pass a longer maxPermitSeconds; segment deadlines keep the
+ * normal window. Throws RelayPolicyError.
+ */
+/**
+ * Checks that need no RPC: input eligibility, deadlines and the Permit2 signer.
+ * The relay runs these before claiming a request's idempotency key, so only the
+ * permit's signer can claim the key for a user + nonce. Throws RelayPolicyError.
+ */
+export function checkSignedRequest(payload, contractAddress, { maxPermitSeconds = MAX_DEADLINE_SECONDS } = {}) {
+  const segments = payload.segments ?? [payload.segment];
+  const isRwaRedeem = segments.some((segment) => Number(segment.kind) === RWA_SEGMENT_KIND.REDEEM);
+  if (!isRwaRedeem && !getAllowedToken(payload.tokenIn)) {
+    throw new RelayPolicyError("TOKEN_NOT_ALLOWED", "input token is not eligible for gasless swaps");
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  checkDeadline(payload.permitDeadline, "permitDeadline", nowSeconds, maxPermitSeconds);
+  for (const segment of segments) {
+    checkDeadline(segment.deadline, "segment deadline", nowSeconds);
+    if (segment.deadline > payload.permitDeadline) {
+      throw new RelayPolicyError("DEADLINE_TOO_FAR", "segment deadline is after permitDeadline");
+    }
+  }
+
+  checkPermitSignature(payload, contractAddress);
+}
+
+/**
+ * On-chain checks of a signed request: notional limits and RWA vault quotes.
+ */
+export async function checkTradePolicy(provider, payload) {
+  const segments = payload.segments ?? [payload.segment];
+  await checkSponsoredTrade(provider, payload.tokenIn, payload.totalAmountIn);
+  for (const segment of segments) {
+    if (isRwaSegmentKind(segment.kind)) await checkRwaSegment(provider, payload, segment);
+  }
+}
+
+export function isRwaSegmentKind(kind) {
+  return Number(kind) === RWA_SEGMENT_KIND.BUY || Number(kind) === RWA_SEGMENT_KIND.REDEEM;
+}
@@ -0,0 +1,156 @@
+import { ethers } from "ethers";
+import { getCounters, incrementCounter } from "./redis.js";
+import { RelayPolicyError, readEnvNumber } from "./relay-policy.js";
+
+// Daily sponsorship quotas: swaps per wallet, and gas spent per wallet and
+// across all wallets. Counters live in Redis keyed by UTC day; process memory
+// when Redis isn't configured (per instance, so limits are looser there).
+
+const KEY_PREFIX = "relay:quota:";
+const COUNTER_TTL_SECONDS = 2 * 24 * 60 * 60;
+const GWEI = 10n ** 9n; // Gas counters are kept in gwei so they fit Redis integers
+
+function readEnvGas(name, fallback) {
+  const raw = (process.env[name] || "").trim();
+  try {
+    return ethers.parseEther(raw || fallback);
+  } catch {
+    console.warn(`[relay] Invalid ${name}=${raw}; using default ${fallback}`);
+    return ethers.parseEther(fallback);
+  }
+}
+
+// 0 disables a limit. Gas budgets are in native USDC
+const DAILY_SWAPS_PER_WALLET = Math.floor(readEnvNumber("RELAYER_DAILY_SWAPS_PER_WALLET", 25));
+const DAILY_GAS_PER_WALLET = readEnvGas("RELAYER_DAILY_GAS_PER_WALLET", "2");
+const DAILY_GAS_GLOBAL = readEnvGas("RELAYER_DAILY_GAS_GLOBAL", "250");
+
+const memoryCounters = new Map();
+
+function getDay(now = Date.now()) {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function getResetAt(now = Date.now()) {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+function getQuotaKeys(day, user) {
+  const wallet = String(user).toLowerCase();
+  return {
+    swaps: `${KEY_PREFIX}${day}:swaps:${wallet}`,
+    walletGas: `${KEY_PREFIX}${day}:gas:${wallet}`,
+    globalGas: `${KEY_PREFIX}${day}:gas:global`,
+  };
+}
+
+function readMemoryCounter(key) {
+  const entry = memoryCounters.get(key);
+  if (!entry) return 0;
+  if (entry.expiresAt < Date.now()) {
+    memoryCounters.delete(key);
+    return 0;
+  }
+  return entry.value;
+}
+
+async function readCounters(keys) {
+  const stored = await getCounters(keys);
+  return stored ?? keys.map(readMemoryCounter);
+}
+
+async function addToCounter(key, amount) {
+  const stored = await incrementCounter(key, amount, COUNTER_TTL_SECONDS);
+  if (stored !== null) return stored;
+  const value = readMemoryCounter(key) + Number(amount);
+  memoryCounters.set(key, { value, expiresAt: Date.now() + COUNTER_TTL_SECONDS * 1000 });
+  return value;
+}
+
+function toGwei(wei) {
+  // Round charges up and refunds down so rounding never favours the caller
+  return wei >= 0n ? (wei + GWEI - 1n) / GWEI : -(-wei / GWEI);
+}
+
+/**
+ * Today's usage and limits for a wallet. Gas figures are in wei; a limit of 0 means unlimited.
+ */
+export async function getSponsorshipUsage(user) {
+  const day = getDay();
+  const keys = getQuotaKeys(day, user);
+  const [swaps, walletGas, globalGas] = await readCounters([keys.swaps, keys.walletGas, keys.globalGas]);
+  return {
+    day,
+    resetAt: getResetAt(),
+    swapsUsed: swaps,
+    swapsLimit: DAILY_SWAPS_PER_WALLET,
+    walletGasUsed: BigInt(walletGas) * GWEI,
+    walletGasLimit: DAILY_GAS_PER_WALLET,
+    globalGasUsed: BigInt(globalGas) * GWEI,
+    globalGasLimit: DAILY_GAS_GLOBAL,
+  };
+}
+
+/**
+ * The quota a wallet has run into, as a RelayPolicyError, or null when it can
+ * still be sponsored. `pendingSwaps` counts a swap already reserved but not yet sent.
+ */
+export function getQuotaViolation(usage, pendingSwaps = 0) {
+  const details = { resetAt: usage.resetAt };
+  if (usage.globalGasLimit > 0n && usage.globalGasUsed >= usage.globalGasLimit) {
+    return new RelayPolicyError("GLOBAL_GAS_BUDGET", "today's gasless sponsorship budget is used up", 503, details);
+  }
+  if (usage.swapsLimit > 0 && usage.swapsUsed - pendingSwaps >= usage.swapsLimit) {
+    return new RelayPolicyError("DAILY_SWAP_LIMIT", `daily limit of ${usage.swapsLimit} gasless swaps reached`, 429, details);
+  }
+  if (usage.walletGasLimit > 0n && usage.walletGasUsed >= usage.walletGasLimit) {
+    return new RelayPolicyError("WALLET_GAS_BUDGET", "daily gasless gas budget for this wallet is used up", 429, details);
+  }
+  return null;
+}
+
+/**
+ * Count a swap against the wallet's daily quota before it's sent. Throws
+ * RelayPolicyError when a quota is exhausted; otherwise returns a reservation
+ * for chargeSponsoredGas / releaseSponsoredSwap.
+ */
+export async function reserveSponsoredSwap(user) {
+  const day = getDay();
+  const keys = getQuotaKeys(day, user);
+  // Increment first so concurrent requests can't both slip under the limit
+  await addToCounter(keys.swaps, 1);
+  const reservation = { day, user: String(user).toLowerCase() };
+
+  const violation = getQuotaViolation(await getSponsorshipUsage(user), 1);
+  if (violation) {
+    await releaseSponsoredSwap(reservation);
+    throw violation;
+  }
+  return reservation;
+}
+
+/**
+ * Give back a reserved swap that never reached the chain.
+ */
+export async function releaseSponsoredSwap(reservation) {
+  await addToCounter(getQuotaKeys(reservation.day, reservation.user).swaps, -1);
+}
+
+/**
+ * Add gas (wei) to the wallet and global budgets for the reservation's day.
+ * Negative amounts refund an over-estimate once the receipt is known.
+ */
+export async function chargeSponsoredGas(reservation, wei) {
+  const amount = toGwei(wei);
+  if (amount === 0n) return;
+  const keys = getQuotaKeys(reservation.day, reservation.user);
+  await Promise.all([addToCounter(keys.walletGas, amount), addToCounter(keys.globalGas, amount)]);
+}
+
+/**
+ * Most a transaction can cost: gas limit times the fee cap.
+ */
+export function getMaxGasCost(tx) {
+  return BigInt(tx.gasLimit ?? 0n) * BigInt(tx.maxFeePerGas ?? tx.gasPrice ?? 0n);
+}
@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+import { addToSet, deleteKey, deserializeAndDecompress, getSetMembers, removeFromSet, serializeAndCompress, setIfAbsent } from "./redis.js";
+
+// Relay request records, keyed by an idempotency key derived from user + permit
+// nonce. Redis when configured; process memory otherwise (not shared across
+// serverless instances, so status can be lost on a cold start). Broadcast
+// records are also indexed so the relayer's sweep can find stuck transactions.
+
+export const RELAY_STATES = ["queued", "broadcast", "mined", "failed", "replaced"];
+export const TERMINAL_RELAY_STATES = ["mined", "failed", "replaced"];
+
+const KEY_PREFIX = "relay:req:";
+const BROADCAST_SET_KEY = "relay:broadcast";
+const RECORD_TTL_SECONDS = 24 * 60 * 60;
+const MEMORY_MAX_ENTRIES = 5000;
+
+const memoryRecords = new Map();
+
+/**
+ * Same derivation as getRelayIdempotencyKey in client/src/lib/gasless-swap.ts.
+ * A Permit2 nonce can only be spent once, so user + nonce identifies the swap.
+ */
+export function getIdempotencyKey(user, permitNonce) {
+  return ethers.keccak256(ethers.toUtf8Bytes(`${String(user).toLowerCase()}:${BigInt(permitNonce).toString()}`));
+}
+
+export function isValidIdempotencyKey(value) {
+  return typeof value === "string" && /^0x[0-9a-f]{64}$/i.test(value);
+}
+
+function rememberInMemory(id, record) {
+  memoryRecords.delete(id);
+  memoryRecords.set(id, { record, expiresAt: Date.now() + RECORD_TTL_SECONDS * 1000 });
+  while (memoryRecords.size > MEMORY_MAX_ENTRIES) {
+    memoryRecords.delete(memoryRecords.keys().next().value);
+  }
+}
+
+function readFromMemory(id) {
+  const entry = memoryRecords.get(id);
+  if (!entry) return null;
+  if (entry.expiresAt < Date.now()) {
+    memoryRecords.delete(id);
+    return null;
+  }
+  return entry.record;
+}
+
+export async function getRelayRecord(id) {
+  const stored = await deserializeAndDecompress(KEY_PREFIX + id);
+  return stored ?? readFromMemory(id);
+}
+
+/**
+ * Claim an idempotency key for a new request. Returns { claimed: true, record }
+ * for the first caller and { claimed: false, record } with the existing record
+ * for duplicates.
+ */
+export async function claimRelayRecord(id, fields) {
+  const now = Date.now();
+  const record = { id, state: "queued", txHash: null, txHashes: [], error: null, createdAt: now, updatedAt: now, ...fields };
+
+  const written = await setIfAbsent(KEY_PREFIX + id, record, RECORD_TTL_SECONDS);
+  if (written === false) {
+    const existing = await getRelayRecord(id);
+    if (existing) return { claimed: false, record: existing };
+    // Expired between the claim and the read; treat as ours
+  }
+  if (written === null) {
+    const existing = readFromMemory(id);
+    if (existing) return { claimed: false, record: existing };
+  }
+
+  rememberInMemory(id, record);
+  return { claimed: true, record };
+}
+
+export async function updateRelayRecord(id, patch) {
+  const current = (await getRelayRecord(id)) ?? { id, txHashes: [], createdAt: Date.now() };
+  const record = { ...current, ...patch, updatedAt: Date.now() };
+  if (patch.txHash && !record.txHashes.includes(patch.txHash)) {
+    record.txHashes = [...record.txHashes, patch.txHash];
+  }
+  rememberInMemory(id, record);
+  await serializeAndCompress(KEY_PREFIX + id, record, RECORD_TTL_SECONDS);
+  if (record.state === "broadcast") await addToSet(BROADCAST_SET_KEY, id);
+  else if (TERMINAL_RELAY_STATES.includes(record.state)) await removeFromSet(BROADCAST_SET_KEY, id);
+  return record;
+}
+
+/**
+ * Records still waiting on a receipt. Ids that aged out or settled are dropped
+ * from the index as they're found.
+ */
+export async function getBroadcastRelayRecords() {
+  const ids = await getSetMembers(BROADCAST_SET_KEY);
+  if (ids === null) {
+    return [...memoryRecords.keys()].map(readFromMemory).filter((record) => record?.state === "broadcast");
+  }
+
+  const records = [];
+  for (const id of ids) {
+    const record = await getRelayRecord(id);
+    if (record?.state === "broadcast") records.push(record);
+    else await removeFromSet(BROADCAST_SET_KEY, id);
+  }
+  return records;
+}
+
+/**
+ * Drop a record that never reached the chain, so the same signed permit can be resubmitted.
+ */
+export async function releaseRelayRecord(id) {
+  memoryRecords.delete(id);
+  await deleteKey(KEY_PREFIX + id);
+}
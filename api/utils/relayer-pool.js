@@ -0,0 +1,330 @@
+import { ethers } from "ethers";
+
+// Relayer accounts shared by /api/relay and /api/relay/health. Each key is an
+// independent nonce sequence, so requests spread across keys don't queue
+// behind one another.
+
+const RPC_URLS = [
+  process.env.RELAYER_RPC_URL,
+  "https://arc-testnet.drpc.org",
+  "https://rpc.testnet.arc.network",
+].filter((v, idx, arr) => typeof v === "string" && v.length > 0 && arr.indexOf(v) === idx);
+
+// RELAYER_PRIVATE_KEYS is comma-separated; RELAYER_PRIVATE_KEY still works for a single key
+const RELAYER_KEYS = [
+  ...(process.env.RELAYER_PRIVATE_KEYS || "").split(","),
+  process.env.RELAYER_PRIVATE_KEY || "",
+]
+  .map((v) => v.trim())
+  .filter((v, idx, arr) => v.length > 0 && arr.indexOf(v) === idx);
+
+const STATS_TTL_MS = 15_000;
+const STUCK_AFTER_MS = 30_000; // A broadcast tx older than this without a receipt gets re-sent with higher fees
+const REPLACEMENT_BUMP_PCT = 125n; // Nodes require at least +10% to replace; leave headroom
+
+function readLowBalanceThreshold() {
+  const raw = (process.env.RELAYER_LOW_BALANCE || "").trim();
+  try {
+    return ethers.parseEther(raw || "1");
+  } catch {
+    console.warn(`[relay] Invalid RELAYER_LOW_BALANCE=${raw}; using default 1`);
+    return ethers.parseEther("1");
+  }
+}
+
+export const LOW_BALANCE_THRESHOLD = readLowBalanceThreshold(); // Native USDC (18 decimals) is the gas token
+
+export const providers = RPC_URLS.map((url) => new ethers.JsonRpcProvider(url));
+const providerReadyByIndex = new Map();
+
+// One account per key, with a signer on every RPC for failover
+export const relayerAccounts = RELAYER_KEYS.flatMap((key) => {
+  try {
+    const signers = providers.map((provider) => new ethers.Wallet(key, provider));
+    return [{
+      address: signers[0].address,
+      signers,
+      inFlight: 0, // Sends in progress on this instance
+      stats: null, // { balance, pendingCount, checkedAt }
+    }];
+  } catch {
+    console.error("[relay] Ignoring malformed relayer key");
+    return [];
+  }
+});
+
+const nonceStateByWallet = new Map();
+const nonceLockByWallet = new Map();
+
+export function getErrorMessage(err) {
+  if (!err) return "unknown error";
+  if (typeof err === "string") return err;
+  if (err.shortMessage) return String(err.shortMessage);
+  if (err.message) return String(err.message);
+  return JSON.stringify(err);
+}
+
+export function isRetryableError(message) {
+  const text = String(message || "").toLowerCase();
+  return (
+    text.includes("nonce too low") ||
+    text.includes("replacement transaction underpriced") ||
+    text.includes("already known") ||
+    text.includes("transaction underpriced") ||
+    text.includes("timeout") ||
+    text.includes("timed out") ||
+    text.includes("429") ||
+    text.includes("rate") ||
+    text.includes("network") ||
+    text.includes("failed to detect network") ||
+    text.includes("server error") ||
+    text.includes("internal server error") ||
+    text.includes("temporarily") ||
+    text.includes("header not found")
+  );
+}
+
+export function isInsufficientFundsError(err) {
+  return err?.code === "INSUFFICIENT_FUNDS" || getErrorMessage(err).toLowerCase().includes("insufficient funds");
+}
+
+export async function sleep(ms) {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function ensureProviderReady(provider, idx) {
+  if (providerReadyByIndex.get(idx)) return;
+  await provider.getNetwork();
+  providerReadyByIndex.set(idx, true);
+}
+
+export async function withReadProvider(task) {
+  let lastError = null;
+  for (const provider of providers) {
+    try {
+      return await task(provider);
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
+
+export async function getFeeOverrides(provider, attempt) {
+  const feeData = await provider.getFeeData();
+  const bumpPct = 140n + BigInt(attempt) * 20n;
+
+  if (feeData.maxFeePerGas !== null || feeData.maxPriorityFeePerGas !== null) {
+    const basePriority = feeData.maxPriorityFeePerGas ?? 1_500_000_000n;
+    const baseMax = feeData.maxFeePerGas ?? (feeData.gasPrice !== null ? feeData.gasPrice * 2n : basePriority * 2n);
+    const maxPriorityFeePerGas = (basePriority * bumpPct) / 100n + 1n;
+    const bumpedMax = (baseMax * bumpPct) / 100n + 1n;
+    const minMax = maxPriorityFeePerGas * 2n;
+    const maxFeePerGas = bumpedMax > minMax ? bumpedMax : minMax;
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  if (feeData.gasPrice !== null) {
+    return { gasPrice: (feeData.gasPrice * bumpPct) / 100n + 1n };
+  }
+
+  return {};
+}
+
+async function withNonceLock(walletAddress, task) {
+  const key = walletAddress.toLowerCase();
+  const previous = nonceLockByWallet.get(key) ?? Promise.resolve();
+
+  let release;
+  const current = new Promise((resolve) => {
+    release = resolve;
+  });
+
+  const lock = previous.then(() => current);
+  nonceLockByWallet.set(key, lock);
+
+  await previous;
+  try {
+    return await task();
+  } finally {
+    release();
+    if (nonceLockByWallet.get(key) === lock) {
+      nonceLockByWallet.delete(key);
+    }
+  }
+}
+
+export async function getNextNonce(provider, walletAddress) {
+  return withNonceLock(walletAddress, async () => {
+    const key = walletAddress.toLowerCase();
+    const state = nonceStateByWallet.get(key) ?? { nextNonce: null };
+
+    const pending = BigInt(await provider.getTransactionCount(walletAddress, "pending"));
+    if (state.nextNonce === null || state.nextNonce < pending) {
+      state.nextNonce = pending;
+    }
+
+    const nonce = state.nextNonce;
+    state.nextNonce = nonce + 1n;
+    nonceStateByWallet.set(key, state);
+    return nonce;
+  });
+}
+
+export async function markNonceSuccess(walletAddress, nonce) {
+  await withNonceLock(walletAddress, async () => {
+    const key = walletAddress.toLowerCase();
+    const state = nonceStateByWallet.get(key) ?? { nextNonce: null };
+    const expectedNext = nonce + 1n;
+    if (state.nextNonce === null || state.nextNonce < expectedNext) {
+      state.nextNonce = expectedNext;
+    }
+    nonceStateByWallet.set(key, state);
+  });
+}
+
+export async function markNonceFailure(provider, walletAddress, nonce, err) {
+  await withNonceLock(walletAddress, async () => {
+    const key = walletAddress.toLowerCase();
+    const state = nonceStateByWallet.get(key) ?? { nextNonce: null };
+    const message = getErrorMessage(err);
+    const retryable = isRetryableError(message);
+
+    try {
+      const pending = BigInt(await provider.getTransactionCount(walletAddress, "pending"));
+      state.nextNonce = retryable ? (pending > nonce ? pending : nonce + 1n) : pending;
+    } catch {
+      state.nextNonce = retryable ? nonce + 1n : nonce;
+    }
+
+    nonceStateByWallet.set(key, state);
+  });
+}
+
+/**
+ * Balance and unmined transaction count for an account, cached for 15s.
+ */
+export async function getAccountStats(account, force = false) {
+  if (!force && account.stats && Date.now() - account.stats.checkedAt < STATS_TTL_MS) return account.stats;
+  const [balance, latest, pending] = await withReadProvider((provider) => Promise.all([
+    provider.getBalance(account.address),
+    provider.getTransactionCount(account.address, "latest"),
+    provider.getTransactionCount(account.address, "pending"),
+  ]));
+  account.stats = { balance, pendingCount: Math.max(0, pending - latest), checkedAt: Date.now() };
+  return account.stats;
+}
+
+/**
+ * Pick the least-loaded account that isn't low on gas, falling back to the
+ * richest one when every account is low. The caller must releaseRelayer it.
+ */
+export async function acquireRelayer(exclude = []) {
+  const candidates = relayerAccounts.filter((account) => !exclude.includes(account));
+  if (candidates.length === 0) throw new Error("no relayer account available");
+
+  await Promise.all(candidates.map((account) => getAccountStats(account).catch((err) => {
+    console.warn(`[relay] Stats refresh failed for ${account.address}:`, getErrorMessage(err));
+  })));
+
+  const load = (account) => account.inFlight + (account.stats?.pendingCount ?? 0);
+  const funded = candidates.filter((account) => !account.stats || account.stats.balance >= LOW_BALANCE_THRESHOLD);
+  const pool = funded.length > 0
+    ? funded
+    : [...candidates].sort((a, b) => (b.stats?.balance ?? 0n) > (a.stats?.balance ?? 0n) ? 1 : -1).slice(0, 1);
+
+  const selected = pool.reduce((best, account) => (load(account) < load(best) ? account : best));
+  selected.inFlight += 1;
+  return selected;
+}
+
+export function releaseRelayer(account) {
+  account.inFlight = Math.max(0, account.inFlight - 1);
+}
+
+export function findRelayerAccount(address) {
+  return relayerAccounts.find((account) => account.address.toLowerCase() === String(address).toLowerCase()) ?? null;
+}
+
+function bumpFee(original, current) {
+  const bumped = ((original ?? 0n) * REPLACEMENT_BUMP_PCT) / 100n + 1n;
+  return current != null && current > bumped ? current : bumped;
+}
+
+/**
+ * Re-send a transaction that has sat unmined for too long, with the same nonce
+ * and calldata and fees bumped past the original. Returns the replacement, or
+ * null when the original is mined, gone, or not yet stuck.
+ */
+export async function replaceStuckTransaction(txHash, broadcastAt) {
+  if (Date.now() - broadcastAt < STUCK_AFTER_MS) return null;
+
+  for (let idx = 0; idx < providers.length; idx += 1) {
+    const provider = providers[idx];
+    try {
+      const original = await provider.getTransaction(txHash);
+      if (!original || original.blockNumber != null) return null;
+      const account = findRelayerAccount(original.from);
+      if (!account) return null;
+
+      const latestNonce = await provider.getTransactionCount(account.address, "latest");
+      if (latestNonce > original.nonce) return null; // Something with this nonce already landed
+
+      const feeData = await provider.getFeeData();
+      const fees = original.maxFeePerGas != null
+        ? {
+            maxFeePerGas: bumpFee(original.maxFeePerGas, feeData.maxFeePerGas),
+            maxPriorityFeePerGas: bumpFee(original.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas),
+          }
+        : { gasPrice: bumpFee(original.gasPrice, feeData.gasPrice) };
+
+      const replacement = await account.signers[idx].sendTransaction({
+        to: original.to,
+        data: original.data,
+        value: original.value,
+        gasLimit: original.gasLimit,
+        nonce: original.nonce,
+        ...fees,
+      });
+      console.warn(`[relay] Replaced stuck tx ${txHash} with ${replacement.hash} (nonce ${original.nonce})`);
+      return replacement;
+    } catch (err) {
+      const message = getErrorMessage(err);
+      // Another request replaced it first, or the original just got mined
+      const text = message.toLowerCase();
+      if (text.includes("nonce too low") || text.includes("underpriced") || text.includes("already known")) return null;
+      console.warn(`[relay] Stuck tx replacement failed on RPC ${idx}:`, message);
+    }
+  }
+  return null;
+}
+
+/**
+ * Per-account balances and backlog for the health route.
+ */
+export async function getRelayerHealth() {
+  const wallets = await Promise.all(relayerAccounts.map(async (account) => {
+    try {
+      const stats = await getAccountStats(account, true);
+      return {
+        address: account.address,
+        balance: ethers.formatEther(stats.balance),
+        lowBalance: stats.balance < LOW_BALANCE_THRESHOLD,
+        pendingTransactions: stats.pendingCount,
+        inFlight: account.inFlight,
+      };
+    } catch (err) {
+      return { address: account.address, error: getErrorMessage(err) };
+    }
+  }));
+
+  const healthy = wallets.filter((wallet) => !wallet.error && !wallet.lowBalance);
+  return {
+    ok: healthy.length > 0,
+    configured: relayerAccounts.length,
+    healthy: healthy.length,
+    lowBalanceThreshold: ethers.formatEther(LOW_BALANCE_THRESHOLD),
+    rpcs: providers.length,
+    wallets,
+  };
+}
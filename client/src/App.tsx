@@ -6,6 +6,7 @@ import { RainbowKitProvider, darkTheme } from "@rainbow-me/rainbowkit";
 import { queryClient } from "./lib/queryClient";
 import { config } from "./lib/wagmi";
 import { bootstrapAppReadiness, hasCompletedAppBootstrap, type AppBootstrapPhase } from "./lib/app-bootstrap";
+import { resumeTrackedTransactions } from "./lib/tx-tracker";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { Header } from "@/components/Header";
@@ -136,6 +137,11 @@ function App() {
   const [bootPhase, setBootPhase] = useState<AppBootstrapPhase>("rpc");
   const [bootVisible, setBootVisible] = useState(initiallyVisible);
 
+  // Pick up transactions that were still confirming when the page was closed
+  useEffect(() => {
+    resumeTrackedTransactions();
+  }, []);
+
   useEffect(() => {
     let cancelled = false;
     const startedAt = Date.now();
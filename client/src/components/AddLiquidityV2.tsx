@@ -3,14 +3,18 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Plus, ExternalLink, RefreshCw, Info, Droplets, AlertTriangle, AlertOctagon } from "lucide-react";
 import { TokenSelector } from "@/components/TokenSelector";
+import { LinkedTokenImport } from "@/components/LinkedTokenImport";
 import { useAccount, useBalance, useChainId } from "wagmi";
 import { useToast } from "@/hooks/use-toast";
+import { useLinkedTokens } from "@/hooks/use-linked-tokens";
 import type { Token } from "@shared/schema";
 import { Contract, BrowserProvider, formatUnits, parseUnits } from "ethers";
 import { defaultTokens, getTokensByChainId, isRWAToken, isCanonicalUSDC, getWrappedAddress } from "@/data/tokens";
 import { formatAmount, parseAmount, calculateRatio, getMaxAmount } from "@/lib/decimal-utils";
 import { getContractsForChain } from "@/lib/contracts";
 import { getErrorForToast } from "@/lib/error-utils";
+import { LIQUIDITY_LINK_TOKEN_FIELDS, parseLinkAmount } from "@/lib/deep-links";
+import { trackTransaction } from "@/lib/tx-tracker";
 import { createAlchemyProvider } from "@/lib/config";
 import { getTokenLogoUrl } from "@/lib/token-logo";
 
@@ -371,6 +375,23 @@ export function AddLiquidityV2() {
     }
   };
 
+  // ── Link params ────────────────────────────────────────────────────────────
+  // ?currencyA=…&currencyB=…&amountA=… prefills the form once tokens are loaded
+  const linkedTokens = useLinkedTokens({
+    fields: LIQUIDITY_LINK_TOKEN_FIELDS,
+    tokens,
+    onToken: (field, token) => {
+      if (isRWAToken(token)) return; // RWA tokens trade through their vaults, not pools
+      if (field === "currencyA") setTokenA(token);
+      else setTokenB(token);
+    },
+    onApply: (params) => {
+      const amount = parseLinkAmount(params.get("amountA"));
+      if (amount) setAmountA(amount);
+    },
+    importToken: handleImportToken,
+  });
+
   const isTokenANative = tokenA?.address === ZERO_ADDRESS;
   const isTokenBNative = tokenB?.address === ZERO_ADDRESS;
 
@@ -448,7 +469,7 @@ export function AddLiquidityV2() {
         if (allowance < tokenAmount) {
           const g = await tokenContract.approve.estimateGas(contracts.v2.router, tokenAmount);
           const approveTx = await tokenContract.approve(contracts.v2.router, tokenAmount, { gasLimit: g * 150n / 100n });
-          const approveReceipt = await approveTx.wait();
+          const approveReceipt = await trackTransaction(approveTx, { label: `Approve ${token.symbol}` });
           await Promise.all([refetchBalanceA(), refetchBalanceB()]);
           toast({ title: "Approval successful", description: (<div className="flex items-center gap-2"><span>Token approval confirmed</span><Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => openExplorer(approveReceipt.hash)}><ExternalLink className="h-3 w-3" /></Button></div>) });
         }
@@ -460,21 +481,21 @@ export function AddLiquidityV2() {
         if ((await tokenAContract.allowance(address, contracts.v2.router)) < amountADesired) {
           const g = await tokenAContract.approve.estimateGas(contracts.v2.router, amountADesired);
           const approveTx = await tokenAContract.approve(contracts.v2.router, amountADesired, { gasLimit: g * 150n / 100n });
-          const approveReceipt = await approveTx.wait();
+          const approveReceipt = await trackTransaction(approveTx, { label: `Approve ${tokenA.symbol}` });
           await Promise.all([refetchBalanceA(), refetchBalanceB()]);
           toast({ title: "Approval successful", description: (<div className="flex items-center gap-2"><span>Token A approved</span><Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => openExplorer(approveReceipt.hash)}><ExternalLink className="h-3 w-3" /></Button></div>) });
         }
         if ((await tokenBContract.allowance(address, contracts.v2.router)) < amountBDesired) {
           const g = await tokenBContract.approve.estimateGas(contracts.v2.router, amountBDesired);
           const approveTx = await tokenBContract.approve(contracts.v2.router, amountBDesired, { gasLimit: g * 150n / 100n });
-          const approveReceipt = await approveTx.wait();
+          const approveReceipt = await trackTransaction(approveTx, { label: `Approve ${tokenB.symbol}` });
           await Promise.all([refetchBalanceA(), refetchBalanceB()]);
           toast({ title: "Approval successful", description: (<div className="flex items-center gap-2"><span>Token B approved</span><Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => openExplorer(approveReceipt.hash)}><ExternalLink className="h-3 w-3" /></Button></div>) });
         }
         const gasEstimate = await router.addLiquidity.estimateGas(tokenAAddress, tokenBAddress, amountADesired, amountBDesired, amountAMin, amountBMin, address, deadline);
         tx = await router.addLiquidity(tokenAAddress, tokenBAddress, amountADesired, amountBDesired, amountAMin, amountBMin, address, deadline, { gasLimit: gasEstimate * 150n / 100n });
       }
-      await tx.wait();
+      await trackTransaction(tx, { label: `Add ${tokenA.symbol}/${tokenB.symbol} liquidity` });
       setAmountA(""); setAmountB("");
       await new Promise(resolve => setTimeout(resolve, 1500));
       await Promise.all([refetchBalanceA(), refetchBalanceB()]);
@@ -984,6 +1005,7 @@ export function AddLiquidityV2() {
         onToggleFavorite={toggleFavoriteToken}
         showBalances
       />
+      <LinkedTokenImport pendingImport={linkedTokens.pendingImport} onConfirm={linkedTokens.confirmImport} onDismiss={linkedTokens.dismissImport} />
     </>
   );
 }
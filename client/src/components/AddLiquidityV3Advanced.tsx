@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { TokenSelector } from "@/components/TokenSelector";
+import { LinkedTokenImport } from "@/components/LinkedTokenImport";
 import { getTokenLogoUrl } from "@/lib/token-logo";
 import { useAccount, useChainId } from "wagmi";
 import { useToast } from "@/hooks/use-toast";
+import { useLinkedTokens } from "@/hooks/use-linked-tokens";
 import type { Token } from "@shared/schema";
 import { Contract, BrowserProvider, formatUnits } from "ethers";
 import { createAlchemyProvider } from "@/lib/config";
@@ -11,6 +13,8 @@ import { getTokensByChainId, isNativeToken, getWrappedAddress, isRWAToken, isCan
 import { formatAmount, parseAmount, getMaxAmount } from "@/lib/decimal-utils";
 import { getContractsForChain } from "@/lib/contracts";
 import { getErrorForToast } from "@/lib/error-utils";
+import { LIQUIDITY_LINK_TOKEN_FIELDS, parseLinkAmount, parseLinkNumber } from "@/lib/deep-links";
+import { trackTransaction } from "@/lib/tx-tracker";
 import {
   NONFUNGIBLE_POSITION_MANAGER_ABI, V3_FACTORY_ABI, V3_POOL_ABI, V3_FEE_TIERS,
 } from "@/lib/abis/v3";
@@ -291,6 +295,25 @@ export function AddLiquidityV3Advanced() {
     }
   };
 
+  // ── Link params ────────────────────────────────────────────────────────────
+  // ?currencyA=…&currencyB=…&amountA=…&fee=… prefills the form once tokens are loaded
+  const linkedTokens = useLinkedTokens({
+    fields: LIQUIDITY_LINK_TOKEN_FIELDS,
+    tokens,
+    onToken: (field, token) => {
+      if (isRWAToken(token)) return; // RWA tokens trade through their vaults, not pools
+      if (field === "currencyA") setTokenA(token);
+      else setTokenB(token);
+    },
+    onApply: (params) => {
+      const amount = parseLinkAmount(params.get("amountA"));
+      if (amount) setAmountA(amount);
+      const fee = parseLinkNumber(params.get("fee"));
+      if (fee !== null && FEE_OPTIONS.some(opt => opt.value === fee)) setSelectedFee(fee);
+    },
+    importToken: handleImportToken,
+  });
+
   // ── Balances ───────────────────────────────────────────────────────────────
   useEffect(() => {
     if (!address || !window.ethereum || !tokenA || !tokenB || !chainId) return;
@@ -576,8 +599,8 @@ export function AddLiquidityV3Advanced() {
       }
       toast({ title: "Approving tokens…" });
       const pmAddr = contracts.v3.nonfungiblePositionManager;
-      if (amount0Desired > 0n && !(tokenAIsNative && isToken0A) && !(tokenBIsNative && !isToken0A)) { const c = new Contract(token0.address, ERC20_ABI, signer); if (await c.allowance(address, pmAddr) < amount0Desired) await (await c.approve(pmAddr, amount0Desired)).wait(); }
-      if (amount1Desired > 0n && !(tokenAIsNative && !isToken0A) && !(tokenBIsNative && isToken0A)) { const c = new Contract(token1.address, ERC20_ABI, signer); if (await c.allowance(address, pmAddr) < amount1Desired) await (await c.approve(pmAddr, amount1Desired)).wait(); }
+      if (amount0Desired > 0n && !(tokenAIsNative && isToken0A) && !(tokenBIsNative && !isToken0A)) { const c = new Contract(token0.address, ERC20_ABI, signer); if (await c.allowance(address, pmAddr) < amount0Desired) await trackTransaction(await c.approve(pmAddr, amount0Desired), { label: `Approve ${token0.symbol}` }); }
+      if (amount1Desired > 0n && !(tokenAIsNative && !isToken0A) && !(tokenBIsNative && isToken0A)) { const c = new Contract(token1.address, ERC20_ABI, signer); if (await c.allowance(address, pmAddr) < amount1Desired) await trackTransaction(await c.approve(pmAddr, amount1Desired), { label: `Approve ${token1.symbol}` }); }
       const slipPct = Number.isFinite(parseFloat(slippage)) ? Math.max(0, Math.min(50, parseFloat(slippage))) : 2;
       const slippageBps = BigInt(Math.floor(slipPct * 100));
       const amount0Min = (amount0Desired * (10000n - slippageBps)) / 10000n;
@@ -604,10 +627,10 @@ export function AddLiquidityV3Advanced() {
       if (nativeAmount > 0n) calls.push(pm.interface.encodeFunctionData("refundETH", []));
       if (calls.length > 1 || nativeAmount > 0n) {
         const gas = await pm.multicall.estimateGas(calls, { value: nativeAmount });
-        receipt = await (await pm.multicall(calls, { value: nativeAmount, gasLimit: gas * 150n / 100n })).wait();
+        receipt = await trackTransaction(await pm.multicall(calls, { value: nativeAmount, gasLimit: gas * 150n / 100n }), { label: `Add ${token0.symbol}/${token1.symbol} V3 liquidity` });
       } else {
         const gas = await pm.mint.estimateGas(params);
-        receipt = await (await pm.mint(params, { gasLimit: gas * 150n / 100n })).wait();
+        receipt = await trackTransaction(await pm.mint(params, { gasLimit: gas * 150n / 100n }), { label: `Add ${token0.symbol}/${token1.symbol} V3 liquidity` });
       }
       setAmountA(""); setAmountB(""); setAmountBIsAuto(false); setAutoCalcAmounts(null);
       await fetchPoolState();
@@ -1193,6 +1216,7 @@ export function AddLiquidityV3Advanced() {
         setTokenB(t);
         setShowTokenBSelector(false);
       }} tokens={tokens.filter(t => !isRWAToken(t))} onImport={handleImportToken} showBalances />
+      <LinkedTokenImport pendingImport={linkedTokens.pendingImport} onConfirm={linkedTokens.confirmImport} onDismiss={linkedTokens.dismissImport} />
     </>
   );
 }
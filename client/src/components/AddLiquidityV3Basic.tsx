@@ -1,8 +1,10 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { TokenSelector } from "@/components/TokenSelector";
+import { LinkedTokenImport } from "@/components/LinkedTokenImport";
 import { useAccount, useChainId } from "wagmi";
 import { useToast } from "@/hooks/use-toast";
+import { useLinkedTokens } from "@/hooks/use-linked-tokens";
 import type { Token } from "@shared/schema";
 import { Contract, BrowserProvider, formatUnits } from "ethers";
 import { createAlchemyProvider } from "@/lib/config";
@@ -10,6 +12,8 @@ import { getTokensByChainId, isNativeToken, getWrappedAddress, isRWAToken, isCan
 import { formatAmount, parseAmount, getMaxAmount } from "@/lib/decimal-utils";
 import { getContractsForChain } from "@/lib/contracts";
 import { getErrorForToast } from "@/lib/error-utils";
+import { LIQUIDITY_LINK_TOKEN_FIELDS, parseLinkAmount, parseLinkNumber } from "@/lib/deep-links";
+import { trackTransaction } from "@/lib/tx-tracker";
 import {
   NONFUNGIBLE_POSITION_MANAGER_ABI,
   V3_FACTORY_ABI,
@@ -215,6 +219,25 @@ export function AddLiquidityV3Basic() {
     }
   };
 
+  // ── Link params ────────────────────────────────────────────────────────────
+  // ?currencyA=…&currencyB=…&amountA=…&fee=… prefills the form once tokens are loaded
+  const linkedTokens = useLinkedTokens({
+    fields: LIQUIDITY_LINK_TOKEN_FIELDS,
+    tokens,
+    onToken: (field, token) => {
+      if (isRWAToken(token)) return; // RWA tokens trade through their vaults, not pools
+      if (field === "currencyA") setTokenA(token);
+      else setTokenB(token);
+    },
+    onApply: (params) => {
+      const amount = parseLinkAmount(params.get("amountA"));
+      if (amount) setAmountA(amount);
+      const fee = parseLinkNumber(params.get("fee"));
+      if (fee !== null && FEE_OPTIONS.some(opt => opt.value === fee)) setSelectedFee(fee);
+    },
+    importToken: handleImportToken,
+  });
+
   // ── Fetch balances ─────────────────────────────────────────────────────────
   const fetchBalances = useCallback(async () => {
     if (!address || !chainId || !window.ethereum) { setBalanceA(null); setBalanceB(null); return; }
@@ -374,8 +397,8 @@ export function AddLiquidityV3Basic() {
       }
       const { tickLower, tickUpper } = getFullRangeTicks(selectedFee);
       toast({ title: "Approving tokens…", description: "Please approve token spending" });
-      if (!tokenAIsNative || !isToken0A) { const c = new Contract(token0.address, ERC20_ABI, signer); if ((await c.allowance(address, contracts.v3.nonfungiblePositionManager)) < amount0Desired) await (await c.approve(contracts.v3.nonfungiblePositionManager, amount0Desired)).wait(); }
-      if (!tokenBIsNative || isToken0A) { const c = new Contract(token1.address, ERC20_ABI, signer); if ((await c.allowance(address, contracts.v3.nonfungiblePositionManager)) < amount1Desired) await (await c.approve(contracts.v3.nonfungiblePositionManager, amount1Desired)).wait(); }
+      if (!tokenAIsNative || !isToken0A) { const c = new Contract(token0.address, ERC20_ABI, signer); if ((await c.allowance(address, contracts.v3.nonfungiblePositionManager)) < amount0Desired) await trackTransaction(await c.approve(contracts.v3.nonfungiblePositionManager, amount0Desired), { label: `Approve ${token0.symbol}` }); }
+      if (!tokenBIsNative || isToken0A) { const c = new Contract(token1.address, ERC20_ABI, signer); if ((await c.allowance(address, contracts.v3.nonfungiblePositionManager)) < amount1Desired) await trackTransaction(await c.approve(contracts.v3.nonfungiblePositionManager, amount1Desired), { label: `Approve ${token1.symbol}` }); }
       const params = { token0: token0.address, token1: token1.address, fee: selectedFee, tickLower, tickUpper, amount0Desired, amount1Desired, amount0Min: (amount0Desired * 98n) / 100n, amount1Min: (amount1Desired * 98n) / 100n, recipient: address, deadline: Math.floor(Date.now() / 1000) + 1200 };
       toast({ title: needsPoolCreation ? "Creating pool & adding liquidity…" : "Adding liquidity…", description: needsPoolCreation ? "Creating V3 pool and position in one transaction" : "Creating V3 position" });
       let receipt;
@@ -386,10 +409,10 @@ export function AddLiquidityV3Basic() {
       if (nativeAmount > 0n) calls.push(pm.interface.encodeFunctionData("refundETH", []));
       if (calls.length > 1 || nativeAmount > 0n) {
         const gasEst = await pm.multicall.estimateGas(calls, { value: nativeAmount });
-        receipt = await (await pm.multicall(calls, { value: nativeAmount, gasLimit: gasEst * 150n / 100n })).wait();
+        receipt = await trackTransaction(await pm.multicall(calls, { value: nativeAmount, gasLimit: gasEst * 150n / 100n }), { label: `Add ${token0.symbol}/${token1.symbol} V3 liquidity` });
       } else {
         const gasEst = await pm.mint.estimateGas(params);
-        receipt = await (await pm.mint(params, { gasLimit: gasEst * 150n / 100n })).wait();
+        receipt = await trackTransaction(await pm.mint(params, { gasLimit: gasEst * 150n / 100n }), { label: `Add ${token0.symbol}/${token1.symbol} V3 liquidity` });
       }
       setAmountA(""); setAmountB("");
       await Promise.all([fetchPoolState(), fetchBalances()]);
@@ -852,6 +875,7 @@ export function AddLiquidityV3Basic() {
         setTokenB(t);
         setShowTokenBSelector(false);
       }} tokens={tokens.filter(t => !isRWAToken(t))} onImport={handleImportToken} showBalances />
+      <LinkedTokenImport pendingImport={linkedTokens.pendingImport} onConfirm={linkedTokens.confirmImport} onDismiss={linkedTokens.dismissImport} />
     </>
   );
 }
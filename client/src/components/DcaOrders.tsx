@@ -0,0 +1,451 @@
+import { useEffect, useState } from "react";
+import { X, Repeat, Loader2, ExternalLink, ChevronDown, CheckCircle2, XCircle, Clock } from "lucide-react";
+import { BrowserProvider } from "ethers";
+import { useAccount, useChainId } from "wagmi";
+import type { Token } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { getTokensByChainId, getWrappedAddress, isNativeToken } from "@/data/tokens";
+import { NATIVE_TOKEN, NATIVE_TOKEN_DECIMALS } from "@/lib/gasless-config";
+import { approvePermit2, checkPermit2Approval } from "@/lib/gasless-swap";
+import { formatAmount, parseAmount } from "@/lib/decimal-utils";
+import { getErrorForToast } from "@/lib/error-utils";
+import { getChainByChainId } from "@/lib/cctp-config";
+import {
+  MAX_DCA_SCHEDULE_DAYS,
+  MAX_DCA_SLICES,
+  MIN_DCA_SLICES,
+  cancelDcaOrder,
+  createDcaOrder,
+  getDcaOrders,
+  getDcaUnsupportedReason,
+  type DcaOrder,
+  type DcaSlice,
+  type DcaSliceStatus,
+} from "@/lib/dca-orders";
+
+interface DcaOrdersProps {
+  open: boolean;
+  onClose: () => void;
+  fromToken: Token | null;
+  toToken: Token | null;
+  fromAmount: string; // Total to spend across all slices
+  slippage: number; // Percent, applied to each slice's quote at fill time
+  onChange?: () => void; // An order was created (new permits were signed)
+}
+
+const INTERVAL_OPTIONS = [
+  { label: "1h", seconds: 60 * 60 },
+  { label: "4h", seconds: 4 * 60 * 60 },
+  { label: "1d", seconds: 24 * 60 * 60 },
+  { label: "1w", seconds: 7 * 24 * 60 * 60 },
+];
+
+const SLICE_STATUS_COPY: Record<DcaSliceStatus, string> = {
+  scheduled: "Scheduled",
+  filling: "Filling",
+  filled: "Filled",
+  missed: "Missed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const REFRESH_MS = 15000;
+
+function formatInterval(seconds: number): string {
+  return INTERVAL_OPTIONS.find((option) => option.seconds === seconds)?.label ?? `${Math.round(seconds / 60)}m`;
+}
+
+function formatDue(dueAt: number): string {
+  const diffMins = Math.ceil((dueAt * 1000 - Date.now()) / 60000);
+  if (diffMins <= 0) return "Due now";
+  if (diffMins < 60) return `In ${diffMins}m`;
+  if (diffMins < 24 * 60) return `In ${Math.floor(diffMins / 60)}h ${diffMins % 60}m`;
+  return `In ${Math.floor(diffMins / (24 * 60))}d`;
+}
+
+function SliceIcon({ status }: { status: DcaSliceStatus }) {
+  if (status === "filling") return <Loader2 className="w-3 h-3 text-blue-400 animate-spin" />;
+  if (status === "filled") return <CheckCircle2 className="w-3 h-3 text-green-400" />;
+  if (status === "scheduled") return <Clock className="w-3 h-3 text-white/25" />;
+  return <XCircle className={`w-3 h-3 ${status === "failed" ? "text-red-400" : "text-white/25"}`} />;
+}
+
+export function DcaOrders({ open, onClose, fromToken, toToken, fromAmount, slippage, onChange }: DcaOrdersProps) {
+  const [orders, setOrders] = useState<DcaOrder[]>([]);
+  const [visible, setVisible] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [sliceCount, setSliceCount] = useState("10");
+  const [intervalSeconds, setIntervalSeconds] = useState(INTERVAL_OPTIONS[2].seconds);
+  const [creating, setCreating] = useState<string | null>(null); // Progress through the signing prompts
+  const [cancelling, setCancelling] = useState<string | null>(null); // Order id being cancelled
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { toast } = useToast();
+
+  // Animate in/out — same pattern as TransactionHistory
+  useEffect(() => {
+    if (open) {
+      setMounted(true);
+      requestAnimationFrame(() => requestAnimationFrame(() => setVisible(true)));
+    } else {
+      setVisible(false);
+      const t = setTimeout(() => setMounted(false), 300);
+      return () => clearTimeout(t);
+    }
+  }, [open]);
+
+  // Load on open and keep fills and due times current while it stays open
+  const refreshOrders = (signal?: AbortSignal) => {
+    if (!address) return;
+    getDcaOrders(address, signal)
+      .then(setOrders)
+      .catch((error) => {
+        if (!signal?.aborted) console.warn("[DCA] Load failed:", error);
+      });
+  };
+
+  useEffect(() => {
+    if (!open || !address) return;
+    const controller = new AbortController();
+    refreshOrders(controller.signal);
+    const interval = setInterval(() => refreshOrders(controller.signal), REFRESH_MS);
+    return () => { controller.abort(); clearInterval(interval); };
+  }, [open, address]);
+
+  // Escape key
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [open, onClose]);
+
+  const findToken = (tokenAddress: string) => {
+    if (tokenAddress.toLowerCase() === NATIVE_TOKEN.toLowerCase()) return { symbol: "USDC", decimals: NATIVE_TOKEN_DECIMALS };
+    const token = getTokensByChainId(chainId).find((t) => t.address.toLowerCase() === tokenAddress.toLowerCase());
+    return { symbol: token?.symbol ?? `${tokenAddress.slice(0, 6)}…${tokenAddress.slice(-4)}`, decimals: token?.decimals ?? 18 };
+  };
+
+  const describe = (tokenAddress: string, amount: string) => {
+    const token = findToken(tokenAddress);
+    return `${formatAmount(BigInt(amount), token.decimals)} ${token.symbol}`;
+  };
+
+  const getExplorerTxUrl = (txHash: string) => {
+    const chain = getChainByChainId(chainId);
+    return chain ? `${chain.explorerUrl}${chain.explorerTxPath}${txHash}` : null;
+  };
+
+  const totalAmount = fromToken ? parseAmount(fromAmount, fromToken.decimals) : 0n;
+  const slices = Number(sliceCount);
+  const validSlices = Number.isInteger(slices) && slices >= MIN_DCA_SLICES && slices <= MAX_DCA_SLICES;
+  const validSchedule = !validSlices || slices * intervalSeconds <= MAX_DCA_SCHEDULE_DAYS * 24 * 60 * 60;
+  const unsupportedReason = getDcaUnsupportedReason(fromToken, toToken);
+  const canCreate = !!address && !unsupportedReason && totalAmount > 0n && validSlices && validSchedule && !creating;
+  const perSlice = fromToken && validSlices && totalAmount > 0n ? formatAmount(totalAmount / BigInt(slices), fromToken.decimals) : null;
+
+  const describeSlice = (order: DcaOrder, slice: DcaSlice) => {
+    if (slice.status === "scheduled") return slice.error ? `${formatDue(slice.dueAt)} · ${slice.error}` : formatDue(slice.dueAt);
+    if (slice.status === "filled" && slice.amountOut) return `Received ${describe(order.tokenOut, slice.amountOut)}`;
+    return slice.error ?? SLICE_STATUS_COPY[slice.status];
+  };
+
+  const handleCreate = async () => {
+    if (!window.ethereum || !fromToken || !toToken || !canCreate) return;
+    setCreating("Preparing…");
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      // Same token mapping as gasless swaps: native USDC is pulled as NATIVE_TOKEN and paid out as wUSDC
+      const fromNative = isNativeToken(fromToken.address);
+      const tokenIn = fromNative ? NATIVE_TOKEN : fromToken.address;
+      const tokenOut = isNativeToken(toToken.address) ? getWrappedAddress(chainId, toToken.address) : toToken.address;
+      if (!tokenOut) throw new Error("Wrapped token address not found");
+
+      if (!(await checkPermit2Approval(signer, tokenIn))) {
+        toast({ title: "Enabling Permit2…", description: "Approve Permit2 once so the relayer can fill every slice" });
+        await approvePermit2(signer, tokenIn);
+      }
+
+      toast({ title: "Starting DCA…", description: `Sign ${slices} slice permits, then the order terms` });
+      const order = await createDcaOrder(
+        signer,
+        {
+          tokenIn,
+          tokenOut,
+          totalAmountIn: fromNative ? totalAmount / 10n ** BigInt((fromToken.decimals || 18) - NATIVE_TOKEN_DECIMALS) : totalAmount,
+          sliceCount: slices,
+          intervalSeconds,
+          slippageBps: Math.floor(slippage * 100),
+        },
+        (signed, total) => setCreating(signed < total ? `Signed ${signed}/${total}…` : "Signing order…"),
+      );
+      setOrders((prev) => [order, ...prev.filter((o) => o.id !== order.id)]);
+      onChange?.();
+      toast({
+        title: "DCA order created",
+        description: `${slices} slices of ${perSlice} ${fromToken.symbol} every ${formatInterval(intervalSeconds)}. The relayer fills the first one within a minute or two.`,
+      });
+    } catch (error) {
+      const { title, description } = getErrorForToast(error);
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setCreating(null);
+    }
+  };
+
+  const handleCancel = async (order: DcaOrder) => {
+    if (!window.ethereum) return;
+    setCancelling(order.id);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      const cancelled = await cancelDcaOrder(signer, order);
+      setOrders((prev) => prev.map((o) => (o.id === cancelled.id ? cancelled : o)));
+      toast({
+        title: "DCA order cancelled",
+        description: "The relayer won't fill the remaining slices. Their signed permits stay listed under signed permits until they expire.",
+      });
+    } catch (error) {
+      const { title, description } = getErrorForToast(error);
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  if (!mounted) return null;
+
+  const activeCount = orders.filter((order) => order.status === "active").length;
+  const fillingCount = orders.filter((order) => order.slices.some((slice) => slice.status === "filling")).length;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        onTouchMove={(e) => e.preventDefault()}
+        className="fixed inset-0 z-50 transition-all duration-300"
+        style={{
+          background: "rgba(0,0,0,0.72)",
+          backdropFilter: visible ? "blur(8px)" : "blur(0px)",
+          opacity: visible ? 1 : 0,
+        }}
+      />
+
+      {/* Panel */}
+      <div
+        className="fixed z-50 left-0 right-0 bottom-0 sm:inset-0 sm:flex sm:items-center sm:justify-center sm:p-4"
+        style={{ pointerEvents: "none" }}
+      >
+        <div
+          data-dca-panel
+          className="relative w-full sm:max-w-md overflow-hidden"
+          style={{
+            pointerEvents: "auto",
+            background: "linear-gradient(160deg, #0f1117 0%, #0c0e13 100%)",
+            border: "1px solid rgba(255,255,255,0.07)",
+            boxShadow: "0 -4px 48px rgba(0,0,0,0.7), 0 0 0 1px rgba(255,255,255,0.04)",
+            borderRadius: "20px 20px 0 0",
+            transform: visible ? "translateY(0)" : "translateY(100%)",
+            opacity: visible ? 1 : 0,
+            transition: "transform 0.32s cubic-bezier(0.32,0.72,0,1), opacity 0.2s ease",
+            maxHeight: "92dvh",
+            display: "flex",
+            flexDirection: "column",
+          }}
+        >
+          {/* Drag handle — mobile only */}
+          <div className="flex justify-center pt-3 pb-1 sm:hidden">
+            <div className="w-9 h-1 rounded-full bg-white/10" />
+          </div>
+
+          {/* Header */}
+          <div className="flex items-center justify-between px-5 pt-4 pb-3 sm:pt-5 flex-shrink-0">
+            <div>
+              <h2 className="text-base font-semibold text-white tracking-tight">Recurring Swaps</h2>
+              <p className="text-[11px] text-white/30 mt-0.5">
+                {activeCount === 0
+                  ? "No active DCA orders"
+                  : `${activeCount} active order${activeCount !== 1 ? "s" : ""}${fillingCount > 0 ? ` · ${fillingCount} filling` : ""}`}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-xl flex items-center justify-center text-white/40 hover:text-white hover:bg-white/8 transition-all"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Divider */}
+          <div className="mx-5 h-px flex-shrink-0" style={{ background: "rgba(255,255,255,0.05)" }} />
+
+          {/* Scrollable content */}
+          <div
+            className="flex-1 overflow-y-auto overscroll-contain px-5 py-4"
+            style={{ scrollbarWidth: "none", WebkitOverflowScrolling: "touch" }}
+          >
+            {/* New order */}
+            <div
+              className="rounded-2xl p-4 space-y-3"
+              style={{ background: "rgba(255,255,255,0.025)", border: "1px solid rgba(255,255,255,0.06)" }}
+            >
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white/40">Total</span>
+                <span className="font-semibold text-white tabular-nums">
+                  {fromToken && toToken && totalAmount > 0n
+                    ? `${fromAmount} ${fromToken.symbol} → ${toToken.symbol}`
+                    : "Enter an amount on the swap form"}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="text-[11px] text-white/40 flex-shrink-0">Slices</label>
+                <input
+                  value={sliceCount}
+                  onChange={(e) => setSliceCount(e.target.value.replace(/[^0-9]/g, ""))}
+                  inputMode="numeric"
+                  className="w-16 h-8 rounded-lg px-2 bg-white/[0.04] text-sm text-white tabular-nums outline-none"
+                />
+                <div className="flex gap-1.5 flex-1">
+                  {INTERVAL_OPTIONS.map((option) => (
+                    <button
+                      key={option.seconds}
+                      onClick={() => setIntervalSeconds(option.seconds)}
+                      className={`flex-1 h-8 rounded-lg text-[11px] font-semibold transition-all ${
+                        intervalSeconds === option.seconds ? "bg-blue-500/20 text-blue-300" : "bg-white/[0.04] text-white/40 hover:text-white/70"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {perSlice && fromToken && (
+                <p className="text-[11px] text-white/30">
+                  {perSlice} {fromToken.symbol} every {formatInterval(intervalSeconds)} · {slippage}% max slippage per slice
+                </p>
+              )}
+              {!validSlices && <p className="text-[11px] text-amber-400/80">Use {MIN_DCA_SLICES} to {MAX_DCA_SLICES} slices</p>}
+              {!validSchedule && (
+                <p className="text-[11px] text-amber-400/80">The schedule can run for at most {MAX_DCA_SCHEDULE_DAYS} days</p>
+              )}
+              {unsupportedReason && fromToken && toToken && (
+                <p className="text-[11px] text-amber-400/80">{unsupportedReason}</p>
+              )}
+              <button
+                onClick={handleCreate}
+                disabled={!canCreate}
+                className="w-full h-10 rounded-xl text-sm font-semibold text-white bg-blue-600 hover:bg-blue-500 transition-all disabled:opacity-40 flex items-center justify-center gap-2"
+              >
+                {creating && <Loader2 className="w-4 h-4 animate-spin" />}
+                {creating ?? "Start DCA"}
+              </button>
+              <p className="text-[11px] text-white/25 leading-relaxed">
+                You sign one gasless permit per slice now, each usable only from its due time until the next, plus the
+                order terms. The relayer fills each slice when it comes due at a fresh quote within your slippage, even
+                with this tab closed; a slice it can't fill in its window is missed. Each fill counts toward your daily
+                gasless quota and uses one V2 or V3 route, like limit orders.
+              </p>
+            </div>
+
+            {/* Orders */}
+            {orders.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 gap-3">
+                <div
+                  className="w-14 h-14 rounded-2xl flex items-center justify-center"
+                  style={{ background: "rgba(255,255,255,0.04)", border: "1px solid rgba(255,255,255,0.06)" }}
+                >
+                  <Repeat className="w-6 h-6 text-white/15" />
+                </div>
+                <p className="text-sm text-white/30">No recurring swaps yet</p>
+              </div>
+            ) : (
+              <div className="space-y-2.5 mt-4">
+                {orders.map((order) => {
+                  const filled = order.slices.filter((slice) => slice.status === "filled").length;
+                  const isExpanded = expanded === order.id;
+                  return (
+                    <div
+                      key={order.id}
+                      className="rounded-2xl p-4"
+                      style={{ background: "rgba(255,255,255,0.025)", border: "1px solid rgba(255,255,255,0.06)" }}
+                    >
+                      <div className="flex items-center justify-between gap-3">
+                        <button onClick={() => setExpanded(isExpanded ? null : order.id)} className="min-w-0 text-left flex-1">
+                          <p className="text-sm font-semibold text-white tabular-nums truncate">
+                            {describe(order.tokenIn, order.totalAmountIn)} → {findToken(order.tokenOut).symbol}
+                          </p>
+                          <p className="text-[11px] text-white/35 mt-1 flex items-center gap-1">
+                            {filled}/{order.slices.length} filled · every {formatInterval(order.intervalSeconds)} ·{" "}
+                            {order.status === "active" ? "Active" : order.status === "completed" ? "Completed" : "Cancelled"}
+                            <ChevronDown className={`w-3 h-3 transition-transform ${isExpanded ? "rotate-180" : ""}`} />
+                          </p>
+                        </button>
+                        {order.status === "active" && (
+                          <button
+                            onClick={() => handleCancel(order)}
+                            disabled={cancelling !== null}
+                            className="h-8 px-3 rounded-xl flex items-center gap-1.5 text-[11px] font-semibold text-red-400/80 hover:text-red-400 hover:bg-red-500/10 transition-all disabled:opacity-40 flex-shrink-0"
+                          >
+                            {cancelling === order.id && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+
+                      {isExpanded && (
+                        <div className="mt-3 space-y-1.5">
+                          {order.slices.map((slice) => {
+                            const explorerUrl = slice.txHash ? getExplorerTxUrl(slice.txHash) : null;
+                            return (
+                              <div key={slice.index} className="flex items-center gap-2 text-[11px]">
+                                <SliceIcon status={slice.status} />
+                                <span className="text-white/50 tabular-nums w-10 flex-shrink-0">#{slice.index + 1}</span>
+                                <span className="text-white/70 tabular-nums flex-shrink-0">
+                                  {describe(order.tokenIn, slice.amountIn)}
+                                </span>
+                                <span className={`truncate flex-1 text-right ${slice.status === "failed" ? "text-red-400/70" : "text-white/35"}`}>
+                                  {describeSlice(order, slice)}
+                                </span>
+                                {explorerUrl && (
+                                  <a
+                                    href={explorerUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    title="View on explorer"
+                                    className="text-white/30 hover:text-white transition-colors"
+                                  >
+                                    <ExternalLink className="w-3 h-3" />
+                                  </a>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Bottom safe area */}
+            <div className="h-safe-area-bottom h-4 sm:h-2" />
+          </div>
+        </div>
+      </div>
+
+      <style>{`
+        @media (min-width: 640px) {
+          [data-dca-panel] {
+            border-radius: 20px !important;
+            transform: ${visible ? "translateY(0) scale(1)" : "translateY(12px) scale(0.97)"} !important;
+          }
+        }
+        [data-dca-panel] ::-webkit-scrollbar { display: none; }
+      `}</style>
+    </>
+  );
+}
@@ -5,6 +5,7 @@ import {
   ArrowLeftRight, Droplets, MinusCircle, BarChart3, Globe,
   AlertTriangle, Menu, X, Rocket, TrendingUp,
 } from "lucide-react";
+import { PendingTransactions } from "@/components/PendingTransactions";
 
 export function Header() {
   const [location] = useLocation();
@@ -77,6 +78,8 @@ export function Header() {
         {/* Right side: wallet + hamburger */}
         <div className="flex items-center gap-2 md:gap-3">
 
+          <PendingTransactions />
+
           {/* Wallet / chain buttons */}
           <ConnectButton.Custom>
             {({ account, chain, openAccountModal, openChainModal, openConnectModal, mounted }) => {
@@ -0,0 +1,419 @@
+import { useEffect, useState } from "react";
+import { X, ListOrdered, Clock, Loader2, ExternalLink, CheckCircle2, XCircle } from "lucide-react";
+import { BrowserProvider } from "ethers";
+import { useAccount, useChainId } from "wagmi";
+import type { Token } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { getTokensByChainId, getWrappedAddress, isNativeToken, isRWAToken } from "@/data/tokens";
+import { NATIVE_TOKEN, NATIVE_TOKEN_DECIMALS } from "@/lib/gasless-config";
+import { approvePermit2, checkPermit2Approval } from "@/lib/gasless-swap";
+import { formatAmount, parseAmount } from "@/lib/decimal-utils";
+import { getErrorForToast } from "@/lib/error-utils";
+import { getChainByChainId } from "@/lib/cctp-config";
+import {
+  cancelLimitOrder,
+  createLimitOrder,
+  getLimitOrders,
+  type LimitOrder,
+  type LimitOrderStatus,
+} from "@/lib/limit-orders";
+
+interface LimitOrdersProps {
+  open: boolean;
+  onClose: () => void;
+  fromToken: Token | null;
+  toToken: Token | null;
+  fromAmount: string;
+  quotedAmount: string; // Current market output, used to prefill the minimum
+  onChange?: () => void; // An order was placed (a new permit was signed)
+}
+
+const EXPIRY_OPTIONS = [
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { label: "30 days", seconds: 30 * 24 * 60 * 60 },
+];
+
+const STATUS_COPY: Record<LimitOrderStatus, string> = {
+  open: "Open",
+  filling: "Filling",
+  filled: "Filled",
+  cancelled: "Cancelled",
+  expired: "Expired",
+  failed: "Failed",
+};
+
+const REFRESH_MS = 15000;
+
+export function LimitOrders({ open, onClose, fromToken, toToken, fromAmount, quotedAmount, onChange }: LimitOrdersProps) {
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [visible, setVisible] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [minReceive, setMinReceive] = useState("");
+  const [expirySeconds, setExpirySeconds] = useState(EXPIRY_OPTIONS[1].seconds);
+  const [placing, setPlacing] = useState(false);
+  const [cancelling, setCancelling] = useState<string | null>(null); // Order id being cancelled
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { toast } = useToast();
+
+  // Animate in/out — same pattern as TransactionHistory
+  useEffect(() => {
+    if (open) {
+      setMounted(true);
+      requestAnimationFrame(() => requestAnimationFrame(() => setVisible(true)));
+    } else {
+      setVisible(false);
+      const t = setTimeout(() => setMounted(false), 300);
+      return () => clearTimeout(t);
+    }
+  }, [open]);
+
+  // Prefill the minimum with the current quote each time the panel opens
+  useEffect(() => {
+    if (open) setMinReceive(quotedAmount);
+  }, [open]);
+
+  // Load on open and keep fills and quotes current while it stays open
+  const refreshOrders = (signal?: AbortSignal) => {
+    if (!address) return;
+    getLimitOrders(address, signal)
+      .then(setOrders)
+      .catch((error) => {
+        if (!signal?.aborted) console.warn("[Orders] Load failed:", error);
+      });
+  };
+
+  useEffect(() => {
+    if (!open || !address) return;
+    const controller = new AbortController();
+    refreshOrders(controller.signal);
+    const interval = setInterval(() => refreshOrders(controller.signal), REFRESH_MS);
+    return () => { controller.abort(); clearInterval(interval); };
+  }, [open, address]);
+
+  // Escape key
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [open, onClose]);
+
+  const findToken = (tokenAddress: string) => {
+    if (tokenAddress.toLowerCase() === NATIVE_TOKEN.toLowerCase()) return { symbol: "USDC", decimals: NATIVE_TOKEN_DECIMALS };
+    const token = getTokensByChainId(chainId).find((t) => t.address.toLowerCase() === tokenAddress.toLowerCase());
+    return { symbol: token?.symbol ?? `${tokenAddress.slice(0, 6)}…${tokenAddress.slice(-4)}`, decimals: token?.decimals ?? 18 };
+  };
+
+  const describe = (tokenAddress: string, amount: string) => {
+    const token = findToken(tokenAddress);
+    return `${formatAmount(BigInt(amount), token.decimals)} ${token.symbol}`;
+  };
+
+  const formatExpiry = (expiry: number) => {
+    const diffMins = Math.ceil((expiry * 1000 - Date.now()) / 60000);
+    if (diffMins <= 0) return "Expired";
+    if (diffMins < 60) return `Expires in ${diffMins}m`;
+    if (diffMins < 24 * 60) return `Expires in ${Math.floor(diffMins / 60)}h ${diffMins % 60}m`;
+    return `Expires in ${Math.floor(diffMins / (24 * 60))}d`;
+  };
+
+  const getExplorerTxUrl = (txHash: string) => {
+    const chain = getChainByChainId(chainId);
+    return chain ? `${chain.explorerUrl}${chain.explorerTxPath}${txHash}` : null;
+  };
+
+  const amountIn = fromToken ? parseAmount(fromAmount, fromToken.decimals) : 0n;
+  const minOut = toToken ? parseAmount(minReceive, toToken.decimals) : 0n;
+  const unsupportedPair = isRWAToken(fromToken) || isRWAToken(toToken);
+  const canPlace = !!address && !!fromToken && !!toToken && !unsupportedPair && amountIn > 0n && minOut > 0n && !placing;
+  const limitPrice = amountIn > 0n && minOut > 0n ? parseFloat(minReceive) / parseFloat(fromAmount) : null;
+
+  const handlePlace = async () => {
+    if (!window.ethereum || !fromToken || !toToken || !canPlace) return;
+    setPlacing(true);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      // Same token mapping as gasless swaps: native USDC is pulled as NATIVE_TOKEN and paid out as wUSDC
+      const fromNative = isNativeToken(fromToken.address);
+      const tokenIn = fromNative ? NATIVE_TOKEN : fromToken.address;
+      const tokenOut = isNativeToken(toToken.address) ? getWrappedAddress(chainId, toToken.address) : toToken.address;
+      if (!tokenOut) throw new Error("Wrapped token address not found");
+
+      if (!(await checkPermit2Approval(signer, tokenIn))) {
+        toast({ title: "Enabling Permit2…", description: "Approve Permit2 once so the relayer can fill your order" });
+        await approvePermit2(signer, tokenIn);
+      }
+
+      toast({ title: "Placing limit order…", description: "Sign the permit for the full input amount, then the order terms" });
+      const order = await createLimitOrder(signer, {
+        tokenIn,
+        tokenOut,
+        amountIn: fromNative ? amountIn / 10n ** BigInt((fromToken.decimals || 18) - NATIVE_TOKEN_DECIMALS) : amountIn,
+        minOut,
+        expiry: Math.floor(Date.now() / 1000) + expirySeconds,
+      });
+      setOrders((prev) => [order, ...prev.filter((o) => o.id !== order.id)]);
+      onChange?.();
+      toast({
+        title: "Limit order placed",
+        description: `Fills gaslessly once ${fromAmount} ${fromToken.symbol} gets at least ${minReceive} ${toToken.symbol}`,
+      });
+    } catch (error) {
+      const { title, description } = getErrorForToast(error);
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  const handleCancel = async (order: LimitOrder) => {
+    if (!window.ethereum) return;
+    setCancelling(order.id);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      const cancelled = await cancelLimitOrder(signer, order);
+      setOrders((prev) => prev.map((o) => (o.id === cancelled.id ? cancelled : o)));
+      toast({
+        title: "Limit order cancelled",
+        description: "The relayer won't fill it. Its signed permit stays listed under signed permits until it expires.",
+      });
+    } catch (error) {
+      const { title, description } = getErrorForToast(error);
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  if (!mounted) return null;
+
+  const openCount = orders.filter((order) => order.status === "open" || order.status === "filling").length;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        onTouchMove={(e) => e.preventDefault()}
+        className="fixed inset-0 z-50 transition-all duration-300"
+        style={{
+          background: "rgba(0,0,0,0.72)",
+          backdropFilter: visible ? "blur(8px)" : "blur(0px)",
+          opacity: visible ? 1 : 0,
+        }}
+      />
+
+      {/* Panel */}
+      <div
+        className="fixed z-50 left-0 right-0 bottom-0 sm:inset-0 sm:flex sm:items-center sm:justify-center sm:p-4"
+        style={{ pointerEvents: "none" }}
+      >
+        <div
+          data-orders-panel
+          className="relative w-full sm:max-w-md overflow-hidden"
+          style={{
+            pointerEvents: "auto",
+            background: "linear-gradient(160deg, #0f1117 0%, #0c0e13 100%)",
+            border: "1px solid rgba(255,255,255,0.07)",
+            boxShadow: "0 -4px 48px rgba(0,0,0,0.7), 0 0 0 1px rgba(255,255,255,0.04)",
+            borderRadius: "20px 20px 0 0",
+            transform: visible ? "translateY(0)" : "translateY(100%)",
+            opacity: visible ? 1 : 0,
+            transition: "transform 0.32s cubic-bezier(0.32,0.72,0,1), opacity 0.2s ease",
+            maxHeight: "92dvh",
+            display: "flex",
+            flexDirection: "column",
+          }}
+        >
+          {/* Drag handle — mobile only */}
+          <div className="flex justify-center pt-3 pb-1 sm:hidden">
+            <div className="w-9 h-1 rounded-full bg-white/10" />
+          </div>
+
+          {/* Header */}
+          <div className="flex items-center justify-between px-5 pt-4 pb-3 sm:pt-5 flex-shrink-0">
+            <div>
+              <h2 className="text-base font-semibold text-white tracking-tight">Limit Orders</h2>
+              <p className="text-[11px] text-white/30 mt-0.5">
+                {openCount === 0 ? "No open orders" : `${openCount} open order${openCount !== 1 ? "s" : ""}`}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-xl flex items-center justify-center text-white/40 hover:text-white hover:bg-white/8 transition-all"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Divider */}
+          <div className="mx-5 h-px flex-shrink-0" style={{ background: "rgba(255,255,255,0.05)" }} />
+
+          {/* Scrollable content */}
+          <div
+            className="flex-1 overflow-y-auto overscroll-contain px-5 py-4"
+            style={{ scrollbarWidth: "none", WebkitOverflowScrolling: "touch" }}
+          >
+            {/* New order */}
+            <div
+              className="rounded-2xl p-4 space-y-3"
+              style={{ background: "rgba(255,255,255,0.025)", border: "1px solid rgba(255,255,255,0.06)" }}
+            >
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white/40">Sell</span>
+                <span className="font-semibold text-white tabular-nums">
+                  {fromToken && amountIn > 0n ? `${fromAmount} ${fromToken.symbol}` : "Enter an amount on the swap form"}
+                </span>
+              </div>
+              <div>
+                <label className="text-[11px] text-white/40">Receive at least</label>
+                <div className="mt-1 flex items-center gap-2 rounded-xl px-3 h-10" style={{ background: "rgba(255,255,255,0.04)" }}>
+                  <input
+                    value={minReceive}
+                    onChange={(e) => setMinReceive(e.target.value.replace(/[^0-9.]/g, ""))}
+                    inputMode="decimal"
+                    placeholder="0.0"
+                    className="flex-1 bg-transparent text-sm text-white tabular-nums outline-none"
+                  />
+                  <span className="text-sm text-white/50">{toToken?.symbol ?? ""}</span>
+                </div>
+                {limitPrice !== null && fromToken && toToken && (
+                  <p className="text-[11px] text-white/30 mt-1">
+                    Limit price: 1 {fromToken.symbol} = {limitPrice.toPrecision(6)} {toToken.symbol}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-1.5">
+                {EXPIRY_OPTIONS.map((option) => (
+                  <button
+                    key={option.seconds}
+                    onClick={() => setExpirySeconds(option.seconds)}
+                    className={`flex-1 h-8 rounded-lg text-[11px] font-semibold transition-all ${
+                      expirySeconds === option.seconds ? "bg-blue-500/20 text-blue-300" : "bg-white/[0.04] text-white/40 hover:text-white/70"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {unsupportedPair && (
+                <p className="text-[11px] text-amber-400/80">RWA trades can't rest as limit orders</p>
+              )}
+              <button
+                onClick={handlePlace}
+                disabled={!canPlace}
+                className="w-full h-10 rounded-xl text-sm font-semibold text-white bg-blue-600 hover:bg-blue-500 transition-all disabled:opacity-40 flex items-center justify-center gap-2"
+              >
+                {placing && <Loader2 className="w-4 h-4 animate-spin" />}
+                Place limit order
+              </button>
+              <p className="text-[11px] text-white/25 leading-relaxed">
+                You sign a gasless permit for the full amount and the order terms (output token and minimum), so the
+                permit can only fill this order. The relayer fills the order once the best route pays at
+                least your minimum, and the fill counts toward your daily gasless quota. Fills use one V2 or V3 route of
+                up to three pools; split and mixed routes and your route filters aren't used, so a fill can trigger
+                later than the Swap page's quote suggests.
+              </p>
+            </div>
+
+            {/* Orders */}
+            {orders.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 gap-3">
+                <div
+                  className="w-14 h-14 rounded-2xl flex items-center justify-center"
+                  style={{ background: "rgba(255,255,255,0.04)", border: "1px solid rgba(255,255,255,0.06)" }}
+                >
+                  <ListOrdered className="w-6 h-6 text-white/15" />
+                </div>
+                <p className="text-sm text-white/30">No limit orders yet</p>
+              </div>
+            ) : (
+              <div className="space-y-2.5 mt-4">
+                {orders.map((order) => {
+                  const explorerUrl = order.txHash ? getExplorerTxUrl(order.txHash) : null;
+                  const active = order.status === "open" || order.status === "filling";
+                  return (
+                    <div
+                      key={order.id}
+                      className="rounded-2xl p-4 flex items-center justify-between gap-3"
+                      style={{ background: "rgba(255,255,255,0.025)", border: "1px solid rgba(255,255,255,0.06)" }}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold text-white tabular-nums truncate">
+                          {describe(order.tokenIn, order.amountIn)} → {describe(order.tokenOut, order.minOut)}
+                        </p>
+                        <div className="flex items-center gap-1.5 mt-1">
+                          {order.status === "filled" ? (
+                            <CheckCircle2 className="w-3 h-3 text-green-400" />
+                          ) : active ? (
+                            <Clock className="w-3 h-3 text-white/20" />
+                          ) : (
+                            <XCircle className="w-3 h-3 text-white/25" />
+                          )}
+                          <span className={`text-[11px] font-medium ${order.status === "filled" ? "text-green-400/80" : active ? "text-amber-400/80" : "text-white/25"}`}>
+                            {order.status === "open"
+                              ? formatExpiry(order.expiry)
+                              : order.status === "filled" && order.amountOut
+                              ? `Filled · received ${describe(order.tokenOut, order.amountOut)}`
+                              : STATUS_COPY[order.status]}
+                          </span>
+                        </div>
+                        {order.status === "open" && order.lastQuote && (
+                          <p className="text-[11px] text-white/25 mt-0.5">Market now: {describe(order.tokenOut, order.lastQuote)}</p>
+                        )}
+                        {order.error && order.status !== "filled" && (
+                          <p className="text-[11px] text-red-400/70 mt-0.5 truncate">{order.error}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {explorerUrl && (
+                          <a
+                            href={explorerUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            title="View fill on explorer"
+                            className="text-white/30 hover:text-white transition-colors"
+                          >
+                            <ExternalLink className="w-3.5 h-3.5" />
+                          </a>
+                        )}
+                        {order.status === "open" && (
+                          <button
+                            onClick={() => handleCancel(order)}
+                            disabled={cancelling !== null}
+                            className="h-8 px-3 rounded-xl flex items-center gap-1.5 text-[11px] font-semibold text-red-400/80 hover:text-red-400 hover:bg-red-500/10 transition-all disabled:opacity-40"
+                          >
+                            {cancelling === order.id && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Bottom safe area */}
+            <div className="h-safe-area-bottom h-4 sm:h-2" />
+          </div>
+        </div>
+      </div>
+
+      <style>{`
+        @media (min-width: 640px) {
+          [data-orders-panel] {
+            border-radius: 20px !important;
+            transform: ${visible ? "translateY(0) scale(1)" : "translateY(12px) scale(0.97)"} !important;
+          }
+        }
+        [data-orders-panel] ::-webkit-scrollbar { display: none; }
+      `}</style>
+    </>
+  );
+}
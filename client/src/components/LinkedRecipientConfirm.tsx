@@ -0,0 +1,33 @@
+import { RiskConfirmationModal } from "@/components/RiskConfirmationModal";
+
+interface LinkedRecipientConfirmProps {
+  recipient: string | null;
+  onConfirm: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Confirmation for a swap recipient that arrived in a link. The output goes to
+ * this address instead of the connected wallet, so it's shown in full.
+ */
+export function LinkedRecipientConfirm({ recipient, onConfirm, onDismiss }: LinkedRecipientConfirmProps) {
+  if (!recipient) return null;
+
+  return (
+    <RiskConfirmationModal
+      key={recipient}
+      open
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) onDismiss();
+      }}
+      title="Send this swap to another address?"
+      description={`This link sets the swap recipient to ${recipient}. Swap output would go to that address, not to your connected wallet.`}
+      warningText="Anyone can put their own address in a link. Only continue if you meant to pay this address; otherwise your swaps go to your own wallet."
+      checkboxLabel="I checked this address and want swaps sent to it"
+      confirmPhrase="SET RECIPIENT"
+      confirmButtonLabel="Set recipient"
+      cancelButtonLabel="Keep my wallet"
+      onConfirm={onConfirm}
+    />
+  );
+}
@@ -0,0 +1,34 @@
+import { RiskConfirmationModal } from "@/components/RiskConfirmationModal";
+import type { PendingLinkImport } from "@/hooks/use-linked-tokens";
+
+interface LinkedTokenImportProps {
+  pendingImport: PendingLinkImport | null;
+  onConfirm: () => Promise<void>;
+  onDismiss: () => void;
+}
+
+/**
+ * Unverified-token warning for a token address that arrived in a link.
+ */
+export function LinkedTokenImport({ pendingImport, onConfirm, onDismiss }: LinkedTokenImportProps) {
+  if (!pendingImport) return null;
+
+  return (
+    <RiskConfirmationModal
+      key={`${pendingImport.field}:${pendingImport.address}`}
+      open
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) onDismiss();
+      }}
+      title="Import unknown token?"
+      description={`This link selects ${pendingImport.address}, which is not in the active token list.`}
+      warningText="Anyone can deploy a token with any name, including copies of real tokens. Check the address before you trade it."
+      tone="warning"
+      checkboxLabel="I understand this token is unverified"
+      confirmPhrase="IMPORT"
+      confirmButtonLabel="Import"
+      cancelButtonLabel="Skip"
+      onConfirm={onConfirm}
+    />
+  );
+}
@@ -10,6 +10,7 @@ import { fetchTokensWithCommunity, getTokensByChainId, getUnwrappedAddress } fro
 import { formatAmount } from "@/lib/decimal-utils";
 import { getContractsForChain } from "@/lib/contracts";
 import { getErrorForToast } from "@/lib/error-utils";
+import { trackTransaction } from "@/lib/tx-tracker";
 import { createAlchemyProvider } from "@/lib/config";
 import { discoverV2PositionsFromExplorer, explorerApiBaseFromTxUrl } from "@/lib/v2-position-discovery";
 import { V3_MIGRATOR_ABI, V3_FACTORY_ABI, V3_POOL_ABI, V3_FEE_TIERS, FEE_TIER_LABELS } from "@/lib/abis/v3";
@@ -336,7 +337,6 @@ export function MigrateV2ToV3() {
         provider,
         knownTokens: tokens,
         apiBaseUrl: explorerApiBase,
-        maxConcurrent: 10,
       });
 
       const userPositions: V2Position[] = discovered.map((pos) => {
@@ -434,13 +434,13 @@ export function MigrateV2ToV3() {
       if (allowance !== liquidityToMigrate) {
         try {
           const approveTx = await pairContract.approve(contracts.v3.migrator, liquidityToMigrate);
-          await approveTx.wait();
+          await trackTransaction(approveTx, { label: "Approve V2 LP tokens" });
         } catch (approveError) {
           if (allowance > 0n && liquidityToMigrate > 0n) {
             const resetTx = await pairContract.approve(contracts.v3.migrator, 0n);
-            await resetTx.wait();
+            await trackTransaction(resetTx, { label: "Reset V2 LP approval" });
             const approveTx = await pairContract.approve(contracts.v3.migrator, liquidityToMigrate);
-            await approveTx.wait();
+            await trackTransaction(approveTx, { label: "Approve V2 LP tokens" });
           } else {
             throw approveError;
           }
@@ -527,7 +527,7 @@ export function MigrateV2ToV3() {
           toast({ title: "Migrating…", description: "Removing V2 liquidity and adding to V3" });
           const gasEstimate = await migrator.migrate.estimateGas(params);
           const tx = await migrator.migrate(params, { gasLimit: (gasEstimate * 150n) / 100n });
-          return tx.wait();
+          return trackTransaction(tx, { label: "Migrate V2 liquidity to V3" });
         }
 
         const sqrtPriceX96 = sqrtPriceX96FromV2Reserves(state.reserve0, state.reserve1);
@@ -536,7 +536,7 @@ export function MigrateV2ToV3() {
         const migrateData = migrator.interface.encodeFunctionData("migrate", [params]);
         const gasEstimate = await migrator.multicall.estimateGas([createData, migrateData]);
         const tx = await migrator.multicall([createData, migrateData], { gasLimit: (gasEstimate * 150n) / 100n });
-        return tx.wait();
+        return trackTransaction(tx, { label: "Create V3 pool & migrate" });
       };
 
       const initialState = await readMigrationState();
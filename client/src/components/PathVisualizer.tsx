@@ -9,12 +9,41 @@ export interface RouteHop {
   fee?: number; // For V3 only
 }
 
+export interface RouteSplitLeg {
+  route: RouteHop[];
+  shareBps: number; // Share of the input routed through this leg
+}
+
+export interface RouteStepQuote {
+  label: string; // e.g. "V3" or "RWA"
+  amountIn: string; // Formatted, with symbol
+  amountOut: string;
+  priceImpact?: number;
+}
+
 interface PathVisualizerProps {
   route: RouteHop[];
+  legs?: RouteSplitLeg[]; // When set, renders each split leg instead of `route`
+  steps?: RouteStepQuote[]; // Per-leg quotes of a composite (DEX + RWA) route
+  priceImpact?: number | null; // Combined impact shown with `steps`
   className?: string;
 }
 
-export function PathVisualizer({ route, className = "" }: PathVisualizerProps) {
+export function PathVisualizer({ route, legs, steps, priceImpact, className = "" }: PathVisualizerProps) {
+  if (legs && legs.length > 0) {
+    return (
+      <div className={`space-y-2 ${className}`}>
+        <div className="text-xs font-medium text-slate-400">Split Routing ({legs.length} routes)</div>
+        {legs.map((leg, index) => (
+          <div key={index} className="flex items-center gap-2 flex-wrap">
+            <ShareBadge shareBps={leg.shareBps} />
+            <RouteHops route={leg.route} />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
   if (!route || route.length === 0) {
     return null;
   }
@@ -23,28 +52,64 @@ export function PathVisualizer({ route, className = "" }: PathVisualizerProps) {
     <div className={`space-y-2 ${className}`}>
       <div className="text-xs font-medium text-slate-400">Routing Path</div>
       <div className="flex items-center gap-2 flex-wrap">
-        {route.map((hop, index) => (
-          <div key={index} className="flex items-center gap-2">
-            {/* Token In (only show for first hop) */}
-            {index === 0 && (
-              <>
-                <TokenBadge token={hop.tokenIn} />
-                <Arrow />
-              </>
-            )}
-            
-            {/* Protocol & Fee Badge */}
-            <ProtocolBadge protocol={hop.protocol} fee={hop.fee} />
-            <Arrow />
-            
-            {/* Token Out */}
-            <TokenBadge token={hop.tokenOut} />
-            
-            {/* Add arrow if not last hop */}
-            {index < route.length - 1 && <Arrow />}
-          </div>
-        ))}
+        <RouteHops route={route} />
       </div>
+      {steps && steps.length > 0 && (
+        <div className="space-y-1">
+          {steps.map((step, index) => (
+            <div key={index} className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-slate-400">
+                {index + 1}. {step.label}: {step.amountIn} → {step.amountOut}
+              </span>
+              {step.priceImpact !== undefined && (
+                <span className="text-slate-500 tabular-nums">{step.priceImpact.toFixed(2)}%</span>
+              )}
+            </div>
+          ))}
+          {priceImpact != null && (
+            <div className="flex items-center justify-between gap-2 text-xs font-medium">
+              <span className="text-slate-300">Combined impact</span>
+              <span className="text-slate-300 tabular-nums">{priceImpact.toFixed(2)}%</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RouteHops({ route }: { route: RouteHop[] }) {
+  return (
+    <>
+      {route.map((hop, index) => (
+        <div key={index} className="flex items-center gap-2">
+          {/* Token In (only show for first hop) */}
+          {index === 0 && (
+            <>
+              <TokenBadge token={hop.tokenIn} />
+              <Arrow />
+            </>
+          )}
+          
+          {/* Protocol & Fee Badge */}
+          <ProtocolBadge protocol={hop.protocol} fee={hop.fee} />
+          <Arrow />
+          
+          {/* Token Out */}
+          <TokenBadge token={hop.tokenOut} />
+          
+          {/* Add arrow if not last hop */}
+          {index < route.length - 1 && <Arrow />}
+        </div>
+      ))}
+    </>
+  );
+}
+
+function ShareBadge({ shareBps }: { shareBps: number }) {
+  return (
+    <div className="px-2 py-1.5 rounded-lg text-xs font-bold bg-indigo-500/10 border border-indigo-500/30 text-indigo-300 tabular-nums">
+      {(shareBps / 100).toFixed(0)}%
     </div>
   );
 }
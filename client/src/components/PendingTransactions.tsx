@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, CheckCircle2, XCircle, ExternalLink, X, Repeat, Activity } from "lucide-react";
+import { usePendingTransactions } from "@/hooks/use-pending-transactions";
+import { dismissTrackedTransaction, type TrackedTransaction, type TrackedTxStatus } from "@/lib/tx-tracker";
+import { getChainByChainId } from "@/lib/cctp-config";
+
+const STATUS_COPY: Record<TrackedTxStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  replaced: "Replaced",
+  dropped: "Dropped",
+};
+
+function getExplorerTxUrl(tx: TrackedTransaction): string | null {
+  const chain = getChainByChainId(tx.chainId);
+  return chain ? `${chain.explorerUrl}${chain.explorerTxPath}${tx.hash}` : null;
+}
+
+function StatusIcon({ status }: { status: TrackedTxStatus }) {
+  if (status === "pending") return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />;
+  if (status === "confirmed") return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+  if (status === "replaced") return <Repeat className="w-4 h-4 text-amber-400" />;
+  return <XCircle className="w-4 h-4 text-red-400" />;
+}
+
+export function PendingTransactions() {
+  const transactions = usePendingTransactions();
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const toggleRef = useRef<HTMLButtonElement>(null);
+
+  const pendingCount = transactions.filter((tx) => tx.status === "pending").length;
+
+  useEffect(() => {
+    if (!open) return;
+    const handle = (e: MouseEvent) => {
+      const t = e.target as Node;
+      if (
+        panelRef.current && !panelRef.current.contains(t) &&
+        toggleRef.current && !toggleRef.current.contains(t)
+      ) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") setOpen(false); };
+    document.addEventListener("mousedown", handle);
+    window.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("mousedown", handle);
+      window.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  if (transactions.length === 0) return null;
+
+  const describe = (tx: TrackedTransaction) => {
+    if (tx.status === "pending") {
+      return tx.confirmations > 0
+        ? `${tx.confirmations}/${tx.targetConfirmations} confirmations`
+        : "Waiting for confirmation";
+    }
+    if (tx.status === "replaced" && tx.replacedBy) return `Replaced by ${tx.replacedBy.slice(0, 10)}…`;
+    return tx.error ?? STATUS_COPY[tx.status];
+  };
+
+  return (
+    <div className="relative">
+      <button
+        ref={toggleRef}
+        onClick={() => setOpen((p) => !p)}
+        aria-label="Recent transactions"
+        aria-expanded={open}
+        className="flex items-center gap-1.5 h-9 px-2.5 rounded-lg bg-muted/50 border border-border/40 hover:bg-muted/70 transition-all duration-200 text-sm font-medium text-white"
+      >
+        {pendingCount > 0 ? (
+          <>
+            <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+            <span className="tabular-nums">{pendingCount}</span>
+            <span className="hidden sm:inline text-foreground/60">pending</span>
+          </>
+        ) : (
+          <Activity className="w-4 h-4 text-foreground/60" />
+        )}
+      </button>
+
+      {open && (
+        <div
+          ref={panelRef}
+          className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] rounded-2xl overflow-hidden z-50"
+          style={{
+            background: "linear-gradient(160deg, #0f1117 0%, #0c0e13 100%)",
+            border: "1px solid rgba(255,255,255,0.07)",
+            boxShadow: "0 12px 48px rgba(0,0,0,0.6)",
+          }}
+        >
+          <div className="flex items-center justify-between px-4 pt-3 pb-2">
+            <p className="text-sm font-semibold text-white">Recent transactions</p>
+            <p className="text-[11px] text-white/30">{pendingCount} pending</p>
+          </div>
+          <div className="max-h-80 overflow-y-auto px-2 pb-2 space-y-1" style={{ scrollbarWidth: "none" }}>
+            {transactions.map((tx) => {
+              const explorerUrl = getExplorerTxUrl(tx);
+              return (
+                <div key={tx.hash} className="flex items-center gap-3 px-2 py-2 rounded-xl hover:bg-white/[0.03]">
+                  <StatusIcon status={tx.status} />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-white truncate">{tx.label}</p>
+                    <p className={`text-[11px] truncate ${tx.status === "failed" || tx.status === "dropped" ? "text-red-400/80" : "text-white/35"}`}>
+                      {describe(tx)}
+                    </p>
+                  </div>
+                  {explorerUrl && (
+                    <a
+                      href={explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title="View on explorer"
+                      className="text-white/30 hover:text-white transition-colors"
+                    >
+                      <ExternalLink className="w-3.5 h-3.5" />
+                    </a>
+                  )}
+                  {tx.status !== "pending" && (
+                    <button
+                      onClick={() => dismissTrackedTransaction(tx.hash)}
+                      title="Dismiss"
+                      className="text-white/30 hover:text-white transition-colors"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Contract, BrowserProvider } from "ethers";
 import { getContractsForChain } from "@/lib/contracts";
+import { trackTransaction } from "@/lib/tx-tracker";
 import { NONFUNGIBLE_POSITION_MANAGER_ABI } from "@/lib/abis/v3";
 import { priceToSqrtPriceX96, sortTokens } from "@/lib/v3-utils";
 import { isNativeToken, getWrappedAddress } from "@/data/tokens";
@@ -299,7 +300,7 @@ export function PoolHealthChecker({
       const tx = await posManager.createAndInitializePoolIfNecessary(
         tok0.address, tok1.address, fee, sqrtP
       );
-      const receipt = await tx.wait();
+      const receipt = await trackTransaction(tx, { label: `Initialize ${tok0.symbol}/${tok1.symbol} pool` });
 
       toast({
         title: "Pool initialized!",
@@ -10,6 +10,7 @@ import { getTokensByChainId, fetchTokensWithCommunity, getWrappedAddress } from
 import { formatAmount } from "@/lib/decimal-utils";
 import { getContractsForChain } from "@/lib/contracts";
 import { getErrorForToast } from "@/lib/error-utils";
+import { trackTransaction } from "@/lib/tx-tracker";
 import { createAlchemyProvider } from "@/lib/config";
 import { discoverV2PositionsFromExplorer, explorerApiBaseFromTxUrl } from "@/lib/v2-position-discovery";
 import {
@@ -189,7 +190,6 @@ export function RemoveLiquidityV2() {
         provider,
         knownTokens: tokens,
         apiBaseUrl: explorerApiBase,
-        maxConcurrent: 10,
       });
 
       console.log("Explorer-discovered V2 positions:", discovered.length);
@@ -396,7 +396,7 @@ export function RemoveLiquidityV2() {
       });
       const pairContract = new Contract(selectedPosition.pairAddress, PAIR_ABI, signer);
       const approveTx = await pairContract.approve(contracts.v2.router, liquidityToRemove);
-      await approveTx.wait();
+      await trackTransaction(approveTx, { label: "Approve LP tokens" });
       toast({
         title: "Approved",
         description: "Now removing liquidity…",
@@ -450,7 +450,7 @@ export function RemoveLiquidityV2() {
         );
       }
 
-      await tx.wait();
+      await trackTransaction(tx, { label: `Remove ${selectedPosition.token0Symbol}/${selectedPosition.token1Symbol} liquidity` });
 
       // Prune imported snapshot for this pair so stale values are not reintroduced
       const removedPairLower = selectedPosition.pairAddress.toLowerCase();
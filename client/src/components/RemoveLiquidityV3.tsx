@@ -7,8 +7,10 @@ import { useToast } from "@/hooks/use-toast";
 import { Contract, BrowserProvider } from "ethers";
 import { getContractsForChain } from "@/lib/contracts";
 import { getErrorForToast } from "@/lib/error-utils";
+import { trackTransaction } from "@/lib/tx-tracker";
 import { createAlchemyProvider } from "@/lib/config";
 import { safeTokenInfo } from "@/lib/v3-pool-utils";
+import { readContract } from "@/lib/multicall";
 import { NONFUNGIBLE_POSITION_MANAGER_ABI, V3_POOL_ABI, V3_FACTORY_ABI, FEE_TIER_LABELS } from "@/lib/abis/v3";
 import { formatAmount } from "@/lib/decimal-utils";
 import { getTokensFromLiquidity } from "@/lib/v3-liquidity-math";
@@ -127,25 +129,6 @@ async function rpcWithRetry<T>(fn: () => Promise<T>, maxRetries = 3, baseDelayMs
   throw lastError;
 }
 
-function createLimiter(maxConcurrent: number) {
-  let active = 0;
-  const queue: (() => void)[] = [];
-
-  return async function run<T>(fn: () => Promise<T>): Promise<T> {
-    if (active >= maxConcurrent) {
-      await new Promise<void>((resolve) => queue.push(resolve));
-    }
-    active++;
-    try {
-      return await fn();
-    } finally {
-      active--;
-      const next = queue.shift();
-      if (next) next();
-    }
-  };
-}
-
 function calculateFeeGrowthInside(
   feeGrowthGlobal: bigint,
   feeGrowthOutsideLower: bigint,
@@ -380,7 +363,6 @@ export function RemoveLiquidityV3() {
       );
       const factory = new Contract(contracts.v3.factory, V3_FACTORY_ABI, provider);
       const knownTokenList = await fetchTokensWithCommunity(chainId);
-      const limit = createLimiter(10);
 
       const balance = await rpcWithRetry(() => positionManager.balanceOf(address));
       const count = Number(balance);
@@ -395,18 +377,18 @@ export function RemoveLiquidityV3() {
         return;
       }
 
-      // Phase 1: Fetch ALL tokenIds with bounded concurrency
+      // Phase 1: Fetch ALL tokenIds (aggregated into Multicall3 requests)
       const indices = Array.from({ length: count }, (_, i) => i);
       const tokenIds = await Promise.all(
-        indices.map((i) => limit(() => rpcWithRetry(() => positionManager.tokenOfOwnerByIndex(address, i))))
+        indices.map((i) => rpcWithRetry(() => readContract<bigint>(positionManager, "tokenOfOwnerByIndex", [address, i])))
       );
 
-      // Phase 2: Fetch ALL raw position structs with bounded concurrency
+      // Phase 2: Fetch ALL raw position structs
       const rawPositions = await Promise.all(
-        tokenIds.map((id: bigint) => limit(() => rpcWithRetry(() => positionManager.positions(id))))
+        tokenIds.map((id: bigint) => rpcWithRetry(() => readContract(positionManager, "positions", [id])))
       );
 
-      // Phase 3: Fetch ALL position details with bounded concurrency
+      // Phase 3: Fetch ALL position details; reads from every position share multicall batches
       const fetchPosition = async (absoluteIdx: number): Promise<V3Position | null> => {
         const position = rawPositions[absoluteIdx];
         const tokenId = tokenIds[absoluteIdx];
@@ -438,7 +420,7 @@ export function RemoveLiquidityV3() {
               ? [token0Address, token1Address]
               : [token1Address, token0Address];
 
-          const poolAddress = await rpcWithRetry(() => factory.getPool(tokenA, tokenB, fee));
+          const poolAddress = await rpcWithRetry(() => readContract<string>(factory, "getPool", [tokenA, tokenB, fee]));
 
           if (poolAddress && poolAddress !== "0x0000000000000000000000000000000000000000") {
             const pool = new Contract(poolAddress, V3_POOL_ABI, provider);
@@ -450,11 +432,11 @@ export function RemoveLiquidityV3() {
               tickLowerData,
               tickUpperData,
             ] = await Promise.all([
-              rpcWithRetry(() => pool.slot0()),
-              rpcWithRetry(() => pool.feeGrowthGlobal0X128()),
-              rpcWithRetry(() => pool.feeGrowthGlobal1X128()),
-              rpcWithRetry(() => pool.ticks(tickLower)),
-              rpcWithRetry(() => pool.ticks(tickUpper)),
+              rpcWithRetry(() => readContract(pool, "slot0")),
+              rpcWithRetry(() => readContract<bigint>(pool, "feeGrowthGlobal0X128")),
+              rpcWithRetry(() => readContract<bigint>(pool, "feeGrowthGlobal1X128")),
+              rpcWithRetry(() => readContract(pool, "ticks", [tickLower])),
+              rpcWithRetry(() => readContract(pool, "ticks", [tickUpper])),
             ]);
 
             let currentSqrtPriceX96: bigint = slot0[0];
@@ -539,7 +521,7 @@ export function RemoveLiquidityV3() {
       };
 
       const userPositions = await Promise.all(
-        Array.from({ length: rawPositions.length }, (_, i) => i).map((idx) => limit(() => fetchPosition(idx)))
+        Array.from({ length: rawPositions.length }, (_, i) => i).map((idx) => fetchPosition(idx))
       );
 
       // Auto-retry incomplete positions (currentTick undefined + liquidity > 0)
@@ -551,7 +533,7 @@ export function RemoveLiquidityV3() {
       if (incompleteIndices.length > 0) {
         console.log(`Retrying ${incompleteIndices.length} incomplete positions...`);
         const retryResults = await Promise.all(
-          incompleteIndices.map((idx: number) => limit(() => fetchPosition(idx)))
+          incompleteIndices.map((idx: number) => fetchPosition(idx))
         );
         for (let i = 0; i < incompleteIndices.length; i++) {
           finalPositions[incompleteIndices[i]] = retryResults[i];
@@ -629,7 +611,7 @@ export function RemoveLiquidityV3() {
         ]);
 
         const multicallTx = await positionManager.multicall([collectData, unwrapData, sweepData]);
-        receipt = await multicallTx.wait();
+        receipt = await trackTransaction(multicallTx, { label: "Collect V3 fees" });
       } else {
         // No wrapped token — collect directly to user
         const collectTx = await positionManager.collect({
@@ -638,7 +620,7 @@ export function RemoveLiquidityV3() {
           amount0Max: MAX_UINT128,
           amount1Max: MAX_UINT128,
         });
-        receipt = await collectTx.wait();
+        receipt = await trackTransaction(collectTx, { label: "Collect V3 fees" });
       }
 
       let amount0Collected = 0n;
@@ -840,7 +822,7 @@ export function RemoveLiquidityV3() {
       }
 
       const multicallTx = await positionManager.multicall(calls);
-      const receipt = await multicallTx.wait();
+      const receipt = await trackTransaction(multicallTx, { label: isFullRemove ? "Remove V3 position" : "Remove V3 liquidity" });
 
       let amount0Collected = 0n;
       let amount1Collected = 0n;
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { ChevronDown, Pin } from "lucide-react";
+import { Token } from "@shared/schema";
+import { RouteHops } from "@/components/PathVisualizer";
+import { formatAmount } from "@/lib/decimal-utils";
+import type { RouteCandidate } from "@/lib/smart-routing";
+
+interface RouteComparisonProps {
+  candidates: RouteCandidate[];
+  toToken: Token;
+  pinnedRouteId: string | null;
+  onPin?: (routeId: string | null) => void; // Omit when routes can't be pinned (e.g. RWA pairs)
+  className?: string;
+}
+
+export function RouteComparison({ candidates, toToken, pinnedRouteId, onPin, className = "" }: RouteComparisonProps) {
+  const [open, setOpen] = useState(false);
+  if (candidates.length === 0) return null;
+
+  const quotedCount = candidates.filter((candidate) => candidate.quote || !candidate.failureReason).length;
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <button
+        type="button"
+        data-testid="button-compare-routes"
+        onClick={() => setOpen((o) => !o)}
+        className="flex w-full items-center justify-between text-xs font-medium text-slate-400 hover:text-slate-300"
+      >
+        <span>
+          Compare Routes ({quotedCount} quoted{candidates.length > quotedCount ? `, ${candidates.length - quotedCount} failed` : ""})
+        </span>
+        <ChevronDown className={`h-3.5 w-3.5 transition-transform ${open ? "rotate-180" : ""}`} />
+      </button>
+
+      {open && (
+        <div className="space-y-1.5">
+          {pinnedRouteId && onPin && (
+            <button
+              type="button"
+              onClick={() => onPin(null)}
+              className="text-[11px] font-semibold text-indigo-300 hover:text-indigo-200"
+            >
+              Use best route again
+            </button>
+          )}
+          {candidates.map((candidate) => (
+            <CandidateRow
+              key={candidate.id}
+              candidate={candidate}
+              toToken={toToken}
+              pinned={candidate.id === pinnedRouteId}
+              onPin={onPin && candidate.quote ? () => onPin(candidate.id) : undefined}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CandidateRow({
+  candidate,
+  toToken,
+  pinned,
+  onPin,
+}: {
+  candidate: RouteCandidate;
+  toToken: Token;
+  pinned: boolean;
+  onPin?: () => void;
+}) {
+  const failed = !!candidate.failureReason && !candidate.quote;
+
+  return (
+    <div
+      onClick={pinned ? undefined : onPin}
+      className={`rounded-lg border px-2.5 py-2 space-y-1.5 ${
+        pinned
+          ? "border-indigo-500/50 bg-indigo-500/10"
+          : candidate.recommended
+            ? "border-emerald-500/30 bg-emerald-500/5"
+            : "border-slate-700/60 bg-slate-800/30"
+      } ${onPin && !pinned ? "cursor-pointer hover:bg-slate-700/30" : ""} ${failed ? "opacity-60" : ""}`}
+    >
+      <div className="flex items-center gap-2 flex-wrap">
+        <RouteHops route={candidate.route} />
+      </div>
+      <div className="flex items-center justify-between gap-2 text-xs">
+        {failed ? (
+          <span className="text-red-400">{candidate.failureReason}</span>
+        ) : (
+          <span className="text-slate-300 tabular-nums">
+            {candidate.outputAmount !== undefined ? formatAmount(candidate.outputAmount, toToken.decimals) : "—"} {toToken.symbol}
+            {candidate.netOutputAmount !== undefined && (
+              <span className="text-slate-500">
+                {" "}· {candidate.netOutputAmount > 0n ? formatAmount(candidate.netOutputAmount, toToken.decimals) : "0"} after gas
+              </span>
+            )}
+          </span>
+        )}
+        <span className="flex items-center gap-2 text-slate-500 tabular-nums">
+          {candidate.priceImpact !== undefined && <span>{candidate.priceImpact.toFixed(2)}%</span>}
+          {candidate.gasEstimate !== undefined && <span>{(Number(candidate.gasEstimate) / 1000).toFixed(0)}k gas</span>}
+          {candidate.recommended && !pinned && <span className="font-semibold text-emerald-400">Best</span>}
+          {pinned && (
+            <span className="flex items-center gap-1 font-semibold text-indigo-300">
+              <Pin className="h-3 w-3" />
+              Pinned
+            </span>
+          )}
+        </span>
+      </div>
+      {!failed && candidate.failureReason && (
+        <div className="text-[11px] text-amber-400">{candidate.failureReason}</div>
+      )}
+      {!failed && candidate.protocol === "MIXED" && (
+        <div className="text-[11px] text-slate-500">Runs as one swap per V2/V3 segment</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import { X, KeyRound, Clock, Loader2, ShieldOff } from "lucide-react";
+import { BrowserProvider, formatUnits } from "ethers";
+import { useAccount, useChainId } from "wagmi";
+import { useToast } from "@/hooks/use-toast";
+import { getTokensByChainId } from "@/data/tokens";
+import { NATIVE_TOKEN, NATIVE_TOKEN_DECIMALS } from "@/lib/gasless-config";
+import { getErrorForToast } from "@/lib/error-utils";
+import {
+  cancelSignedPermits,
+  getSignedPermits,
+  getSignedPermitStatus,
+  reconcileSignedPermits,
+  type SignedPermit,
+} from "@/lib/signed-permits";
+
+interface SignedPermitsProps {
+  open: boolean;
+  onClose: () => void;
+  onChange?: () => void; // The registry changed (a permit was cancelled or found spent)
+}
+
+export function SignedPermits({ open, onClose, onChange }: SignedPermitsProps) {
+  const [permits, setPermits] = useState<SignedPermit[]>([]);
+  const [visible, setVisible] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [cancelling, setCancelling] = useState<string | null>(null); // Nonce being cancelled, or "all"
+  const [, setNow] = useState(Date.now());
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { toast } = useToast();
+
+  // Animate in/out — same pattern as TransactionHistory
+  useEffect(() => {
+    if (open) {
+      setMounted(true);
+      requestAnimationFrame(() => requestAnimationFrame(() => setVisible(true)));
+    } else {
+      setVisible(false);
+      const t = setTimeout(() => setMounted(false), 300);
+      return () => clearTimeout(t);
+    }
+  }, [open]);
+
+  // Load on open, then drop permits Permit2 already marks as spent
+  useEffect(() => {
+    if (!open || !address || !chainId) return;
+    setPermits(getSignedPermits(address, chainId));
+    if (!window.ethereum) return;
+    let cancelled = false;
+    reconcileSignedPermits(new BrowserProvider(window.ethereum), address, chainId)
+      .then((remaining) => {
+        if (cancelled) return;
+        setPermits(remaining);
+        onChange?.();
+      })
+      .catch((error) => console.warn("[Permits] Reconcile failed:", error));
+    return () => { cancelled = true; };
+  }, [open, address, chainId]);
+
+  // Tick so expiry countdowns stay current
+  useEffect(() => {
+    if (!open) return;
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, [open]);
+
+  // Escape key
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [open, onClose]);
+
+  const outstanding = permits.filter((permit) => getSignedPermitStatus(permit) === "outstanding");
+
+  const describeAmount = (permit: SignedPermit) => {
+    const isNative = permit.token.toLowerCase() === NATIVE_TOKEN.toLowerCase();
+    const token = getTokensByChainId(chainId).find((t) => t.address.toLowerCase() === permit.token.toLowerCase());
+    const decimals = isNative ? NATIVE_TOKEN_DECIMALS : token?.decimals ?? 18;
+    const symbol = isNative ? "USDC" : token?.symbol ?? `${permit.token.slice(0, 6)}…${permit.token.slice(-4)}`;
+    return `${parseFloat(formatUnits(permit.amount, decimals)).toFixed(4)} ${symbol}`;
+  };
+
+  const formatExpiry = (deadline: number) => {
+    const diffMins = Math.ceil((deadline * 1000 - Date.now()) / 60000);
+    if (diffMins <= 0) return "Expired";
+    if (diffMins < 60) return `Expires in ${diffMins}m`;
+    return `Expires in ${Math.floor(diffMins / 60)}h ${diffMins % 60}m`;
+  };
+
+  const handleCancel = async (targets: SignedPermit[], key: string) => {
+    if (!window.ethereum || targets.length === 0) return;
+    setCancelling(key);
+    try {
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      toast({ title: "Cancelling signed permit…", description: "Confirm the Permit2 transaction in your wallet" });
+      await cancelSignedPermits(signer, targets);
+      toast({
+        title: "Permit cancelled",
+        description: `${targets.length} signature${targets.length > 1 ? "s" : ""} can no longer be used`,
+      });
+      if (address) setPermits(getSignedPermits(address, chainId));
+      onChange?.();
+    } catch (error) {
+      const { title, description } = getErrorForToast(error);
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  if (!mounted) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        onTouchMove={(e) => e.preventDefault()}
+        className="fixed inset-0 z-50 transition-all duration-300"
+        style={{
+          background: "rgba(0,0,0,0.72)",
+          backdropFilter: visible ? "blur(8px)" : "blur(0px)",
+          opacity: visible ? 1 : 0,
+        }}
+      />
+
+      {/* Panel */}
+      <div
+        className="fixed z-50 left-0 right-0 bottom-0 sm:inset-0 sm:flex sm:items-center sm:justify-center sm:p-4"
+        style={{ pointerEvents: "none" }}
+      >
+        <div
+          data-permits-panel
+          className="relative w-full sm:max-w-md overflow-hidden"
+          style={{
+            pointerEvents: "auto",
+            background: "linear-gradient(160deg, #0f1117 0%, #0c0e13 100%)",
+            border: "1px solid rgba(255,255,255,0.07)",
+            boxShadow: "0 -4px 48px rgba(0,0,0,0.7), 0 0 0 1px rgba(255,255,255,0.04)",
+            borderRadius: "20px 20px 0 0",
+            transform: visible ? "translateY(0)" : "translateY(100%)",
+            opacity: visible ? 1 : 0,
+            transition: "transform 0.32s cubic-bezier(0.32,0.72,0,1), opacity 0.2s ease",
+            maxHeight: "92dvh",
+            display: "flex",
+            flexDirection: "column",
+          }}
+        >
+          {/* Drag handle — mobile only */}
+          <div className="flex justify-center pt-3 pb-1 sm:hidden">
+            <div className="w-9 h-1 rounded-full bg-white/10" />
+          </div>
+
+          {/* Header */}
+          <div className="flex items-center justify-between px-5 pt-4 pb-3 sm:pt-5 flex-shrink-0">
+            <div>
+              <h2 className="text-base font-semibold text-white tracking-tight">
+                Signed Gasless Permits
+              </h2>
+              <p className="text-[11px] text-white/30 mt-0.5">
+                {outstanding.length === 0
+                  ? "No outstanding signatures"
+                  : `${outstanding.length} signature${outstanding.length !== 1 ? "s" : ""} still usable`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {outstanding.length > 1 && (
+                <button
+                  onClick={() => handleCancel(outstanding, "all")}
+                  disabled={cancelling !== null}
+                  title="Cancel all outstanding permits"
+                  className="h-8 px-3 rounded-xl flex items-center gap-1.5 text-[11px] font-semibold text-red-400/80 hover:text-red-400 hover:bg-red-500/10 transition-all disabled:opacity-40"
+                >
+                  {cancelling === "all" ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ShieldOff className="w-3.5 h-3.5" />}
+                  Cancel all
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="w-8 h-8 rounded-xl flex items-center justify-center text-white/40 hover:text-white hover:bg-white/8 transition-all"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Divider */}
+          <div className="mx-5 h-px flex-shrink-0" style={{ background: "rgba(255,255,255,0.05)" }} />
+
+          {/* Scrollable content */}
+          <div
+            className="flex-1 overflow-y-auto overscroll-contain px-5 py-4"
+            style={{ scrollbarWidth: "none", WebkitOverflowScrolling: "touch" }}
+          >
+            {permits.length === 0 ? (
+              /* Empty state */
+              <div className="flex flex-col items-center justify-center py-16 gap-3">
+                <div
+                  className="w-14 h-14 rounded-2xl flex items-center justify-center"
+                  style={{ background: "rgba(255,255,255,0.04)", border: "1px solid rgba(255,255,255,0.06)" }}
+                >
+                  <KeyRound className="w-6 h-6 text-white/15" />
+                </div>
+                <p className="text-sm text-white/30">No signed permits</p>
+                <p className="text-[11px] text-white/20">Gasless swap signatures that haven't settled appear here</p>
+              </div>
+            ) : (
+              <div className="space-y-2.5">
+                <p className="text-[11px] text-white/30 leading-relaxed">
+                  A signed permit can be used by whoever holds it until it expires. Cancelling marks its
+                  Permit2 nonce as used on-chain, which costs a small amount of gas.
+                </p>
+                {permits.map((permit) => {
+                  const status = getSignedPermitStatus(permit);
+                  return (
+                    <div
+                      key={permit.nonce}
+                      className="rounded-2xl p-4 flex items-center justify-between gap-3"
+                      style={{ background: "rgba(255,255,255,0.025)", border: "1px solid rgba(255,255,255,0.06)" }}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold text-white tabular-nums truncate">{describeAmount(permit)}</p>
+                        <div className="flex items-center gap-1.5 mt-1">
+                          <Clock className="w-3 h-3 text-white/20" />
+                          <span className={`text-[11px] font-medium ${status === "expired" ? "text-white/25" : "text-amber-400/80"}`}>
+                            {formatExpiry(permit.deadline)}
+                          </span>
+                        </div>
+                      </div>
+                      {status === "outstanding" && (
+                        <button
+                          onClick={() => handleCancel([permit], permit.nonce)}
+                          disabled={cancelling !== null}
+                          className="h-8 px-3 rounded-xl flex items-center gap-1.5 text-[11px] font-semibold text-red-400/80 hover:text-red-400 hover:bg-red-500/10 transition-all disabled:opacity-40 flex-shrink-0"
+                        >
+                          {cancelling === permit.nonce ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ShieldOff className="w-3.5 h-3.5" />}
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Bottom safe area */}
+            <div className="h-safe-area-bottom h-4 sm:h-2" />
+          </div>
+        </div>
+      </div>
+
+      <style>{`
+        @media (min-width: 640px) {
+          [data-permits-panel] {
+            border-radius: 20px !important;
+            transform: ${visible ? "translateY(0) scale(1)" : "translateY(12px) scale(0.97)"} !important;
+          }
+        }
+        [data-permits-panel] ::-webkit-scrollbar { display: none; }
+      `}</style>
+    </>
+  );
+}
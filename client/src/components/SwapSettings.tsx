@@ -1,6 +1,8 @@
 import { useState, useEffect, useRef } from "react";
-import { X, AlertTriangle, RotateCcw, Zap, GitFork, Clock, RefreshCw, Wallet, ChevronDown } from "lucide-react";
+import { X, AlertTriangle, RotateCcw, Zap, GitFork, Clock, RefreshCw, Wallet, ChevronDown, Filter, Plus } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
+import { FEE_TIER_LABELS, V3_FEE_TIERS } from "@/lib/abis/v3";
+import { MAX_ROUTING_HOPS, type RoutingPreferences } from "@/lib/dex-settings";
 
 interface SwapSettingsProps {
   open: boolean;
@@ -17,6 +19,8 @@ interface SwapSettingsProps {
   v3Enabled: boolean;
   onV2EnabledChange: (enabled: boolean) => void;
   onV3EnabledChange: (enabled: boolean) => void;
+  routingPreferences: RoutingPreferences;
+  onRoutingPreferencesChange: (preferences: RoutingPreferences) => void;
   maxBalance?: number;
   onMaxBalanceClick?: () => void;
 }
@@ -24,6 +28,7 @@ interface SwapSettingsProps {
 const PRESET_SLIPPAGES = [0.1, 0.5, 1.0];
 const DEFAULT_DEADLINE = 20;
 const DEFAULT_REFRESH = 30;
+const FEE_TIERS = Object.values(V3_FEE_TIERS);
 
 export function SwapSettings({
   open,
@@ -40,6 +45,8 @@ export function SwapSettings({
   v3Enabled,
   onV2EnabledChange,
   onV3EnabledChange,
+  routingPreferences,
+  onRoutingPreferencesChange,
   maxBalance,
   onMaxBalanceClick,
 }: SwapSettingsProps) {
@@ -50,6 +57,11 @@ export function SwapSettings({
   const [mounted, setMounted] = useState(false);
   const [showRecipient, setShowRecipient] = useState(!!recipientAddress);
 
+  useEffect(() => {
+    // A recipient can also arrive from a shared link
+    if (recipientAddress) setShowRecipient(true);
+  }, [recipientAddress]);
+
   useEffect(() => {
     if (open) {
       setMounted(true);
@@ -95,6 +107,25 @@ export function SwapSettings({
     setCustomRefresh(DEFAULT_REFRESH.toString());
   };
 
+  const updatePreferences = (patch: Partial<RoutingPreferences>) => {
+    onRoutingPreferencesChange({ ...routingPreferences, ...patch });
+  };
+
+  // Fee tier chips cycle: any → only these tiers → excluded → any
+  const getFeeTierMode = (fee: number) =>
+    routingPreferences.feeTierAllowList.includes(fee)
+      ? "only"
+      : routingPreferences.feeTierDenyList.includes(fee) ? "excluded" : "any";
+
+  const cycleFeeTier = (fee: number) => {
+    const mode = getFeeTierMode(fee);
+    const allow = routingPreferences.feeTierAllowList.filter((f) => f !== fee);
+    const deny = routingPreferences.feeTierDenyList.filter((f) => f !== fee);
+    if (mode === "any") allow.push(fee);
+    if (mode === "only") deny.push(fee);
+    updatePreferences({ feeTierAllowList: allow, feeTierDenyList: deny });
+  };
+
   const bothDisabled = !v2Enabled && !v3Enabled;
   const slippageHigh = slippage > 5;
   const slippageZero = slippage === 0;
@@ -207,6 +238,75 @@ export function SwapSettings({
               )}
             </Section>
 
+            {/* ── Route Filters ─────────────────────────────── */}
+            <Section icon={<Filter className="w-3.5 h-3.5" />} label="Route Filters">
+              <div className="space-y-2">
+                <p className="text-[11px] text-white/35">Maximum hops</p>
+                <div className="flex gap-2">
+                  {Array.from({ length: MAX_ROUTING_HOPS }, (_, i) => i + 1).map((hops) => (
+                    <Pill
+                      key={hops}
+                      active={routingPreferences.maxHops === hops}
+                      onClick={() => updatePreferences({ maxHops: hops })}
+                    >
+                      {hops}
+                    </Pill>
+                  ))}
+                </div>
+              </div>
+
+              <div className="h-px mx-1" style={{ background: "rgba(255,255,255,0.05)" }} />
+              <ProtocolRow
+                label="Verified intermediates only"
+                description="Multi-hop routes only pass through verified tokens"
+                checked={routingPreferences.verifiedIntermediatesOnly}
+                onChange={(checked) => updatePreferences({ verifiedIntermediatesOnly: checked })}
+              />
+              <ProtocolRow
+                label="Skip flagged pools"
+                description="Avoid pools flagged as low-liquidity outliers"
+                checked={routingPreferences.excludeFlaggedPools}
+                onChange={(checked) => updatePreferences({ excludeFlaggedPools: checked })}
+              />
+
+              <div className="h-px mx-1" style={{ background: "rgba(255,255,255,0.05)" }} />
+              <div className="space-y-2">
+                <p className="text-[11px] text-white/35">V3 fee tiers — tap to use only, tap again to exclude</p>
+                <div className="flex flex-wrap gap-2">
+                  {FEE_TIERS.map((fee) => {
+                    const mode = getFeeTierMode(fee);
+                    return (
+                      <Pill key={fee} active={mode === "only"} danger={mode === "excluded"} onClick={() => cycleFeeTier(fee)}>
+                        {FEE_TIER_LABELS[fee]}{mode === "only" ? " only" : mode === "excluded" ? " ✕" : ""}
+                      </Pill>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="h-px mx-1" style={{ background: "rgba(255,255,255,0.05)" }} />
+              <AddressListEditor
+                label="Only use these pools"
+                values={routingPreferences.poolAllowList}
+                onChange={(poolAllowList) => updatePreferences({ poolAllowList })}
+              />
+              <AddressListEditor
+                label="Never use these pools"
+                values={routingPreferences.poolDenyList}
+                onChange={(poolDenyList) => updatePreferences({ poolDenyList })}
+              />
+              <AddressListEditor
+                label="Only route through these tokens"
+                values={routingPreferences.tokenAllowList}
+                onChange={(tokenAllowList) => updatePreferences({ tokenAllowList })}
+              />
+              <AddressListEditor
+                label="Never route through these tokens"
+                values={routingPreferences.tokenDenyList}
+                onChange={(tokenDenyList) => updatePreferences({ tokenDenyList })}
+              />
+            </Section>
+
             {/* ── Slippage Tolerance ───────────────────────── */}
             <Section icon={<Zap className="w-3.5 h-3.5" />} label="Slippage Tolerance">
               {/* Preset pills */}
@@ -445,6 +545,100 @@ function ProtocolRow({
   );
 }
 
+function Pill({
+  active,
+  danger,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  danger?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="flex-1 py-2 px-2 rounded-xl text-xs font-semibold transition-all whitespace-nowrap"
+      style={{
+        background: danger ? "rgba(239,68,68,0.12)" : active ? "rgba(99,102,241,0.2)" : "rgba(255,255,255,0.05)",
+        border: danger
+          ? "1px solid rgba(239,68,68,0.35)"
+          : active ? "1px solid rgba(99,102,241,0.5)" : "1px solid rgba(255,255,255,0.07)",
+        color: danger ? "#f87171" : active ? "#a5b4fc" : "rgba(255,255,255,0.5)",
+      }}
+    >
+      {children}
+    </button>
+  );
+}
+
+function AddressListEditor({
+  label,
+  values,
+  onChange,
+}: {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}) {
+  const [input, setInput] = useState("");
+  const candidate = input.trim().toLowerCase();
+  const valid = /^0x[a-f0-9]{40}$/.test(candidate);
+
+  const add = () => {
+    if (!valid) return;
+    if (!values.includes(candidate)) onChange([...values, candidate]);
+    setInput("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[11px] text-white/35">{label}</p>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {values.map((value) => (
+            <span
+              key={value}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] font-mono text-white/70"
+              style={{ background: "rgba(255,255,255,0.05)", border: "1px solid rgba(255,255,255,0.07)" }}
+            >
+              {value.slice(0, 6)}…{value.slice(-4)}
+              <button onClick={() => onChange(values.filter((v) => v !== value))} className="text-white/30 hover:text-white/70">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div
+        className="flex items-center rounded-xl overflow-hidden"
+        style={{ background: "rgba(255,255,255,0.04)", border: "1px solid rgba(255,255,255,0.07)" }}
+      >
+        <input
+          type="text"
+          placeholder="0x…"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") add(); }}
+          autoComplete="off"
+          autoCorrect="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          className="flex-1 min-w-0 bg-transparent px-3 py-2 text-xs font-mono text-white placeholder:text-white/20 outline-none"
+        />
+        <button
+          onClick={add}
+          disabled={!valid}
+          className="px-3 py-2 text-white/40 hover:text-white/80 disabled:opacity-30 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function NumberInput({
   value,
   onChange,
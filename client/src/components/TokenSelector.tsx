@@ -1,9 +1,11 @@
 import { useState, useMemo, useEffect, useRef, useCallback, startTransition } from "react";
 import { Search, CheckCircle2, AlertCircle, X, Sparkles, Users, Trash2, BarChart3, Star, Clock } from "lucide-react";
-import { isAddress } from "ethers";
-import { useAccount, useBalance, useChainId } from "wagmi";
+import { Contract, isAddress } from "ethers";
+import { useAccount, useChainId } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
 import type { Token } from "@shared/schema";
 import { formatAmount } from "@/lib/decimal-utils";
+import { getMulticallProvider, readContract, readNativeBalance } from "@/lib/multicall";
 import { fetchCommunityTokens, getCachedCommunityTokenSeed, getCachedCommunityTokens, type CommunityToken } from "@/data/tokens";
 
 const MAX_RENDER_ITEMS_PER_SECTION = 80;
@@ -13,6 +15,9 @@ const BALANCE_QUERY_BATCH_SIZE = 12;
 const CONTENT_HYDRATE_DELAY_MS = 40;
 const BALANCE_HYDRATE_DELAY_MS = 420;
 const COMMUNITY_REFRESH_DELAY_MS = 280;
+const BALANCE_STALE_TIME_MS = 15_000;
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address) view returns (uint256)"];
 
 function scheduleIdleTask(task: () => void, fallbackDelayMs = COMMUNITY_REFRESH_DELAY_MS): () => void {
   if (typeof window === "undefined") return () => {};
@@ -990,26 +995,36 @@ export const HoldToRevealRow: React.FC<{
 
 // ─── Token Row (existing/listed tokens) ──────────────────────────────────────
 
+// Rows that mount together read their balances in one Multicall3 batch
 function TokenBalanceText({
   userAddress,
   tokenAddress,
+  decimals,
   isNativeToken = false,
   dataTestId,
 }: {
   userAddress: string;
   tokenAddress: string;
+  decimals: number;
   isNativeToken?: boolean;
   dataTestId?: string;
 }) {
-  const { data: balance } = useBalance({
-    address: userAddress as `0x${string}`,
-    ...(isNativeToken ? {} : { token: tokenAddress as `0x${string}` }),
+  const chainId = useChainId();
+  const { data: balance } = useQuery({
+    queryKey: ["token-balance", chainId, userAddress.toLowerCase(), tokenAddress.toLowerCase(), isNativeToken],
+    queryFn: () => {
+      const provider = getMulticallProvider(chainId);
+      return isNativeToken
+        ? readNativeBalance(provider, userAddress)
+        : readContract<bigint>(new Contract(tokenAddress, ERC20_BALANCE_ABI, provider), "balanceOf", [userAddress]);
+    },
+    staleTime: BALANCE_STALE_TIME_MS,
   });
 
   let displayBalance = "";
   try {
-    if (balance) {
-      const formatted = formatAmount(balance.value, balance.decimals);
+    if (balance !== undefined) {
+      const formatted = formatAmount(balance, decimals);
       const num = parseFloat(formatted);
       displayBalance =
         num > 0
@@ -1165,6 +1180,7 @@ function TokenRow({
             <TokenBalanceText
               userAddress={userAddress}
               tokenAddress={token.address}
+              decimals={token.decimals}
               isNativeToken={isNativeToken}
               dataTestId={`text-balance-${token.symbol}`}
             />
@@ -1303,6 +1319,7 @@ function CommunityTokenRow({
             <TokenBalanceText
               userAddress={userAddress}
               tokenAddress={token.address}
+              decimals={token.decimals}
             />
           )}
           {onToggleFavorite && (
@@ -1,29 +1,56 @@
-import { useEffect, useState } from "react";
-import { X, ExternalLink, ArrowRight, Clock, Trash2 } from "lucide-react";
-import { useChainId } from "wagmi";
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import {
+  X, ExternalLink, Clock, RefreshCw, Loader2, ArrowLeftRight, Droplets, MoveRight, Globe, Landmark, Rocket, Circle, Download,
+} from "lucide-react";
+import { useAccount, useChainId } from "wagmi";
 import { getContractsForChain } from "@/lib/contracts";
-import type { Token } from "@shared/schema";
-
-interface Transaction {
-  id: string;
-  fromToken: Token;
-  toToken: Token;
-  fromAmount: string;
-  toAmount: string;
-  timestamp: number;
-  chainId: number;
-}
+import { useActivityExport } from "@/hooks/use-activity-export";
+import {
+  ACTIVITY_TYPE_LABELS,
+  fetchActivityPage,
+  type ActivityCursor,
+  type ActivityItem,
+  type ActivityType,
+} from "@/lib/activity-feed";
 
 interface TransactionHistoryProps {
   open: boolean;
   onClose: () => void;
 }
 
+type DateRange = "24h" | "7d" | "30d" | "all";
+
+const DATE_RANGE_MS: Record<Exclude<DateRange, "all">, number> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+const DATE_RANGE_LABELS: Record<DateRange, string> = { "24h": "24H", "7d": "7D", "30d": "30D", all: "All" };
+
+const TYPE_ICONS: Record<ActivityType, typeof Circle> = {
+  swap: ArrowLeftRight,
+  liquidity: Droplets,
+  migrate: MoveRight,
+  bridge: Globe,
+  rwa: Landmark,
+  launch: Rocket,
+  other: Circle,
+};
+
 export function TransactionHistory({ open, onClose }: TransactionHistoryProps) {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [items, setItems] = useState<ActivityItem[]>([]);
+  const [cursor, setCursor] = useState<ActivityCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<ActivityType | "all">("all");
+  const [dateRange, setDateRange] = useState<DateRange>("30d");
   const [visible, setVisible] = useState(false);
   const [mounted, setMounted] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const { address } = useAccount();
   const chainId = useChainId();
+  const { exporting, exportActivity } = useActivityExport();
 
   // Animate in/out — same pattern as SwapSettings & TokenSelector
   useEffect(() => {
@@ -37,13 +64,43 @@ export function TransactionHistory({ open, onClose }: TransactionHistoryProps) {
     }
   }, [open]);
 
-  // Load transactions whenever panel opens
-  useEffect(() => {
-    if (open && chainId) {
-      const stored = localStorage.getItem(`transactions_${chainId}`);
-      setTransactions(stored ? JSON.parse(stored) : []);
+  const loadPage = async (from: ActivityCursor | null) => {
+    if (!address || !chainId) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await fetchActivityPage(chainId, address, from, controller.signal);
+      if (controller.signal.aborted) return;
+      setItems((prev) => {
+        if (!from) return page.items;
+        // A transaction on a page boundary can show up twice
+        const seen = new Set(prev.map((item) => item.id));
+        return [...prev, ...page.items.filter((item) => !seen.has(item.id))];
+      });
+      setCursor(page.cursor);
+    } catch (e: any) {
+      if (controller.signal.aborted) return;
+      console.warn("[Activity] Load failed:", e);
+      setError(e?.message || "Couldn't load activity");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+      }
     }
-  }, [open, chainId]);
+  };
+
+  // Fresh first page whenever the panel opens or the wallet/chain changes
+  useEffect(() => {
+    if (!open) return;
+    setItems([]);
+    setCursor(null);
+    loadPage(null);
+    return () => abortRef.current?.abort();
+  }, [open, address, chainId]);
 
   // Escape key
   useEffect(() => {
@@ -53,10 +110,22 @@ export function TransactionHistory({ open, onClose }: TransactionHistoryProps) {
     return () => window.removeEventListener("keydown", handler);
   }, [open, onClose]);
 
-  const clearHistory = () => {
-    if (!chainId) return;
-    localStorage.removeItem(`transactions_${chainId}`);
-    setTransactions([]);
+  const cutoff = dateRange === "all" ? 0 : Date.now() - DATE_RANGE_MS[dateRange];
+  const filtered = useMemo(
+    () => items.filter((item) => item.timestamp >= cutoff && (typeFilter === "all" || item.type === typeFilter)),
+    [items, cutoff, typeFilter],
+  );
+  // Loaded history already reaches past the range, so older pages can't add anything
+  const reachedCutoff = items.length > 0 && items[items.length - 1].timestamp < cutoff;
+  const canLoadMore = !!cursor && !reachedCutoff;
+
+  // Same filters as the list, but the export loads whatever pages the range needs
+  const handleExport = (format: "csv" | "json") => {
+    if (!address || !chainId) return;
+    exportActivity(format, chainId, address, {
+      from: cutoff,
+      types: typeFilter === "all" ? undefined : [typeFilter],
+    });
   };
 
   const openExplorer = (txHash: string) => {
@@ -69,7 +138,8 @@ export function TransactionHistory({ open, onClose }: TransactionHistoryProps) {
     if (diffMins < 1) return "Just now";
     if (diffMins < 60) return `${diffMins}m ago`;
     if (diffMins < 1440) return `${Math.floor(diffMins / 60)}h ago`;
-    return `${Math.floor(diffMins / 1440)}d ago`;
+    if (diffMins < 10080) return `${Math.floor(diffMins / 1440)}d ago`;
+    return new Date(timestamp).toLocaleDateString();
   };
 
   if (!mounted) return null;
@@ -119,22 +189,23 @@ export function TransactionHistory({ open, onClose }: TransactionHistoryProps) {
           <div className="flex items-center justify-between px-5 pt-4 pb-3 sm:pt-5 flex-shrink-0">
             <div>
               <h2 className="text-base font-semibold text-white tracking-tight">
-                Transaction History
+                Activity
               </h2>
               <p className="text-[11px] text-white/30 mt-0.5">
-                {transactions.length === 0
-                  ? "No swaps yet"
-                  : `${transactions.length} swap${transactions.length !== 1 ? "s" : ""} on this chain`}
+                {!address
+                  ? "Connect a wallet to see its activity"
+                  : `${filtered.length} transaction${filtered.length !== 1 ? "s" : ""} shown`}
               </p>
             </div>
             <div className="flex items-center gap-2">
-              {transactions.length > 0 && (
+              {address && (
                 <button
-                  onClick={clearHistory}
-                  title="Clear history"
-                  className="w-8 h-8 rounded-xl flex items-center justify-center text-white/30 hover:text-red-400 hover:bg-red-500/10 transition-all"
+                  onClick={() => { setItems([]); setCursor(null); loadPage(null); }}
+                  disabled={isLoading}
+                  title="Refresh"
+                  className="w-8 h-8 rounded-xl flex items-center justify-center text-white/30 hover:text-white hover:bg-white/8 transition-all disabled:opacity-40"
                 >
-                  <Trash2 className="w-3.5 h-3.5" />
+                  <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? "animate-spin" : ""}`} />
                 </button>
               )}
               <button
@@ -146,6 +217,44 @@ export function TransactionHistory({ open, onClose }: TransactionHistoryProps) {
             </div>
           </div>
 
+          {/* Filters */}
+          <div className="px-5 pb-3 flex-shrink-0 space-y-2">
+            <div className="flex gap-1.5 overflow-x-auto" style={{ scrollbarWidth: "none" }}>
+              {(["all", ...Object.keys(ACTIVITY_TYPE_LABELS)] as Array<ActivityType | "all">).map((type) => (
+                <FilterChip key={type} active={typeFilter === type} onClick={() => setTypeFilter(type)}>
+                  {type === "all" ? "All" : ACTIVITY_TYPE_LABELS[type]}
+                </FilterChip>
+              ))}
+            </div>
+            <div className="flex gap-1.5">
+              {(Object.keys(DATE_RANGE_LABELS) as DateRange[]).map((range) => (
+                <FilterChip key={range} active={dateRange === range} onClick={() => setDateRange(range)}>
+                  {DATE_RANGE_LABELS[range]}
+                </FilterChip>
+              ))}
+              {address && (
+                <div className="ml-auto flex gap-1.5">
+                  {(["csv", "json"] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      disabled={!!exporting}
+                      title={`Export ${format.toUpperCase()}`}
+                      data-testid={`button-activity-export-${format}`}
+                      className="flex-shrink-0 px-2.5 py-1 rounded-lg text-[11px] font-semibold text-white/45 hover:text-white transition-all disabled:opacity-60 flex items-center gap-1"
+                      style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}
+                    >
+                      {exporting === format
+                        ? <Loader2 className="w-3 h-3 animate-spin" />
+                        : <Download className="w-3 h-3" />}
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Divider */}
           <div className="mx-5 h-px flex-shrink-0" style={{ background: "rgba(255,255,255,0.05)" }} />
 
@@ -154,7 +263,16 @@ export function TransactionHistory({ open, onClose }: TransactionHistoryProps) {
             className="flex-1 overflow-y-auto overscroll-contain px-5 py-4"
             style={{ scrollbarWidth: "none", WebkitOverflowScrolling: "touch" }}
           >
-            {transactions.length === 0 ? (
+            {error && (
+              <div
+                className="mb-3 px-3.5 py-2.5 rounded-xl text-xs text-red-300"
+                style={{ background: "rgba(239,68,68,0.08)", border: "1px solid rgba(239,68,68,0.2)" }}
+              >
+                {error}
+              </div>
+            )}
+
+            {filtered.length === 0 && !isLoading ? (
               /* Empty state */
               <div className="flex flex-col items-center justify-center py-16 gap-3">
                 <div
@@ -163,23 +281,36 @@ export function TransactionHistory({ open, onClose }: TransactionHistoryProps) {
                 >
                   <Clock className="w-6 h-6 text-white/15" />
                 </div>
-                <p className="text-sm text-white/30">No transactions yet</p>
-                <p className="text-[11px] text-white/20">Your swap history will appear here</p>
+                <p className="text-sm text-white/30">No activity found</p>
+                <p className="text-[11px] text-white/20">
+                  {canLoadMore ? "Load older transactions to look further back" : "Swaps, liquidity, bridge and launch transactions appear here"}
+                </p>
               </div>
             ) : (
               <div className="space-y-2.5">
-                {transactions.map((tx, i) => (
-                  <TxRow
-                    key={tx.id}
-                    tx={tx}
+                {filtered.map((item, i) => (
+                  <ActivityRow
+                    key={item.id}
+                    item={item}
                     index={i}
                     formatTime={formatTime}
-                    onOpenExplorer={() => openExplorer(tx.id)}
+                    onOpenExplorer={item.txHash ? () => openExplorer(item.txHash!) : undefined}
                   />
                 ))}
               </div>
             )}
 
+            {(isLoading || canLoadMore) && (
+              <button
+                onClick={() => loadPage(cursor)}
+                disabled={isLoading}
+                className="mt-3 w-full py-2.5 rounded-xl text-xs font-semibold text-white/50 hover:text-white transition-all disabled:opacity-60 flex items-center justify-center gap-2"
+                style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}
+              >
+                {isLoading ? <><Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading</> : "Load older"}
+              </button>
+            )}
+
             {/* Bottom safe area */}
             <div className="h-safe-area-bottom h-4 sm:h-2" />
           </div>
@@ -199,98 +330,83 @@ export function TransactionHistory({ open, onClose }: TransactionHistoryProps) {
   );
 }
 
-// ─── Transaction Row ───────────────────────────────────────────────────────────
+// ─── Filter Chip ───────────────────────────────────────────────────────────────
 
-function TxRow({
-  tx,
+function FilterChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className="flex-shrink-0 px-2.5 py-1 rounded-lg text-[11px] font-semibold transition-all"
+      style={{
+        background: active ? "rgba(99,102,241,0.15)" : "rgba(255,255,255,0.03)",
+        border: `1px solid ${active ? "rgba(99,102,241,0.4)" : "rgba(255,255,255,0.06)"}`,
+        color: active ? "#a5b4fc" : "rgba(255,255,255,0.45)",
+      }}
+    >
+      {children}
+    </button>
+  );
+}
+
+// ─── Activity Row ──────────────────────────────────────────────────────────────
+
+function ActivityRow({
+  item,
   index,
   formatTime,
   onOpenExplorer,
 }: {
-  tx: Transaction;
+  item: ActivityItem;
   index: number;
   formatTime: (ts: number) => string;
-  onOpenExplorer: () => void;
+  onOpenExplorer?: () => void;
 }) {
-  const [fromImgError, setFromImgError] = useState(false);
-  const [toImgError, setToImgError] = useState(false);
+  const Icon = TYPE_ICONS[item.type];
 
   return (
     <div
-      className="rounded-2xl p-4 transition-all"
+      className="rounded-2xl p-3.5 transition-all flex items-center gap-3"
       style={{
         background: "rgba(255,255,255,0.025)",
         border: "1px solid rgba(255,255,255,0.06)",
         animationDelay: `${index * 40}ms`,
       }}
     >
-      {/* Top row: timestamp + explorer link */}
-      <div className="flex items-center justify-between mb-3">
+      <div
+        className="w-9 h-9 rounded-full flex items-center justify-center flex-shrink-0"
+        style={{ background: "rgba(99,102,241,0.1)", border: "1px solid rgba(99,102,241,0.2)" }}
+      >
+        <Icon className="w-4 h-4 text-indigo-400" />
+      </div>
+
+      <div className="flex-1 min-w-0">
         <div className="flex items-center gap-1.5">
-          <Clock className="w-3 h-3 text-white/20" />
-          <span className="text-[11px] text-white/30 font-medium">{formatTime(tx.timestamp)}</span>
+          <p className="text-sm font-semibold text-white truncate">{item.label}</p>
+          {item.relayed && (
+            <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded-md text-emerald-300" style={{ background: "rgba(16,185,129,0.12)" }}>
+              Gasless
+            </span>
+          )}
+          {item.failed && (
+            <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded-md text-red-300" style={{ background: "rgba(239,68,68,0.12)" }}>
+              Failed
+            </span>
+          )}
         </div>
+        <p className="text-[11px] text-white/35 truncate">
+          {item.detail ? `${item.detail} · ` : ""}{formatTime(item.timestamp)}
+        </p>
+      </div>
+
+      {onOpenExplorer && (
         <button
           onClick={onOpenExplorer}
           title="View on explorer"
-          className="w-6 h-6 rounded-lg flex items-center justify-center text-white/25 hover:text-indigo-400 hover:bg-indigo-500/10 transition-all"
+          className="w-6 h-6 rounded-lg flex items-center justify-center text-white/25 hover:text-indigo-400 hover:bg-indigo-500/10 transition-all flex-shrink-0"
         >
           <ExternalLink className="w-3 h-3" />
         </button>
-      </div>
-
-      {/* Token swap row */}
-      <div className="flex items-center gap-3">
-        {/* From */}
-        <div className="flex items-center gap-2.5 flex-1 min-w-0">
-          <div
-            className="w-9 h-9 rounded-full overflow-hidden flex-shrink-0"
-            style={{ boxShadow: "0 0 0 1px rgba(255,255,255,0.08)" }}
-          >
-            <img
-              src={!fromImgError && tx.fromToken.logoURI ? tx.fromToken.logoURI : "/img/logos/unknown-token.png"}
-              alt={tx.fromToken.symbol}
-              className="w-full h-full object-cover"
-              onError={() => setFromImgError(true)}
-            />
-          </div>
-          <div className="min-w-0">
-            <p className="text-sm font-semibold text-white tabular-nums">
-              {parseFloat(tx.fromAmount).toFixed(4)}
-            </p>
-            <p className="text-[11px] text-white/35 truncate">{tx.fromToken.symbol}</p>
-          </div>
-        </div>
-
-        {/* Arrow */}
-        <div
-          className="flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center"
-          style={{ background: "rgba(99,102,241,0.1)", border: "1px solid rgba(99,102,241,0.2)" }}
-        >
-          <ArrowRight className="w-3.5 h-3.5 text-indigo-400" />
-        </div>
-
-        {/* To */}
-        <div className="flex items-center gap-2.5 flex-1 min-w-0 justify-end">
-          <div className="min-w-0 text-right">
-            <p className="text-sm font-semibold text-white tabular-nums">
-              {parseFloat(tx.toAmount).toFixed(4)}
-            </p>
-            <p className="text-[11px] text-white/35 truncate">{tx.toToken.symbol}</p>
-          </div>
-          <div
-            className="w-9 h-9 rounded-full overflow-hidden flex-shrink-0"
-            style={{ boxShadow: "0 0 0 1px rgba(255,255,255,0.08)" }}
-          >
-            <img
-              src={!toImgError && tx.toToken.logoURI ? tx.toToken.logoURI : "/img/logos/unknown-token.png"}
-              alt={tx.toToken.symbol}
-              className="w-full h-full object-cover"
-              onError={() => setToImgError(true)}
-            />
-          </div>
-        </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -611,3 +611,15 @@ export function isRWASwapPair(from: Token | null, to: Token | null): boolean {
   const toIsUSDC = isCanonicalUSDC(to);
   return (fromIsRWA && toIsUSDC) || (fromIsUSDC && toIsRWA);
 }
+
+/**
+ * RWA pair routed through the DEX: the non-RWA side is any token other than
+ * native USDC, swapped to/from USDC around the vault leg.
+ */
+export function isCompositeRWAPair(from: Token | null, to: Token | null): boolean {
+  if (!from || !to) return false;
+  const fromIsRWA = isRWAToken(from);
+  const toIsRWA = isRWAToken(to);
+  if (fromIsRWA === toIsRWA) return false;
+  return !isCanonicalUSDC(fromIsRWA ? to : from);
+}
@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  buildActivityExport,
+  downloadActivityExport,
+  type ActivityExportFormat,
+  type ActivityExportOptions,
+} from "@/lib/activity-export";
+
+/**
+ * Builds and downloads a wallet's activity export, tracking which format is
+ * in progress so the caller can disable its buttons.
+ */
+export function useActivityExport() {
+  const [exporting, setExporting] = useState<ActivityExportFormat | null>(null);
+  const { toast } = useToast();
+
+  const exportActivity = async (
+    format: ActivityExportFormat,
+    chainId: number,
+    wallet: string,
+    options: ActivityExportOptions,
+  ) => {
+    if (exporting) return;
+    setExporting(format);
+    try {
+      const data = await buildActivityExport(chainId, wallet, options);
+      downloadActivityExport(data, format);
+      toast({
+        title: "Export ready",
+        description: data.truncated
+          ? `${data.rows.length} rows. History is very long, so the oldest entries were cut off; narrow the date range.`
+          : `${data.rows.length} row${data.rows.length !== 1 ? "s" : ""} exported as ${format.toUpperCase()}.`,
+      });
+    } catch (e: any) {
+      console.warn("[Activity] Export failed:", e);
+      toast({ title: "Export failed", description: e?.message || "Couldn't load activity", variant: "destructive" });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return { exporting, exportActivity };
+}
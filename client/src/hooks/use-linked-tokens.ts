@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from "react";
+import type { Token } from "@shared/schema";
+import { readLinkParams, resolveLinkToken } from "@/lib/deep-links";
+
+export interface PendingLinkImport {
+  field: string;
+  address: string;
+}
+
+interface LinkedTokensOptions {
+  fields: readonly string[]; // Query params that name a token, e.g. ["inputCurrency", "outputCurrency"]
+  tokens: Token[];
+  onToken: (field: string, token: Token) => void;
+  onApply?: (params: URLSearchParams) => void; // Runs once, with the rest of the link's params
+  importToken: (address: string) => Promise<Token | null>;
+}
+
+/**
+ * Applies a page's link params once its token list has loaded. Listed tokens
+ * are set straight away; unknown addresses wait in `pendingImport` until the
+ * user accepts the unverified-token warning or dismisses it.
+ */
+export function useLinkedTokens({ fields, tokens, onToken, onApply, importToken }: LinkedTokensOptions) {
+  const [applied, setApplied] = useState(false);
+  const [queue, setQueue] = useState<PendingLinkImport[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const latest = useRef({ onToken, onApply, importToken });
+  latest.current = { onToken, onApply, importToken };
+
+  useEffect(() => {
+    if (applied || !tokens.length) return;
+    const params = readLinkParams();
+    const pending: PendingLinkImport[] = [];
+    for (const field of fields) {
+      const { token, unknownAddress } = resolveLinkToken(params.get(field), tokens);
+      if (token) latest.current.onToken(field, token);
+      else if (unknownAddress) pending.push({ field, address: unknownAddress });
+    }
+    latest.current.onApply?.(params);
+    setQueue(pending);
+    setApplied(true);
+  }, [applied, tokens, fields]);
+
+  const pendingImport = queue[0] ?? null;
+
+  const confirmImport = async () => {
+    if (!pendingImport || isImporting) return;
+    setIsImporting(true);
+    try {
+      const token = await latest.current.importToken(pendingImport.address);
+      if (token) latest.current.onToken(pendingImport.field, token);
+    } finally {
+      setIsImporting(false);
+      setQueue((prev) => prev.slice(1));
+    }
+  };
+
+  const dismissImport = () => setQueue((prev) => prev.slice(1));
+
+  return { applied, pendingImport, isImporting, confirmImport, dismissImport };
+}
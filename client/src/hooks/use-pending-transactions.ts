@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react";
+import {
+  getTrackedTransactions,
+  subscribeTrackedTransactions,
+  type TrackedTransaction,
+} from "@/lib/tx-tracker";
+
+/**
+ * Live view of the transaction tracker's store, newest first.
+ */
+export function usePendingTransactions(): TrackedTransaction[] {
+  return useSyncExternalStore(subscribeTrackedTransactions, getTrackedTransactions, getTrackedTransactions);
+}
@@ -0,0 +1,330 @@
+import { fetchWalletTokenTransfers, type WalletTokenTransfer } from "./blocksout-api";
+import { fetchActivityPage, type ActivityCursor, type ActivityItem, type ActivityType } from "./activity-feed";
+import { getTransferHistory, type PendingBridgeTransfer } from "./bridge-transfers";
+import { getChainByChainId } from "./cctp-config";
+import { formatAmount, parseAmount } from "./decimal-utils";
+
+/**
+ * Accounting export of a wallet's activity. Walks the activity feed back to
+ * the start of the requested range, attaches the ERC-20 movements of each
+ * transaction, and adds the CCTP transfers saved by the bridge page. Amounts
+ * are given both raw and formatted; USD values are the subgraph's figures at
+ * trade time.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ActivityExportFormat = "csv" | "json";
+
+export interface ActivityExportOptions {
+  from: number; // ms; 0 for all history
+  to?: number; // ms; defaults to now
+  types?: ActivityType[]; // All types when omitted
+}
+
+export interface ActivityExportToken {
+  symbol: string;
+  address: string;
+  amountRaw: string;
+  amount: string;
+}
+
+export interface ActivityExportRow {
+  timestamp: string; // ISO 8601, UTC
+  type: ActivityType;
+  action: string;
+  status: string; // "success" | "failed", or the bridge transfer status
+  tokensSent: ActivityExportToken[];
+  tokensReceived: ActivityExportToken[];
+  amountUsd: number | null;
+  feeUsd: number | null;
+  gasPaidRaw: string | null; // Null when the wallet didn't send the tx (gasless, or another chain)
+  gasPaid: string | null;
+  gasToken: string | null;
+  relayed: boolean;
+  txHash: string | null;
+  note: string | null;
+}
+
+export interface ActivityExport {
+  wallet: string;
+  chainId: number;
+  from: string | null;
+  to: string;
+  exportedAt: string;
+  truncated: boolean; // Page limit hit before reaching `from`
+  rows: ActivityExportRow[];
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MAX_ACTIVITY_PAGES = 40;
+const MAX_TRANSFER_PAGES = 40;
+const BRIDGE_USDC_DECIMALS = 6;
+
+const CSV_COLUMNS = [
+  "timestamp",
+  "type",
+  "action",
+  "status",
+  "tokens_sent",
+  "amounts_sent_raw",
+  "amounts_sent",
+  "tokens_received",
+  "amounts_received_raw",
+  "amounts_received",
+  "amount_usd",
+  "fee_usd",
+  "gas_paid_raw",
+  "gas_paid",
+  "gas_token",
+  "relayed",
+  "tx_hash",
+  "note",
+] as const;
+
+// ─── Collection ──────────────────────────────────────────────────────────────
+
+async function collectActivity(
+  chainId: number,
+  wallet: string,
+  from: number,
+  signal?: AbortSignal,
+): Promise<{ items: ActivityItem[]; truncated: boolean }> {
+  const items = new Map<string, ActivityItem>();
+  let cursor: ActivityCursor | null = null;
+  for (let page = 0; page < MAX_ACTIVITY_PAGES; page++) {
+    const result = await fetchActivityPage(chainId, wallet, cursor, signal);
+    // A transaction on a page boundary can show up twice
+    for (const item of result.items) if (!items.has(item.id)) items.set(item.id, item);
+    cursor = result.cursor;
+    // `before` is the oldest timestamp covered so far
+    if (!cursor || cursor.before * 1000 < from) return { items: [...items.values()], truncated: false };
+  }
+  return { items: [...items.values()], truncated: true };
+}
+
+async function collectTokenTransfers(
+  wallet: string,
+  from: number,
+  signal?: AbortSignal,
+): Promise<{ byTx: Map<string, WalletTokenTransfer[]>; truncated: boolean }> {
+  const byTx = new Map<string, WalletTokenTransfer[]>();
+  let pageParams: Record<string, unknown> | null = null;
+  for (let page = 0; page < MAX_TRANSFER_PAGES; page++) {
+    const result = await fetchWalletTokenTransfers(wallet, pageParams, signal);
+    for (const transfer of result.items) {
+      const list = byTx.get(transfer.txHash) ?? [];
+      list.push(transfer);
+      byTx.set(transfer.txHash, list);
+    }
+    pageParams = result.nextPageParams;
+    const oldest = result.items[result.items.length - 1]?.timestamp ?? 0;
+    if (!pageParams || oldest < from) return { byTx, truncated: false };
+  }
+  return { byTx, truncated: true };
+}
+
+// ─── Rows ────────────────────────────────────────────────────────────────────
+
+function toExportToken(symbol: string, address: string, raw: bigint, decimals: number): ActivityExportToken {
+  return { symbol, address, amountRaw: raw.toString(), amount: formatAmount(raw, decimals) };
+}
+
+// Net each token per direction, so split routes and multi-hop legs read as one amount
+function summarizeTransfers(wallet: string, transfers: WalletTokenTransfer[]) {
+  const sent = new Map<string, { transfer: WalletTokenTransfer; total: bigint }>();
+  const received = new Map<string, { transfer: WalletTokenTransfer; total: bigint }>();
+  for (const transfer of transfers) {
+    const side = transfer.from === wallet ? sent : transfer.to === wallet ? received : null;
+    if (!side) continue;
+    const entry = side.get(transfer.token.address) ?? { transfer, total: 0n };
+    entry.total += BigInt(transfer.value);
+    side.set(transfer.token.address, entry);
+  }
+  const toTokens = (side: typeof sent) =>
+    [...side.values()].map(({ transfer, total }) =>
+      toExportToken(transfer.token.symbol, transfer.token.address, total, transfer.token.decimals),
+    );
+  return { tokensSent: toTokens(sent), tokensReceived: toTokens(received) };
+}
+
+function describeBridgeRoute(transfer: PendingBridgeTransfer): string {
+  const source = getChainByChainId(transfer.sourceChainId)?.name ?? `Chain ${transfer.sourceChainId}`;
+  const dest = getChainByChainId(transfer.destChainId)?.name ?? `Chain ${transfer.destChainId}`;
+  const parts = [`${source} → ${dest}`];
+  if (transfer.mintTxHash) parts.push(`mint ${transfer.mintTxHash}`);
+  if (transfer.error) parts.push(transfer.error);
+  return parts.join(" · ");
+}
+
+function activityRow(
+  item: ActivityItem,
+  wallet: string,
+  transfers: WalletTokenTransfer[],
+  gasToken: { symbol: string; decimals: number },
+): ActivityExportRow {
+  const gasFee = item.gasFee ? BigInt(item.gasFee) : null;
+  return {
+    timestamp: new Date(item.timestamp).toISOString(),
+    type: item.type,
+    action: item.label,
+    status: item.failed ? "failed" : "success",
+    ...summarizeTransfers(wallet, transfers),
+    amountUsd: item.amountUsd,
+    feeUsd: item.feeUsd,
+    gasPaidRaw: gasFee?.toString() ?? null,
+    gasPaid: gasFee !== null ? formatAmount(gasFee, gasToken.decimals) : null,
+    gasToken: gasFee !== null ? gasToken.symbol : null,
+    relayed: item.relayed,
+    txHash: item.txHash,
+    note: item.detail,
+  };
+}
+
+function bridgeRow(transfer: PendingBridgeTransfer): ActivityExportRow {
+  const source = getChainByChainId(transfer.sourceChainId);
+  const raw = parseAmount(transfer.amount, BRIDGE_USDC_DECIMALS);
+  const amount = parseFloat(transfer.amount);
+  return {
+    timestamp: new Date(transfer.timestamp).toISOString(),
+    type: "bridge",
+    action: "Bridge transfer",
+    status: transfer.status,
+    tokensSent: [toExportToken("USDC", source?.usdcAddress.toLowerCase() ?? "", raw, BRIDGE_USDC_DECIMALS)],
+    tokensReceived: [],
+    amountUsd: Number.isFinite(amount) ? amount : null, // USDC, so face value
+    feeUsd: null,
+    gasPaidRaw: null,
+    gasPaid: null,
+    gasToken: null,
+    relayed: false,
+    txHash: transfer.burnTxHash,
+    note: describeBridgeRoute(transfer),
+  };
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+/**
+ * Everything the wallet did between `from` and `to`, newest first. Blockscout
+ * errors are thrown; subgraph trouble only leaves the USD columns empty.
+ */
+export async function buildActivityExport(
+  chainId: number,
+  wallet: string,
+  { from, to = Date.now(), types }: ActivityExportOptions,
+  signal?: AbortSignal,
+): Promise<ActivityExport> {
+  const user = wallet.toLowerCase();
+  const native = getChainByChainId(chainId)?.nativeCurrency ?? { symbol: "ETH", decimals: 18 };
+  const inRange = (timestamp: number) => timestamp >= from && timestamp <= to;
+  const wanted = (type: ActivityType) => !types || types.includes(type);
+
+  const [activity, transfers] = await Promise.all([
+    collectActivity(chainId, user, from, signal),
+    collectTokenTransfers(user, from, signal),
+  ]);
+
+  const bridgeTransfers = getTransferHistory().filter(
+    (transfer) => transfer.userAddress.toLowerCase() === user && inRange(transfer.timestamp),
+  );
+  const bridgeByHash = new Map<string, PendingBridgeTransfer>();
+  for (const transfer of bridgeTransfers) {
+    bridgeByHash.set(transfer.burnTxHash.toLowerCase(), transfer);
+    if (transfer.mintTxHash) bridgeByHash.set(transfer.mintTxHash.toLowerCase(), transfer);
+  }
+
+  const rows: ActivityExportRow[] = [];
+  const coveredBridges = new Set<string>();
+  for (const item of activity.items) {
+    if (!inRange(item.timestamp) || !wanted(item.type)) continue;
+    const hash = item.txHash?.toLowerCase() ?? null;
+    const row = activityRow(item, user, (hash && transfers.byTx.get(hash)) || [], native);
+    // The burn or mint happened on this chain, so the feed already has the tx and its gas
+    const bridge = hash ? bridgeByHash.get(hash) : undefined;
+    if (bridge) {
+      coveredBridges.add(bridge.id);
+      row.note = describeBridgeRoute(bridge);
+      if (hash === bridge.burnTxHash.toLowerCase()) row.status = bridge.status;
+    }
+    rows.push(row);
+  }
+
+  // Transfers that left from another chain have no tx here
+  if (wanted("bridge")) {
+    for (const transfer of bridgeTransfers) {
+      if (!coveredBridges.has(transfer.id)) rows.push(bridgeRow(transfer));
+    }
+  }
+
+  rows.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  return {
+    wallet: user,
+    chainId,
+    from: from > 0 ? new Date(from).toISOString() : null,
+    to: new Date(to).toISOString(),
+    exportedAt: new Date().toISOString(),
+    truncated: activity.truncated || transfers.truncated,
+    rows,
+  };
+}
+
+// ─── Serialization ───────────────────────────────────────────────────────────
+
+// Token symbols are attacker-chosen; a leading = + - @ would run as a spreadsheet formula
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function joinTokens(tokens: ActivityExportToken[], field: keyof ActivityExportToken): string {
+  return tokens.map((token) => token[field]).join("; ");
+}
+
+export function serializeActivityExport(data: ActivityExport, format: ActivityExportFormat): string {
+  if (format === "json") return JSON.stringify(data, null, 2);
+
+  const lines = data.rows.map((row) => {
+    const cells: Record<(typeof CSV_COLUMNS)[number], string | number | boolean | null> = {
+      timestamp: row.timestamp,
+      type: row.type,
+      action: row.action,
+      status: row.status,
+      tokens_sent: joinTokens(row.tokensSent, "symbol"),
+      amounts_sent_raw: joinTokens(row.tokensSent, "amountRaw"),
+      amounts_sent: joinTokens(row.tokensSent, "amount"),
+      tokens_received: joinTokens(row.tokensReceived, "symbol"),
+      amounts_received_raw: joinTokens(row.tokensReceived, "amountRaw"),
+      amounts_received: joinTokens(row.tokensReceived, "amount"),
+      amount_usd: row.amountUsd,
+      fee_usd: row.feeUsd,
+      gas_paid_raw: row.gasPaidRaw,
+      gas_paid: row.gasPaid,
+      gas_token: row.gasToken,
+      relayed: row.relayed,
+      tx_hash: row.txHash,
+      note: row.note,
+    };
+    return CSV_COLUMNS.map((column) => csvCell(cells[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...lines].join("\r\n");
+}
+
+/**
+ * Save the export through the browser's download prompt.
+ */
+export function downloadActivityExport(data: ActivityExport, format: ActivityExportFormat): void {
+  const body = serializeActivityExport(data, format);
+  const type = format === "csv" ? "text/csv;charset=utf-8" : "application/json";
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `achswap-activity-${data.wallet.slice(0, 10)}-${data.exportedAt.slice(0, 10)}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
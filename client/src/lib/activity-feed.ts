@@ -0,0 +1,322 @@
+import { fetchWalletTransactions, type WalletTransaction } from "./blocksout-api";
+import { getChainByChainId } from "./cctp-config";
+import { contractsByChainId } from "./contracts";
+import { FACTORY_ADDRESS } from "./factory-abi";
+import { getWUSDC } from "@/data/tokens";
+
+/**
+ * Wallet activity feed. Blockscout supplies every transaction the wallet sent,
+ * classified by the contract it called; the subgraph adds pair and USD detail
+ * for swaps and RWA trades, including gasless ones the relayer sent on the
+ * wallet's behalf. Pages walk back in time on Blockscout's cursor, and each
+ * page pulls the subgraph rows for the same time window.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ActivityType = "swap" | "liquidity" | "migrate" | "bridge" | "rwa" | "launch" | "other";
+
+export interface ActivityItem {
+  id: string; // Tx hash, or the subgraph id when the hash isn't known
+  type: ActivityType;
+  label: string; // e.g. "Add liquidity", "Bridge out"
+  detail: string | null; // e.g. "USDC/ACHS · $12.40"
+  txHash: string | null;
+  timestamp: number; // ms
+  failed: boolean;
+  relayed: boolean; // Sent by the gasless relayer rather than the wallet
+  amountUsd: number | null; // Trade value at the time, from the subgraph
+  feeUsd: number | null; // Pool or vault fees on the trade
+  gasFee: string | null; // Native wei the wallet paid; null when it didn't send the tx
+}
+
+export interface ActivityCursor {
+  pageParams: Record<string, unknown> | null;
+  before: number; // Unix seconds; subgraph rows at or after this were already returned
+}
+
+export interface ActivityPage {
+  items: ActivityItem[];
+  cursor: ActivityCursor | null; // Null once the history is exhausted
+}
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  swap: "Swaps",
+  liquidity: "Liquidity",
+  migrate: "Migrations",
+  bridge: "Bridge",
+  rwa: "RWA",
+  launch: "Launches",
+  other: "Other",
+};
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const SUBGRAPH_PROXY_URL = "/api/subgraph";
+const SUBGRAPH_PROXY_APP_TOKEN = (import.meta.env.VITE_SUBGRAPH_PROXY_TOKEN as string | undefined)?.trim();
+const SUBGRAPH_PAGE_SIZE = 100;
+
+const WALLET_TRADES_QUERY = `
+  query WalletTrades($wallet: String!, $from: BigInt!, $to: BigInt!, $first: Int!) {
+    dexSwaps(first: $first, where: { user: $wallet, timestamp_gte: $from, timestamp_lt: $to }, orderBy: timestamp, orderDirection: desc) {
+      id
+      timestamp
+      amountUsd
+      effectiveAmountUsd
+      feeUsd
+      version
+      pool {
+        token0 { symbol }
+        token1 { symbol }
+      }
+    }
+    rwaTrades(first: $first, where: { user: $wallet, timestamp_gte: $from, timestamp_lt: $to }, orderBy: timestamp, orderDirection: desc) {
+      id
+      timestamp
+      side
+      symbol
+      amountUsd
+      feeUsd
+    }
+  }
+`;
+
+interface SubgraphDexSwap {
+  id: string;
+  timestamp: string;
+  amountUsd: string;
+  effectiveAmountUsd: string;
+  feeUsd: string;
+  version: "V2" | "V3";
+  pool: { token0: { symbol: string }; token1: { symbol: string } };
+}
+
+interface SubgraphRwaTrade {
+  id: string;
+  timestamp: string;
+  side: "BUY" | "REDEEM";
+  symbol: string;
+  amountUsd: string;
+  feeUsd: string;
+}
+
+// ─── Classification ──────────────────────────────────────────────────────────
+
+interface ContractRoles {
+  v2Router: string;
+  v3Router: string;
+  positionManager: string;
+  migrator: string;
+  rwaVault: string | null;
+  tokenMessenger: string | null;
+  messageTransmitter: string | null;
+  wrappedNative: string | null;
+}
+
+function getContractRoles(chainId: number): ContractRoles | null {
+  const contracts = contractsByChainId[chainId];
+  if (!contracts) return null;
+  const cctp = getChainByChainId(chainId);
+  return {
+    v2Router: contracts.v2.router.toLowerCase(),
+    v3Router: contracts.v3.swapRouter.toLowerCase(),
+    positionManager: contracts.v3.nonfungiblePositionManager.toLowerCase(),
+    migrator: contracts.v3.migrator.toLowerCase(),
+    rwaVault: contracts.rwa?.vault.toLowerCase() ?? null,
+    tokenMessenger: cctp?.tokenMessengerV2.toLowerCase() ?? null,
+    messageTransmitter: cctp?.messageTransmitterV2.toLowerCase() ?? null,
+    wrappedNative: getWUSDC(chainId)?.address.toLowerCase() ?? null,
+  };
+}
+
+function describeTransaction(tx: WalletTransaction, roles: ContractRoles): Pick<ActivityItem, "type" | "label"> {
+  const method = (tx.method ?? "").toLowerCase();
+  switch (tx.to) {
+    case roles.v2Router:
+      if (method.startsWith("addliquidity")) return { type: "liquidity", label: "Add liquidity" };
+      if (method.startsWith("removeliquidity")) return { type: "liquidity", label: "Remove liquidity" };
+      return { type: "swap", label: "Swap" };
+    case roles.v3Router:
+      return { type: "swap", label: "Swap" };
+    case roles.positionManager:
+      if (method === "mint" || method === "increaseliquidity" || method === "createandinitializepoolifnecessary") {
+        return { type: "liquidity", label: "Add liquidity" };
+      }
+      if (method === "decreaseliquidity" || method === "burn") return { type: "liquidity", label: "Remove liquidity" };
+      if (method === "collect") return { type: "liquidity", label: "Collect fees" };
+      return { type: "liquidity", label: "Manage position" };
+    case roles.migrator:
+      return { type: "migrate", label: "Migrate V2 → V3" };
+    case roles.rwaVault:
+      if (method.startsWith("buy")) return { type: "rwa", label: "RWA buy" };
+      if (method.startsWith("redeem")) return { type: "rwa", label: "RWA redeem" };
+      return { type: "rwa", label: "RWA trade" };
+    case roles.tokenMessenger:
+      return { type: "bridge", label: "Bridge out" };
+    case roles.messageTransmitter:
+      return { type: "bridge", label: "Bridge in" };
+    case FACTORY_ADDRESS.toLowerCase():
+      return { type: "launch", label: "Token launch" };
+    case roles.wrappedNative:
+      if (method === "deposit") return { type: "other", label: "Wrap USDC" };
+      if (method === "withdraw") return { type: "other", label: "Unwrap wUSDC" };
+  }
+  if (method === "approve") return { type: "other", label: "Approve" };
+  if (!tx.to) return { type: "other", label: "Contract deployment" };
+  return { type: "other", label: tx.method && !tx.method.startsWith("0x") ? tx.method : "Transaction" };
+}
+
+// Subgraph event ids are `${txHash}-${logIndex}`
+function txHashFromEventId(id: string): string | null {
+  const hash = id.slice(0, 66);
+  return /^0x[0-9a-fA-F]{64}$/.test(hash) ? hash.toLowerCase() : null;
+}
+
+function parseUsd(value: string): number {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function formatUsd(n: number | null): string | null {
+  if (n === null || n <= 0) return null;
+  return `$${n < 0.01 ? "<0.01" : n.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+function joinDetail(...parts: Array<string | null>): string | null {
+  const present = parts.filter(Boolean);
+  return present.length > 0 ? present.join(" · ") : null;
+}
+
+// ─── Subgraph ────────────────────────────────────────────────────────────────
+
+async function fetchWalletTrades(
+  wallet: string,
+  from: number,
+  to: number,
+  signal?: AbortSignal,
+): Promise<{ dexSwaps: SubgraphDexSwap[]; rwaTrades: SubgraphRwaTrade[] }> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (SUBGRAPH_PROXY_APP_TOKEN) headers["X-App-Token"] = SUBGRAPH_PROXY_APP_TOKEN;
+
+  const response = await fetch(SUBGRAPH_PROXY_URL, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      query: WALLET_TRADES_QUERY,
+      variables: { wallet, from: String(from), to: String(to), first: SUBGRAPH_PAGE_SIZE },
+    }),
+    signal,
+  });
+  if (!response.ok) throw new Error(`Subgraph request failed with ${response.status}`);
+  const json = await response.json();
+  if (json.errors?.length) throw new Error(json.errors[0]?.message ?? "Unknown subgraph error");
+  return json.data;
+}
+
+// ─── Feed ────────────────────────────────────────────────────────────────────
+
+/**
+ * One page of a wallet's activity, newest first. Pass the returned cursor back
+ * for the next page. Subgraph trouble only drops the extra detail; Blockscout
+ * errors are thrown.
+ */
+export async function fetchActivityPage(
+  chainId: number,
+  wallet: string,
+  cursor: ActivityCursor | null = null,
+  signal?: AbortSignal,
+): Promise<ActivityPage> {
+  const roles = getContractRoles(chainId);
+  if (!roles) return { items: [], cursor: null };
+  const user = wallet.toLowerCase();
+
+  const page = await fetchWalletTransactions(user, cursor?.pageParams ?? null, signal);
+  // Outgoing only: incoming transfers aren't the wallet's own activity
+  const sent = page.items.filter((tx) => tx.from === user);
+
+  // The subgraph window ends where the previous page's began and reaches back to this page's oldest tx
+  const before = cursor?.before ?? Math.floor(Date.now() / 1000) + 60;
+  const oldest = page.items.length > 0 ? Math.floor(page.items[page.items.length - 1].timestamp / 1000) : 0;
+  const after = page.nextPageParams ? oldest : 0;
+
+  const trades = await fetchWalletTrades(user, after, before, signal).catch((error) => {
+    if (signal?.aborted) throw error;
+    console.warn("[Activity] Subgraph unavailable, showing transactions only:", error);
+    return { dexSwaps: [], rwaTrades: [] };
+  });
+
+  const items = new Map<string, ActivityItem>();
+  for (const tx of sent) {
+    items.set(tx.hash.toLowerCase(), {
+      id: tx.hash.toLowerCase(),
+      ...describeTransaction(tx, roles),
+      detail: null,
+      txHash: tx.hash,
+      timestamp: tx.timestamp,
+      failed: tx.failed,
+      relayed: false,
+      amountUsd: null,
+      feeUsd: null,
+      gasFee: tx.gasFee,
+    });
+  }
+
+  // Swaps in one transaction (splits, multi-hop) share a row; the first event names the pair.
+  // Effective USD is already de-duplicated across hops, so it sums to the trade's value.
+  const swapsByTx = new Map<string, { first: SubgraphDexSwap; amountUsd: number; feeUsd: number }>();
+  for (const swap of trades.dexSwaps) {
+    const key = txHashFromEventId(swap.id) ?? swap.id;
+    const entry = swapsByTx.get(key) ?? { first: swap, amountUsd: 0, feeUsd: 0 };
+    entry.amountUsd += parseUsd(swap.effectiveAmountUsd);
+    entry.feeUsd += parseUsd(swap.feeUsd);
+    swapsByTx.set(key, entry);
+  }
+
+  for (const [key, { first, amountUsd, feeUsd }] of swapsByTx) {
+    const existing = items.get(key);
+    const pair = `${first.pool.token0.symbol}/${first.pool.token1.symbol} ${first.version}`;
+    const trade = { detail: joinDetail(pair, formatUsd(amountUsd)), amountUsd, feeUsd };
+    if (existing) {
+      items.set(key, { ...existing, ...trade, detail: existing.detail ?? trade.detail });
+      continue;
+    }
+    items.set(key, {
+      id: key,
+      type: "swap",
+      label: "Swap",
+      ...trade,
+      txHash: txHashFromEventId(first.id),
+      timestamp: Number(first.timestamp) * 1000,
+      failed: false,
+      relayed: true, // Not a transaction the wallet sent, so the relayer sent it
+      gasFee: null,
+    });
+  }
+
+  for (const trade of trades.rwaTrades) {
+    const txHash = txHashFromEventId(trade.id);
+    const key = txHash ?? trade.id;
+    const existing = items.get(key);
+    const label = trade.side === "BUY" ? "RWA buy" : "RWA redeem";
+    const amountUsd = parseUsd(trade.amountUsd);
+    const detail = joinDetail(trade.symbol, formatUsd(amountUsd));
+    items.set(key, {
+      id: key,
+      type: "rwa",
+      label,
+      detail,
+      txHash,
+      timestamp: existing?.timestamp ?? Number(trade.timestamp) * 1000,
+      failed: existing?.failed ?? false,
+      relayed: !existing,
+      amountUsd,
+      feeUsd: parseUsd(trade.feeUsd),
+      gasFee: existing?.gasFee ?? null,
+    });
+  }
+
+  return {
+    items: [...items.values()].sort((a, b) => b.timestamp - a.timestamp),
+    cursor: page.nextPageParams ? { pageParams: page.nextPageParams, before: after } : null,
+  };
+}
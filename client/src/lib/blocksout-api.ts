@@ -1,12 +1,14 @@
 /**
- * Blockscout API v2 service — swap activity analytics.
+ * Blockscout API v2 service — swap activity analytics and wallet transactions.
  *
  * Fetches router transactions (which have timestamps) and groups them
  * by time range for fast swap-count analytics. No per-pool log parsing.
+ * The same transactions endpoint pages through a wallet's own history.
  *
  * Endpoints used:
- *  - /api/v2/addresses/{addr}/counters      → total tx count (all-time)
- *  - /api/v2/addresses/{addr}/transactions  → paginated txs with timestamps
+ *  - /api/v2/addresses/{addr}/counters         → total tx count (all-time)
+ *  - /api/v2/addresses/{addr}/transactions     → paginated txs with timestamps
+ *  - /api/v2/addresses/{addr}/token-transfers  → paginated ERC-20 movements
  */
 
 const API_BASE = "https://testnet.arcscan.app/api/v2";
@@ -57,6 +59,30 @@ interface TransactionsResponse {
   next_page_params: Record<string, unknown> | null;
 }
 
+interface AddressTransactionItem extends TransactionItem {
+  status: "ok" | "error" | null; // null while pending
+  fee: { type: "actual" | "maximum"; value: string } | null;
+}
+
+interface AddressTransactionsResponse {
+  items: AddressTransactionItem[];
+  next_page_params: Record<string, unknown> | null;
+}
+
+interface TokenTransferItem {
+  transaction_hash: string;
+  timestamp: string;
+  from: { hash: string };
+  to: { hash: string };
+  token: { address?: string; address_hash?: string; symbol: string | null; decimals: string | null; type: string };
+  total: { value?: string; decimals?: string | null } | null;
+}
+
+interface TokenTransfersResponse {
+  items: TokenTransferItem[];
+  next_page_params: Record<string, unknown> | null;
+}
+
 // ─── Constants ───────────────────────────────────────────────────────────────
 
 const TIME_RANGE_MS: Record<Exclude<TimeRange, "all">, number> = {
@@ -74,8 +100,8 @@ const SWAP_CACHE_TTL = 5 * 60 * 1000;
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
-async function apiFetch<T>(path: string): Promise<T> {
-  const res = await fetch(`${API_BASE}${path}`);
+async function apiFetch<T>(path: string, signal?: AbortSignal): Promise<T> {
+  const res = await fetch(`${API_BASE}${path}`, { signal });
   if (!res.ok) throw new Error(`Blockscout API ${res.status}: ${path}`);
   return res.json();
 }
@@ -88,6 +114,11 @@ async function getContractCounters(address: string): Promise<CountersResponse> {
  * Fetch paginated transactions from a router address.
  * Stops when we go beyond `maxAgeMs` or hit `maxPages`.
  */
+function toPageQuery(params: Record<string, unknown> | null): string {
+  if (!params) return "";
+  return "?" + new URLSearchParams(Object.entries(params).map(([k, v]) => [k, String(v)])).toString();
+}
+
 async function fetchRouterTxs(
   routerAddress: string,
   maxPages = 20,
@@ -98,12 +129,7 @@ async function fetchRouterTxs(
   const cutoff = Date.now() - maxAgeMs;
 
   for (let page = 0; page < maxPages; page++) {
-    const qs: string = nextParams
-      ? "?" +
-        new URLSearchParams(
-          Object.entries(nextParams).map(([k, v]) => [k, String(v)]),
-        ).toString()
-      : "";
+    const qs = toPageQuery(nextParams);
 
     const data = await apiFetch<TransactionsResponse>(
       `/addresses/${routerAddress}/transactions${qs}`,
@@ -209,3 +235,97 @@ export async function fetchTimeRangeSwapCounts(
   writeSwapCache(result);
   return result;
 }
+
+// ─── Wallet transactions ─────────────────────────────────────────────────────
+
+export interface WalletTransaction {
+  hash: string;
+  timestamp: number; // ms
+  to: string | null; // lowercase; null for contract creation
+  from: string; // lowercase
+  method: string | null; // Decoded name, or the selector for unverified contracts
+  value: string;
+  gasFee: string; // wei; 0 while pending
+  failed: boolean;
+}
+
+export interface WalletTransactionsPage {
+  items: WalletTransaction[];
+  nextPageParams: Record<string, unknown> | null; // Pass back for the next (older) page
+}
+
+/**
+ * One page (newest first) of the transactions a wallet sent or received.
+ */
+export async function fetchWalletTransactions(
+  wallet: string,
+  pageParams: Record<string, unknown> | null = null,
+  signal?: AbortSignal,
+): Promise<WalletTransactionsPage> {
+  const data = await apiFetch<AddressTransactionsResponse>(
+    `/addresses/${wallet}/transactions${toPageQuery(pageParams)}`,
+    signal,
+  );
+  return {
+    items: data.items.map((tx) => ({
+      hash: tx.hash,
+      timestamp: new Date(tx.timestamp).getTime(),
+      to: tx.to?.hash.toLowerCase() ?? null,
+      from: tx.from?.hash.toLowerCase() ?? "",
+      method: tx.method,
+      value: tx.value,
+      gasFee: tx.fee?.type === "actual" ? tx.fee.value : "0",
+      failed: tx.status === "error",
+    })),
+    nextPageParams: data.next_page_params,
+  };
+}
+
+// ─── Wallet token transfers ──────────────────────────────────────────────────
+
+export interface WalletTokenTransfer {
+  txHash: string; // lowercase
+  timestamp: number; // ms
+  from: string; // lowercase
+  to: string; // lowercase
+  token: { address: string; symbol: string; decimals: number };
+  value: string; // Raw units
+}
+
+export interface WalletTokenTransfersPage {
+  items: WalletTokenTransfer[];
+  nextPageParams: Record<string, unknown> | null;
+}
+
+/**
+ * One page (newest first) of the ERC-20 transfers into or out of a wallet.
+ * NFT transfers (V3 positions) are left out since they carry no amount.
+ */
+export async function fetchWalletTokenTransfers(
+  wallet: string,
+  pageParams: Record<string, unknown> | null = null,
+  signal?: AbortSignal,
+): Promise<WalletTokenTransfersPage> {
+  const query = toPageQuery({ type: "ERC-20", ...pageParams });
+  const data = await apiFetch<TokenTransfersResponse>(
+    `/addresses/${wallet}/token-transfers${query}`,
+    signal,
+  );
+  return {
+    items: data.items
+      .filter((t) => t.token.type === "ERC-20" && t.total?.value)
+      .map((t) => ({
+        txHash: t.transaction_hash.toLowerCase(),
+        timestamp: new Date(t.timestamp).getTime(),
+        from: t.from.hash.toLowerCase(),
+        to: t.to.hash.toLowerCase(),
+        token: {
+          address: (t.token.address ?? t.token.address_hash ?? "").toLowerCase(),
+          symbol: t.token.symbol ?? "?",
+          decimals: parseInt(t.total?.decimals ?? t.token.decimals ?? "18", 10),
+        },
+        value: t.total?.value ?? "0",
+      })),
+    nextPageParams: data.next_page_params,
+  };
+}
@@ -0,0 +1,208 @@
+import type { Token } from "@shared/schema";
+import { isRWAToken } from "@/data/tokens";
+import { CHAIN_ID, GASLESS_CONFIG } from "./gasless-config";
+import { RelayerRequestError, signPermit2 } from "./gasless-swap";
+
+/**
+ * Recurring (DCA) swap orders: a total amount split into equal slices that come
+ * due at a fixed interval. The user signs every slice's Permit2 permit up front,
+ * each valid from its due time until the next slice is due, plus an EIP-712
+ * order over the schedule; /api/dca keeps them and the relayer fills each slice
+ * when it comes due, with its minimum output quoted at that moment. A slice the
+ * relayer can't fill inside its window is missed, not made up later.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type DcaOrderStatus = "active" | "completed" | "cancelled";
+export type DcaSliceStatus = "scheduled" | "filling" | "filled" | "missed" | "failed" | "cancelled";
+
+export interface DcaSlice {
+  index: number;
+  amountIn: string; // Permit2 units
+  permitNonce: string;
+  dueAt: number; // Unix seconds
+  deadline: number; // Unix seconds; also the permit deadline
+  status: DcaSliceStatus;
+  relayId: string | null;
+  txHash: string | null;
+  quotedOut: string | null; // tokenOut wei from the quote the fill ran on
+  minOut: string | null;
+  amountOut: string | null; // Set once filled
+  attempts: number;
+  error: string | null;
+}
+
+export interface DcaOrder {
+  id: string; // Same as the relay idempotency key for the first slice
+  user: string; // lowercase
+  tokenIn: string; // NATIVE_TOKEN for native USDC
+  tokenOut: string; // wUSDC when the order pays out USDC
+  totalAmountIn: string; // Permit2 units
+  startAt: number; // Unix seconds
+  intervalSeconds: number;
+  slippageBps: number;
+  status: DcaOrderStatus;
+  slices: DcaSlice[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DcaOrderRequest {
+  tokenIn: string;
+  tokenOut: string;
+  totalAmountIn: bigint; // Permit2 units
+  sliceCount: number;
+  intervalSeconds: number;
+  slippageBps: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+export const MIN_DCA_SLICES = 2;
+export const MAX_DCA_SLICES = 60;
+export const MAX_DCA_SCHEDULE_DAYS = 30; // RELAYER_MAX_ORDER_DAYS default on the relay
+const MIN_INTERVAL_SECONDS = 5 * 60;
+
+// ─── Orders ──────────────────────────────────────────────────────────────────
+
+/**
+ * Why a pair can't be bought by DCA, or null when it can. Slices fill like
+ * limit orders, on a single V2 or V3 route, so RWA tokens don't qualify.
+ */
+export function getDcaUnsupportedReason(fromToken: Token | null, toToken: Token | null): string | null {
+  if (!fromToken || !toToken) return "Select both tokens";
+  if (fromToken.address.toLowerCase() === toToken.address.toLowerCase()) return "Select two different tokens";
+  if (isRWAToken(fromToken) || isRWAToken(toToken)) return "RWA trades can't run as recurring swaps";
+  return null;
+}
+
+/**
+ * Equal slices; the last one also takes the rounding remainder.
+ */
+export function splitDcaAmount(total: bigint, sliceCount: number): bigint[] {
+  const slice = total / BigInt(sliceCount);
+  return Array.from({ length: sliceCount }, (_, index) =>
+    index === sliceCount - 1 ? total - slice * BigInt(sliceCount - 1) : slice,
+  );
+}
+
+/**
+ * Nonces from one random Permit2 word, so the slices don't draw on /api/nonce's
+ * per-wallet reservations and a whole schedule is one bitmap read to check.
+ */
+function getSliceNonces(count: number): bigint[] {
+  const bytes = new Uint8Array(31);
+  crypto.getRandomValues(bytes);
+  const word = BigInt("0x" + Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join(""));
+  return Array.from({ length: count }, (_, index) => (word << 8n) | BigInt(index));
+}
+
+// Same domain and types as checkDcaSignature in api/utils/relay-policy.js
+const DCA_ORDER_TYPES = {
+  DcaOrder: [
+    { name: "tokenIn", type: "address" },
+    { name: "tokenOut", type: "address" },
+    { name: "startAt", type: "uint256" },
+    { name: "interval", type: "uint256" },
+    { name: "slippageBps", type: "uint256" },
+    { name: "amounts", type: "uint256[]" },
+    { name: "nonces", type: "uint256[]" },
+  ],
+};
+
+function signDcaOrder(signer: any, request: DcaOrderRequest, startAt: number, amounts: bigint[], nonces: bigint[]): Promise<string> {
+  const domain = { name: "Achswap DCA Order", version: "1", chainId: CHAIN_ID, verifyingContract: GASLESS_CONFIG.contractAddress };
+  return signer.signTypedData(domain, DCA_ORDER_TYPES, {
+    tokenIn: request.tokenIn,
+    tokenOut: request.tokenOut,
+    startAt,
+    interval: request.intervalSeconds,
+    slippageBps: request.slippageBps,
+    amounts,
+    nonces,
+  });
+}
+
+/**
+ * Same text the DCA endpoint verifies a cancellation against.
+ */
+export function getDcaCancelMessage(id: string): string {
+  return `Cancel Achswap DCA order ${id.toLowerCase()}`;
+}
+
+async function readOrderResponse(response: Response): Promise<DcaOrder> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new RelayerRequestError(data.error || `DCA request failed (${response.status})`, response.status);
+  }
+  return data.order;
+}
+
+/**
+ * Sign every slice's permit, then the order, and hand them to the relayer.
+ * `onSigned` reports progress through the permit prompts.
+ */
+export async function createDcaOrder(signer: any, request: DcaOrderRequest, onSigned?: (signed: number, total: number) => void): Promise<DcaOrder> {
+  if (!Number.isInteger(request.sliceCount) || request.sliceCount < MIN_DCA_SLICES || request.sliceCount > MAX_DCA_SLICES) {
+    throw new Error(`Use between ${MIN_DCA_SLICES} and ${MAX_DCA_SLICES} slices`);
+  }
+  if (request.intervalSeconds < MIN_INTERVAL_SECONDS) throw new Error("Interval is too short");
+  if (request.sliceCount * request.intervalSeconds > MAX_DCA_SCHEDULE_DAYS * 24 * 60 * 60) {
+    throw new Error(`A recurring swap can run for at most ${MAX_DCA_SCHEDULE_DAYS} days`);
+  }
+  const amounts = splitDcaAmount(request.totalAmountIn, request.sliceCount);
+  if (amounts[0] <= 0n) throw new Error("Amount is too small to split");
+
+  const user = await signer.getAddress();
+  const startAt = Math.floor(Date.now() / 1000);
+  const nonces = getSliceNonces(request.sliceCount);
+  const slices = [];
+  for (let index = 0; index < request.sliceCount; index++) {
+    // Slice i may only be pulled between its due time and the next slice's
+    const deadline = startAt + (index + 1) * request.intervalSeconds;
+    const permitSig = await signPermit2(signer, request.tokenIn, amounts[index], nonces[index], deadline);
+    slices.push({ amountIn: amounts[index].toString(), permitNonce: nonces[index].toString(), permitSig });
+    onSigned?.(index + 1, request.sliceCount);
+  }
+  const orderSig = await signDcaOrder(signer, request, startAt, amounts, nonces);
+
+  const response = await fetch(GASLESS_CONFIG.dcaUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      user,
+      tokenIn: request.tokenIn,
+      tokenOut: request.tokenOut,
+      startAt,
+      intervalSeconds: request.intervalSeconds,
+      slippageBps: request.slippageBps,
+      slices,
+      orderSig,
+    }),
+  });
+  return readOrderResponse(response);
+}
+
+export async function getDcaOrders(user: string, signal?: AbortSignal): Promise<DcaOrder[]> {
+  const response = await fetch(`${GASLESS_CONFIG.dcaUrl}?user=${encodeURIComponent(user)}`, { signal });
+  if (!response.ok) throw new RelayerRequestError(`DCA request failed (${response.status})`, response.status);
+  const data = await response.json();
+  return data.orders ?? [];
+}
+
+/**
+ * Stop an order. A slice already filling settles; scheduled ones never run.
+ * Their signed permits stay valid until each slice's deadline; revoke them
+ * from the signed permits panel to be sure they're never used.
+ */
+export async function cancelDcaOrder(signer: any, order: DcaOrder): Promise<DcaOrder> {
+  const user = await signer.getAddress();
+  const signature = await signer.signMessage(getDcaCancelMessage(order.id));
+  const response = await fetch(GASLESS_CONFIG.dcaUrl, {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ user, id: order.id, signature }),
+  });
+  return readOrderResponse(response);
+}
@@ -0,0 +1,97 @@
+import { getAddress, isAddress } from "ethers";
+import type { Token } from "@shared/schema";
+
+/**
+ * Query-parameter prefill for shareable links, e.g.
+ * `/?inputCurrency=USDC&outputCurrency=0x…&exactAmount=100`. Tokens can be
+ * given by address or by the symbol of a listed token; everything else is
+ * validated here so pages only ever see usable values.
+ */
+
+// ─── Params ──────────────────────────────────────────────────────────────────
+
+export const SWAP_LINK_TOKEN_FIELDS = ["inputCurrency", "outputCurrency"] as const;
+export const LIQUIDITY_LINK_TOKEN_FIELDS = ["currencyA", "currencyB"] as const;
+export const DEFAULT_SLIPPAGE = 0.5;
+// Lower than the settings panel's 50%: a link can't be trusted to pick a loose limit
+const MAX_LINK_SLIPPAGE = 5;
+
+export type ExactField = "input" | "output";
+
+export function readLinkParams(): URLSearchParams {
+  if (typeof window === "undefined") return new URLSearchParams();
+  return new URLSearchParams(window.location.search);
+}
+
+/**
+ * Set or clear the given params on the current URL without adding a history
+ * entry. Params not named in `updates` are kept.
+ */
+export function writeLinkParams(updates: Record<string, string | null | undefined>): void {
+  if (typeof window === "undefined") return;
+  const params = new URLSearchParams(window.location.search);
+  for (const [key, value] of Object.entries(updates)) {
+    if (value) params.set(key, value);
+    else params.delete(key);
+  }
+  const search = params.toString();
+  const next = `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`;
+  if (next !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(window.history.state, "", next);
+  }
+}
+
+export function parseLinkAmount(value: string | null): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed || !/^\d*\.?\d+$/.test(trimmed)) return null;
+  return parseFloat(trimmed) > 0 ? trimmed : null;
+}
+
+export function parseLinkExactField(value: string | null): ExactField {
+  return value?.toLowerCase() === "output" ? "output" : "input";
+}
+
+/**
+ * Slippage in percent, as shown in the settings panel. Values above
+ * MAX_LINK_SLIPPAGE are ignored and the user's own setting stays.
+ */
+export function parseLinkSlippage(value: string | null): number | null {
+  const n = value ? Number(value) : NaN;
+  if (!Number.isFinite(n) || n < 0 || n > MAX_LINK_SLIPPAGE) return null;
+  return n;
+}
+
+export function parseLinkAddress(value: string | null): string | null {
+  const trimmed = value?.trim();
+  return trimmed && isAddress(trimmed) ? getAddress(trimmed) : null;
+}
+
+export function parseLinkNumber(value: string | null): number | null {
+  const n = value ? Number(value) : NaN;
+  return Number.isSafeInteger(n) ? n : null;
+}
+
+// ─── Tokens ──────────────────────────────────────────────────────────────────
+
+export interface LinkedToken {
+  token: Token | null;
+  unknownAddress: string | null; // A well-formed address that isn't in the list; needs an import
+}
+
+/**
+ * Match a token param against the loaded list by address, then by symbol
+ * (verified tokens win a symbol clash with imported ones).
+ */
+export function resolveLinkToken(value: string | null, tokens: Token[]): LinkedToken {
+  const trimmed = value?.trim();
+  if (!trimmed) return { token: null, unknownAddress: null };
+  const lower = trimmed.toLowerCase();
+
+  if (isAddress(trimmed)) {
+    const token = tokens.find((t) => t.address.toLowerCase() === lower) ?? null;
+    return { token, unknownAddress: token ? null : getAddress(trimmed) };
+  }
+
+  const matches = tokens.filter((t) => t.symbol.toLowerCase() === lower);
+  return { token: matches.find((t) => t.verified) ?? matches[0] ?? null, unknownAddress: null };
+}
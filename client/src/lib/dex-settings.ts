@@ -1,23 +1,74 @@
 // Settings for DEX protocol preferences
 
-export interface DexSettings {
+export interface RoutingPreferences {
+  maxHops: number;
+  poolAllowList: string[]; // Pool/pair addresses (lowercase); when non-empty only these pools are routed through
+  poolDenyList: string[];
+  tokenAllowList: string[]; // Intermediate tokens only; the tokens being swapped are always allowed
+  tokenDenyList: string[];
+  feeTierAllowList: number[]; // V3 fee tiers in hundredths of a bip (3000 = 0.3%)
+  feeTierDenyList: number[];
+  verifiedIntermediatesOnly: boolean;
+  excludeFlaggedPools: boolean; // Skip pools the subgraph flags with flaggedLowLiquidityOutlier
+}
+
+export interface DexSettings extends RoutingPreferences {
   v2Enabled: boolean;
   v3Enabled: boolean;
 }
 
 const SETTINGS_KEY = 'dex-settings';
 
+export const MAX_ROUTING_HOPS = 4;
+
+export const DEFAULT_ROUTING_PREFERENCES: RoutingPreferences = {
+  maxHops: 3,
+  poolAllowList: [],
+  poolDenyList: [],
+  tokenAllowList: [],
+  tokenDenyList: [],
+  feeTierAllowList: [],
+  feeTierDenyList: [],
+  verifiedIntermediatesOnly: false,
+  excludeFlaggedPools: true,
+};
+
 const DEFAULT_SETTINGS: DexSettings = {
   v2Enabled: true,
   v3Enabled: true,
+  ...DEFAULT_ROUTING_PREFERENCES,
 };
 
+function normalizeAddressList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const addresses = value
+    .filter((item): item is string => typeof item === 'string' && /^0x[a-fA-F0-9]{40}$/.test(item))
+    .map((item) => item.toLowerCase());
+  return Array.from(new Set(addresses));
+}
+
+function normalizeFeeTierList(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter((item): item is number => Number.isInteger(item) && item > 0)));
+}
+
 export function loadDexSettings(): DexSettings {
   try {
     const stored = localStorage.getItem(SETTINGS_KEY);
     if (stored) {
       const parsed = JSON.parse(stored);
-      return { ...DEFAULT_SETTINGS, ...parsed };
+      const merged = { ...DEFAULT_SETTINGS, ...parsed };
+      // Older versions stored only the protocol toggles; lists are sanitized since they're hand-edited
+      return {
+        ...merged,
+        maxHops: Math.min(MAX_ROUTING_HOPS, Math.max(1, Math.floor(Number(merged.maxHops) || DEFAULT_ROUTING_PREFERENCES.maxHops))),
+        poolAllowList: normalizeAddressList(merged.poolAllowList),
+        poolDenyList: normalizeAddressList(merged.poolDenyList),
+        tokenAllowList: normalizeAddressList(merged.tokenAllowList),
+        tokenDenyList: normalizeAddressList(merged.tokenDenyList),
+        feeTierAllowList: normalizeFeeTierList(merged.feeTierAllowList),
+        feeTierDenyList: normalizeFeeTierList(merged.feeTierDenyList),
+      };
     }
   } catch (error) {
     console.error('Failed to load DEX settings:', error);
@@ -32,3 +83,22 @@ export function saveDexSettings(settings: DexSettings): void {
     console.error('Failed to save DEX settings:', error);
   }
 }
+
+/**
+ * Stable string for the routing preferences, used in quote cache keys so a
+ * settings change never serves a quote computed under the old rules.
+ */
+export function getRoutingPreferencesKey(preferences: RoutingPreferences): string {
+  const sorted = <T>(list: T[]) => [...list].sort().join(',');
+  return [
+    preferences.maxHops,
+    sorted(preferences.poolAllowList),
+    sorted(preferences.poolDenyList),
+    sorted(preferences.tokenAllowList),
+    sorted(preferences.tokenDenyList),
+    sorted(preferences.feeTierAllowList),
+    sorted(preferences.feeTierDenyList),
+    preferences.verifiedIntermediatesOnly ? 1 : 0,
+    preferences.excludeFlaggedPools ? 1 : 0,
+  ].join('|');
+}
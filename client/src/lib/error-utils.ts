@@ -19,6 +19,10 @@ const ERROR_MESSAGES: Record<string, string> = {
   "replacement transaction underpriced": "Transaction already pending. Wait for confirmation.",
   "network changed": "Network changed. Please try again.",
   "wallet connection failed": "Failed to connect to wallet",
+  "transaction wait timeout": "Transaction is still pending. You can follow it from the header.",
+  "replaced by another transaction": "Transaction was replaced by another transaction from your wallet",
+  "nonce was used by another transaction": "Transaction was replaced by another transaction from your wallet",
+  "dropped from the mempool": "Transaction was dropped before it confirmed. Please try again.",
   "timeout": "Request timed out. Please check your connection.",
   "invalid address": "Invalid token or wallet address",
   "token not found": "Token not found. Check the token address.",
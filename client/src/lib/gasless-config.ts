@@ -1,9 +1,16 @@
 export const GASLESS_CONFIG = {
   contractAddress: "0x32a484dfFB67F4aABB14048248E1DC31F40FF957",
   permit2Address: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
-  relayerUrl: "https://preview.achswapfi.xyz/api/relay",
-  nonceUrl: "https://preview.achswapfi.xyz/api/nonce",
+  // Served by this deployment's api/ functions
+  relayerUrl: "/api/relay",
+  quotaUrl: "/api/relay/quota",
+  nonceUrl: "/api/nonce",
+  ordersUrl: "/api/orders",
+  dcaUrl: "/api/dca",
   deadlineMinutes: 30,
+  // RWA segment kinds (3, 4) need a gasless contract upgrade that isn't deployed yet;
+  // until then direct RWA trades use the wallet. Same switch as RELAYER_RWA_SEGMENTS on the relay
+  rwaSegments: false,
 };
 
 export const NATIVE_TOKEN = "0x3600000000000000000000000000000000000000"; // USDC_NATIVE - ERC20 on Arc
@@ -1,9 +1,84 @@
 import { ethers, Contract, BrowserProvider, Interface, AbiCoder } from "ethers";
+import type { Token } from "@shared/schema";
 import { GASLESS_CONFIG, ERC20_ABI, CHAIN_ID, NATIVE_TOKEN } from "./gasless-config";
+import { isPermitNonceUnused, recordSignedPermit, removeSignedPermit } from "./signed-permits";
+import { trackTransaction } from "./tx-tracker";
 
 const abiCoder = new AbiCoder();
-const ARC_TESTNET_WSS = "wss://arc-testnet.drpc.org";
-const FAST_POLL_INTERVAL_MS = 400;
+
+// Segment kinds understood by the gasless contract
+export const SEGMENT_KIND = {
+  V2: 0, // params: address[] path
+  V3: 1, // params: (address tokenOut, uint24 fee)
+  V3_MULTIHOP: 2, // params: bytes packed path
+  RWA_BUY: 3, // params: uint256 pairId; native USDC in (Permit2 units), synth out
+  RWA_REDEEM: 4, // params: uint256 pairId; synth in, native USDC out
+} as const;
+
+export const MAX_SPLIT_SEGMENTS = 8; // Mirrors the relay endpoint's limit
+
+export interface GaslessSegment {
+  kind: number;
+  amountIn: bigint;
+  amountOutMin: bigint;
+  deadline: number;
+  params: string;
+}
+
+export type RelayState = "queued" | "broadcast" | "mined" | "failed" | "replaced";
+
+export interface RelayStatus {
+  idempotencyKey: string;
+  status: RelayState;
+  txHash: string | null;
+  txHashes: string[];
+  error: string | null;
+  duplicate?: boolean; // Set when the relay had already seen this permit
+}
+
+// What the Swap page needs to finish a gasless swap after a reload
+export interface GaslessSwapMeta {
+  fromToken: Token;
+  toToken: Token;
+  fromAmount: string;
+  toAmount: string;
+}
+
+// Daily sponsorship left for a wallet; null limits/remaining mean unlimited
+export interface GaslessQuota {
+  eligible: boolean;
+  code: string | null;
+  reason: string | null; // Why the swap won't be sponsored, when it won't
+  swapsUsed: number;
+  swapsLimit: number | null;
+  swapsRemaining: number | null;
+  gasRemaining: string | null; // Native USDC
+  resetAt: number;
+}
+
+export interface PendingGaslessSwap {
+  id: string; // Relay idempotency key
+  user: string; // lowercase
+  chainId: number;
+  txHash: string | null; // Null until the relay reports a broadcast
+  createdAt: number;
+  meta?: GaslessSwapMeta;
+}
+
+export class RelayerRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RelayerRequestError";
+  }
+}
+
+const PENDING_GASLESS_KEY = "pending-gasless-swaps";
+const PENDING_GASLESS_MAX_AGE_MS = 24 * 60 * 60 * 1000; // Matches the relay's record retention
+const RELAY_STATUS_POLL_MS = 2000;
+const TERMINAL_RELAY_STATES: RelayState[] = ["mined", "failed", "replaced"];
+
+// Swaps this tab is already waiting on, so a resume never tracks them twice
+const activeRelayIds = new Set<string>();
 
 async function assertGaslessChain(signer: any): Promise<void> {
   const network = await signer.provider.getNetwork();
@@ -35,12 +110,65 @@ export function decodeExecutionError(data: string): string {
   return data;
 }
 
-export async function fetchNonce(): Promise<bigint> {
+interface NonceResponse {
+  nonce: string;
+  word: string;
+  bit: number;
+  reservedUntil: number;
+  earliestDeadline: number; // Unix seconds
+  latestDeadline: number;
+  latestOrderExpiry: number;
+}
+
+function randomNonce(): bigint {
   const bytes = new Uint8Array(32);
   crypto.getRandomValues(bytes);
   return BigInt("0x" + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join(""));
 }
 
+/**
+ * Permit2 nonce for a gasless swap, reserved by /api/nonce. The nonce is
+ * checked against Permit2 before use, and the deadline against the relay's
+ * policy so the request isn't rejected after signing. Limit orders check their
+ * expiry against the longer order window instead. Falls back to a random
+ * nonce when the endpoint is unreachable or hands out a spent one.
+ */
+export async function fetchNonce(
+  provider: any,
+  user: string,
+  deadline: number,
+  { limitOrder = false }: { limitOrder?: boolean } = {}
+): Promise<bigint> {
+  let data: NonceResponse;
+  try {
+    const response = await fetch(`${GASLESS_CONFIG.nonceUrl}?user=${encodeURIComponent(user)}`);
+    if (!response.ok) throw new Error(`Nonce request failed (${response.status})`);
+    data = await response.json();
+  } catch (error) {
+    console.warn("[Gasless] Nonce endpoint unavailable, using a random nonce:", error);
+    return randomNonce();
+  }
+
+  if (limitOrder && deadline > data.latestOrderExpiry) {
+    const maxDays = Math.floor((data.latestOrderExpiry - Date.now() / 1000) / 86400);
+    throw new Error(`Limit orders can rest for at most ${maxDays} days.`);
+  }
+  if (!limitOrder && deadline > data.latestDeadline) {
+    const maxMinutes = Math.floor((data.latestDeadline - Date.now() / 1000) / 60);
+    throw new Error(`Transaction deadline is longer than gasless swaps allow (${maxMinutes} min). Lower it in settings.`);
+  }
+  if (deadline < data.earliestDeadline) {
+    throw new Error(limitOrder ? "Limit order expiry is too soon." : "Transaction deadline is too short for a gasless swap. Raise it in settings.");
+  }
+
+  const nonce = BigInt(data.nonce);
+  if (!(await isPermitNonceUnused(provider, user, nonce))) {
+    console.warn("[Gasless] Nonce endpoint returned a spent nonce, using a random nonce");
+    return randomNonce();
+  }
+  return nonce;
+}
+
 const PERMIT2_ABI = [
   "function approve(address token, address spender, uint160 amount, uint48 expiration)",
   "function transferFrom(address from, address to, uint160 amount, address token)",
@@ -77,7 +205,7 @@ export async function approvePermit2(
   
   const tokenContract = new Contract(tokenIn, ERC20_ABI, signer);
   const tokenTx = await tokenContract.approve(GASLESS_CONFIG.permit2Address, MAX_UINT160);
-  await tokenTx.wait();
+  await trackTransaction(tokenTx, { label: "Approve Permit2" });
   
   const permit2Contract = new Contract(GASLESS_CONFIG.permit2Address, PERMIT2_ABI, signer);
   const expiration = Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60;
@@ -88,7 +216,7 @@ export async function approvePermit2(
     expiration
   );
   
-  await permitTx.wait();
+  await trackTransaction(permitTx, { label: "Approve gasless spender" });
 }
 
 export async function signPermit2(
@@ -131,12 +259,30 @@ export async function signPermit2(
   };
   
   const signature = await signer.signTypedData(domain, types, values);
+  // Until it's spent, anyone holding the signature can use it; keep a record so it can be revoked
+  recordSignedPermit({
+    user: user.toLowerCase(),
+    chainId: CHAIN_ID,
+    token: tokenIn,
+    amount: amount.toString(),
+    nonce: nonce.toString(),
+    deadline,
+    signedAt: Date.now(),
+  });
   return signature;
 }
 
+/**
+ * Same derivation as the relay endpoint: a Permit2 nonce is single-use, so
+ * user + nonce identifies one swap across retries and page reloads.
+ */
+export function getRelayIdempotencyKey(user: string, permitNonce: bigint): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(`${user.toLowerCase()}:${permitNonce.toString()}`));
+}
+
 export async function submitToRelayer(
   request: any
-): Promise<{ txHash: string }> {
+): Promise<RelayStatus> {
   const serializedRequest = JSON.stringify(request, (key, value) => 
     typeof value === "bigint" ? value.toString() : value
   );
@@ -168,7 +314,7 @@ export async function submitToRelayer(
         } catch {
           errorMessage = `Relayer error (${response.status}): ${text.slice(0, 200)}`;
         }
-        throw new Error(errorMessage);
+        throw new RelayerRequestError(errorMessage, response.status);
       }
 
       try {
@@ -200,86 +346,175 @@ export async function submitToRelayer(
   throw lastError ?? new Error("Relayer request failed");
 }
 
-export async function waitForTransaction(
-  provider: any,
-  txHash: string,
-  timeout = 60000
-): Promise<any> {
-  const network = await provider.getNetwork();
-  const chainId = Number(network.chainId);
-  const useArcWebSocket = chainId === 5042002;
-
-  if (!useArcWebSocket) {
-    const receipt = await provider.waitForTransaction(txHash, 1, timeout);
-    if (!receipt) throw new Error("Transaction wait timeout");
-    if (receipt.status === 0) throw new Error("Transaction reverted");
-    return receipt;
+/**
+ * Relay-side state of a submitted swap; null when the relay has no record of it.
+ */
+export async function getRelayStatus(id: string): Promise<RelayStatus | null> {
+  const response = await fetch(`${GASLESS_CONFIG.relayerUrl}?id=${encodeURIComponent(id)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new RelayerRequestError(`Relay status failed (${response.status})`, response.status);
+  return response.json();
+}
+
+/**
+ * Remaining gasless quota for a wallet. With tokenIn and amountIn (Permit2
+ * units) it also reports whether that trade meets the token and size rules.
+ */
+export async function getGaslessQuota(
+  user: string,
+  tokenIn?: string,
+  amountIn?: bigint,
+  signal?: AbortSignal
+): Promise<GaslessQuota> {
+  const params = new URLSearchParams({ user });
+  if (tokenIn && amountIn !== undefined) {
+    params.set("tokenIn", tokenIn);
+    params.set("amountIn", amountIn.toString());
+  }
+  const response = await fetch(`${GASLESS_CONFIG.quotaUrl}?${params}`, { signal });
+  if (!response.ok) throw new RelayerRequestError(`Quota check failed (${response.status})`, response.status);
+  return response.json();
+}
+
+function readPendingGaslessSwaps(): PendingGaslessSwap[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PENDING_GASLESS_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    return stored.filter((swap: PendingGaslessSwap) => Date.now() - swap.createdAt < PENDING_GASLESS_MAX_AGE_MS);
+  } catch {
+    return [];
   }
+}
 
-  const controller = new AbortController();
-  let wsProvider: ethers.WebSocketProvider | null = new ethers.WebSocketProvider(ARC_TESTNET_WSS, chainId);
+function writePendingGaslessSwaps(swaps: PendingGaslessSwap[]): void {
+  try {
+    localStorage.setItem(PENDING_GASLESS_KEY, JSON.stringify(swaps));
+  } catch (error) {
+    console.warn("[Gasless] Failed to persist pending swaps:", error);
+  }
+}
 
-  const waitByPolling = async (signal: AbortSignal): Promise<any> => {
-    const startTime = Date.now();
-    while (!signal.aborted && Date.now() - startTime <= timeout) {
-      const receipt = await provider.getTransactionReceipt(txHash);
-      if (receipt) {
-        if (receipt.status === 0) throw new Error("Transaction reverted");
-        return receipt;
-      }
+function savePendingGaslessSwap(swap: PendingGaslessSwap): void {
+  writePendingGaslessSwaps([swap, ...readPendingGaslessSwaps().filter((s) => s.id !== swap.id)]);
+}
 
-      await new Promise((resolve) => {
-        const timer = setTimeout(resolve, FAST_POLL_INTERVAL_MS);
-        signal.addEventListener(
-          "abort",
-          () => {
-            clearTimeout(timer);
-            resolve(null);
-          },
-          { once: true },
-        );
-      });
+export function removePendingGaslessSwap(id: string): void {
+  writePendingGaslessSwaps(readPendingGaslessSwaps().filter((swap) => swap.id !== id));
+}
+
+/**
+ * Gasless swaps for this wallet that were still in flight when the page was
+ * last closed. Swaps this tab is already tracking are excluded.
+ */
+export function loadPendingGaslessSwaps(user: string, chainId: number): PendingGaslessSwap[] {
+  return readPendingGaslessSwaps().filter(
+    (swap) => swap.user === user.toLowerCase() && swap.chainId === chainId && !activeRelayIds.has(swap.id),
+  );
+}
+
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+/**
+ * Follow a relayed swap until it's mined, failed or replaced, preferring the
+ * relay's status and falling back to the chain when the relay has no record.
+ * "unknown" means it was never broadcast; "pending" means the timeout ran out.
+ */
+export async function resumeGaslessSwap(
+  provider: any,
+  swap: PendingGaslessSwap,
+  signal?: AbortSignal,
+  timeout = 120000
+): Promise<{ status: RelayState | "unknown" | "pending"; txHash: string | null; error?: string | null }> {
+  const startTime = Date.now();
+  let txHash = swap.txHash;
+
+  while (!signal?.aborted && Date.now() - startTime <= timeout) {
+    const relayStatus = await getRelayStatus(swap.id).catch(() => undefined);
+    if (relayStatus?.txHash) txHash = relayStatus.txHash;
+    if (relayStatus && TERMINAL_RELAY_STATES.includes(relayStatus.status)) {
+      return { status: relayStatus.status, txHash, error: relayStatus.error };
     }
+    if (relayStatus === null && !txHash) return { status: "unknown", txHash: null };
 
-    if (signal.aborted) {
-      throw new Error("Transaction wait aborted");
+    if (txHash) {
+      const receipt = await provider.getTransactionReceipt(txHash).catch(() => null);
+      if (receipt) return { status: receipt.status === 1 ? "mined" : "failed", txHash };
     }
+    await sleepUnlessAborted(RELAY_STATUS_POLL_MS, signal);
+  }
 
-    throw new Error("Transaction wait timeout");
-  };
+  return { status: "pending", txHash };
+}
+
+async function waitForRelayTxHash(id: string, timeout = 45000): Promise<string> {
+  const startTime = Date.now();
+  while (Date.now() - startTime <= timeout) {
+    const relayStatus = await getRelayStatus(id).catch(() => undefined);
+    if (relayStatus?.txHash) return relayStatus.txHash;
+    if (relayStatus && relayStatus.status === "failed") throw new Error(relayStatus.error || "Relay request failed");
+    if (relayStatus === null) throw new Error("Relay lost track of the request. Please try again.");
+    await sleepUnlessAborted(RELAY_STATUS_POLL_MS);
+  }
+  throw new Error("Relay did not broadcast the swap in time");
+}
 
-  const waitByWebSocket = async (signal: AbortSignal): Promise<any> => {
-    if (!wsProvider) throw new Error("WebSocket provider unavailable");
-    const handleAbort = () => {
-      wsProvider?.destroy();
-      wsProvider = null;
-    };
-    signal.addEventListener("abort", handleAbort, { once: true });
+/**
+ * Submit a signed request and wait for it to be mined. The swap is recorded in
+ * localStorage until it settles, so a reload mid-swap can resume tracking it.
+ */
+async function relayAndWait(
+  provider: any,
+  request: { user: string; permitNonce: bigint } & Record<string, unknown>,
+  meta?: GaslessSwapMeta
+): Promise<{ txHash: string; receipt: any }> {
+  const id = getRelayIdempotencyKey(request.user, request.permitNonce);
+  const pending: PendingGaslessSwap = { id, user: request.user.toLowerCase(), chainId: CHAIN_ID, txHash: null, createdAt: Date.now(), meta };
+  activeRelayIds.add(id);
+  savePendingGaslessSwap(pending);
+
+  try {
+    let txHash: string;
     try {
-      const receipt = await wsProvider.waitForTransaction(txHash, 1, timeout);
-      if (!receipt) throw new Error("Transaction wait timeout");
-      if (receipt.status === 0) throw new Error("Transaction reverted");
-      return receipt;
-    } finally {
-      signal.removeEventListener("abort", handleAbort);
+      const relayStatus = await submitToRelayer({ ...request, idempotencyKey: id });
+      txHash = relayStatus.txHash ?? (await waitForRelayTxHash(id));
+    } catch (error) {
+      // A 4xx means the relay rejected it before broadcasting; anything else might still land
+      if (error instanceof RelayerRequestError && error.status < 500) removePendingGaslessSwap(id);
+      throw error;
     }
-  };
 
-  try {
-    const result = await Promise.race([
-      waitByWebSocket(controller.signal),
-      waitByPolling(controller.signal),
-    ]);
-    controller.abort();
-    return result;
-  } catch (error) {
-    throw error;
-  } finally {
-    controller.abort();
-    if (wsProvider) {
-      wsProvider.destroy();
-      wsProvider = null;
+    savePendingGaslessSwap({ ...pending, txHash });
+
+    // The relay re-sends stuck transactions with higher fees under a new hash;
+    // the tracker follows same-call replacements, and the relay status covers the rest
+    const controller = new AbortController();
+    const viaChain = trackTransaction({ hash: txHash }, { label: "Gasless swap", chainId: CHAIN_ID, timeout: 60000 }).then(
+      (receipt) => ({ status: "mined" as const, txHash, receipt }),
+      (error: any) => error?.message === "Transaction reverted"
+        ? { status: "failed" as const, txHash, receipt: null }
+        : new Promise<never>(() => {}), // Timed out or replaced: leave it to the relay status
+    );
+    const viaRelay = resumeGaslessSwap(provider, { ...pending, txHash }, controller.signal)
+      .then((result) => ({ ...result, receipt: null }));
+    const outcome = await Promise.race([viaChain, viaRelay]).finally(() => controller.abort());
+
+    if (outcome.status === "pending") throw new Error("Transaction wait timeout");
+    removePendingGaslessSwap(id);
+    if (outcome.status === "failed") throw new Error("Transaction reverted");
+    if (outcome.status !== "mined" || !outcome.txHash) {
+      throw new Error(("error" in outcome && outcome.error) || "Relayed transaction was dropped");
     }
+
+    removeSignedPermit(request.user, request.permitNonce);
+    const receipt = outcome.receipt ?? (await provider.getTransactionReceipt(outcome.txHash));
+    return { txHash: outcome.txHash, receipt };
+  } finally {
+    activeRelayIds.delete(id);
   }
 }
 
@@ -289,24 +524,19 @@ export async function executeGaslessSwapV2(
   amountIn: bigint,
   amountOutMin: bigint,
   path: string[],
-  deadline: number
+  deadline: number,
+  meta?: GaslessSwapMeta
 ): Promise<{ txHash: string; receipt: any }> {
   await assertGaslessChain(signer);
   const provider = signer.provider;
   const user = await signer.getAddress();
   
   const tokenForPermit2 = tokenIn;
-  const nonce = await fetchNonce();
+  const nonce = await fetchNonce(provider, user, deadline);
   
   const permitSig = await signPermit2(signer, tokenForPermit2, amountIn, nonce, deadline);
   
-  const segment = {
-    kind: 0,
-    amountIn: amountIn,
-    amountOutMin: amountOutMin,
-    deadline: deadline,
-    params: abiCoder.encode(["address[]"], [path]),
-  };
+  const segment = buildV2Segment(path, amountIn, amountOutMin, deadline);
   
   const request = {
     user: user,
@@ -318,11 +548,7 @@ export async function executeGaslessSwapV2(
     segment: segment,
   };
   
-  const { txHash } = await submitToRelayer(request);
-  
-  const receipt = await waitForTransaction(provider, txHash);
-  
-  return { txHash, receipt };
+  return relayAndWait(provider, request, meta);
 }
 
 export async function executeGaslessSwapV3(
@@ -332,24 +558,19 @@ export async function executeGaslessSwapV3(
   fee: number,
   amountIn: bigint,
   amountOutMin: bigint,
-  deadline: number
+  deadline: number,
+  meta?: GaslessSwapMeta
 ): Promise<{ txHash: string; receipt: any }> {
   await assertGaslessChain(signer);
   const provider = signer.provider;
   const user = await signer.getAddress();
   
   const tokenForPermit2 = tokenIn;
-  const nonce = await fetchNonce();
+  const nonce = await fetchNonce(provider, user, deadline);
   
   const permitSig = await signPermit2(signer, tokenForPermit2, amountIn, nonce, deadline);
   
-  const segment = {
-    kind: 1,
-    amountIn: amountIn,
-    amountOutMin: amountOutMin,
-    deadline: deadline,
-    params: abiCoder.encode(["address", "uint24"], [tokenOut, fee]),
-  };
+  const segment = buildV3Segment(tokenOut, fee, amountIn, amountOutMin, deadline);
   
   const request = {
     user: user,
@@ -361,11 +582,7 @@ export async function executeGaslessSwapV3(
     segment: segment,
   };
   
-  const { txHash } = await submitToRelayer(request);
-  
-  const receipt = await waitForTransaction(provider, txHash);
-  
-  return { txHash, receipt };
+  return relayAndWait(provider, request, meta);
 }
 
 function decodeV3Path(path: string): string {
@@ -378,13 +595,93 @@ function decodeV3Path(path: string): string {
   return decoded.slice(0, 42);
 }
 
+export function buildV2Segment(path: string[], amountIn: bigint, amountOutMin: bigint, deadline: number): GaslessSegment {
+  return {
+    kind: SEGMENT_KIND.V2,
+    amountIn,
+    amountOutMin,
+    deadline,
+    params: abiCoder.encode(["address[]"], [path]),
+  };
+}
+
+export function buildV3Segment(tokenOut: string, fee: number, amountIn: bigint, amountOutMin: bigint, deadline: number): GaslessSegment {
+  return {
+    kind: SEGMENT_KIND.V3,
+    amountIn,
+    amountOutMin,
+    deadline,
+    params: abiCoder.encode(["address", "uint24"], [tokenOut, fee]),
+  };
+}
+
+export function buildV3MultiHopSegment(path: string, amountIn: bigint, amountOutMin: bigint, deadline: number): GaslessSegment {
+  return {
+    kind: SEGMENT_KIND.V3_MULTIHOP,
+    amountIn,
+    amountOutMin,
+    deadline,
+    params: abiCoder.encode(["bytes"], [path]),
+  };
+}
+
+/**
+ * Vault trade for an RWA pair. Buys spend native USDC (NATIVE_TOKEN, 6-decimal
+ * Permit2 amount); redeems spend the synth. The relay re-quotes the vault and
+ * rejects stale prices, short reserves and quotes below amountOutMin.
+ */
+export function buildRWASegment(isBuy: boolean, pairId: number, amountIn: bigint, amountOutMin: bigint, deadline: number): GaslessSegment {
+  return {
+    kind: isBuy ? SEGMENT_KIND.RWA_BUY : SEGMENT_KIND.RWA_REDEEM,
+    amountIn,
+    amountOutMin,
+    deadline,
+    params: abiCoder.encode(["uint256"], [pairId]),
+  };
+}
+
+export async function executeGaslessRWASwap(
+  signer: any,
+  tokenIn: string,
+  segment: GaslessSegment,
+  deadline: number,
+  meta?: GaslessSwapMeta
+): Promise<{ txHash: string; receipt: any }> {
+  await assertGaslessChain(signer);
+  if (segment.kind !== SEGMENT_KIND.RWA_BUY && segment.kind !== SEGMENT_KIND.RWA_REDEEM) {
+    throw new Error("Not an RWA segment");
+  }
+  if (segment.kind === SEGMENT_KIND.RWA_BUY && tokenIn.toLowerCase() !== NATIVE_TOKEN.toLowerCase()) {
+    throw new Error("Gasless RWA buys must be paid in USDC");
+  }
+  const provider = signer.provider;
+  const user = await signer.getAddress();
+
+  const nonce = await fetchNonce(provider, user, deadline);
+
+  const permitSig = await signPermit2(signer, tokenIn, segment.amountIn, nonce, deadline);
+
+  const request = {
+    user: user,
+    tokenIn: tokenIn,
+    totalAmountIn: segment.amountIn,
+    permitNonce: nonce,
+    permitDeadline: deadline,
+    permitSig: permitSig,
+    segment: segment,
+  };
+
+  return relayAndWait(provider, request, meta);
+}
+
 export async function executeGaslessSwapV3MultiHop(
   signer: any,
   tokenIn: string,
   path: string,
   amountIn: bigint,
   amountOutMin: bigint,
-  deadline: number
+  deadline: number,
+  meta?: GaslessSwapMeta
 ): Promise<{ txHash: string; receipt: any }> {
   await assertGaslessChain(signer);
   const provider = signer.provider;
@@ -396,17 +693,11 @@ export async function executeGaslessSwapV3MultiHop(
   }
   
   const tokenForPermit2 = tokenIn;
-  const nonce = await fetchNonce();
+  const nonce = await fetchNonce(provider, user, deadline);
   
   const permitSig = await signPermit2(signer, tokenForPermit2, amountIn, nonce, deadline);
   
-  const segment = {
-    kind: 2,
-    amountIn: amountIn,
-    amountOutMin: amountOutMin,
-    deadline: deadline,
-    params: abiCoder.encode(["bytes"], [path]),
-  };
+  const segment = buildV3MultiHopSegment(path, amountIn, amountOutMin, deadline);
   
   const request = {
     user: user,
@@ -418,9 +709,46 @@ export async function executeGaslessSwapV3MultiHop(
     segment: segment,
   };
   
-  const { txHash } = await submitToRelayer(request);
-  
-  const receipt = await waitForTransaction(provider, txHash);
-  
-  return { txHash, receipt };
+  return relayAndWait(provider, request, meta);
+}
+
+/**
+ * Execute several segments from the same input token in one relayed
+ * executeSplit call. A single Permit2 signature covers totalAmountIn, which
+ * must equal the sum of the segment amounts.
+ */
+export async function executeGaslessSplit(
+  signer: any,
+  tokenIn: string,
+  segments: GaslessSegment[],
+  deadline: number,
+  meta?: GaslessSwapMeta
+): Promise<{ txHash: string; receipt: any }> {
+  await assertGaslessChain(signer);
+  if (segments.length === 0 || segments.length > MAX_SPLIT_SEGMENTS) {
+    throw new Error(`Split must have between 1 and ${MAX_SPLIT_SEGMENTS} segments`);
+  }
+  const provider = signer.provider;
+  const user = await signer.getAddress();
+
+  const totalAmountIn = segments.reduce((sum, segment) => sum + segment.amountIn, 0n);
+  if (segments.some((segment) => segment.amountIn <= 0n)) {
+    throw new Error("Every split segment needs a non-zero amount");
+  }
+
+  const nonce = await fetchNonce(provider, user, deadline);
+
+  const permitSig = await signPermit2(signer, tokenIn, totalAmountIn, nonce, deadline);
+
+  const request = {
+    user: user,
+    tokenIn: tokenIn,
+    totalAmountIn: totalAmountIn,
+    permitNonce: nonce,
+    permitDeadline: deadline,
+    permitSig: permitSig,
+    segments: segments,
+  };
+
+  return relayAndWait(provider, request, meta);
 }
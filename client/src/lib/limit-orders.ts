@@ -0,0 +1,130 @@
+import { CHAIN_ID, GASLESS_CONFIG } from "./gasless-config";
+import { RelayerRequestError, fetchNonce, signPermit2 } from "./gasless-swap";
+
+/**
+ * Off-chain limit orders. The user signs a Permit2 permit for the full input
+ * that lasts until the order expires, and an EIP-712 order binding the output
+ * token and minimum the permit doesn't cover; /api/orders keeps both, and the
+ * relayer fills the order once a route pays at least minOut. Nothing is on-chain until
+ * the fill, so an order can be cancelled with a plain message signature.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type LimitOrderStatus = "open" | "filling" | "filled" | "cancelled" | "expired" | "failed";
+
+export interface LimitOrder {
+  id: string; // Same as the relay idempotency key for the fill
+  user: string; // lowercase
+  tokenIn: string; // NATIVE_TOKEN for native USDC
+  tokenOut: string; // wUSDC when the order pays out USDC
+  amountIn: string; // Permit2 units
+  minOut: string; // tokenOut wei
+  expiry: number; // Unix seconds; also the permit deadline
+  permitNonce: string;
+  status: LimitOrderStatus;
+  relayId: string | null;
+  txHash: string | null;
+  amountOut: string | null; // Set once filled
+  lastQuote: string | null; // Best output at the last check
+  lastCheckedAt: number | null;
+  attempts: number;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LimitOrderRequest {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint; // Permit2 units
+  minOut: bigint;
+  expiry: number;
+}
+
+// ─── API ─────────────────────────────────────────────────────────────────────
+
+// Same domain and types as checkOrderSignature in api/utils/relay-policy.js
+const LIMIT_ORDER_TYPES = {
+  LimitOrder: [
+    { name: "tokenIn", type: "address" },
+    { name: "tokenOut", type: "address" },
+    { name: "amountIn", type: "uint256" },
+    { name: "minOut", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+function signLimitOrder(signer: any, request: LimitOrderRequest, nonce: bigint): Promise<string> {
+  const domain = { name: "Achswap Limit Order", version: "1", chainId: CHAIN_ID, verifyingContract: GASLESS_CONFIG.contractAddress };
+  return signer.signTypedData(domain, LIMIT_ORDER_TYPES, {
+    tokenIn: request.tokenIn,
+    tokenOut: request.tokenOut,
+    amountIn: request.amountIn,
+    minOut: request.minOut,
+    expiry: request.expiry,
+    nonce,
+  });
+}
+
+/**
+ * Same text the orders endpoint verifies a cancellation against.
+ */
+export function getLimitOrderCancelMessage(id: string): string {
+  return `Cancel Achswap limit order ${id.toLowerCase()}`;
+}
+
+async function readOrderResponse(response: Response): Promise<LimitOrder> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new RelayerRequestError(data.error || `Orders request failed (${response.status})`, response.status);
+  }
+  return data.order;
+}
+
+export async function createLimitOrder(signer: any, request: LimitOrderRequest): Promise<LimitOrder> {
+  const user = await signer.getAddress();
+  const nonce = await fetchNonce(signer.provider, user, request.expiry, { limitOrder: true });
+  const permitSig = await signPermit2(signer, request.tokenIn, request.amountIn, nonce, request.expiry);
+  const orderSig = await signLimitOrder(signer, request, nonce);
+
+  const response = await fetch(GASLESS_CONFIG.ordersUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      user,
+      tokenIn: request.tokenIn,
+      tokenOut: request.tokenOut,
+      amountIn: request.amountIn.toString(),
+      minOut: request.minOut.toString(),
+      expiry: request.expiry,
+      permitNonce: nonce.toString(),
+      permitSig,
+      orderSig,
+    }),
+  });
+  return readOrderResponse(response);
+}
+
+export async function getLimitOrders(user: string, signal?: AbortSignal): Promise<LimitOrder[]> {
+  const response = await fetch(`${GASLESS_CONFIG.ordersUrl}?user=${encodeURIComponent(user)}`, { signal });
+  if (!response.ok) throw new RelayerRequestError(`Orders request failed (${response.status})`, response.status);
+  const data = await response.json();
+  return data.orders ?? [];
+}
+
+/**
+ * Take an open order off the book. The signed permit stays valid until expiry;
+ * revoke it on-chain from the signed permits panel to be sure it's never used.
+ */
+export async function cancelLimitOrder(signer: any, order: LimitOrder): Promise<LimitOrder> {
+  const user = await signer.getAddress();
+  const signature = await signer.signMessage(getLimitOrderCancelMessage(order.id));
+  const response = await fetch(GASLESS_CONFIG.ordersUrl, {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ user, id: order.id, signature }),
+  });
+  return readOrderResponse(response);
+}
@@ -0,0 +1,200 @@
+import { Contract, Interface, type Provider } from "ethers";
+import { createAlchemyProvider } from "./config";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+// Multicall3 is deployed at the same address on every supported chain
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+  "function getEthBalance(address addr) view returns (uint256 balance)",
+];
+
+const MAX_CALLS_PER_BATCH = 100; // Keeps each aggregate3 well under the eth_call gas cap
+
+const multicallInterface = new Interface(MULTICALL3_ABI);
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+interface PendingCall {
+  target: string;
+  callData: string;
+  promise: Promise<MulticallResult>;
+  resolve: (result: MulticallResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface Batcher {
+  pending: Map<string, PendingCall>; // keyed by target + calldata, so identical calls share one slot
+  timer: ReturnType<typeof setTimeout> | null;
+  aggregateSupported: boolean;
+}
+
+const batchers = new WeakMap<Provider, Batcher>();
+const sharedProviders = new Map<number, Provider>();
+
+// ─── Batching ────────────────────────────────────────────────────────────────
+
+/**
+ * Shared read provider per chain. Callers on the same provider are batched and
+ * deduplicated together, so modules that don't own a provider should use this.
+ */
+export function getMulticallProvider(chainId: number): Provider {
+  let provider = sharedProviders.get(chainId);
+  if (!provider) {
+    provider = createAlchemyProvider(chainId);
+    sharedProviders.set(chainId, provider);
+  }
+  return provider;
+}
+
+function getBatcher(provider: Provider): Batcher {
+  let batcher = batchers.get(provider);
+  if (!batcher) {
+    batcher = { pending: new Map(), timer: null, aggregateSupported: true };
+    batchers.set(provider, batcher);
+  }
+  return batcher;
+}
+
+function isRevertOrDecodeError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === "CALL_EXCEPTION" || code === "BAD_DATA";
+}
+
+async function executeDirect(provider: Provider, calls: PendingCall[]): Promise<void> {
+  await Promise.all(
+    calls.map(async (call) => {
+      try {
+        const returnData = await provider.call({ to: call.target, data: call.callData });
+        call.resolve({ success: true, returnData });
+      } catch (error) {
+        if (isRevertOrDecodeError(error)) {
+          call.resolve({ success: false, returnData: "0x" });
+        } else {
+          call.reject(error);
+        }
+      }
+    }),
+  );
+}
+
+async function executeChunk(provider: Provider, batcher: Batcher, calls: PendingCall[]): Promise<void> {
+  if (calls.length === 1 || !batcher.aggregateSupported) {
+    await executeDirect(provider, calls);
+    return;
+  }
+
+  try {
+    const data = multicallInterface.encodeFunctionData("aggregate3", [
+      calls.map((call) => ({ target: call.target, allowFailure: true, callData: call.callData })),
+    ]);
+    const raw = await provider.call({ to: MULTICALL3_ADDRESS, data });
+    const [results] = multicallInterface.decodeFunctionResult("aggregate3", raw);
+    calls.forEach((call, i) => {
+      call.resolve({ success: results[i].success, returnData: results[i].returnData });
+    });
+  } catch (error) {
+    if (!isRevertOrDecodeError(error)) {
+      // Transport errors surface to callers so their own retry logic applies
+      for (const call of calls) call.reject(error);
+      return;
+    }
+    // Empty result means Multicall3 isn't deployed here; stop trying on this provider
+    if ((error as { code?: unknown }).code === "BAD_DATA") {
+      batcher.aggregateSupported = false;
+      console.warn("[Multicall] Multicall3 unavailable, falling back to direct calls");
+    }
+    await executeDirect(provider, calls);
+  }
+}
+
+function flush(provider: Provider, batcher: Batcher) {
+  const calls = [...batcher.pending.values()];
+  batcher.pending = new Map();
+  batcher.timer = null;
+
+  for (let start = 0; start < calls.length; start += MAX_CALLS_PER_BATCH) {
+    // Chunks go out together; the batch provider packs them into one HTTP request
+    void executeChunk(provider, batcher, calls.slice(start, start + MAX_CALLS_PER_BATCH));
+  }
+}
+
+/**
+ * Queue a raw call. Calls queued on the same provider within one tick are sent
+ * as Multicall3 aggregate3 requests; a reverting call resolves with success=false
+ * instead of failing the batch.
+ */
+export function multicall(provider: Provider, target: string, callData: string): Promise<MulticallResult> {
+  const batcher = getBatcher(provider);
+  const key = `${target.toLowerCase()}:${callData}`;
+
+  const existing = batcher.pending.get(key);
+  if (existing) return existing.promise;
+
+  let resolve!: (result: MulticallResult) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<MulticallResult>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  batcher.pending.set(key, { target, callData, promise, resolve, reject });
+
+  if (!batcher.timer) {
+    batcher.timer = setTimeout(() => flush(provider, batcher), 0);
+  }
+  return promise;
+}
+
+// ─── Contract helpers ────────────────────────────────────────────────────────
+
+function getContractProvider(contract: Contract): Provider {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract has no provider for batched reads");
+  return provider;
+}
+
+/**
+ * Batched equivalent of `contract[method](...args)` for view functions.
+ * A single return value is unwrapped like ethers does; rejects on revert.
+ */
+export async function readContract<T = any>(
+  contract: Contract,
+  method: string,
+  args: readonly unknown[] = [],
+): Promise<T> {
+  const target = typeof contract.target === "string" ? contract.target : await contract.getAddress();
+  const callData = contract.interface.encodeFunctionData(method, args);
+  const { success, returnData } = await multicall(getContractProvider(contract), target, callData);
+  if (!success) throw new Error(`${method} reverted on ${target}`);
+  const result = contract.interface.decodeFunctionResult(method, returnData);
+  return (result.length === 1 ? result[0] : result) as T;
+}
+
+/**
+ * Like readContract, but resolves null when the call reverts or can't be decoded.
+ */
+export async function tryReadContract<T = any>(
+  contract: Contract,
+  method: string,
+  args: readonly unknown[] = [],
+): Promise<T | null> {
+  try {
+    return await readContract<T>(contract, method, args);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Native balance read through Multicall3.getEthBalance, so it batches with token reads.
+ */
+export function readNativeBalance(provider: Provider, owner: string): Promise<bigint> {
+  return readContract<bigint>(new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider), "getEthBalance", [owner]);
+}
@@ -4,6 +4,7 @@ import { formatUnits } from "ethers";
 import type { Token } from "@shared/schema";
 import { createAlchemyProvider } from "./config";
 import { safeTokenInfo } from "./v3-pool-utils";
+import { readContract } from "./multicall";
 
 const FACTORY_ABI = [
   "function allPairsLength() external view returns (uint)",
@@ -54,18 +55,18 @@ export async function fetchAllPools(
 
     console.log(`Found ${length} pools on chain ${chainId}`);
 
-    // Fetch all pair addresses in parallel (batch provider packs into ~1 HTTP request)
+    // Fetch all pair addresses in parallel (aggregated into Multicall3 requests)
     const pairAddresses: string[] = await Promise.all(
-      Array.from({ length }, (_, i) => factory.allPairs(i)),
+      Array.from({ length }, (_, i) => readContract<string>(factory, "allPairs", [i])),
     );
 
-    // Fetch pool data for each pair in parallel (the batch provider limits concurrency under the hood)
+    // Fetch pool data for each pair in parallel (reads from every pair share multicall batches)
     const poolResults = await Promise.all(
       pairAddresses.map(async (pairAddress): Promise<PoolData | null> => {
         try {
           const pairContract = new Contract(pairAddress, PAIR_ABI, provider);
 
-          // Get basic pair info — all 4 calls batched into one HTTP request
+          // Get basic pair info — all 4 calls go into the same multicall batch
           let token0Address: string;
           let token1Address: string;
           let reserves: any;
@@ -73,10 +74,10 @@ export async function fetchAllPools(
 
           try {
             [token0Address, token1Address, reserves, totalSupply] = await Promise.all([
-              pairContract.token0(),
-              pairContract.token1(),
-              pairContract.getReserves(),
-              pairContract.totalSupply(),
+              readContract<string>(pairContract, "token0"),
+              readContract<string>(pairContract, "token1"),
+              readContract(pairContract, "getReserves"),
+              readContract<bigint>(pairContract, "totalSupply"),
             ]);
           } catch (error) {
             console.error(`Failed to fetch basic pair info for ${pairAddress}:`, error);
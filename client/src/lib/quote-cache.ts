@@ -1,98 +1,239 @@
-import type { SmartRoutingResult } from "./smart-routing";
+import type { Provider } from "ethers";
+import { refreshV2ReservesForBlock } from "./v2-reserves";
 
-interface CachedQuote {
-  result: SmartRoutingResult;
-  timestamp: number;
-  blockNumber?: number; // Track block for invalidation
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type QuoteKind = "exactInput" | "exactOutput" | "rwaExactInput" | "rwaExactOutput" | "compositeRwa";
+
+export interface QuoteCacheParams {
+  kind: QuoteKind;
+  chainId: number;
+  fromToken: string;
+  toToken: string;
+  amount: bigint; // Input amount, or the fixed output amount for exact-output kinds
+  v2Enabled: boolean;
+  v3Enabled: boolean;
+  routingKey: string; // Route filters and hop limit (see getRoutingPreferencesKey)
+  recipient?: string;
+}
+
+export interface CachedQuote<T> {
+  value: T;
+  stale: boolean; // Serve it, but revalidate before relying on it
+  blockNumber?: number;
+}
+
+export interface LoadQuoteOptions<T> {
+  signal?: AbortSignal; // Aborting detaches this caller; the fetch is cancelled once no caller is left
+  // Pools the quote trades through (lowercase). null = unknown, so any new block makes it stale
+  getPools?: (value: T) => string[] | null;
+}
+
+export interface QuoteCacheMetrics {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  fetches: number;
+  dedupedRequests: number; // Callers that joined an identical in-flight fetch
+  evictions: number;
+  invalidations: number; // Entries marked stale by pool activity or a new block
+  size: number;
+  inFlight: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  blockNumber?: number;
+  pools: Set<string> | null;
+  stale: boolean;
+}
+
+interface InFlightQuote {
+  key: string;
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+  settled: boolean;
 }
 
-const quoteCache = new Map<string, CachedQuote>();
-const CACHE_DURATION = 5000; // 5 seconds - reduced from 10s for volatile markets
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MAX_ENTRIES = 100;
+const FRESH_TTL = 15_000; // Pool-level invalidation catches price moves; this bounds everything else (gas, oracles)
+const MAX_STALE_AGE = 60_000; // Older entries aren't worth showing even while refreshing
+const MAX_LOG_RANGE = 20; // After a longer gap, mark everything stale instead of scanning logs
+
+const quoteCache = new Map<string, CacheEntry>(); // Insertion order doubles as LRU order
+const inFlight = new Map<string, InFlightQuote>();
+
+const metrics = {
+  hits: 0,
+  staleHits: 0,
+  misses: 0,
+  fetches: 0,
+  dedupedRequests: 0,
+  evictions: 0,
+  invalidations: 0,
+};
 
 // Track latest seen block number
 let latestBlockNumber: number | undefined;
 
+// ─── Keys ────────────────────────────────────────────────────────────────────
+
 /**
- * Update the latest block number and invalidate stale cache entries
- * Call this when a new block is detected
+ * Cache key for a quote request. Everything that can change the quoted route or
+ * its execution goes in, so a settings change never serves a quote made under the old rules.
  */
-export function updateBlockNumber(blockNumber: number): void {
-  if (latestBlockNumber !== undefined && blockNumber > latestBlockNumber) {
-    // Invalidate all cache entries from older blocks
-    // Prices may have changed in new blocks
-    for (const [key, cached] of quoteCache.entries()) {
-      if (cached.blockNumber !== undefined && cached.blockNumber < blockNumber) {
-        quoteCache.delete(key);
-      }
-    }
-  }
-  latestBlockNumber = blockNumber;
+export function getQuoteCacheKey(params: QuoteCacheParams): string {
+  return [
+    params.kind,
+    params.chainId,
+    params.fromToken.toLowerCase(),
+    params.toToken.toLowerCase(),
+    params.amount.toString(),
+    params.v2Enabled ? 1 : 0,
+    params.v3Enabled ? 1 : 0,
+    params.recipient?.toLowerCase() ?? "",
+    params.routingKey,
+  ].join(":");
 }
 
-/**
- * Generate cache key from swap parameters
- */
-function getCacheKey(
-  fromTokenAddress: string,
-  toTokenAddress: string,
-  amountIn: string,
-  v2Enabled: boolean,
-  v3Enabled: boolean
-): string {
-  return `${fromTokenAddress}-${toTokenAddress}-${amountIn}-${v2Enabled}-${v3Enabled}`;
+// ─── Reads ───────────────────────────────────────────────────────────────────
+
+function isExpired(entry: CacheEntry, now: number): boolean {
+  return now - entry.storedAt > MAX_STALE_AGE;
+}
+
+function isStale(entry: CacheEntry, now: number): boolean {
+  return entry.stale || now - entry.storedAt > FRESH_TTL;
 }
 
 /**
- * Get cached quote if available and fresh
+ * Cached quote for a key, fresh or stale. Counts toward hit/miss metrics and
+ * marks the entry as recently used.
  */
-export function getCachedQuote(
-  fromTokenAddress: string,
-  toTokenAddress: string,
-  amountIn: string,
-  v2Enabled: boolean,
-  v3Enabled: boolean
-): SmartRoutingResult | null {
-  const key = getCacheKey(fromTokenAddress, toTokenAddress, amountIn, v2Enabled, v3Enabled);
-  const cached = quoteCache.get(key);
-  
-  if (!cached) return null;
-  
+export function peekCachedQuote<T>(key: string): CachedQuote<T> | null {
+  const entry = quoteCache.get(key);
   const now = Date.now();
-  if (now - cached.timestamp > CACHE_DURATION) {
-    quoteCache.delete(key);
-    return null;
-  }
-  
-  // Also invalidate if block number has advanced
-  if (cached.blockNumber !== undefined && latestBlockNumber !== undefined && 
-      cached.blockNumber < latestBlockNumber) {
-    quoteCache.delete(key);
+  if (!entry || isExpired(entry, now)) {
+    if (entry) quoteCache.delete(key);
+    metrics.misses++;
     return null;
   }
-  
-  return cached.result;
+
+  quoteCache.delete(key);
+  quoteCache.set(key, entry);
+
+  const stale = isStale(entry, now);
+  if (stale) metrics.staleHits++;
+  else metrics.hits++;
+  return { value: entry.value as T, stale, blockNumber: entry.blockNumber };
 }
 
 /**
- * Store quote in cache
+ * Mark one entry stale so the next read revalidates it (e.g. a manual refresh).
  */
-export function setCachedQuote(
-  fromTokenAddress: string,
-  toTokenAddress: string,
-  amountIn: string,
-  v2Enabled: boolean,
-  v3Enabled: boolean,
-  result: SmartRoutingResult,
-  blockNumber?: number
-): void {
-  const key = getCacheKey(fromTokenAddress, toTokenAddress, amountIn, v2Enabled, v3Enabled);
+export function invalidateQuote(key: string): void {
+  const entry = quoteCache.get(key);
+  if (entry && !entry.stale) {
+    entry.stale = true;
+    metrics.invalidations++;
+  }
+}
+
+// ─── Writes ──────────────────────────────────────────────────────────────────
+
+function storeQuote(key: string, value: unknown, blockNumber: number | undefined, pools: string[] | null): void {
+  const now = Date.now();
+  quoteCache.delete(key);
   quoteCache.set(key, {
-    result,
-    timestamp: Date.now(),
+    value,
+    storedAt: now,
     blockNumber,
+    pools: pools ? new Set(pools.map((pool) => pool.toLowerCase())) : null,
+    // A block arrived mid-fetch; its pool logs were checked before this entry existed
+    stale: blockNumber !== undefined && latestBlockNumber !== undefined && blockNumber < latestBlockNumber,
+  });
+
+  for (const [oldKey, entry] of quoteCache) {
+    if (quoteCache.size <= MAX_ENTRIES && !isExpired(entry, now)) break;
+    quoteCache.delete(oldKey);
+    metrics.evictions++;
+  }
+}
+
+function detach(flight: InFlightQuote): void {
+  flight.waiters--;
+  if (flight.waiters > 0 || flight.settled) return;
+  flight.controller.abort();
+  if (inFlight.get(flight.key) === flight) inFlight.delete(flight.key);
+}
+
+function waitForQuote<T>(flight: InFlightQuote, signal?: AbortSignal): Promise<T | null> {
+  return new Promise<T | null>((resolve, reject) => {
+    let detached = false;
+    const onAbort = () => {
+      if (detached) return;
+      detached = true;
+      detach(flight);
+      reject(new DOMException("Quote request aborted", "AbortError"));
+    };
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    flight.promise.then(
+      (value) => {
+        signal?.removeEventListener("abort", onAbort);
+        if (!detached) resolve(value as T | null);
+      },
+      (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        if (!detached) reject(error);
+      },
+    );
   });
 }
 
+/**
+ * Fetch a quote through the cache. Identical requests share one in-flight fetch,
+ * and a non-null result is stored with the pools it trades through so only
+ * activity on those pools invalidates it. Does not consult the cache first; use
+ * peekCachedQuote for that.
+ */
+export function loadQuote<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T | null>,
+  options: LoadQuoteOptions<T> = {},
+): Promise<T | null> {
+  let flight = inFlight.get(key);
+  if (flight) {
+    metrics.dedupedRequests++;
+  } else {
+    const controller = new AbortController();
+    const startBlock = latestBlockNumber;
+    metrics.fetches++;
+    const created: InFlightQuote = { key, promise: Promise.resolve(null), controller, waiters: 0, settled: false };
+    created.promise = fetcher(controller.signal)
+      .then((value) => {
+        if (value !== null && !controller.signal.aborted) {
+          storeQuote(key, value, startBlock, options.getPools ? options.getPools(value) : null);
+        }
+        return value;
+      })
+      .finally(() => {
+        created.settled = true;
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      });
+    inFlight.set(key, created);
+    flight = created;
+  }
+
+  flight.waiters++;
+  return waitForQuote<T>(flight, options.signal);
+}
+
 /**
  * Clear all cached quotes
  */
@@ -100,17 +241,76 @@ export function clearQuoteCache(): void {
   quoteCache.clear();
 }
 
-/**
- * Clean up expired cache entries
- */
-export function cleanupExpiredCache(): void {
-  const now = Date.now();
-  for (const [key, cached] of quoteCache.entries()) {
-    if (now - cached.timestamp > CACHE_DURATION) {
-      quoteCache.delete(key);
+// ─── Block invalidation ──────────────────────────────────────────────────────
+
+function markStale(predicate: (entry: CacheEntry) => boolean): void {
+  for (const entry of quoteCache.values()) {
+    if (!entry.stale && predicate(entry)) {
+      entry.stale = true;
+      metrics.invalidations++;
     }
   }
 }
 
-// Run cleanup every 30 seconds
-setInterval(cleanupExpiredCache, 30000);
+async function invalidateTouchedPools(fromBlock: number, toBlock: number, provider?: Provider): Promise<void> {
+  const tracked = new Set<string>();
+  for (const entry of quoteCache.values()) {
+    if (entry.stale || !entry.pools) continue;
+    for (const pool of entry.pools) tracked.add(pool);
+  }
+  if (tracked.size === 0) return;
+
+  if (!provider || toBlock - fromBlock + 1 > MAX_LOG_RANGE) {
+    markStale((entry) => entry.pools !== null);
+    return;
+  }
+
+  try {
+    // Swaps, mints, burns and syncs all emit from the pool itself
+    const logs = await provider.getLogs({ address: [...tracked], fromBlock, toBlock });
+    const touched = new Set(logs.map((log) => log.address.toLowerCase()));
+    if (touched.size === 0) return;
+    markStale((entry) => !!entry.pools && [...entry.pools].some((pool) => touched.has(pool)));
+  } catch (error) {
+    console.warn("[QuoteCache] Pool log scan failed, marking quotes stale:", error);
+    markStale((entry) => entry.pools !== null);
+  }
+}
+
+/**
+ * Record a new block. Quotes whose pools emitted logs in the new block(s) go
+ * stale; quotes with unknown pools go stale on every block. Without a provider
+ * every quote is treated as touched. Also refreshes the V2 reserve snapshot.
+ */
+export function updateBlockNumber(blockNumber: number, provider?: Provider): void {
+  const previous = latestBlockNumber;
+  latestBlockNumber = blockNumber;
+  refreshV2ReservesForBlock(blockNumber);
+  if (previous === undefined || blockNumber <= previous) return;
+
+  markStale((entry) => entry.pools === null && (entry.blockNumber === undefined || entry.blockNumber < blockNumber));
+  void invalidateTouchedPools(previous + 1, blockNumber, provider);
+}
+
+export function getLatestBlockNumber(): number | undefined {
+  return latestBlockNumber;
+}
+
+// ─── Metrics ─────────────────────────────────────────────────────────────────
+
+export function getQuoteCacheMetrics(): QuoteCacheMetrics {
+  return { ...metrics, size: quoteCache.size, inFlight: inFlight.size };
+}
+
+export function resetQuoteCacheMetrics(): void {
+  for (const name of Object.keys(metrics) as Array<keyof typeof metrics>) metrics[name] = 0;
+}
+
+// Exposed for debugging from the browser console: __quoteCache.metrics()
+if (typeof window !== "undefined") {
+  (window as unknown as { __quoteCache?: unknown }).__quoteCache = {
+    metrics: getQuoteCacheMetrics,
+    resetMetrics: resetQuoteCacheMetrics,
+    clear: clearQuoteCache,
+  };
+}
@@ -0,0 +1,129 @@
+import type { Token } from "@shared/schema";
+import type { RoutingPreferences } from "./dex-settings";
+import type { PoolEdge } from "./route-graph";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RouteFilters {
+  poolAllow: Set<string> | null; // null = any pool
+  poolDeny: Set<string>; // Includes flagged pools when excludeFlaggedPools is on
+  tokenAllow: Set<string> | null; // Intermediate tokens; null = any token
+  tokenDeny: Set<string>;
+  feeTierAllow: Set<number> | null;
+  feeTierDeny: Set<number>;
+  verifiedIntermediatesOnly: boolean;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const SUBGRAPH_PROXY_URL = "/api/subgraph";
+const SUBGRAPH_PROXY_APP_TOKEN = (import.meta.env.VITE_SUBGRAPH_PROXY_TOKEN as string | undefined)?.trim();
+const FLAGGED_POOLS_TTL = 10 * 60 * 1000; // 10 min
+
+const FLAGGED_POOLS_QUERY = `
+  query FlaggedPools {
+    pools(first: 1000, where: { flaggedLowLiquidityOutlier: true }) {
+      id
+    }
+  }
+`;
+
+let flaggedPoolsCache: { pools: Set<string>; fetchedAt: number } | null = null;
+let flaggedPoolsInFlight: Promise<Set<string>> | null = null;
+
+// ─── Filters ─────────────────────────────────────────────────────────────────
+
+/**
+ * Turn stored routing preferences into lookup sets for path builders.
+ */
+export function buildRouteFilters(
+  preferences: RoutingPreferences,
+  flaggedPools?: Set<string> | null,
+): RouteFilters {
+  const poolDeny = new Set(preferences.poolDenyList);
+  if (preferences.excludeFlaggedPools && flaggedPools) {
+    for (const pool of flaggedPools) poolDeny.add(pool);
+  }
+  return {
+    poolAllow: preferences.poolAllowList.length > 0 ? new Set(preferences.poolAllowList) : null,
+    poolDeny,
+    tokenAllow: preferences.tokenAllowList.length > 0 ? new Set(preferences.tokenAllowList) : null,
+    tokenDeny: new Set(preferences.tokenDenyList),
+    feeTierAllow: preferences.feeTierAllowList.length > 0 ? new Set(preferences.feeTierAllowList) : null,
+    feeTierDeny: new Set(preferences.feeTierDenyList),
+    verifiedIntermediatesOnly: preferences.verifiedIntermediatesOnly,
+  };
+}
+
+/**
+ * Pool lists match on pool addresses, which only the route graph knows.
+ */
+export function hasPoolFilters(filters: RouteFilters): boolean {
+  return filters.poolAllow !== null || filters.poolDeny.size > 0;
+}
+
+export function isFeeTierAllowed(filters: RouteFilters, fee: number): boolean {
+  if (filters.feeTierDeny.has(fee)) return false;
+  return !filters.feeTierAllow || filters.feeTierAllow.has(fee);
+}
+
+export function isPoolAllowed(filters: RouteFilters, edge: PoolEdge): boolean {
+  const pool = edge.poolAddress.toLowerCase();
+  if (filters.poolDeny.has(pool)) return false;
+  if (filters.poolAllow && !filters.poolAllow.has(pool)) return false;
+  return edge.protocol !== "V3" || edge.fee === undefined || isFeeTierAllowed(filters, edge.fee);
+}
+
+/**
+ * Whether a token may be routed through. `token` supplies the verified flag;
+ * unknown tokens count as unverified.
+ */
+export function isIntermediateAllowed(filters: RouteFilters, address: string, token?: Token | null): boolean {
+  const key = address.toLowerCase();
+  if (filters.tokenDeny.has(key)) return false;
+  if (filters.tokenAllow && !filters.tokenAllow.has(key)) return false;
+  return !filters.verifiedIntermediatesOnly || !!token?.verified;
+}
+
+// ─── Flagged pools ───────────────────────────────────────────────────────────
+
+async function fetchFlaggedPools(): Promise<Set<string>> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (SUBGRAPH_PROXY_APP_TOKEN) headers["X-App-Token"] = SUBGRAPH_PROXY_APP_TOKEN;
+
+  const res = await fetch(SUBGRAPH_PROXY_URL, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ query: FLAGGED_POOLS_QUERY }),
+  });
+  if (!res.ok) throw new Error(`Subgraph request failed with ${res.status}`);
+  const json = await res.json();
+  if (json.errors?.length) throw new Error(json.errors[0]?.message ?? "Unknown subgraph error");
+  const pools: Array<{ id: string }> = json.data?.pools ?? [];
+  return new Set(pools.map((pool) => pool.id.toLowerCase()));
+}
+
+/**
+ * Pools flagged as low-liquidity outliers by the subgraph. Cached for 10 minutes;
+ * resolves to an empty set when the subgraph is unreachable.
+ */
+export function loadFlaggedPools(): Promise<Set<string>> {
+  if (flaggedPoolsCache && Date.now() - flaggedPoolsCache.fetchedAt < FLAGGED_POOLS_TTL) {
+    return Promise.resolve(flaggedPoolsCache.pools);
+  }
+  if (flaggedPoolsInFlight) return flaggedPoolsInFlight;
+
+  flaggedPoolsInFlight = fetchFlaggedPools()
+    .then((pools) => {
+      flaggedPoolsCache = { pools, fetchedAt: Date.now() };
+      return pools;
+    })
+    .catch((error) => {
+      console.warn("[RouteFilters] Flagged pool load failed:", error);
+      return new Set<string>();
+    })
+    .finally(() => {
+      flaggedPoolsInFlight = null;
+    });
+  return flaggedPoolsInFlight;
+}
@@ -0,0 +1,275 @@
+import type { Token } from "@shared/schema";
+import type { ChainContracts } from "./contracts";
+import { fetchAllPools, type PoolData } from "./pool-utils";
+import { fetchAllV3Pools, type V3PoolData } from "./v3-pool-utils";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface PoolEdge {
+  protocol: "V2" | "V3";
+  poolAddress: string;
+  tokenA: string; // lowercase
+  tokenB: string; // lowercase
+  fee?: number; // V3 only
+  tvlUSD: number;
+}
+
+export interface RouteGraph {
+  chainId: number;
+  adjacency: Map<string, PoolEdge[]>;
+  tokens: Map<string, Token>;
+  builtAt: number;
+}
+
+export interface GraphPathHop {
+  edge: PoolEdge;
+  tokenIn: string; // lowercase
+  tokenOut: string; // lowercase
+}
+
+export interface GraphPath {
+  hops: GraphPathHop[];
+  protocols: Set<"V2" | "V3">;
+}
+
+export interface FindPathsOptions {
+  maxHops?: number;
+  maxPaths?: number;
+  protocols?: "V2" | "V3" | "mixed";
+  allowEdge?: (edge: PoolEdge) => boolean; // Skip pools excluded by user route filters
+  allowIntermediate?: (token: string) => boolean; // Checked for every token except tokenIn/tokenOut
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+export const DEFAULT_MAX_HOPS = 3;
+const DEFAULT_MAX_PATHS = 16;
+const GRAPH_CACHE_TTL = 5 * 60 * 1000; // 5 min
+
+const graphCache = new Map<number, RouteGraph>();
+const graphInFlight = new Map<number, Promise<RouteGraph>>();
+
+// ─── Graph construction ──────────────────────────────────────────────────────
+
+function addEdge(graph: RouteGraph, edge: PoolEdge) {
+  for (const token of [edge.tokenA, edge.tokenB]) {
+    const edges = graph.adjacency.get(token);
+    if (edges) edges.push(edge);
+    else graph.adjacency.set(token, [edge]);
+  }
+}
+
+function rememberToken(
+  graph: RouteGraph,
+  info: { address: string; symbol: string; decimals: number; name: string },
+  knownTokens: Token[],
+) {
+  const key = info.address.toLowerCase();
+  if (graph.tokens.has(key)) return;
+  const known = knownTokens.find((t) => t.address.toLowerCase() === key);
+  graph.tokens.set(key, known ?? {
+    address: info.address,
+    symbol: info.symbol,
+    name: info.name,
+    decimals: info.decimals,
+    logoURI: "/img/logos/unknown-token.png",
+    verified: false,
+    chainId: graph.chainId,
+  });
+}
+
+/**
+ * Build an undirected token graph where every V2 pair and V3 pool is an edge.
+ * Empty pools (no reserves / no in-range liquidity) are skipped.
+ */
+export function buildRouteGraph(
+  chainId: number,
+  v2Pools: PoolData[],
+  v3Pools: V3PoolData[],
+  knownTokens: Token[],
+): RouteGraph {
+  const graph: RouteGraph = {
+    chainId,
+    adjacency: new Map(),
+    tokens: new Map(),
+    builtAt: Date.now(),
+  };
+
+  for (const pool of v2Pools) {
+    if (pool.reserve0 === 0n || pool.reserve1 === 0n) continue;
+    rememberToken(graph, pool.token0, knownTokens);
+    rememberToken(graph, pool.token1, knownTokens);
+    addEdge(graph, {
+      protocol: "V2",
+      poolAddress: pool.pairAddress.toLowerCase(),
+      tokenA: pool.token0.address.toLowerCase(),
+      tokenB: pool.token1.address.toLowerCase(),
+      tvlUSD: pool.tvlUSD,
+    });
+  }
+
+  for (const pool of v3Pools) {
+    if (pool.liquidity === 0n) continue;
+    rememberToken(graph, pool.token0, knownTokens);
+    rememberToken(graph, pool.token1, knownTokens);
+    addEdge(graph, {
+      protocol: "V3",
+      poolAddress: pool.poolAddress.toLowerCase(),
+      tokenA: pool.token0.address.toLowerCase(),
+      tokenB: pool.token1.address.toLowerCase(),
+      fee: pool.fee,
+      tvlUSD: pool.tvlUSD,
+    });
+  }
+
+  return graph;
+}
+
+/**
+ * Load (or reuse) the route graph for a chain.
+ * Concurrent callers share one in-flight load; results are cached for 5 minutes.
+ */
+export function loadRouteGraph(
+  chainId: number,
+  contracts: ChainContracts,
+  knownTokens: Token[],
+): Promise<RouteGraph> {
+  const cached = graphCache.get(chainId);
+  if (cached && Date.now() - cached.builtAt < GRAPH_CACHE_TTL) {
+    return Promise.resolve(cached);
+  }
+
+  const inFlight = graphInFlight.get(chainId);
+  if (inFlight) return inFlight;
+
+  const promise = (async () => {
+    const [v2Pools, v3Pools] = await Promise.all([
+      fetchAllPools(contracts.v2.factory, chainId, knownTokens).catch((error) => {
+        console.warn("[RouteGraph] V2 pool load failed:", error);
+        return [] as PoolData[];
+      }),
+      fetchAllV3Pools(contracts.v3.factory, chainId, knownTokens).catch((error) => {
+        console.warn("[RouteGraph] V3 pool load failed:", error);
+        return [] as V3PoolData[];
+      }),
+    ]);
+    const graph = buildRouteGraph(chainId, v2Pools, v3Pools, knownTokens);
+    graphCache.set(chainId, graph);
+    console.log(`[RouteGraph] Built graph with ${graph.tokens.size} tokens on chain ${chainId}`);
+    return graph;
+  })().finally(() => {
+    graphInFlight.delete(chainId);
+  });
+
+  graphInFlight.set(chainId, promise);
+  return promise;
+}
+
+export function getCachedRouteGraph(chainId: number): RouteGraph | null {
+  return graphCache.get(chainId) ?? null;
+}
+
+// ─── Path enumeration ────────────────────────────────────────────────────────
+
+function matchesProtocols(path: GraphPath, protocols: FindPathsOptions["protocols"]): boolean {
+  if (!protocols) return true;
+  if (protocols === "mixed") return path.protocols.size > 1;
+  return path.protocols.size === 1 && path.protocols.has(protocols);
+}
+
+function pathLiquidityScore(path: GraphPath): number {
+  return Math.min(...path.hops.map((hop) => hop.edge.tvlUSD));
+}
+
+/**
+ * Enumerate simple paths (no repeated tokens) from tokenIn to tokenOut.
+ * Paths are ranked by hop count, then by the TVL of their thinnest pool,
+ * and truncated to `maxPaths` so callers can quote every result.
+ */
+export function findGraphPaths(
+  graph: RouteGraph,
+  tokenIn: string,
+  tokenOut: string,
+  options: FindPathsOptions = {},
+): GraphPath[] {
+  const maxHops = Math.max(1, options.maxHops ?? DEFAULT_MAX_HOPS);
+  const maxPaths = options.maxPaths ?? DEFAULT_MAX_PATHS;
+  const from = tokenIn.toLowerCase();
+  const to = tokenOut.toLowerCase();
+  if (from === to) return [];
+
+  const results: GraphPath[] = [];
+  const visited = new Set<string>([from]);
+  const hops: GraphPathHop[] = [];
+
+  const walk = (current: string) => {
+    const edges = graph.adjacency.get(current) ?? [];
+    for (const edge of edges) {
+      const next = edge.tokenA === current ? edge.tokenB : edge.tokenA;
+      if (visited.has(next)) continue;
+      if (options.allowEdge && !options.allowEdge(edge)) continue;
+      if (next !== to && options.allowIntermediate && !options.allowIntermediate(next)) continue;
+      // The last allowed hop must land on the target token
+      if (hops.length === maxHops - 1 && next !== to) continue;
+
+      hops.push({ edge, tokenIn: current, tokenOut: next });
+      if (next === to) {
+        const path: GraphPath = {
+          hops: [...hops],
+          protocols: new Set(hops.map((hop) => hop.edge.protocol)),
+        };
+        if (matchesProtocols(path, options.protocols)) results.push(path);
+      } else {
+        visited.add(next);
+        walk(next);
+        visited.delete(next);
+      }
+      hops.pop();
+    }
+  };
+
+  walk(from);
+
+  return results
+    .sort((a, b) => a.hops.length - b.hops.length || pathLiquidityScore(b) - pathLiquidityScore(a))
+    .slice(0, maxPaths);
+}
+
+/**
+ * Split a path into consecutive same-protocol segments (e.g. V2 → V2 → V3 = [V2×2, V3×1]).
+ */
+export function splitPathByProtocol(path: GraphPath): GraphPathHop[][] {
+  const segments: GraphPathHop[][] = [];
+  for (const hop of path.hops) {
+    const last = segments[segments.length - 1];
+    if (last && last[0].edge.protocol === hop.edge.protocol) last.push(hop);
+    else segments.push([hop]);
+  }
+  return segments;
+}
+
+// ─── Pool lookup ─────────────────────────────────────────────────────────────
+
+/**
+ * The graph edge a single hop trades through, or null if the graph doesn't
+ * know that pool. Native-token hops must pass the wrapped token address.
+ */
+export function findPoolEdge(
+  graph: RouteGraph,
+  protocol: "V2" | "V3",
+  tokenIn: string,
+  tokenOut: string,
+  fee?: number,
+): PoolEdge | null {
+  const from = tokenIn.toLowerCase();
+  const to = tokenOut.toLowerCase();
+  const edges = graph.adjacency.get(from) ?? [];
+  return (
+    edges.find(
+      (edge) =>
+        edge.protocol === protocol &&
+        (edge.tokenA === to || edge.tokenB === to) &&
+        (protocol === "V2" || edge.fee === fee),
+    ) ?? null
+  );
+}
@@ -0,0 +1,144 @@
+import { Contract } from "ethers";
+import { GASLESS_CONFIG } from "./gasless-config";
+import { trackTransaction } from "./tx-tracker";
+
+/**
+ * Local registry of Permit2 signatures this browser has produced for gasless
+ * swaps. A signed permit can be spent by anyone holding it until its deadline,
+ * so users can see the outstanding ones and revoke them on-chain with
+ * Permit2's invalidateUnorderedNonces.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface SignedPermit {
+  user: string; // lowercase
+  chainId: number;
+  token: string;
+  amount: string; // Permit2 units
+  nonce: string;
+  deadline: number; // Unix seconds
+  signedAt: number;
+}
+
+export type SignedPermitStatus = "outstanding" | "expired"; // Spent permits are removed, not kept
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const STORAGE_KEY = "signed-permits";
+const MAX_PERMITS_PER_WALLET = 50;
+const EXPIRED_RETENTION_MS = 60 * 60 * 1000; // Keep expired permits visible for an hour, then drop them
+
+const PERMIT2_NONCE_ABI = [
+  "function nonceBitmap(address owner, uint256 wordPos) view returns (uint256)",
+  "function invalidateUnorderedNonces(uint256 wordPos, uint256 mask)",
+];
+
+// ─── Nonce bitmap ────────────────────────────────────────────────────────────
+
+/**
+ * Permit2 unordered nonces are bit `nonce & 0xff` of word `nonce >> 8`.
+ */
+export function getNonceWordAndMask(nonce: bigint): { word: bigint; mask: bigint } {
+  return { word: nonce >> 8n, mask: 1n << (nonce & 0xffn) };
+}
+
+export async function isPermitNonceUnused(provider: any, user: string, nonce: bigint): Promise<boolean> {
+  const permit2 = new Contract(GASLESS_CONFIG.permit2Address, PERMIT2_NONCE_ABI, provider);
+  const { word, mask } = getNonceWordAndMask(nonce);
+  const bitmap: bigint = await permit2.nonceBitmap(user, word);
+  return (bitmap & mask) === 0n;
+}
+
+// ─── Storage ─────────────────────────────────────────────────────────────────
+
+function readPermits(): SignedPermit[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    const cutoff = Date.now() - EXPIRED_RETENTION_MS;
+    return stored.filter((permit: SignedPermit) => permit.deadline * 1000 > cutoff);
+  } catch {
+    return [];
+  }
+}
+
+function writePermits(permits: SignedPermit[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(permits));
+  } catch (error) {
+    console.warn("[Permits] Failed to persist signed permits:", error);
+  }
+}
+
+function isSamePermit(a: Pick<SignedPermit, "user" | "nonce">, b: Pick<SignedPermit, "user" | "nonce">): boolean {
+  return a.user.toLowerCase() === b.user.toLowerCase() && a.nonce === b.nonce;
+}
+
+export function recordSignedPermit(permit: SignedPermit): void {
+  const others = readPermits().filter((p) => !isSamePermit(p, permit));
+  const forWallet = others.filter((p) => p.user === permit.user);
+  // Oldest permits for this wallet fall off first
+  const dropped = new Set(forWallet.slice(MAX_PERMITS_PER_WALLET - 1));
+  writePermits([permit, ...others.filter((p) => !dropped.has(p))]);
+}
+
+export function removeSignedPermit(user: string, nonce: bigint | string): void {
+  const target = { user, nonce: nonce.toString() };
+  writePermits(readPermits().filter((p) => !isSamePermit(p, target)));
+}
+
+export function getSignedPermits(user: string, chainId: number): SignedPermit[] {
+  return readPermits().filter((p) => p.user === user.toLowerCase() && p.chainId === chainId);
+}
+
+export function getSignedPermitStatus(permit: SignedPermit): SignedPermitStatus {
+  return permit.deadline * 1000 <= Date.now() ? "expired" : "outstanding";
+}
+
+/**
+ * Check every recorded permit against Permit2 and drop the ones whose nonce
+ * was spent (the swap went through or it was cancelled elsewhere). Returns
+ * the permits that are still recorded.
+ */
+export async function reconcileSignedPermits(provider: any, user: string, chainId: number): Promise<SignedPermit[]> {
+  const permits = getSignedPermits(user, chainId);
+  const results = await Promise.all(
+    permits.map((permit) =>
+      isPermitNonceUnused(provider, user, BigInt(permit.nonce)).catch(() => true), // Keep it when the read fails
+    ),
+  );
+  permits.forEach((permit, idx) => {
+    if (!results[idx]) removeSignedPermit(user, permit.nonce);
+  });
+  return permits.filter((_, idx) => results[idx]);
+}
+
+// ─── Cancellation ────────────────────────────────────────────────────────────
+
+/**
+ * Revoke signed permits by flipping their nonce bits in Permit2. Permits in
+ * the same nonce word share one transaction. The user pays gas for this.
+ */
+export async function cancelSignedPermits(signer: any, permits: SignedPermit[]): Promise<string[]> {
+  const user = (await signer.getAddress()).toLowerCase();
+  const permit2 = new Contract(GASLESS_CONFIG.permit2Address, PERMIT2_NONCE_ABI, signer);
+
+  const masksByWord = new Map<bigint, bigint>();
+  for (const permit of permits) {
+    if (permit.user !== user) throw new Error("Permit was signed by a different wallet");
+    const { word, mask } = getNonceWordAndMask(BigInt(permit.nonce));
+    masksByWord.set(word, (masksByWord.get(word) ?? 0n) | mask);
+  }
+
+  const txHashes: string[] = [];
+  for (const [word, mask] of masksByWord) {
+    const tx = await permit2.invalidateUnorderedNonces(word, mask);
+    await trackTransaction(tx, { label: "Cancel signed permit" });
+    txHashes.push(tx.hash);
+    for (const permit of permits) {
+      if (getNonceWordAndMask(BigInt(permit.nonce)).word === word) removeSignedPermit(user, permit.nonce);
+    }
+  }
+  return txHashes;
+}
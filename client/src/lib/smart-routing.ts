@@ -5,10 +5,15 @@ import { RWA_VAULT_ABI } from "./abis/rwa";
 import type { RouteHop } from "@/components/PathVisualizer";
 import { isCanonicalUSDC } from "@/data/tokens";
 import { encodePath } from "./v3-utils";
+import { DEFAULT_MAX_HOPS, findGraphPaths, findPoolEdge, splitPathByProtocol, type FindPathsOptions, type GraphPath, type RouteGraph } from "./route-graph";
+import { hasPoolFilters, isFeeTierAllowed, isIntermediateAllowed, isPoolAllowed, type RouteFilters } from "./route-filters";
+import { simulateV3ExactInputPath, simulateV3ExactOutputPath, type V3SimulationConfig } from "./v3-swap-simulator";
+import { getV2AmountsInLocal, getV2AmountsOutLocal, loadV2Reserves, type V2ReservesConfig } from "./v2-reserves";
 
 // V2 Router ABI
 const V2_ROUTER_ABI = [
   "function getAmountsOut(uint amountIn, address[] memory path) public view returns (uint[] memory amounts)",
+  "function getAmountsIn(uint amountOut, address[] memory path) public view returns (uint[] memory amounts)",
 ];
 
 // Native token address (zero address)
@@ -226,24 +231,392 @@ function getERC20Address(tokenAddress: string, wrappedTokenAddress: string): str
 }
 
 export interface QuoteResult {
-  protocol: "V2" | "V3";
+  protocol: "V2" | "V3" | "MIXED";
   outputAmount: bigint;
   route: RouteHop[];
   priceImpact: number | undefined;
   gasEstimate?: bigint;
+  segmentOutputs?: bigint[]; // MIXED only: quoted output of each same-protocol segment
+  inputAmount?: bigint; // Exact-output quotes only: input required for outputAmount
+  gasCostInOutput?: bigint; // Estimated network fee converted to output-token units
+  netOutputAmount?: bigint; // outputAmount minus gasCostInOutput (may be negative)
 }
 
-export interface SmartRoutingResult {
-  bestQuote: QuoteResult;
+export interface SplitRouteLeg {
+  quote: QuoteResult; // Route and output for this leg's share of the input
+  amountIn: bigint;
+  shareBps: number; // Share of the total input in basis points
+}
+
+export interface SplitQuoteResult {
+  legs: SplitRouteLeg[];
+  outputAmount: bigint;
+  priceImpact: number | undefined;
+  gasEstimate?: bigint;
+  gasCostInOutput?: bigint;
+  netOutputAmount?: bigint;
+}
+
+interface SmartRoutingResultBase {
+  bestQuote: QuoteResult; // Best single route (also the fallback for split results)
   v2Quote?: QuoteResult;
   v3Quote?: QuoteResult;
+  mixedQuote?: QuoteResult;
   alternativeQuotes?: QuoteResult[]; // For fallback when best quote fails
   timestamp: number; // For freshness check
-  inputAmount: bigint; // To verify quote matches current input
+  inputAmount: bigint; // To verify quote matches current input (required input for exact output)
+  candidates?: RouteCandidate[]; // Every route evaluated, best first; failures last
+  pinnedRouteId?: string; // Set when bestQuote is a user-pinned candidate rather than the router's pick
+}
+
+export interface RouteCandidate {
+  id: string; // Route key; stable across re-quotes so a pinned route survives amount changes
+  protocol: "V2" | "V3" | "MIXED" | "RWA";
+  route: RouteHop[];
+  quote?: QuoteResult; // Executable quote; absent for failed routes
+  outputAmount?: bigint;
+  priceImpact?: number;
+  gasEstimate?: bigint; // Gas units for the whole swap (all transactions)
+  netOutputAmount?: bigint;
+  failureReason?: string;
+  recommended?: boolean; // The router's own pick (none when a split won)
+}
+
+export type SmartRoutingResult =
+  | (SmartRoutingResultBase & { kind: "single" })
+  | (SmartRoutingResultBase & { kind: "split"; split: SplitQuoteResult })
+  | (SmartRoutingResultBase & { kind: "exactOutput" });
+
+/**
+ * Output the user receives for a routing result (split total or best single route)
+ */
+export function getRoutingOutputAmount(result: SmartRoutingResult): bigint {
+  return result.kind === "split" ? result.split.outputAmount : result.bestQuote.outputAmount;
+}
+
+/**
+ * Price impact of a routing result (split total or best single route)
+ */
+export function getRoutingPriceImpact(result: SmartRoutingResult): number | undefined {
+  return result.kind === "split" ? result.split.priceImpact : result.bestQuote.priceImpact;
+}
+
+/**
+ * Output after the estimated network fee; undefined when gas couldn't be priced
+ */
+export function getRoutingNetOutputAmount(result: SmartRoutingResult): bigint | undefined {
+  return result.kind === "split" ? result.split.netOutputAmount : result.bestQuote.netOutputAmount;
+}
+
+/**
+ * Estimated network fee of a routing result in output-token units
+ */
+export function getRoutingGasCost(result: SmartRoutingResult): bigint | undefined {
+  return result.kind === "split" ? result.split.gasCostInOutput : result.bestQuote.gasCostInOutput;
+}
+
+/**
+ * Pool addresses (lowercase) of every quote a result can execute, including
+ * alternatives and pinnable candidates. Null when any hop's pool isn't in the
+ * graph, since the caller can't then tell which pool activity affects the result.
+ */
+export function getRoutingPoolAddresses(
+  result: SmartRoutingResult,
+  graph: RouteGraph | null | undefined,
+  wrappedTokenAddress: string,
+): string[] | null {
+  if (!graph) return null;
+  const toPoolToken = (token: Token) => (token.address === NATIVE_TOKEN_ADDRESS ? wrappedTokenAddress : token.address);
+
+  const quotes: QuoteResult[] = [result.bestQuote, ...(result.alternativeQuotes ?? [])];
+  if (result.kind === "split") quotes.push(...result.split.legs.map((leg) => leg.quote));
+  for (const candidate of result.candidates ?? []) {
+    if (candidate.quote) quotes.push(candidate.quote);
+  }
+
+  const pools = new Set<string>();
+  for (const quote of quotes) {
+    for (const hop of quote.route) {
+      if (hop.protocol === "RWA") return null;
+      const edge = findPoolEdge(graph, hop.protocol, toPoolToken(hop.tokenIn), toPoolToken(hop.tokenOut), hop.fee);
+      if (!edge) return null;
+      pools.add(edge.poolAddress.toLowerCase());
+    }
+  }
+  return [...pools];
+}
+
+/**
+ * Execute a user-pinned candidate instead of the router's pick. Returns the
+ * result unchanged when the pinned route has no quote for the current amount.
+ */
+export function applyRoutePin(result: SmartRoutingResult, routeId: string | null): SmartRoutingResult {
+  if (!routeId || result.kind === "exactOutput") return result;
+  const pinned = result.candidates?.find((candidate) => candidate.id === routeId)?.quote;
+  if (!pinned) return result;
+  const { bestQuote, v2Quote, v3Quote, mixedQuote, alternativeQuotes, timestamp, inputAmount, candidates } = result;
+  return {
+    kind: "single",
+    bestQuote: pinned,
+    v2Quote,
+    v3Quote,
+    mixedQuote,
+    alternativeQuotes: [bestQuote, ...(alternativeQuotes ?? [])].filter((quote) => getRouteKey(quote) !== routeId),
+    timestamp,
+    inputAmount,
+    candidates,
+    pinnedRouteId: routeId,
+  };
+}
+
+function describeQuoteFailure(error: unknown): string {
+  const err = error as { code?: unknown; reason?: unknown; shortMessage?: unknown } | null;
+  if (err?.code === "CALL_EXCEPTION") {
+    return typeof err.reason === "string" && err.reason ? `Reverted: ${err.reason}` : "Quote reverted";
+  }
+  if (typeof err?.shortMessage === "string") return err.shortMessage;
+  return error instanceof Error ? error.message : "Quote failed";
 }
 
 /**
- * Get V2 quote for a swap - tries direct path first, then fallback to wrapped token route
+ * Report an evaluated route to options.onCandidate: a quote, or why the route failed.
+ */
+function reportCandidate(
+  options: RoutingOptions,
+  protocol: QuoteResult["protocol"],
+  route: RouteHop[],
+  outcome: QuoteResult | string,
+): void {
+  if (!options.onCandidate) return;
+  const id = getRouteKey({ protocol, route });
+  if (typeof outcome === "string") {
+    options.onCandidate({ id, protocol, route, failureReason: outcome });
+  } else {
+    options.onCandidate({ id, protocol, route, quote: outcome, outputAmount: outcome.outputAmount, priceImpact: outcome.priceImpact });
+  }
+}
+
+export interface RoutingOptions {
+  routeGraph?: RouteGraph | null; // Enables graph path discovery; wrapped-token hops are used without it
+  maxHops?: number;
+  v3Simulation?: V3SimulationConfig | null; // Rank V3 candidates locally, confirming only the winner on QuoterV2
+  v2Reserves?: V2ReservesConfig | null; // Quote V2 paths from the per-block reserve snapshot instead of the router
+  gasPricing?: GasPricing | null; // Rank candidates by output net of gas; getSmartRouteQuote fills this in
+  onCandidate?: (candidate: RouteCandidate) => void; // Receives every route a quote function evaluates
+  filters?: RouteFilters | null; // User pool/token/fee-tier allow and deny lists
+  v3OnlySplits?: boolean; // Split only across V3 routes, which share one router multicall (wallet-sent swaps)
+}
+
+export interface GasPricing {
+  gasPrice: bigint; // Native USDC wei per gas unit
+  outputPerUsdc: bigint; // Output-token units bought by 1 USDC
+}
+
+/**
+ * Quote V2 paths from the reserve snapshot; null when disabled or the snapshot can't be loaded.
+ * Entries are null for paths with a missing pair.
+ */
+async function quoteV2PathsLocal(
+  provider: Provider,
+  options: RoutingOptions,
+  paths: string[][],
+  amountIn: bigint,
+  signal?: AbortSignal,
+): Promise<Array<bigint | null> | null> {
+  if (!options.v2Reserves) return null;
+  try {
+    await loadV2Reserves(provider, options.v2Reserves, paths);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn("[V2Reserves] Snapshot load failed, using router quotes:", error);
+    return null;
+  }
+  return paths.map((path) => {
+    const amounts = getV2AmountsOutLocal(options.v2Reserves!.factoryAddress, path, amountIn);
+    return amounts ? amounts[amounts.length - 1] : null;
+  });
+}
+
+/**
+ * Simulate a V3 path off-chain; null when the simulator is disabled or can't price it.
+ */
+async function simulateV3Path(
+  provider: Provider,
+  options: RoutingOptions,
+  tokens: string[],
+  fees: number[],
+  amountIn: bigint,
+  signal?: AbortSignal,
+): Promise<bigint | null> {
+  if (!options.v3Simulation) return null;
+  try {
+    const result = await simulateV3ExactInputPath(provider, options.v3Simulation, tokens, fees, amountIn);
+    return result?.amountOut ?? null;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return null;
+  }
+}
+
+/**
+ * Quote one same-protocol segment: V2 via getAmountsOut, V3 via quoteExactInput.
+ */
+async function quoteSegmentExactIn(
+  provider: Provider,
+  protocol: "V2" | "V3",
+  v2RouterAddress: string,
+  v3QuoterAddress: string,
+  tokens: string[],
+  fees: number[],
+  amountIn: bigint,
+  signal?: AbortSignal,
+): Promise<{ outputAmount: bigint; gasEstimate?: bigint }> {
+  if (protocol === "V2") {
+    const router = new Contract(v2RouterAddress, V2_ROUTER_ABI, provider);
+    const amounts = await quoteWithRetry(() => router.getAmountsOut(amountIn, tokens), 2, 80, signal);
+    return { outputAmount: amounts[amounts.length - 1] as bigint };
+  }
+
+  const quoter = new Contract(v3QuoterAddress, QUOTER_V2_ABI, provider);
+  const path = encodePath(tokens, fees);
+  const result = await quoteWithRetry(() => quoter.quoteExactInput.staticCall(path, amountIn), 2, 80, signal);
+  return { outputAmount: result[0] as bigint, gasEstimate: result[3] as bigint };
+}
+
+function graphPathTokens(path: GraphPath): string[] {
+  return [path.hops[0].tokenIn, ...path.hops.map((hop) => hop.tokenOut)];
+}
+
+function buildRouteHops(
+  tokens: string[],
+  protocols: Array<"V2" | "V3">,
+  fees: Array<number | undefined>,
+  fromToken: Token,
+  toToken: Token,
+  wrappedToken: Token,
+  routeGraph?: RouteGraph | null,
+): RouteHop[] {
+  const route: RouteHop[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    route.push({
+      tokenIn: i === 0 ? fromToken : getTokenForAddress(tokens[i], fromToken, toToken, wrappedToken, routeGraph),
+      tokenOut: i === tokens.length - 2 ? toToken : getTokenForAddress(tokens[i + 1], fromToken, toToken, wrappedToken, routeGraph),
+      protocol: protocols[i],
+      ...(protocols[i] === "V3" ? { fee: fees[i] } : {}),
+    });
+  }
+  return route;
+}
+
+/**
+ * Graph search options carrying the hop limit and the user's route filters.
+ */
+function getGraphPathOptions(options: RoutingOptions, protocols: FindPathsOptions["protocols"]): FindPathsOptions {
+  const { filters, routeGraph } = options;
+  return {
+    protocols,
+    maxHops: options.maxHops,
+    allowEdge: filters ? (edge) => isPoolAllowed(filters, edge) : undefined,
+    allowIntermediate: filters
+      ? (token) => isIntermediateAllowed(filters, token, routeGraph?.tokens.get(token))
+      : undefined,
+  };
+}
+
+/**
+ * Without the graph, pool addresses are unknown, so pool allow/deny lists can't
+ * be checked; such quotes wait for the graph instead of ignoring the lists.
+ */
+function canUseFallbackPaths(options: RoutingOptions): boolean {
+  return !options.filters || !hasPoolFilters(options.filters);
+}
+
+function canHopThroughWrapped(options: RoutingOptions, wrappedToken: Token): boolean {
+  if ((options.maxHops ?? DEFAULT_MAX_HOPS) < 2) return false;
+  return !options.filters || isIntermediateAllowed(options.filters, wrappedToken.address, wrappedToken);
+}
+
+/**
+ * Candidate V2 token paths: graph paths when available, otherwise the direct
+ * pair plus the hop through the wrapped token.
+ */
+function getV2CandidatePaths(
+  fromToken: Token,
+  toToken: Token,
+  wrappedToken: Token,
+  options: RoutingOptions,
+): string[][] {
+  const directPath = buildV2Path(fromToken, toToken, wrappedToken.address);
+  if (options.routeGraph) {
+    return findGraphPaths(
+      options.routeGraph,
+      directPath[0],
+      directPath[directPath.length - 1],
+      getGraphPathOptions(options, "V2"),
+    ).map(graphPathTokens);
+  }
+  if (!canUseFallbackPaths(options)) return [];
+
+  const hopPath = buildV2PathWithHop(fromToken, toToken, wrappedToken.address);
+  const shouldProbeHopPath =
+    !isSameAssetPath(directPath) &&
+    hopPath.length !== directPath.length &&
+    !hasAdjacentDuplicateAddresses(hopPath) &&
+    canHopThroughWrapped(options, wrappedToken);
+  return shouldProbeHopPath ? [directPath, hopPath] : [directPath];
+}
+
+/**
+ * Candidate V3 paths (tokens + fees), ordered by hop count: graph paths when
+ * available, otherwise every fee tier directly and through the wrapped token.
+ */
+function getV3Candidates(
+  fromToken: Token,
+  toToken: Token,
+  wrappedToken: Token,
+  options: RoutingOptions,
+): Array<{ tokens: string[]; fees: number[] }> {
+  const wrappedTokenAddress = wrappedToken.address;
+  const fromERC20 = getERC20Address(fromToken.address, wrappedTokenAddress);
+  const toERC20 = getERC20Address(toToken.address, wrappedTokenAddress);
+
+  if (options.routeGraph) {
+    return findGraphPaths(options.routeGraph, fromERC20, toERC20, getGraphPathOptions(options, "V3")).map((path) => ({
+      tokens: graphPathTokens(path),
+      fees: path.hops.map((hop) => hop.edge.fee ?? V3_FEE_TIERS.MEDIUM),
+    }));
+  }
+  if (!canUseFallbackPaths(options)) return [];
+
+  const feeTiers = [
+    V3_FEE_TIERS.LOWEST,
+    V3_FEE_TIERS.LOW,
+    V3_FEE_TIERS.MEDIUM,
+    V3_FEE_TIERS.HIGH,
+    V3_FEE_TIERS.ULTRA_HIGH,
+  ].filter((fee) => !options.filters || isFeeTierAllowed(options.filters, fee));
+  const canUseMultiHop =
+    fromERC20.toLowerCase() !== wrappedTokenAddress.toLowerCase() &&
+    toERC20.toLowerCase() !== wrappedTokenAddress.toLowerCase() &&
+    canHopThroughWrapped(options, wrappedToken);
+
+  return [
+    ...feeTiers.map((fee) => ({ tokens: [fromERC20, toERC20], fees: [fee] })),
+    ...(canUseMultiHop
+      ? feeTiers.flatMap((fee1) =>
+          feeTiers.map((fee2) => ({
+            tokens: [fromERC20, wrappedTokenAddress, toERC20],
+            fees: [fee1, fee2],
+          })),
+        )
+      : []),
+  ];
+}
+
+/**
+ * Get V2 quote for a swap.
+ * With a route graph, every V2-only path up to `maxHops` is quoted; otherwise
+ * the direct pair and the hop through the wrapped token are tried.
  */
 export async function getV2Quote(
   provider: Provider,
@@ -253,14 +626,10 @@ export async function getV2Quote(
   amountIn: bigint,
   wrappedToken: Token,
   signal?: AbortSignal,
+  options: RoutingOptions = {},
 ): Promise<QuoteResult | null> {
   try {
     const router = new Contract(routerAddress, V2_ROUTER_ABI, provider);
-    const wrappedTokenAddress = wrappedToken.address;
-
-    const directPath = buildV2Path(fromToken, toToken, wrappedTokenAddress);
-    const hopPath = buildV2PathWithHop(fromToken, toToken, wrappedTokenAddress);
-
     const testIn = getProbeAmount(amountIn);
 
     const calcV2Impact = (spotOut: bigint, outputAmount: bigint): number => {
@@ -270,66 +639,93 @@ export async function getV2Quote(
       return Number((num * 10000n) / (spotOut * amountIn)) / 100;
     };
 
-    const isSameAssetDirectPath = isSameAssetPath(directPath);
-    const shouldProbeHopPath =
-      !isSameAssetDirectPath &&
-      hopPath.length !== directPath.length &&
-      !hasAdjacentDuplicateAddresses(hopPath);
+    const candidatePaths = getV2CandidatePaths(fromToken, toToken, wrappedToken, options);
 
-    const [directResult, hopResult] = await Promise.allSettled([
-      quoteWithRetry(() => router.getAmountsOut(amountIn, directPath), 2, 80, signal),
-      shouldProbeHopPath
-        ? quoteWithRetry(() => router.getAmountsOut(amountIn, hopPath), 2, 80, signal)
-        : Promise.resolve(null),
-    ]);
+    const failures = new Map<string[], string>();
+    const localOutputs = await quoteV2PathsLocal(provider, options, candidatePaths, amountIn, signal);
+    const outputs = localOutputs ?? await mapWithConcurrency(
+      candidatePaths,
+      V3_QUOTE_CONCURRENCY,
+      async (path) => {
+        try {
+          const amounts = await quoteWithRetry(() => router.getAmountsOut(amountIn, path), 2, 80, signal);
+          return amounts[amounts.length - 1] as bigint;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          failures.set(path, describeQuoteFailure(error));
+          return null;
+        }
+      },
+      signal,
+    );
 
     let bestOutputAmount: bigint | null = null;
+    let bestScore: bigint | null = null;
     let bestPath: string[] = [];
 
-    if (directResult.status === "fulfilled" && directResult.value) {
-      const outputAmount = directResult.value[directResult.value.length - 1];
-      if (outputAmount > 0n) {
+    outputs.forEach((outputAmount, i) => {
+      if (!outputAmount || outputAmount <= 0n) return;
+      const score = netScore(options, outputAmount, estimateSegmentGas("V2", candidatePaths[i].length - 1));
+      if (bestScore === null || score > bestScore) {
         bestOutputAmount = outputAmount;
-        bestPath = directPath;
+        bestScore = score;
+        bestPath = candidatePaths[i];
       }
-    }
-
-    if (hopResult.status === "fulfilled" && hopResult.value) {
-      const outputAmount = hopResult.value[hopResult.value.length - 1];
-      if (outputAmount > 0n && (!bestOutputAmount || outputAmount > bestOutputAmount)) {
-        bestOutputAmount = outputAmount;
-        bestPath = hopPath;
+    });
+
+    const buildV2Route = (path: string[]) => buildRouteHops(
+      path,
+      path.slice(1).map(() => "V2" as const),
+      [],
+      fromToken,
+      toToken,
+      wrappedToken,
+      options.routeGraph,
+    );
+    const reportLosingPaths = () => candidatePaths.forEach((path, i) => {
+      if (path === bestPath) return;
+      const pathOutput = outputs[i];
+      if (!pathOutput || pathOutput <= 0n) {
+        const reason = failures.get(path) ?? (localOutputs && pathOutput === null ? "No pair for a hop on this path" : "No liquidity");
+        reportCandidate(options, "V2", buildV2Route(path), reason);
+        return;
       }
-    }
+      // Losing paths get an impact only when it can be computed from the local snapshot
+      const spot = localOutputs ? getV2AmountsOutLocal(options.v2Reserves!.factoryAddress, path, testIn) : null;
+      const impact = spot ? calcV2Impact(spot[spot.length - 1], pathOutput) : Number.NaN;
+      reportCandidate(options, "V2", buildV2Route(path), {
+        protocol: "V2",
+        outputAmount: pathOutput,
+        route: buildV2Route(path),
+        priceImpact: Number.isFinite(impact) ? impact : undefined,
+      });
+    });
 
-    let bestPriceImpact: number | undefined;
-    if (bestOutputAmount && bestPath.length > 0) {
-      try {
-        const spotAmounts = await quoteWithRetry(() => router.getAmountsOut(testIn, bestPath), 2, 80, signal);
-        const probeImpact = calcV2Impact(spotAmounts[spotAmounts.length - 1], bestOutputAmount);
-        bestPriceImpact = Number.isFinite(probeImpact) ? probeImpact : undefined;
-      } catch {
-        // probe failed — impact unavailable
-      }
+    if (!bestOutputAmount || bestPath.length === 0) {
+      reportLosingPaths();
+      return null;
     }
+    const outputAmount: bigint = bestOutputAmount;
 
-    if (!bestOutputAmount || bestPath.length === 0) return null;
-
-    const route: RouteHop[] = [];
-    for (let i = 0; i < bestPath.length - 1; i++) {
-      route.push({
-        tokenIn: i === 0 ? fromToken : getTokenForAddress(bestPath[i], fromToken, toToken, wrappedToken),
-        tokenOut: i === bestPath.length - 2 ? toToken : getTokenForAddress(bestPath[i + 1], fromToken, toToken, wrappedToken),
-        protocol: "V2",
-      });
+    let bestPriceImpact: number | undefined;
+    try {
+      const spotAmounts = (localOutputs && getV2AmountsOutLocal(options.v2Reserves!.factoryAddress, bestPath, testIn))
+        ?? await quoteWithRetry(() => router.getAmountsOut(testIn, bestPath), 2, 80, signal);
+      const probeImpact = calcV2Impact(spotAmounts[spotAmounts.length - 1], outputAmount);
+      bestPriceImpact = Number.isFinite(probeImpact) ? probeImpact : undefined;
+    } catch {
+      // probe failed — impact unavailable
     }
 
-    return {
+    const quote: QuoteResult = {
       protocol: "V2",
-      outputAmount: bestOutputAmount,
-      route,
+      outputAmount,
+      route: buildV2Route(bestPath),
       priceImpact: bestPriceImpact,
     };
+    reportCandidate(options, "V2", quote.route, quote);
+    reportLosingPaths();
+    return quote;
   } catch (error) {
     console.error("V2 quote failed:", error);
     return null;
@@ -338,8 +734,9 @@ export async function getV2Quote(
 
 /**
  * Get V3 quote for a swap (single-hop and multi-hop)
- * V3 only works with ERC20 tokens, so native tokens must use wrapped address
- * All fee tier queries run in parallel for maximum speed.
+ * V3 only works with ERC20 tokens, so native tokens must use wrapped address.
+ * With a route graph, every V3-only path up to `maxHops` is quoted; otherwise
+ * all fee tiers are tried directly and through the wrapped token.
  */
 export async function getV3Quote(
   provider: Provider,
@@ -349,6 +746,7 @@ export async function getV3Quote(
   amountIn: bigint,
   wrappedToken: Token,
   signal?: AbortSignal,
+  options: RoutingOptions = {},
 ): Promise<QuoteResult | null> {
   try {
     const wrappedTokenAddress = wrappedToken.address;
@@ -363,17 +761,6 @@ export async function getV3Quote(
 
     const quoter = new Contract(quoterAddress, QUOTER_V2_ABI, provider);
 
-    const feeTiers = [
-      V3_FEE_TIERS.LOWEST,
-      V3_FEE_TIERS.LOW,
-      V3_FEE_TIERS.MEDIUM,
-      V3_FEE_TIERS.HIGH,
-      V3_FEE_TIERS.ULTRA_HIGH,
-    ];
-
-    const fromERC20 = getERC20Address(fromToken.address, wrappedTokenAddress);
-    const toERC20 = getERC20Address(toToken.address, wrappedTokenAddress);
-
     const testIn = getProbeAmount(amountIn);
 
     const calcV3Impact = (spotOut: bigint, outputAmount: bigint): number => {
@@ -383,181 +770,651 @@ export async function getV3Quote(
       return Number((num * 10000n) / (spotOut * amountIn)) / 100;
     };
 
-    // ── Single-hop: capped concurrency across fee tiers ────────────────────────
-    const singleHopResults = await mapWithConcurrency(feeTiers, V3_QUOTE_CONCURRENCY, async (fee) => {
-      try {
-        const actualResult = await quoteWithRetry(() =>
-          quoter.quoteExactInputSingle.staticCall({
-            tokenIn: fromERC20,
-            tokenOut: toERC20,
-            amountIn,
-            fee,
-            sqrtPriceLimitX96: 0n,
-          }),
-          2,
-          80,
+    // Candidates are ordered by hop count, so ties keep the shorter path
+    const candidates = getV3Candidates(fromToken, toToken, wrappedToken, options);
+
+    // ── Local simulation: only the best simulated path needs an on-chain quote ──
+    const simulated = await mapWithConcurrency(
+      candidates,
+      V3_QUOTE_CONCURRENCY,
+      (candidate) => simulateV3Path(provider, options, candidate.tokens, candidate.fees, amountIn, signal),
+      signal,
+    );
+    const simulatedScore = (i: number) =>
+      netScore(options, simulated[i]!, estimateSegmentGas("V3", candidates[i].fees.length));
+    let bestSimulated = -1;
+    simulated.forEach((out, i) => {
+      if (out !== null && out > 0n && (bestSimulated < 0 || simulatedScore(i) > simulatedScore(bestSimulated))) bestSimulated = i;
+    });
+    const toQuote = candidates.filter((_, i) => simulated[i] === null || i === bestSimulated);
+
+    // ── Capped concurrency across every candidate path ─────────────────────────
+    const failures = new Map<(typeof candidates)[number], string>();
+    const results = await mapWithConcurrency(
+      toQuote,
+      V3_QUOTE_CONCURRENCY,
+      async (candidate) => {
+        try {
+          const path = encodePath(candidate.tokens, candidate.fees);
+          const actualResult = await quoteWithRetry(() => quoter.quoteExactInput.staticCall(path, amountIn), 2, 80, signal);
+          return {
+            ...candidate,
+            path,
+            outputAmount: actualResult[0] as bigint,
+            gasEstimate: actualResult[3] as bigint,
+          };
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          failures.set(candidate, describeQuoteFailure(error));
+          return null;
+        }
+      },
+      signal,
+    );
+
+    const buildV3Route = (candidate: { tokens: string[]; fees: number[] }) => buildRouteHops(
+      candidate.tokens,
+      candidate.fees.map(() => "V3" as const),
+      candidate.fees,
+      fromToken,
+      toToken,
+      wrappedToken,
+      options.routeGraph,
+    );
+    // Losing candidates keep their simulated output when they weren't quoted on-chain
+    const reportLosingCandidates = async (winner: { tokens: string[]; fees: number[] } | null) => {
+      if (!options.onCandidate) return;
+      const quoted = new Map(toQuote.map((candidate, i) => [candidate, results[i]]));
+      await mapWithConcurrency(
+        candidates.map((candidate, index) => ({ candidate, index })),
+        V3_QUOTE_CONCURRENCY,
+        async ({ candidate, index }) => {
+          if (winner && candidate.tokens === winner.tokens && candidate.fees === winner.fees) return;
+          const route = buildV3Route(candidate);
+          if (quoted.has(candidate) && !quoted.get(candidate)) {
+            reportCandidate(options, "V3", route, failures.get(candidate) ?? "Quote failed");
+            return;
+          }
+          const onChain = quoted.get(candidate);
+          const outputAmount = onChain ? onChain.outputAmount : simulated[index];
+          if (!outputAmount || outputAmount <= 0n) {
+            reportCandidate(options, "V3", route, "No liquidity");
+            return;
+          }
+          const spot = await simulateV3Path(provider, options, candidate.tokens, candidate.fees, testIn, signal);
+          const impact = spot !== null ? calcV3Impact(spot, outputAmount) : Number.NaN;
+          reportCandidate(options, "V3", route, {
+            protocol: "V3",
+            outputAmount,
+            gasEstimate: onChain?.gasEstimate,
+            priceImpact: Number.isFinite(impact) ? impact : undefined,
+            route,
+          });
+        },
+        signal,
+      );
+    };
+
+    let best: {
+      tokens: string[];
+      fees: number[];
+      path: string;
+      outputAmount: bigint;
+      gasEstimate: bigint;
+    } | null = null;
+
+    const resultScore = (r: NonNullable<(typeof results)[number]>) =>
+      netScore(options, r.outputAmount, estimateSegmentGas("V3", r.fees.length, r.gasEstimate));
+    for (const r of results) {
+      if (r && r.outputAmount > 0n && (!best || resultScore(r) > resultScore(best))) {
+        best = r;
+      }
+    }
+
+    if (!best) {
+      await reportLosingCandidates(null);
+      return null;
+    }
+    const chosen = best;
+
+    let priceImpact: number | undefined;
+    try {
+      const spotResult = await quoteWithRetry(() => quoter.quoteExactInput.staticCall(chosen.path, testIn), 2, 80, signal);
+      const probeImpact = calcV3Impact(spotResult[0], chosen.outputAmount);
+      priceImpact = Number.isFinite(probeImpact) ? probeImpact : undefined;
+    } catch {
+      // probe failed — impact unavailable
+    }
+
+    const quote: QuoteResult = {
+      protocol: "V3",
+      outputAmount: chosen.outputAmount,
+      gasEstimate: chosen.gasEstimate,
+      priceImpact,
+      route: buildV3Route(chosen),
+    };
+    reportCandidate(options, "V3", quote.route, quote);
+    await reportLosingCandidates(chosen);
+    return quote;
+  } catch (error) {
+    console.error("V3 quote failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Get quote for routes that mix V2 and V3 pools (e.g. token → USDC on V2, USDC → token on V3).
+ * Requires a route graph; each same-protocol segment is quoted in sequence.
+ */
+export async function getMixedQuote(
+  provider: Provider,
+  v2RouterAddress: string,
+  v3QuoterAddress: string,
+  fromToken: Token,
+  toToken: Token,
+  amountIn: bigint,
+  wrappedToken: Token,
+  signal?: AbortSignal,
+  options: RoutingOptions = {},
+): Promise<QuoteResult | null> {
+  if (!options.routeGraph) return null;
+
+  try {
+    const fromERC20 = getERC20Address(fromToken.address, wrappedToken.address);
+    const toERC20 = getERC20Address(toToken.address, wrappedToken.address);
+    const paths = findGraphPaths(options.routeGraph, fromERC20, toERC20, getGraphPathOptions(options, "mixed"));
+    if (paths.length === 0) return null;
+
+    const quotePath = async (path: GraphPath, amount: bigint) => {
+      let current = amount;
+      let gasEstimate = 0n;
+      const segmentOutputs: bigint[] = [];
+      for (const segment of splitPathByProtocol(path)) {
+        const protocol = segment[0].edge.protocol;
+        const result = await quoteSegmentExactIn(
+          provider,
+          protocol,
+          v2RouterAddress,
+          v3QuoterAddress,
+          [segment[0].tokenIn, ...segment.map((hop) => hop.tokenOut)],
+          segment.map((hop) => hop.edge.fee ?? V3_FEE_TIERS.MEDIUM),
+          current,
           signal,
         );
-        return {
-          fee,
-          outputAmount: actualResult[0] as bigint,
-          gasEstimate: actualResult[3] as bigint,
-        };
-      } catch {
-        return null;
+        if (result.outputAmount <= 0n) return null;
+        current = result.outputAmount;
+        gasEstimate += result.gasEstimate ?? 0n;
+        segmentOutputs.push(current);
       }
-    }, signal);
-
-    const canUseMultiHop =
-      fromERC20.toLowerCase() !== wrappedTokenAddress.toLowerCase() &&
-      toERC20.toLowerCase() !== wrappedTokenAddress.toLowerCase();
+      return { outputAmount: current, gasEstimate, segmentOutputs };
+    };
 
-    // ── Multi-hop: all 25 (fee1 × fee2) combos in parallel ────────────────────
-    const multiHopCandidates = canUseMultiHop
-      ? feeTiers.flatMap((fee1) =>
-          feeTiers.map((fee2) => ({
-            fee1,
-            fee2,
-            path: encodePath([fromERC20, wrappedTokenAddress, toERC20], [fee1, fee2]),
-          }))
-        )
-      : [];
+    const buildMixedRoute = (path: GraphPath) => buildRouteHops(
+      graphPathTokens(path),
+      path.hops.map((hop) => hop.edge.protocol),
+      path.hops.map((hop) => hop.edge.fee),
+      fromToken,
+      toToken,
+      wrappedToken,
+      options.routeGraph,
+    );
 
-    const multiHopResults = await mapWithConcurrency(
-      multiHopCandidates,
+    const results = await mapWithConcurrency(
+      paths,
       V3_QUOTE_CONCURRENCY,
-      async ({ fee1, fee2, path }) => {
-      try {
-        const actualResult = await quoteWithRetry(() => quoter.quoteExactInput.staticCall(path, amountIn), 2, 80, signal);
-        return {
-          fee1,
-          fee2,
-          path,
-          outputAmount: actualResult[0] as bigint,
-          gasEstimate: actualResult[3] as bigint,
-        };
-      } catch {
-        return null;
-      }
+      async (path) => {
+        try {
+          const quoted = await quotePath(path, amountIn);
+          if (!quoted) reportCandidate(options, "MIXED", buildMixedRoute(path), "No liquidity");
+          return quoted ? { path, ...quoted } : null;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          reportCandidate(options, "MIXED", buildMixedRoute(path), describeQuoteFailure(error));
+          return null;
+        }
       },
       signal,
     );
 
-    // Find best single-hop
-    let bestSingle: {
-      outputAmount: bigint;
-      gasEstimate: bigint;
-      fee: number;
-    } | null = null;
+    // Each segment is its own transaction, so gas grows with every protocol switch
+    const resultScore = (r: NonNullable<(typeof results)[number]>) =>
+      netScore(options, r.outputAmount, estimateMixedGas(r.path.hops.map((hop) => hop.edge.protocol), r.gasEstimate));
+    let best: (NonNullable<(typeof results)[number]>) | null = null;
+    for (const r of results) {
+      if (r && (!best || resultScore(r) > resultScore(best))) best = r;
+    }
+    if (!best) return null;
 
-    for (const r of singleHopResults) {
-      if (r && r.outputAmount > 0n && (!bestSingle || r.outputAmount > bestSingle.outputAmount)) {
-        bestSingle = r;
+    let priceImpact: number | undefined;
+    const testIn = getProbeAmount(amountIn);
+    try {
+      const spot = await quotePath(best.path, testIn);
+      if (spot && spot.outputAmount > 0n) {
+        const num = spot.outputAmount * amountIn - best.outputAmount * testIn;
+        priceImpact = num <= 0n ? 0 : Number((num * 10000n) / (spot.outputAmount * amountIn)) / 100;
       }
+    } catch {
+      // probe failed — impact unavailable
     }
 
-    // Find best multi-hop
-    let bestMultiHop: {
-      outputAmount: bigint;
-      gasEstimate: bigint;
-      fee1: number;
-      fee2: number;
-      path: string;
-    } | null = null;
+    const quote: QuoteResult = {
+      protocol: "MIXED",
+      outputAmount: best.outputAmount,
+      gasEstimate: best.gasEstimate,
+      priceImpact,
+      segmentOutputs: best.segmentOutputs,
+      route: buildMixedRoute(best.path),
+    };
+    reportCandidate(options, "MIXED", quote.route, quote);
+    for (const r of results) {
+      if (!r || r === best) continue;
+      const route = buildMixedRoute(r.path);
+      reportCandidate(options, "MIXED", route, {
+        protocol: "MIXED",
+        outputAmount: r.outputAmount,
+        gasEstimate: r.gasEstimate,
+        priceImpact: undefined,
+        segmentOutputs: r.segmentOutputs,
+        route,
+      });
+    }
+    return quote;
+  } catch (error) {
+    console.error("Mixed quote failed:", error);
+    return null;
+  }
+}
+
+// ── Gas-Adjusted Ranking ──────────────────────────────────────────────────────
+
+const SWAP_TX_GAS = 110_000n; // Intrinsic cost plus router overhead, paid once per swap transaction
+const V2_HOP_GAS = 60_000n; // The V2 router doesn't report gas; typical cost of one pair swap
+const V3_HOP_GAS = 90_000n; // Used when QuoterV2 gas isn't available (local simulation)
+const GAS_PRICE_TTL = 15 * 1000;
+const GAS_RATE_TTL = 30 * 1000;
+const ONE_USDC = 10n ** 18n; // Native USDC has 18 decimals on Arc
+
+const gasPriceCache = new Map<number, { gasPrice: bigint; fetchedAt: number }>(); // keyed by chain id
+const gasRateCache = new Map<string, { outputPerUsdc: bigint | null; fetchedAt: number }>(); // keyed by chain + output token
+
+/**
+ * Gas for one same-protocol swap transaction over `hops` pools.
+ */
+function estimateSegmentGas(protocol: "V2" | "V3", hops: number, quotedGas?: bigint): bigint {
+  if (protocol === "V2") return SWAP_TX_GAS + V2_HOP_GAS * BigInt(hops);
+  return SWAP_TX_GAS + (quotedGas ?? V3_HOP_GAS * BigInt(hops));
+}
 
-    for (const r of multiHopResults) {
-      if (r && r.outputAmount > 0n && (!bestMultiHop || r.outputAmount > bestMultiHop.outputAmount)) {
-        bestMultiHop = r;
+/**
+ * Gas for a mixed route: one transaction per same-protocol segment.
+ * `quotedV3Gas` is the QuoterV2 total for the V3 segments, when known.
+ */
+function estimateMixedGas(protocols: RouteHop["protocol"][], quotedV3Gas?: bigint): bigint {
+  let segments = 0;
+  let v2Hops = 0;
+  let v3Hops = 0;
+  protocols.forEach((protocol, i) => {
+    if (i === 0 || protocol !== protocols[i - 1]) segments++;
+    if (protocol === "V2") v2Hops++;
+    else v3Hops++;
+  });
+  const v3Gas = quotedV3Gas && quotedV3Gas > 0n ? quotedV3Gas : V3_HOP_GAS * BigInt(v3Hops);
+  return SWAP_TX_GAS * BigInt(segments) + V2_HOP_GAS * BigInt(v2Hops) + v3Gas;
+}
+
+/**
+ * Total gas to execute a quote.
+ */
+function estimateQuoteGas(quote: QuoteResult): bigint {
+  if (quote.protocol === "MIXED") {
+    return estimateMixedGas(quote.route.map((hop) => hop.protocol), quote.gasEstimate);
+  }
+  return estimateSegmentGas(quote.protocol, quote.route.length, quote.gasEstimate);
+}
+
+/**
+ * Total gas to execute a split: V3 legs share one router multicall, V2 legs are priced as their own swaps.
+ */
+function estimateSplitGas(legs: SplitRouteLeg[]): bigint {
+  let gas = 0n;
+  const v3Legs = legs.filter((leg) => leg.quote.protocol === "V3");
+  if (v3Legs.length > 0) {
+    gas += SWAP_TX_GAS;
+    for (const leg of v3Legs) gas += leg.quote.gasEstimate ?? V3_HOP_GAS * BigInt(leg.quote.route.length);
+  }
+  for (const leg of legs) {
+    if (leg.quote.protocol === "V2") gas += estimateSegmentGas("V2", leg.quote.route.length);
+  }
+  return gas;
+}
+
+function gasCostInOutput(pricing: GasPricing, gasUnits: bigint): bigint {
+  return (gasUnits * pricing.gasPrice * pricing.outputPerUsdc) / ONE_USDC;
+}
+
+/**
+ * Score used to rank candidate paths: output net of gas when pricing is known, gross otherwise.
+ */
+function netScore(options: RoutingOptions, outputAmount: bigint, gasUnits: bigint): bigint {
+  return options.gasPricing ? outputAmount - gasCostInOutput(options.gasPricing, gasUnits) : outputAmount;
+}
+
+function withGasCost(quote: QuoteResult, pricing: GasPricing | null | undefined): QuoteResult {
+  if (!pricing) return quote;
+  const gasCost = gasCostInOutput(pricing, estimateQuoteGas(quote));
+  return { ...quote, gasCostInOutput: gasCost, netOutputAmount: quote.outputAmount - gasCost };
+}
+
+async function getGasPrice(provider: Provider, chainId: number): Promise<bigint | null> {
+  const cached = gasPriceCache.get(chainId);
+  if (cached && Date.now() - cached.fetchedAt < GAS_PRICE_TTL) return cached.gasPrice;
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas;
+  if (gasPrice === null) return null;
+  gasPriceCache.set(chainId, { gasPrice, fetchedAt: Date.now() });
+  return gasPrice;
+}
+
+/**
+ * Output-token units per 1 USDC. USDC and wUSDC outputs are 1:1; anything else
+ * is priced by quoting 1 wUSDC into the output token.
+ */
+async function getOutputPerUsdc(
+  provider: Provider,
+  v2RouterAddress: string,
+  v3QuoterAddress: string,
+  toToken: Token,
+  wrappedToken: Token,
+  v2Enabled: boolean,
+  v3Enabled: boolean,
+  signal: AbortSignal | undefined,
+  options: RoutingOptions,
+): Promise<bigint | null> {
+  if (isNativeToken(toToken.address) || toToken.address.toLowerCase() === wrappedToken.address.toLowerCase()) {
+    return 10n ** BigInt(toToken.decimals);
+  }
+
+  const key = `${toToken.chainId}:${toToken.address.toLowerCase()}`;
+  const cached = gasRateCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < GAS_RATE_TTL) return cached.outputPerUsdc;
+
+  const reference = 10n ** BigInt(wrappedToken.decimals);
+  const referenceOptions: RoutingOptions = { ...options, gasPricing: null, onCandidate: undefined };
+  const [v2, v3] = await Promise.all([
+    v2Enabled ? getV2Quote(provider, v2RouterAddress, wrappedToken, toToken, reference, wrappedToken, signal, referenceOptions) : null,
+    v3Enabled ? getV3Quote(provider, v3QuoterAddress, wrappedToken, toToken, reference, wrappedToken, signal, referenceOptions) : null,
+  ]);
+  const best = [v2, v3].reduce<bigint | null>(
+    (max, quote) => (quote && (max === null || quote.outputAmount > max) ? quote.outputAmount : max),
+    null,
+  );
+  gasRateCache.set(key, { outputPerUsdc: best, fetchedAt: Date.now() });
+  return best;
+}
+
+/**
+ * Price gas in output-token terms for ranking. Returns null when the gas price
+ * or the USDC rate is unavailable, in which case routes are ranked by gross output.
+ */
+async function getGasPricing(
+  provider: Provider,
+  v2RouterAddress: string,
+  v3QuoterAddress: string,
+  toToken: Token,
+  wrappedToken: Token,
+  v2Enabled: boolean,
+  v3Enabled: boolean,
+  signal: AbortSignal | undefined,
+  options: RoutingOptions,
+): Promise<GasPricing | null> {
+  try {
+    const [gasPrice, outputPerUsdc] = await Promise.all([
+      getGasPrice(provider, toToken.chainId),
+      getOutputPerUsdc(provider, v2RouterAddress, v3QuoterAddress, toToken, wrappedToken, v2Enabled, v3Enabled, signal, options),
+    ]);
+    if (gasPrice === null || !outputPerUsdc) return null;
+    return { gasPrice, outputPerUsdc };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn("[SmartRouting] Gas pricing unavailable, ranking by gross output:", error);
+    return null;
+  }
+}
+
+// ── Split Routing ─────────────────────────────────────────────────────────────
+
+const SPLIT_STEPS = 10; // Allocate input in 10% increments
+const SPLIT_MAX_LEGS = 3;
+const SPLIT_MIN_IMPROVEMENT_BPS = 10n; // Split must beat the best single route by 0.1%
+
+/**
+ * Quote an arbitrary V2 or V3 route for a given input amount.
+ * Returns null when the route cannot be quoted (missing pool, revert, zero output).
+ */
+async function quoteRouteExactIn(
+  provider: Provider,
+  v2RouterAddress: string,
+  v3QuoterAddress: string,
+  quote: QuoteResult,
+  amountIn: bigint,
+  wrappedTokenAddress: string,
+  signal?: AbortSignal,
+  options: RoutingOptions = {},
+): Promise<{ outputAmount: bigint; gasEstimate?: bigint } | null> {
+  if (amountIn <= 0n) return { outputAmount: 0n };
+
+  const tokens = [
+    getERC20Address(quote.route[0].tokenIn.address, wrappedTokenAddress),
+    ...quote.route.map((hop) => getERC20Address(hop.tokenOut.address, wrappedTokenAddress)),
+  ];
+  const fees = quote.route.map((hop) => hop.fee || V3_FEE_TIERS.MEDIUM);
+
+  if (quote.protocol === "MIXED") return null;
+
+  if (quote.protocol === "V3") {
+    const simulated = await simulateV3Path(provider, options, tokens, fees, amountIn, signal);
+    if (simulated !== null) return simulated > 0n ? { outputAmount: simulated } : null;
+  } else {
+    const local = await quoteV2PathsLocal(provider, options, [tokens], amountIn, signal);
+    if (local) return local[0] && local[0] > 0n ? { outputAmount: local[0] } : null;
+  }
+
+  try {
+    const result = await quoteSegmentExactIn(
+      provider,
+      quote.protocol,
+      v2RouterAddress,
+      v3QuoterAddress,
+      tokens,
+      fees,
+      amountIn,
+      signal,
+    );
+    return result.outputAmount > 0n ? result : null;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return null;
+  }
+}
+
+function getRouteKey(quote: { protocol: RouteCandidate["protocol"]; route: RouteHop[] }): string {
+  return `${quote.protocol}:${quote.route
+    .map((hop) => `${hop.tokenIn.address.toLowerCase()}>${hop.tokenOut.address.toLowerCase()}@${hop.fee ?? 0}`)
+    .join("|")}`;
+}
+
+/**
+ * Find the best allocation of amountIn across several candidate routes.
+ *
+ * Each route is quoted at every SPLIT_STEPS increment, then a knapsack-style
+ * DP picks the step allocation that maximises total output. Returns null when
+ * no split beats the best single route by SPLIT_MIN_IMPROVEMENT_BPS.
+ * With V3 simulation or V2 reserve snapshots enabled, step quotes are computed
+ * locally and only the chosen legs are re-quoted on-chain.
+ */
+export async function getSplitRouteQuote(
+  provider: Provider,
+  v2RouterAddress: string,
+  v3QuoterAddress: string,
+  candidates: QuoteResult[],
+  amountIn: bigint,
+  wrappedToken: Token,
+  signal?: AbortSignal,
+  options: RoutingOptions = {},
+): Promise<SplitQuoteResult | null> {
+  const seen = new Set<string>();
+  const routes = candidates.filter((quote) => {
+    if (quote.route.length === 0) return false;
+    const key = getRouteKey(quote);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (routes.length < 2 || amountIn < BigInt(SPLIT_STEPS)) return null;
+
+  const stepAmount = (step: number) => (amountIn * BigInt(step)) / BigInt(SPLIT_STEPS);
+
+  // outputs[r][s] = output of route r when given s steps of the input
+  const outputs: Array<Array<{ outputAmount: bigint; gasEstimate?: bigint } | null>> = routes.map((quote) => {
+    const row = new Array<{ outputAmount: bigint; gasEstimate?: bigint } | null>(SPLIT_STEPS + 1).fill(null);
+    row[0] = { outputAmount: 0n };
+    row[SPLIT_STEPS] = { outputAmount: quote.outputAmount, gasEstimate: quote.gasEstimate };
+    return row;
+  });
+
+  const tasks = routes.flatMap((_, routeIndex) =>
+    Array.from({ length: SPLIT_STEPS - 1 }, (_, i) => ({ routeIndex, step: i + 1 })),
+  );
+
+  const results = await mapWithConcurrency(
+    tasks,
+    V3_QUOTE_CONCURRENCY,
+    ({ routeIndex, step }) =>
+      quoteRouteExactIn(
+        provider,
+        v2RouterAddress,
+        v3QuoterAddress,
+        routes[routeIndex],
+        stepAmount(step),
+        wrappedToken.address,
+        signal,
+        options,
+      ),
+    signal,
+  );
+  tasks.forEach(({ routeIndex, step }, i) => {
+    outputs[routeIndex][step] = results[i];
+  });
+
+  // best[r][s] = { output, legs } using routes [0..r) and exactly s steps
+  type Allocation = { output: bigint; steps: number[] };
+  let best: Array<Allocation | null> = Array.from({ length: SPLIT_STEPS + 1 }, (_, s) =>
+    s === 0 ? { output: 0n, steps: [] } : null,
+  );
+
+  for (let r = 0; r < routes.length; r++) {
+    const next: Array<Allocation | null> = best.map((entry) =>
+      entry ? { output: entry.output, steps: [...entry.steps, 0] } : null,
+    );
+    for (let total = 1; total <= SPLIT_STEPS; total++) {
+      for (let take = 1; take <= total; take++) {
+        const prev = best[total - take];
+        const leg = outputs[r][take];
+        if (!prev || !leg) continue;
+        const usedLegs = prev.steps.filter((s) => s > 0).length;
+        if (usedLegs >= SPLIT_MAX_LEGS) continue;
+        const output = prev.output + leg.outputAmount;
+        const current = next[total];
+        if (!current || output > current.output) {
+          next[total] = { output, steps: [...prev.steps, take] };
+        }
       }
     }
+    best = next;
+  }
 
-    if (!bestSingle && !bestMultiHop) {
-      return null;
-    }
+  const allocation = best[SPLIT_STEPS];
+  if (!allocation) return null;
 
-    const useMultiHop = !!(
-      bestMultiHop && (!bestSingle || bestMultiHop.outputAmount > bestSingle.outputAmount)
-    );
+  const usedRoutes = allocation.steps
+    .map((steps, routeIndex) => ({ steps, routeIndex }))
+    .filter(({ steps }) => steps > 0);
+  if (usedRoutes.length < 2) return null;
 
-    let priceImpact: number | undefined;
-    try {
-      if (useMultiHop && bestMultiHop) {
-        const spotResult = await quoteWithRetry(() => quoter.quoteExactInput.staticCall(bestMultiHop.path, testIn), 2, 80, signal);
-        const probeImpact = calcV3Impact(spotResult[0], bestMultiHop.outputAmount);
-        priceImpact = Number.isFinite(probeImpact) ? probeImpact : undefined;
-      } else if (bestSingle) {
-        const spotResult = await quoteWithRetry(() =>
-          quoter.quoteExactInputSingle.staticCall({
-            tokenIn: fromERC20,
-            tokenOut: toERC20,
-            amountIn: testIn,
-            fee: bestSingle.fee,
-            sqrtPriceLimitX96: 0n,
-          }),
-          2,
-          80,
-          signal,
-        );
-        const probeImpact = calcV3Impact(spotResult[0], bestSingle.outputAmount);
-        priceImpact = Number.isFinite(probeImpact) ? probeImpact : undefined;
-      }
-    } catch {
-      // probe failed — impact unavailable
-    }
+  const bestSingleOutput = routes.reduce((max, quote) => (quote.outputAmount > max ? quote.outputAmount : max), 0n);
+  if (allocation.output * 10000n <= bestSingleOutput * (10000n + SPLIT_MIN_IMPROVEMENT_BPS)) {
+    return null;
+  }
 
-    if (useMultiHop && bestMultiHop) {
-      const wrappedIntermediateToken = getTokenForAddress(
-        wrappedTokenAddress,
-        fromToken,
-        toToken,
-        wrappedToken,
-      );
-      return {
-        protocol: "V3",
-        outputAmount: bestMultiHop.outputAmount,
-        gasEstimate: bestMultiHop.gasEstimate,
-        priceImpact,
-        route: [
-          {
-            tokenIn: fromToken,
-            tokenOut: wrappedIntermediateToken,
-            protocol: "V3",
-            fee: bestMultiHop.fee1,
-          },
-          {
-            tokenIn: wrappedIntermediateToken,
-            tokenOut: toToken,
-            protocol: "V3",
-            fee: bestMultiHop.fee2,
-          },
-        ],
-      };
-    }
+  // Assign any rounding dust to the largest leg so the legs sum to amountIn exactly
+  const largest = usedRoutes.reduce((a, b) => (b.steps > a.steps ? b : a));
+  let assigned = 0n;
+  const legs: SplitRouteLeg[] = usedRoutes.map(({ steps, routeIndex }) => {
+    const legAmount = stepAmount(steps);
+    assigned += legAmount;
+    const quoted = outputs[routeIndex][steps]!;
+    return {
+      quote: {
+        ...routes[routeIndex],
+        outputAmount: quoted.outputAmount,
+        gasEstimate: quoted.gasEstimate,
+        priceImpact: undefined,
+      },
+      amountIn: legAmount,
+      shareBps: (steps * 10000) / SPLIT_STEPS,
+    };
+  });
+  const dust = amountIn - assigned;
+  if (dust > 0n) {
+    legs[usedRoutes.indexOf(largest)].amountIn += dust;
+  }
 
-    if (bestSingle) {
-      return {
-        protocol: "V3",
-        outputAmount: bestSingle.outputAmount,
-        gasEstimate: bestSingle.gasEstimate,
-        priceImpact,
-        route: [{
-          tokenIn: fromToken,
-          tokenOut: toToken,
-          protocol: "V3",
-          fee: bestSingle.fee,
-        }],
-      };
+  let totalOutput = allocation.output;
+  if (options.v3Simulation || options.v2Reserves) {
+    const confirmed = await Promise.all(
+      legs.map((leg) =>
+        quoteRouteExactIn(provider, v2RouterAddress, v3QuoterAddress, leg.quote, leg.amountIn, wrappedToken.address, signal),
+      ),
+    );
+    if (confirmed.some((c) => !c)) return null;
+    legs.forEach((leg, i) => {
+      leg.quote.outputAmount = confirmed[i]!.outputAmount;
+      leg.quote.gasEstimate = confirmed[i]!.gasEstimate;
+    });
+    totalOutput = legs.reduce((sum, leg) => sum + leg.quote.outputAmount, 0n);
+    if (totalOutput * 10000n <= bestSingleOutput * (10000n + SPLIT_MIN_IMPROVEMENT_BPS)) {
+      return null;
     }
+  }
 
-    return null;
-  } catch (error) {
-    console.error("V3 quote failed:", error);
-    return null;
+  // Impact is measured against the spot-equivalent output of the best single route
+  const reference = routes.find((quote) => quote.outputAmount === bestSingleOutput)!;
+  let priceImpact: number | undefined;
+  if (reference.priceImpact !== undefined && reference.priceImpact < 100) {
+    const impactBps = BigInt(Math.round(reference.priceImpact * 100));
+    const spotOutput = (reference.outputAmount * 10000n) / (10000n - impactBps);
+    if (spotOutput > 0n) {
+      const num = spotOutput - totalOutput;
+      priceImpact = num <= 0n ? 0 : Number((num * 10000n) / spotOutput) / 100;
+    }
   }
+
+  const gasEstimates = legs.map((leg) => leg.quote.gasEstimate);
+  const gasEstimate = gasEstimates.every((g) => g !== undefined)
+    ? gasEstimates.reduce<bigint>((sum, g) => sum + (g as bigint), 0n)
+    : undefined;
+
+  return {
+    legs,
+    outputAmount: totalOutput,
+    priceImpact,
+    gasEstimate,
+  };
 }
 
 /**
- * Get best quote from V2 and V3
+ * Get best quote from V2, V3 and mixed V2/V3 paths, splitting the input across routes when that pays more
  */
 export async function getSmartRouteQuote(
   provider: Provider,
@@ -570,52 +1427,134 @@ export async function getSmartRouteQuote(
   v2Enabled: boolean,
   v3Enabled: boolean,
   signal?: AbortSignal,
+  options: RoutingOptions = {},
 ): Promise<SmartRoutingResult | null> {
   try {
+    const gasPricing = options.gasPricing !== undefined
+      ? options.gasPricing
+      : await getGasPricing(provider, v2RouterAddress, v3QuoterAddress, toToken, wrappedToken, v2Enabled, v3Enabled, signal, options);
+    const reported: RouteCandidate[] = [];
+    const routingOptions: RoutingOptions = { ...options, gasPricing, onCandidate: (candidate) => reported.push(candidate) };
+
     const quotes = await Promise.allSettled([
-      v2Enabled ? getV2Quote(provider, v2RouterAddress, fromToken, toToken, amountIn, wrappedToken, signal) : Promise.resolve(null),
-      v3Enabled ? getV3Quote(provider, v3QuoterAddress, fromToken, toToken, amountIn, wrappedToken, signal) : Promise.resolve(null),
+      v2Enabled ? getV2Quote(provider, v2RouterAddress, fromToken, toToken, amountIn, wrappedToken, signal, routingOptions) : Promise.resolve(null),
+      v3Enabled ? getV3Quote(provider, v3QuoterAddress, fromToken, toToken, amountIn, wrappedToken, signal, routingOptions) : Promise.resolve(null),
+      v2Enabled && v3Enabled
+        ? getMixedQuote(provider, v2RouterAddress, v3QuoterAddress, fromToken, toToken, amountIn, wrappedToken, signal, routingOptions)
+        : Promise.resolve(null),
     ]);
     
-    const v2Quote = quotes[0].status === "fulfilled" ? quotes[0].value : null;
-    const v3Quote = quotes[1].status === "fulfilled" ? quotes[1].value : null;
+    const v2Quote = quotes[0].status === "fulfilled" && quotes[0].value ? withGasCost(quotes[0].value, gasPricing) : null;
+    const v3Quote = quotes[1].status === "fulfilled" && quotes[1].value ? withGasCost(quotes[1].value, gasPricing) : null;
+    const mixedQuote = quotes[2].status === "fulfilled" && quotes[2].value ? withGasCost(quotes[2].value, gasPricing) : null;
     
-    // Choose best quote
-    let bestQuote: QuoteResult | null = null;
-    const alternativeQuotes: QuoteResult[] = [];
+    // Choose best quote by output net of gas (gross when gas can't be priced);
+    // on ties earlier entries win (V3 over V2, either over mixed). Mixed routes
+    // are priced with one swap per same-protocol segment, which is how they run
+    const rankingAmount = (q: QuoteResult) => q.netOutputAmount ?? q.outputAmount;
+    const ranked = [v3Quote, v2Quote, mixedQuote]
+      .filter((q): q is QuoteResult => q !== null)
+      .sort((a, b) => {
+        const diff = rankingAmount(b) - rankingAmount(a);
+        return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+      });
     
-    if (v2Quote && v3Quote) {
-      if (v2Quote.outputAmount > v3Quote.outputAmount) {
-        bestQuote = v2Quote;
-        alternativeQuotes.push(v3Quote);
-      } else {
-        bestQuote = v3Quote;
-        alternativeQuotes.push(v2Quote);
-      }
-    } else if (v2Quote) {
-      bestQuote = v2Quote;
-    } else if (v3Quote) {
-      bestQuote = v3Quote;
+    if (ranked.length === 0) {
+      return null;
     }
-    
-    if (!bestQuote) {
+
+    const [bestQuote, ...alternativeQuotes] = ranked;
+
+    // Mixed routes hop between routers and can't be re-quoted as one leg. A wallet can
+    // only send a split as one transaction through the V3 router's multicall, so it
+    // splits across the best distinct V3 paths; the relayer's executeSplit also takes V2 legs
+    const splitCandidates = options.v3OnlySplits
+      ? reported
+          .flatMap((candidate) => (candidate.protocol === "V3" && candidate.quote ? [candidate.quote] : []))
+          .sort((a, b) => (b.outputAmount > a.outputAmount ? 1 : b.outputAmount < a.outputAmount ? -1 : 0))
+          .slice(0, SPLIT_MAX_LEGS)
+      : ranked.filter((q) => q.protocol !== "MIXED");
+    let split = await getSplitRouteQuote(
+      provider,
+      v2RouterAddress,
+      v3QuoterAddress,
+      splitCandidates,
+      amountIn,
+      wrappedToken,
+      signal,
+      routingOptions,
+    ).catch((error) => {
+      if (signal?.aborted) throw error;
+      console.warn("Split routing failed:", error);
       return null;
+    });
+
+    // Extra legs cost extra gas; keep the split only if it still wins after paying for them
+    if (split && gasPricing) {
+      const gasCost = gasCostInOutput(gasPricing, estimateSplitGas(split.legs));
+      const netOutputAmount = split.outputAmount - gasCost;
+      split = netOutputAmount > rankingAmount(bestQuote) ? { ...split, gasCostInOutput: gasCost, netOutputAmount } : null;
     }
-    
-    return {
+
+    const base = {
       bestQuote,
       v2Quote: v2Quote || undefined,
       v3Quote: v3Quote || undefined,
+      mixedQuote: mixedQuote || undefined,
       alternativeQuotes,
       timestamp: Date.now(),
       inputAmount: amountIn,
+      candidates: rankCandidates(reported, gasPricing, split ? null : bestQuote),
     };
+
+    return split ? { ...base, kind: "split", split } : { ...base, kind: "single" };
   } catch (error) {
     console.error("Smart routing failed:", error);
     return null;
   }
 }
 
+/**
+ * Price gas for every reported candidate and order them for display:
+ * quoted routes by net (or gross) output, then failures.
+ */
+function rankCandidates(
+  reported: RouteCandidate[],
+  gasPricing: GasPricing | null,
+  recommended: QuoteResult | null,
+): RouteCandidate[] {
+  const recommendedId = recommended ? getRouteKey(recommended) : null;
+  const byId = new Map<string, RouteCandidate>();
+  for (const candidate of reported) {
+    // If a route is reported twice, keep the quoted report
+    const existing = byId.get(candidate.id);
+    if (existing?.quote && !candidate.quote) continue;
+    if (!candidate.quote) {
+      byId.set(candidate.id, candidate);
+      continue;
+    }
+    // The recommended candidate carries the exact quote the router returned
+    const quote = withGasCost(candidate.id === recommendedId ? recommended! : candidate.quote, gasPricing);
+    byId.set(candidate.id, {
+      ...candidate,
+      quote,
+      outputAmount: quote.outputAmount,
+      priceImpact: quote.priceImpact,
+      gasEstimate: estimateQuoteGas(quote),
+      netOutputAmount: quote.netOutputAmount,
+      recommended: candidate.id === recommendedId,
+    });
+  }
+
+  const rankingAmount = (candidate: RouteCandidate) => candidate.netOutputAmount ?? candidate.outputAmount;
+  return [...byId.values()].sort((a, b) => {
+    const amountA = rankingAmount(a);
+    const amountB = rankingAmount(b);
+    if (amountA === undefined || amountB === undefined) return amountA === undefined ? (amountB === undefined ? 0 : 1) : -1;
+    return amountB > amountA ? 1 : amountB < amountA ? -1 : 0;
+  });
+}
+
 /**
  * Build V2 path (try direct path first, then through wrapped token as fallback)
  */
@@ -665,11 +1604,241 @@ function getTokenForAddress(
   fromToken: Token,
   toToken: Token,
   wrappedToken: Token,
+  routeGraph?: RouteGraph | null,
 ): Token {
   if (address.toLowerCase() === fromToken.address.toLowerCase()) return fromToken;
   if (address.toLowerCase() === toToken.address.toLowerCase()) return toToken;
 
-  return wrappedToken;
+  return routeGraph?.tokens.get(address.toLowerCase()) ?? wrappedToken;
+}
+
+// ── Exact Output ──────────────────────────────────────────────────────────────
+
+/**
+ * Impact for an exact-output quote: how much more input is paid per unit of
+ * output than at the probe size.
+ */
+function calcExactOutputImpact(amountIn: bigint, amountOut: bigint, spotIn: bigint, probeOut: bigint): number | undefined {
+  if (amountIn === 0n || probeOut === 0n) return undefined;
+  const num = amountIn * probeOut - spotIn * amountOut;
+  if (num <= 0n) return 0;
+  return Number((num * 10000n) / (amountIn * probeOut)) / 100;
+}
+
+/**
+ * Get V2 exact-output quote: the path needing the least input for amountOut
+ */
+export async function getV2ExactOutputQuote(
+  provider: Provider,
+  routerAddress: string,
+  fromToken: Token,
+  toToken: Token,
+  amountOut: bigint,
+  wrappedToken: Token,
+  signal?: AbortSignal,
+  options: RoutingOptions = {},
+): Promise<QuoteResult | null> {
+  try {
+    const router = new Contract(routerAddress, V2_ROUTER_ABI, provider);
+    const candidatePaths = getV2CandidatePaths(fromToken, toToken, wrappedToken, options);
+
+    const quoteIn = async (path: string[], amount: bigint): Promise<bigint | null> => {
+      if (options.v2Reserves) {
+        const local = getV2AmountsInLocal(options.v2Reserves.factoryAddress, path, amount);
+        if (local) return local[0];
+      }
+      try {
+        const amounts = await quoteWithRetry(() => router.getAmountsIn(amount, path), 2, 80, signal);
+        return amounts[0] as bigint;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        return null;
+      }
+    };
+
+    if (options.v2Reserves) {
+      await loadV2Reserves(provider, options.v2Reserves, candidatePaths).catch((error) => {
+        if (signal?.aborted) throw error;
+      });
+    }
+
+    const inputs = await mapWithConcurrency(candidatePaths, V3_QUOTE_CONCURRENCY, (path) => quoteIn(path, amountOut), signal);
+
+    let bestIndex = -1;
+    inputs.forEach((input, i) => {
+      if (input && input > 0n && (bestIndex < 0 || input < inputs[bestIndex]!)) bestIndex = i;
+    });
+    if (bestIndex < 0) return null;
+
+    const bestPath = candidatePaths[bestIndex];
+    const inputAmount = inputs[bestIndex]!;
+    const probeOut = getProbeAmount(amountOut);
+    const spotIn = await quoteIn(bestPath, probeOut).catch(() => null);
+
+    return {
+      protocol: "V2",
+      outputAmount: amountOut,
+      inputAmount,
+      route: buildRouteHops(
+        bestPath,
+        bestPath.slice(1).map(() => "V2" as const),
+        [],
+        fromToken,
+        toToken,
+        wrappedToken,
+        options.routeGraph,
+      ),
+      priceImpact: spotIn ? calcExactOutputImpact(inputAmount, amountOut, spotIn, probeOut) : undefined,
+    };
+  } catch (error) {
+    console.error("V2 exact-output quote failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Get V3 exact-output quote via quoteExactOutput (path encoded output-first)
+ */
+export async function getV3ExactOutputQuote(
+  provider: Provider,
+  quoterAddress: string,
+  fromToken: Token,
+  toToken: Token,
+  amountOut: bigint,
+  wrappedToken: Token,
+  signal?: AbortSignal,
+  options: RoutingOptions = {},
+): Promise<QuoteResult | null> {
+  try {
+    if (fromToken.address.toLowerCase() === toToken.address.toLowerCase()) return null;
+
+    const quoter = new Contract(quoterAddress, QUOTER_V2_ABI, provider);
+    const candidates = getV3Candidates(fromToken, toToken, wrappedToken, options);
+
+    const simulated = await mapWithConcurrency(
+      candidates,
+      V3_QUOTE_CONCURRENCY,
+      async (candidate) => {
+        if (!options.v3Simulation) return null;
+        try {
+          const result = await simulateV3ExactOutputPath(provider, options.v3Simulation, candidate.tokens, candidate.fees, amountOut);
+          return result?.amountIn ?? null;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          return null;
+        }
+      },
+      signal,
+    );
+    let bestSimulated = -1;
+    simulated.forEach((input, i) => {
+      if (input !== null && input > 0n && (bestSimulated < 0 || input < simulated[bestSimulated]!)) bestSimulated = i;
+    });
+    const toQuote = candidates.filter((_, i) => simulated[i] === null || i === bestSimulated);
+
+    const reversedPath = (candidate: { tokens: string[]; fees: number[] }) =>
+      encodePath([...candidate.tokens].reverse(), [...candidate.fees].reverse());
+
+    const results = await mapWithConcurrency(
+      toQuote,
+      V3_QUOTE_CONCURRENCY,
+      async (candidate) => {
+        try {
+          const path = reversedPath(candidate);
+          const result = await quoteWithRetry(() => quoter.quoteExactOutput.staticCall(path, amountOut), 2, 80, signal);
+          return { ...candidate, path, inputAmount: result[0] as bigint, gasEstimate: result[3] as bigint };
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          return null;
+        }
+      },
+      signal,
+    );
+
+    let best: NonNullable<(typeof results)[number]> | null = null;
+    for (const r of results) {
+      if (r && r.inputAmount > 0n && (!best || r.inputAmount < best.inputAmount)) best = r;
+    }
+    if (!best) return null;
+    const chosen = best;
+
+    let priceImpact: number | undefined;
+    const probeOut = getProbeAmount(amountOut);
+    try {
+      const spot = await quoteWithRetry(() => quoter.quoteExactOutput.staticCall(chosen.path, probeOut), 2, 80, signal);
+      priceImpact = calcExactOutputImpact(chosen.inputAmount, amountOut, spot[0] as bigint, probeOut);
+    } catch {
+      // probe failed — impact unavailable
+    }
+
+    return {
+      protocol: "V3",
+      outputAmount: amountOut,
+      inputAmount: chosen.inputAmount,
+      gasEstimate: chosen.gasEstimate,
+      priceImpact,
+      route: buildRouteHops(
+        chosen.tokens,
+        chosen.fees.map(() => "V3" as const),
+        chosen.fees,
+        fromToken,
+        toToken,
+        wrappedToken,
+        options.routeGraph,
+      ),
+    };
+  } catch (error) {
+    console.error("V3 exact-output quote failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the cheapest way to receive exactly amountOut across V2 and V3.
+ * Exact-output trades use a single route; split and mixed routes are exact-input only.
+ */
+export async function getExactOutputQuote(
+  provider: Provider,
+  v2RouterAddress: string,
+  v3QuoterAddress: string,
+  fromToken: Token,
+  toToken: Token,
+  amountOut: bigint,
+  wrappedToken: Token,
+  v2Enabled: boolean,
+  v3Enabled: boolean,
+  signal?: AbortSignal,
+  options: RoutingOptions = {},
+): Promise<SmartRoutingResult | null> {
+  try {
+    const quotes = await Promise.allSettled([
+      v2Enabled ? getV2ExactOutputQuote(provider, v2RouterAddress, fromToken, toToken, amountOut, wrappedToken, signal, options) : Promise.resolve(null),
+      v3Enabled ? getV3ExactOutputQuote(provider, v3QuoterAddress, fromToken, toToken, amountOut, wrappedToken, signal, options) : Promise.resolve(null),
+    ]);
+
+    const v2Quote = quotes[0].status === "fulfilled" ? quotes[0].value : null;
+    const v3Quote = quotes[1].status === "fulfilled" ? quotes[1].value : null;
+
+    // Cheapest input wins; on ties V3 is preferred, matching exact-input routing
+    const ranked = [v3Quote, v2Quote]
+      .filter((q): q is QuoteResult => q !== null && q.inputAmount !== undefined)
+      .sort((a, b) => (a.inputAmount! < b.inputAmount! ? -1 : a.inputAmount! > b.inputAmount! ? 1 : 0));
+    if (ranked.length === 0) return null;
+
+    const [bestQuote, ...alternativeQuotes] = ranked;
+    return {
+      kind: "exactOutput",
+      bestQuote,
+      v2Quote: v2Quote || undefined,
+      v3Quote: v3Quote || undefined,
+      alternativeQuotes,
+      timestamp: Date.now(),
+      inputAmount: bestQuote.inputAmount!,
+    };
+  } catch (error) {
+    console.error("Exact-output routing failed:", error);
+    return null;
+  }
 }
 
 // ── RWA Vault Routing ─────────────────────────────────────────────────────────
@@ -798,3 +1967,175 @@ export async function getRWAQuote(
     return null;
   }
 }
+
+/**
+ * Get RWA quote that delivers at least amountOut.
+ * The vault only quotes exact input, so the input is solved from a reference
+ * quote and nudged up until the quoted output covers amountOut.
+ */
+export async function getRWAExactOutputQuote(
+  provider: Provider,
+  vaultAddress: string,
+  fromToken: Token,
+  toToken: Token,
+  amountOut: bigint,
+  signal?: AbortSignal,
+): Promise<RWAQuoteResult | null> {
+  const referenceIn = 10n ** BigInt(fromToken.decimals);
+  const reference = await getRWAQuote(provider, vaultAddress, fromToken, toToken, referenceIn, signal);
+  if (!reference || reference.outputAmount === 0n) return null;
+
+  let amountIn = (amountOut * referenceIn + reference.outputAmount - 1n) / reference.outputAmount;
+  for (let attempt = 0; attempt < 4; attempt++) {
+    const quote = await getRWAQuote(provider, vaultAddress, fromToken, toToken, amountIn, signal);
+    if (!quote) return null;
+    if (quote.outputAmount >= amountOut) return quote;
+    const shortfall = amountOut - quote.outputAmount;
+    amountIn += (shortfall * amountIn + quote.outputAmount - 1n) / quote.outputAmount + 1n;
+  }
+  return null;
+}
+
+/**
+ * The vault route as a comparison candidate. Composite quotes list their DEX
+ * leg inside `route`, so the whole path shows as one RWA row.
+ */
+export function getRWACandidate(quote: RWAQuoteResult): RouteCandidate {
+  const failureReason = quote.isStale
+    ? "Oracle price is stale"
+    : !quote.isBuy && !quote.reserveOk
+      ? "Vault reserve too low"
+      : undefined;
+  return {
+    id: getRouteKey({ protocol: "RWA", route: quote.route }),
+    protocol: "RWA",
+    route: quote.route,
+    outputAmount: quote.outputAmount,
+    priceImpact: quote.priceImpact,
+    failureReason,
+    recommended: !failureReason,
+  };
+}
+
+// ── Composite RWA Routing ─────────────────────────────────────────────────────
+
+export interface CompositeRWAQuoteResult extends RWAQuoteResult {
+  // DEX leg between the user's token and USDC; null when that token is wUSDC (1:1 wrap/unwrap)
+  dexQuote: QuoteResult | null;
+  vaultQuote: RWAQuoteResult;
+}
+
+export function isCompositeRWAQuote(quote: RWAQuoteResult | null | undefined): quote is CompositeRWAQuoteResult {
+  return !!quote && "vaultQuote" in quote;
+}
+
+/**
+ * Combine the price impact of two sequential legs (percentages)
+ */
+function combinePriceImpact(first: number | undefined, second: number | undefined): number {
+  const a = first ?? 0;
+  const b = second ?? 0;
+  return a + b - (a * b) / 100;
+}
+
+/**
+ * Best single V2/V3 route between two tokens. Mixed routes are skipped since
+ * the composite flow executes the DEX leg as one router transaction.
+ */
+async function getCompositeDexLeg(
+  provider: Provider,
+  v2RouterAddress: string,
+  v3QuoterAddress: string,
+  fromToken: Token,
+  toToken: Token,
+  amountIn: bigint,
+  wrappedToken: Token,
+  v2Enabled: boolean,
+  v3Enabled: boolean,
+  signal?: AbortSignal,
+  options: RoutingOptions = {},
+): Promise<QuoteResult | null> {
+  const result = await getSmartRouteQuote(
+    provider, v2RouterAddress, v3QuoterAddress, fromToken, toToken, amountIn,
+    wrappedToken, v2Enabled, v3Enabled, signal, options,
+  );
+  if (!result) return null;
+  return [result.bestQuote, ...(result.alternativeQuotes ?? [])].find((quote) => quote.protocol !== "MIXED") ?? null;
+}
+
+/**
+ * Quote any token → USDC → RWA synth (buy) or RWA synth → USDC → any token (redeem).
+ * The DEX leg is priced first for buys and last for redeems so each leg is
+ * quoted with the amount the previous leg delivers.
+ */
+export async function getCompositeRWAQuote(
+  provider: Provider,
+  v2RouterAddress: string,
+  v3QuoterAddress: string,
+  vaultAddress: string,
+  fromToken: Token,
+  toToken: Token,
+  amountIn: bigint,
+  usdcToken: Token,
+  wrappedToken: Token,
+  v2Enabled: boolean,
+  v3Enabled: boolean,
+  signal?: AbortSignal,
+  options: RoutingOptions = {},
+): Promise<CompositeRWAQuoteResult | null> {
+  try {
+    const isBuy = !fromToken.rwa && !!toToken.rwa; // token→RWA
+    const isRedeem = !!fromToken.rwa && !toToken.rwa;
+    const dexToken = isBuy ? fromToken : toToken;
+    if ((!isBuy && !isRedeem) || isCanonicalUSDC(dexToken)) {
+      console.warn("Invalid composite RWA pair:", fromToken.symbol, "->", toToken.symbol);
+      return null;
+    }
+    const isWrappedLeg = dexToken.address.toLowerCase() === wrappedToken.address.toLowerCase();
+    const quoteDexLeg = (legFrom: Token, legTo: Token, legAmountIn: bigint) =>
+      isWrappedLeg
+        ? Promise.resolve(null)
+        : getCompositeDexLeg(
+            provider, v2RouterAddress, v3QuoterAddress, legFrom, legTo, legAmountIn,
+            wrappedToken, v2Enabled, v3Enabled, signal, options,
+          );
+
+    let dexQuote: QuoteResult | null;
+    let vaultQuote: RWAQuoteResult | null;
+    let outputAmount: bigint;
+
+    if (isBuy) {
+      dexQuote = await quoteDexLeg(fromToken, usdcToken, amountIn);
+      if (!isWrappedLeg && !dexQuote) return null;
+      const usdcIn = dexQuote ? dexQuote.outputAmount : amountIn;
+      vaultQuote = await getRWAQuote(provider, vaultAddress, usdcToken, toToken, usdcIn, signal);
+      if (!vaultQuote) return null;
+      outputAmount = vaultQuote.outputAmount;
+    } else {
+      vaultQuote = await getRWAQuote(provider, vaultAddress, fromToken, usdcToken, amountIn, signal);
+      if (!vaultQuote) return null;
+      dexQuote = await quoteDexLeg(usdcToken, toToken, vaultQuote.outputAmount);
+      if (!isWrappedLeg && !dexQuote) return null;
+      outputAmount = dexQuote ? dexQuote.outputAmount : vaultQuote.outputAmount;
+    }
+
+    // wUSDC legs are shown as a direct hop into / out of the vault
+    const vaultHop: RouteHop = isBuy
+      ? { tokenIn: isWrappedLeg ? fromToken : usdcToken, tokenOut: toToken, protocol: "RWA" }
+      : { tokenIn: fromToken, tokenOut: isWrappedLeg ? toToken : usdcToken, protocol: "RWA" };
+    const dexRoute = dexQuote?.route ?? [];
+
+    return {
+      ...vaultQuote,
+      inputAmount: amountIn,
+      outputAmount,
+      route: isBuy ? [...dexRoute, vaultHop] : [vaultHop, ...dexRoute],
+      priceImpact: combinePriceImpact(dexQuote?.priceImpact, vaultQuote.priceImpact),
+      dexQuote,
+      vaultQuote,
+    };
+  } catch (error) {
+    console.error("Composite RWA quote failed:", error);
+    return null;
+  }
+}
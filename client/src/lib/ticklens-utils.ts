@@ -1,4 +1,4 @@
-import { Contract, BrowserProvider } from "ethers";
+import { Contract, type Provider } from "ethers";
 import { TICK_LENS_ABI } from "./abis/v3";
 
 export interface PopulatedTick {
@@ -7,6 +7,28 @@ export interface PopulatedTick {
   liquidityGross: bigint;
 }
 
+export interface TickWindow {
+  ticks: PopulatedTick[]; // sorted ascending
+  tickLower: number; // first tick covered by the fetched words
+  tickUpper: number; // first tick past the fetched words
+}
+
+async function fetchTicksInWord(
+  tickLensAddress: string,
+  poolAddress: string,
+  provider: Provider,
+  tickBitmapIndex: number,
+): Promise<PopulatedTick[]> {
+  const tickLens = new Contract(tickLensAddress, TICK_LENS_ABI, provider);
+  const populatedTicks = await tickLens.getPopulatedTicksInWord(poolAddress, tickBitmapIndex);
+
+  return populatedTicks.map((tick: any) => ({
+    tick: Number(tick.tick),
+    liquidityNet: tick.liquidityNet,
+    liquidityGross: tick.liquidityGross,
+  }));
+}
+
 /**
  * Fetch populated ticks from a pool using TickLens
  * This helps visualize liquidity distribution and find optimal price ranges
@@ -14,33 +36,51 @@ export interface PopulatedTick {
 export async function getPopulatedTicks(
   tickLensAddress: string,
   poolAddress: string,
-  provider: BrowserProvider
+  provider: Provider,
+  tickBitmapIndex = 0,
 ): Promise<PopulatedTick[]> {
   try {
-    const tickLens = new Contract(tickLensAddress, TICK_LENS_ABI, provider);
-    
-    // Get ticks around current price (bitmap index 0)
-    // In production, you'd want to query multiple bitmap indices
-    const populatedTicks = await tickLens.getPopulatedTicksInWord(poolAddress, 0);
-    
-    return populatedTicks.map((tick: any) => ({
-      tick: Number(tick.tick),
-      liquidityNet: tick.liquidityNet,
-      liquidityGross: tick.liquidityGross,
-    }));
+    return await fetchTicksInWord(tickLensAddress, poolAddress, provider, tickBitmapIndex);
   } catch (error) {
     console.error("Error fetching populated ticks:", error);
     return [];
   }
 }
 
+/**
+ * Fetch every populated tick in the bitmap words around the current tick.
+ * Each word covers 256 tick spacings. Unlike getPopulatedTicks this throws on
+ * failure, since a missing word would silently misprice a swap simulation.
+ */
+export async function getPopulatedTicksAround(
+  tickLensAddress: string,
+  poolAddress: string,
+  provider: Provider,
+  currentTick: number,
+  tickSpacing: number,
+  wordRadius = 2,
+): Promise<TickWindow> {
+  const wordPos = Math.floor(currentTick / tickSpacing) >> 8;
+  const words = Array.from({ length: wordRadius * 2 + 1 }, (_, i) => wordPos - wordRadius + i);
+
+  const results = await Promise.all(
+    words.map((word) => fetchTicksInWord(tickLensAddress, poolAddress, provider, word)),
+  );
+
+  return {
+    ticks: results.flat().sort((a, b) => a.tick - b.tick),
+    tickLower: words[0] * 256 * tickSpacing,
+    tickUpper: (words[words.length - 1] + 1) * 256 * tickSpacing,
+  };
+}
+
 /**
  * Get liquidity distribution data for visualization
  */
 export async function getLiquidityDistribution(
   tickLensAddress: string,
   poolAddress: string,
-  provider: BrowserProvider,
+  provider: Provider,
   currentTick: number
 ): Promise<{
   ticks: PopulatedTick[];
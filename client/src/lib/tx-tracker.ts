@@ -0,0 +1,334 @@
+import type { Block, JsonRpcProvider, TransactionReceipt } from "ethers";
+import { createAlchemyProvider } from "./config";
+
+/**
+ * Shared transaction confirmation tracker. Every flow hands its submitted
+ * transactions here instead of calling `.wait()`: they are watched through the
+ * failover-aware RPC provider, replacements (speed-ups, cancels) and drops are
+ * detected, and progress is published to a store the header renders. Pending
+ * entries are persisted, so tracking resumes after a page reload.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type TrackedTxStatus = "pending" | "confirmed" | "failed" | "replaced" | "dropped";
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string | null; // lowercase; null until the node returns the transaction
+  nonce: number | null;
+  label: string;
+  status: TrackedTxStatus;
+  confirmations: number;
+  targetConfirmations: number;
+  blockNumber?: number;
+  replacedBy?: string; // Hash that took this transaction's nonce
+  error?: string;
+  submittedAt: number;
+  updatedAt: number;
+}
+
+// Anything with a hash: an ethers TransactionResponse, or a relayed hash
+export interface TrackableTransaction {
+  hash: string;
+  chainId?: bigint | number;
+  from?: string;
+  nonce?: number;
+  to?: string | null;
+  data?: string;
+  value?: bigint;
+}
+
+export interface TrackOptions {
+  label: string; // Shown in the pending-transactions list
+  chainId?: number; // Required when the transaction doesn't carry one
+  confirmations?: number;
+  timeout?: number; // How long the caller waits (default: until settled); tracking itself continues in the background
+}
+
+export type TxTrackingErrorCode = "CALL_EXCEPTION" | "TRANSACTION_REPLACED" | "TRANSACTION_DROPPED" | "TIMEOUT";
+
+export class TransactionTrackingError extends Error {
+  constructor(
+    message: string,
+    public code: TxTrackingErrorCode,
+    public receipt?: TransactionReceipt | null,
+    public replacementHash?: string,
+  ) {
+    super(message);
+    this.name = "TransactionTrackingError";
+  }
+}
+
+interface Watch {
+  promise: Promise<TransactionReceipt>;
+  tx: TrackableTransaction;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const STORAGE_KEY = "tracked-transactions";
+const POLL_INTERVAL_MS = 1000;
+const MAX_TRACK_AGE_MS = 30 * 60 * 1000; // Give up on anything still pending after this
+const DROP_GRACE_MS = 45_000; // A transaction the node has never heard of for this long is dropped
+const MAX_REPLACEMENT_SCAN_BLOCKS = 50;
+const MAX_SETTLED_KEPT = 20;
+const SETTLED_RETENTION_MS = 60 * 60 * 1000;
+
+const providers = new Map<number, JsonRpcProvider>();
+const watches = new Map<string, Watch>();
+const listeners = new Set<() => void>();
+let tracked: TrackedTransaction[] = loadTracked();
+
+// ─── Store ───────────────────────────────────────────────────────────────────
+
+function loadTracked(): TrackedTransaction[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function persist(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tracked));
+  } catch (error) {
+    console.warn("[TxTracker] Failed to persist tracked transactions:", error);
+  }
+}
+
+function prune(entries: TrackedTransaction[]): TrackedTransaction[] {
+  const cutoff = Date.now() - SETTLED_RETENTION_MS;
+  let settled = 0;
+  return entries.filter((entry) => {
+    if (entry.status === "pending") return true;
+    settled++;
+    return settled <= MAX_SETTLED_KEPT && entry.updatedAt > cutoff;
+  });
+}
+
+function upsert(hash: string, patch: Partial<TrackedTransaction>, create?: TrackedTransaction): void {
+  const key = hash.toLowerCase();
+  const existing = tracked.find((entry) => entry.hash.toLowerCase() === key);
+  if (!existing && !create) return;
+  const next = { ...(existing ?? create!), ...patch, updatedAt: Date.now() };
+  tracked = prune([next, ...tracked.filter((entry) => entry.hash.toLowerCase() !== key)]);
+  persist();
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Newest first. The array identity changes only when something changed, so it
+ * can back useSyncExternalStore directly.
+ */
+export function getTrackedTransactions(): TrackedTransaction[] {
+  return tracked;
+}
+
+export function subscribeTrackedTransactions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function dismissTrackedTransaction(hash: string): void {
+  tracked = tracked.filter((entry) => entry.hash.toLowerCase() !== hash.toLowerCase());
+  persist();
+  listeners.forEach((listener) => listener());
+}
+
+// ─── Watching ────────────────────────────────────────────────────────────────
+
+function getProvider(chainId: number): JsonRpcProvider {
+  let provider = providers.get(chainId);
+  if (!provider) {
+    provider = createAlchemyProvider(chainId);
+    provider.pollingInterval = POLL_INTERVAL_MS;
+    providers.set(chainId, provider);
+  }
+  return provider;
+}
+
+function sameCall(a: TrackableTransaction, b: TrackableTransaction): boolean {
+  return (
+    (a.to ?? "").toLowerCase() === (b.to ?? "").toLowerCase() &&
+    (a.data ?? "0x") === (b.data ?? "0x") &&
+    BigInt(a.value ?? 0n) === BigInt(b.value ?? 0n)
+  );
+}
+
+/**
+ * The transaction that used `from`/`nonce` in the last few blocks up to `toBlock`, if any.
+ */
+async function findReplacement(
+  provider: JsonRpcProvider,
+  from: string,
+  nonce: number,
+  toBlock: number,
+): Promise<TrackableTransaction | null> {
+  const start = Math.max(0, toBlock - MAX_REPLACEMENT_SCAN_BLOCKS + 1);
+  for (let blockNumber = toBlock; blockNumber >= start; blockNumber--) {
+    const block: Block | null = await provider.getBlock(blockNumber, true);
+    const match = block?.prefetchedTransactions.find((tx) => tx.from.toLowerCase() === from && tx.nonce === nonce);
+    if (match) return match;
+  }
+  return null;
+}
+
+function watchTransaction(initial: TrackableTransaction, entry: TrackedTransaction): Promise<TransactionReceipt> {
+  const provider = getProvider(entry.chainId);
+
+  return new Promise<TransactionReceipt>((resolve, reject) => {
+    let tx = { ...initial };
+    let hash = entry.hash;
+    let checking = false;
+    let done = false;
+    let lastSeenAt = Date.now();
+
+    const finish = (status: TrackedTxStatus, patch: Partial<TrackedTransaction>, result: TransactionReceipt | Error) => {
+      if (done) return;
+      done = true;
+      provider.off("block", onBlock);
+      watches.delete(hash.toLowerCase());
+      upsert(hash, { status, ...patch });
+      if (result instanceof Error) reject(result);
+      else resolve(result);
+    };
+
+    const check = async (blockNumber: number) => {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) {
+        const confirmations = Math.max(1, blockNumber - receipt.blockNumber + 1);
+        if (receipt.status === 0) {
+          const error = new TransactionTrackingError("Transaction reverted", "CALL_EXCEPTION", receipt);
+          return finish("failed", { confirmations, blockNumber: receipt.blockNumber, error: error.message }, error);
+        }
+        if (confirmations >= entry.targetConfirmations) {
+          return finish("confirmed", { confirmations, blockNumber: receipt.blockNumber }, receipt);
+        }
+        upsert(hash, { confirmations, blockNumber: receipt.blockNumber });
+        return;
+      }
+
+      // Fill in sender and nonce for hashes we were handed without them
+      if (tx.from === undefined || tx.nonce === undefined) {
+        const fetched = await provider.getTransaction(hash);
+        if (fetched) {
+          tx = { ...tx, from: fetched.from, nonce: fetched.nonce, to: fetched.to, data: fetched.data, value: fetched.value };
+          upsert(hash, { from: fetched.from.toLowerCase(), nonce: fetched.nonce });
+        }
+      }
+
+      if (tx.from !== undefined && tx.nonce !== undefined) {
+        const from = tx.from.toLowerCase();
+        const confirmedNonce = await provider.getTransactionCount(from, "latest");
+        if (confirmedNonce > tx.nonce) {
+          // Re-check before concluding: the receipt may have landed between the reads
+          if (await provider.getTransactionReceipt(hash)) return;
+          const replacement = await findReplacement(provider, from, tx.nonce, blockNumber);
+          if (replacement && sameCall(replacement, tx)) {
+            // Sped up (same call, higher fee): follow the new hash
+            upsert(hash, { status: "replaced", replacedBy: replacement.hash });
+            const watch = watches.get(hash.toLowerCase());
+            watches.delete(hash.toLowerCase());
+            hash = replacement.hash;
+            tx = { ...replacement };
+            upsert(hash, {}, { ...entry, hash, status: "pending", confirmations: 0, updatedAt: Date.now() });
+            if (watch) watches.set(hash.toLowerCase(), { ...watch, tx });
+            return;
+          }
+          const error = new TransactionTrackingError(
+            replacement ? "Transaction was replaced by another transaction" : "Transaction nonce was used by another transaction",
+            "TRANSACTION_REPLACED",
+            null,
+            replacement?.hash,
+          );
+          return finish("replaced", { replacedBy: replacement?.hash, error: error.message }, error);
+        }
+      }
+
+      const known = await provider.getTransaction(hash);
+      if (known) lastSeenAt = Date.now();
+      else if (Date.now() - lastSeenAt > DROP_GRACE_MS) {
+        const error = new TransactionTrackingError("Transaction was dropped from the mempool", "TRANSACTION_DROPPED");
+        return finish("dropped", { error: error.message }, error);
+      }
+
+      if (Date.now() - entry.submittedAt > MAX_TRACK_AGE_MS) {
+        const error = new TransactionTrackingError("Transaction is still pending; stopped tracking it", "TIMEOUT");
+        finish("dropped", { error: error.message }, error);
+      }
+    };
+
+    const onBlock = (blockNumber: number) => {
+      if (checking || done) return;
+      checking = true;
+      check(blockNumber)
+        .catch((error) => console.warn("[TxTracker] Check failed, retrying next block:", error))
+        .finally(() => { checking = false; });
+    };
+
+    provider.on("block", onBlock);
+    provider.getBlockNumber().then(onBlock).catch(() => {});
+  });
+}
+
+/**
+ * Track a submitted transaction until it reaches the requested confirmations.
+ * Resolves with the receipt (of the replacement, if the user sped it up);
+ * rejects with TransactionTrackingError when it reverts, is replaced by a
+ * different call, is dropped, or `timeout` passes. Tracking the same hash
+ * twice shares one watcher.
+ */
+export function trackTransaction(tx: TrackableTransaction, options: TrackOptions): Promise<TransactionReceipt> {
+  const chainId = options.chainId ?? (tx.chainId !== undefined ? Number(tx.chainId) : undefined);
+  if (chainId === undefined) throw new Error("trackTransaction needs a chainId");
+
+  let watch = watches.get(tx.hash.toLowerCase());
+  if (!watch) {
+    const now = Date.now();
+    const entry: TrackedTransaction = {
+      hash: tx.hash,
+      chainId,
+      from: tx.from?.toLowerCase() ?? null,
+      nonce: tx.nonce ?? null,
+      label: options.label,
+      status: "pending",
+      confirmations: 0,
+      targetConfirmations: options.confirmations ?? 1,
+      submittedAt: now,
+      updatedAt: now,
+    };
+    upsert(tx.hash, {}, entry);
+    watch = { promise: watchTransaction(tx, entry), tx };
+    watches.set(tx.hash.toLowerCase(), watch);
+  }
+
+  if (options.timeout === undefined) return watch.promise;
+  let timer: ReturnType<typeof setTimeout>;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TransactionTrackingError("Transaction wait timeout", "TIMEOUT")), options.timeout);
+  });
+  return Promise.race([watch.promise, timedOut]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Restart watchers for transactions that were pending when the page was last
+ * closed. Safe to call more than once.
+ */
+export function resumeTrackedTransactions(): void {
+  for (const entry of tracked) {
+    if (entry.status !== "pending" || watches.has(entry.hash.toLowerCase())) continue;
+    const tx: TrackableTransaction = {
+      hash: entry.hash,
+      from: entry.from ?? undefined,
+      nonce: entry.nonce ?? undefined,
+    };
+    const promise = watchTransaction(tx, entry);
+    promise.catch(() => {}); // Outcome lands in the store; nobody awaits a resumed watch
+    watches.set(entry.hash.toLowerCase(), { promise, tx });
+  }
+}
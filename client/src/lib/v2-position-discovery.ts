@@ -2,6 +2,7 @@ import { Contract } from "ethers";
 import type { JsonRpcProvider } from "ethers";
 import type { Token } from "@shared/schema";
 import { safeTokenInfo } from "./v3-pool-utils";
+import { readContract } from "./multicall";
 
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
@@ -55,29 +56,6 @@ interface FallbackScanResult {
   liquidity: bigint;
 }
 
-function createLimiter(maxConcurrent: number) {
-  const normalizedMaxConcurrent = Number.isFinite(maxConcurrent)
-    ? Math.max(1, Math.floor(maxConcurrent))
-    : 1;
-  let active = 0;
-  const queue: (() => void)[] = [];
-
-  return async function run<T>(fn: () => Promise<T>): Promise<T> {
-    if (active >= normalizedMaxConcurrent) {
-      await new Promise<void>((resolve) => queue.push(resolve));
-    }
-
-    active++;
-    try {
-      return await fn();
-    } finally {
-      active--;
-      const next = queue.shift();
-      if (next) next();
-    }
-  };
-}
-
 function parsePositiveBigInt(value: string | undefined): bigint | null {
   if (!value) return null;
   try {
@@ -212,11 +190,9 @@ async function collectV2CandidatesWithRpcScan(
   ownerAddress: string,
   factoryAddress: string,
   provider: JsonRpcProvider,
-  maxConcurrent = 10,
 ): Promise<Map<string, bigint>> {
   const uniqueCandidates = new Map<string, bigint>();
   const factory = new Contract(factoryAddress, FACTORY_ABI, provider);
-  const limit = createLimiter(maxConcurrent);
 
   const pairsLength = await factory.allPairsLength();
   if (pairsLength < 0n) {
@@ -231,7 +207,8 @@ async function collectV2CandidatesWithRpcScan(
     return uniqueCandidates;
   }
 
-  const batchSize = 60;
+  // Each round is aggregated into a few Multicall3 requests
+  const batchSize = 300;
   const pairAddressSet = new Set<string>();
 
   for (let start = 0; start < totalPairs; start += batchSize) {
@@ -239,7 +216,7 @@ async function collectV2CandidatesWithRpcScan(
     const indices = Array.from({ length: end - start }, (_, i) => start + i);
 
     const chunkResults = await Promise.allSettled(
-      indices.map((index) => limit(() => factory.allPairs(index))),
+      indices.map((index) => readContract<string>(factory, "allPairs", [index])),
     );
 
     const failedIndices: number[] = [];
@@ -251,12 +228,12 @@ async function collectV2CandidatesWithRpcScan(
       }
     });
 
-    for (const index of failedIndices) {
-      try {
-        const addr = await limit(() => factory.allPairs(index));
-        pairAddressSet.add(String(addr).toLowerCase());
-      } catch {
-        continue;
+    const retryResults = await Promise.allSettled(
+      failedIndices.map((index) => readContract<string>(factory, "allPairs", [index])),
+    );
+    for (const result of retryResults) {
+      if (result.status === "fulfilled") {
+        pairAddressSet.add(String(result.value).toLowerCase());
       }
     }
   }
@@ -270,18 +247,16 @@ async function collectV2CandidatesWithRpcScan(
   for (let start = 0; start < pairAddresses.length; start += batchSize) {
     const chunk = pairAddresses.slice(start, start + batchSize);
     const fallbackResults = await Promise.all(
-      chunk.map((pairAddressLower) =>
-        limit(async (): Promise<FallbackScanResult | null> => {
-          try {
-            const pair = new Contract(pairAddressLower, PAIR_ABI, provider);
-            const liquidity = await pair.balanceOf(ownerAddress);
-            if (liquidity <= 0n) return null;
-            return { pairAddress: pairAddressLower, liquidity };
-          } catch {
-            return null;
-          }
-        }),
-      ),
+      chunk.map(async (pairAddressLower): Promise<FallbackScanResult | null> => {
+        try {
+          const pair = new Contract(pairAddressLower, PAIR_ABI, provider);
+          const liquidity = await readContract<bigint>(pair, "balanceOf", [ownerAddress]);
+          if (liquidity <= 0n) return null;
+          return { pairAddress: pairAddressLower, liquidity };
+        } catch {
+          return null;
+        }
+      }),
     );
 
     for (const row of fallbackResults) {
@@ -311,7 +286,6 @@ export async function discoverV2PositionsFromExplorer(params: {
   provider: JsonRpcProvider;
   knownTokens: Token[];
   apiBaseUrl: string;
-  maxConcurrent?: number;
   retryWithFallbackScan?: boolean;
 }): Promise<V2DiscoveredPosition[]> {
   const {
@@ -320,7 +294,6 @@ export async function discoverV2PositionsFromExplorer(params: {
     provider,
     knownTokens,
     apiBaseUrl,
-    maxConcurrent = 10,
     retryWithFallbackScan = true,
   } = params;
   const uniqueCandidates = new Map<string, bigint>();
@@ -353,7 +326,6 @@ export async function discoverV2PositionsFromExplorer(params: {
   }
 
   const factory = new Contract(factoryAddress, FACTORY_ABI, provider);
-  const limit = createLimiter(maxConcurrent);
 
   const discoverValidatedPositions = async (
     candidates: Map<string, bigint>,
@@ -364,78 +336,76 @@ export async function discoverV2PositionsFromExplorer(params: {
 
     const candidateEntries = Array.from(candidates.entries());
     const discoveryResults = await Promise.allSettled(
-      candidateEntries.map(([pairAddressLower]) =>
-        limit(async (): Promise<V2DiscoveredPosition | null> => {
-          const pairAddress = pairAddressLower;
-          const pair = new Contract(pairAddress, PAIR_ABI, provider);
-
-          let token0Address: string;
-          let token1Address: string;
-          let factoryPairAddress: string;
-          try {
-            [token0Address, token1Address] = await Promise.all([
-              pair.token0(),
-              pair.token1(),
-            ]);
-            factoryPairAddress = await factory.getPair(token0Address, token1Address);
-          } catch {
-            return null;
-          }
+      candidateEntries.map(async ([pairAddressLower]): Promise<V2DiscoveredPosition | null> => {
+        const pairAddress = pairAddressLower;
+        const pair = new Contract(pairAddress, PAIR_ABI, provider);
+
+        let token0Address: string;
+        let token1Address: string;
+        let factoryPairAddress: string;
+        try {
+          [token0Address, token1Address] = await Promise.all([
+            readContract<string>(pair, "token0"),
+            readContract<string>(pair, "token1"),
+          ]);
+          factoryPairAddress = await readContract<string>(factory, "getPair", [token0Address, token1Address]);
+        } catch {
+          return null;
+        }
 
-          if (!factoryPairAddress || factoryPairAddress.toLowerCase() === ZERO_ADDRESS) {
-            return null;
-          }
+        if (!factoryPairAddress || factoryPairAddress.toLowerCase() === ZERO_ADDRESS) {
+          return null;
+        }
+
+        if (factoryPairAddress.toLowerCase() !== pairAddressLower) {
+          return null;
+        }
 
-          if (factoryPairAddress.toLowerCase() !== pairAddressLower) {
+        try {
+          const [reserves, totalSupply, liveLiquidity, token0Info, token1Info] = await Promise.all([
+            readContract(pair, "getReserves"),
+            readContract<bigint>(pair, "totalSupply"),
+            readContract<bigint>(pair, "balanceOf", [ownerAddress]),
+            safeTokenInfo(token0Address, provider, knownTokens),
+            safeTokenInfo(token1Address, provider, knownTokens),
+          ]);
+
+          if (totalSupply <= 0n || liveLiquidity <= 0n) {
             return null;
           }
 
-          try {
-            const [reserves, totalSupply, liveLiquidity, token0Info, token1Info] = await Promise.all([
-              pair.getReserves(),
-              pair.totalSupply(),
-              pair.balanceOf(ownerAddress),
-              safeTokenInfo(token0Address, provider, knownTokens),
-              safeTokenInfo(token1Address, provider, knownTokens),
-            ]);
-
-            if (totalSupply <= 0n || liveLiquidity <= 0n) {
-              return null;
-            }
-
-            const reserve0Raw = reserves.reserve0 ?? reserves[0] ?? 0n;
-            const reserve1Raw = reserves.reserve1 ?? reserves[1] ?? 0n;
-            const reserve0 = typeof reserve0Raw === "bigint" ? reserve0Raw : BigInt(reserve0Raw.toString());
-            const reserve1 = typeof reserve1Raw === "bigint" ? reserve1Raw : BigInt(reserve1Raw.toString());
-
-            const amount0 = (liveLiquidity * reserve0) / totalSupply;
-            const amount1 = (liveLiquidity * reserve1) / totalSupply;
-
-            return {
-              pairAddress,
-              token0Address,
-              token1Address,
-              token0Symbol: token0Info.symbol,
-              token1Symbol: token1Info.symbol,
-              token0Name: token0Info.name,
-              token1Name: token1Info.name,
-              token0Decimals: token0Info.decimals,
-              token1Decimals: token1Info.decimals,
-              liquidity: liveLiquidity,
-              totalSupply,
-              reserve0,
-              reserve1,
-              amount0,
-              amount1,
-            };
-          } catch (error) {
-            const message = error instanceof Error ? error.message : String(error);
-            throw new Error(
-              `[V2 discovery] Confirmed pair read failed for ${pairAddress}: ${message}`,
-            );
-          }
-        }),
-      ),
+          const reserve0Raw = reserves.reserve0 ?? reserves[0] ?? 0n;
+          const reserve1Raw = reserves.reserve1 ?? reserves[1] ?? 0n;
+          const reserve0 = typeof reserve0Raw === "bigint" ? reserve0Raw : BigInt(reserve0Raw.toString());
+          const reserve1 = typeof reserve1Raw === "bigint" ? reserve1Raw : BigInt(reserve1Raw.toString());
+
+          const amount0 = (liveLiquidity * reserve0) / totalSupply;
+          const amount1 = (liveLiquidity * reserve1) / totalSupply;
+
+          return {
+            pairAddress,
+            token0Address,
+            token1Address,
+            token0Symbol: token0Info.symbol,
+            token1Symbol: token1Info.symbol,
+            token0Name: token0Info.name,
+            token1Name: token1Info.name,
+            token0Decimals: token0Info.decimals,
+            token1Decimals: token1Info.decimals,
+            liquidity: liveLiquidity,
+            totalSupply,
+            reserve0,
+            reserve1,
+            amount0,
+            amount1,
+          };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(
+            `[V2 discovery] Confirmed pair read failed for ${pairAddress}: ${message}`,
+          );
+        }
+      }),
     );
 
     const discovered: V2DiscoveredPosition[] = [];
@@ -490,7 +460,6 @@ export async function discoverV2PositionsFromExplorer(params: {
         ownerAddress,
         factoryAddress,
         provider,
-        maxConcurrent,
       );
       const fallbackDiscovered = await discoverValidatedPositions(fallbackCandidates);
       addDiscovered(fallbackDiscovered);
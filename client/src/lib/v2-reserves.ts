@@ -0,0 +1,232 @@
+import { Contract, ZeroAddress, type Provider } from "ethers";
+
+const FACTORY_ABI = [
+  "function getPair(address tokenA, address tokenB) external view returns (address pair)",
+];
+
+const PAIR_ABI = [
+  "function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+];
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface V2PairReserves {
+  pairAddress: string;
+  token0: string; // lowercase
+  token1: string; // lowercase
+  reserve0: bigint;
+  reserve1: bigint;
+  blockNumber?: number; // Latest known block when the reserves were read
+  fetchedAt: number;
+}
+
+export interface V2ReservesConfig {
+  factoryAddress: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MISSING_PAIR_RECHECK = 60 * 1000; // Pairs may be created later
+const UNTRACKED_RESERVES_TTL = 5000; // Used only until block updates arrive
+const TRACKED_PAIR_TTL = 30 * 1000; // Pairs quoted recently are refreshed every block
+
+const pairAddressCache = new Map<string, { pairAddress: string | null; checkedAt: number }>();
+const reservesCache = new Map<string, V2PairReserves>(); // keyed by pair key
+const trackedPairs = new Map<string, { config: V2ReservesConfig; tokenA: string; tokenB: string; usedAt: number }>();
+
+let latestBlockNumber: number | undefined;
+let refreshProvider: Provider | null = null;
+let refreshInFlight: Promise<void> | null = null;
+
+// ─── Local constant-product math ─────────────────────────────────────────────
+
+/**
+ * UniswapV2Library.getAmountOut: constant product with the 0.3% LP fee.
+ */
+export function getV2AmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+  const amountInWithFee = amountIn * 997n;
+  return (amountInWithFee * reserveOut) / (reserveIn * 1000n + amountInWithFee);
+}
+
+/**
+ * UniswapV2Library.getAmountIn: input needed for an exact output, rounded up.
+ * Returns null when the output would drain the reserve.
+ */
+export function getV2AmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint): bigint | null {
+  if (amountOut <= 0n || reserveIn <= 0n || amountOut >= reserveOut) return null;
+  return (reserveIn * amountOut * 1000n) / ((reserveOut - amountOut) * 997n) + 1n;
+}
+
+function getPairKey(factoryAddress: string, tokenA: string, tokenB: string): string {
+  const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort();
+  return `${factoryAddress.toLowerCase()}-${a}-${b}`;
+}
+
+function isFresh(entry: V2PairReserves): boolean {
+  if (latestBlockNumber !== undefined && entry.blockNumber !== undefined) {
+    return entry.blockNumber >= latestBlockNumber;
+  }
+  return Date.now() - entry.fetchedAt < UNTRACKED_RESERVES_TTL;
+}
+
+function isKnownMissing(pairKey: string): boolean {
+  const cached = pairAddressCache.get(pairKey);
+  return !!cached && cached.pairAddress === null && Date.now() - cached.checkedAt < MISSING_PAIR_RECHECK;
+}
+
+// ─── Snapshot loading ────────────────────────────────────────────────────────
+
+async function resolvePairAddress(
+  provider: Provider,
+  config: V2ReservesConfig,
+  tokenA: string,
+  tokenB: string,
+): Promise<string | null> {
+  const key = getPairKey(config.factoryAddress, tokenA, tokenB);
+  const cached = pairAddressCache.get(key);
+  if (cached?.pairAddress || isKnownMissing(key)) return cached!.pairAddress;
+
+  const factory = new Contract(config.factoryAddress, FACTORY_ABI, provider);
+  const pair: string = await factory.getPair(tokenA, tokenB);
+  const pairAddress = pair && pair !== ZeroAddress ? pair.toLowerCase() : null;
+  pairAddressCache.set(key, { pairAddress, checkedAt: Date.now() });
+  return pairAddress;
+}
+
+/**
+ * Read reserves for a set of token pairs. All calls are issued together so the
+ * batching provider sends them as one JSON-RPC batch.
+ */
+async function fetchReserves(
+  provider: Provider,
+  pairs: Array<{ config: V2ReservesConfig; tokenA: string; tokenB: string }>,
+): Promise<void> {
+  const blockNumber = latestBlockNumber;
+  await Promise.all(
+    pairs.map(async ({ config, tokenA, tokenB }) => {
+      const key = getPairKey(config.factoryAddress, tokenA, tokenB);
+      const pairAddress = await resolvePairAddress(provider, config, tokenA, tokenB);
+      if (!pairAddress) {
+        reservesCache.delete(key);
+        return;
+      }
+      const pair = new Contract(pairAddress, PAIR_ABI, provider);
+      const [reserve0, reserve1] = await pair.getReserves();
+      // Pair token0 is the lower address, matching the sorted key
+      const [token0, token1] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort();
+      reservesCache.set(key, {
+        pairAddress,
+        token0,
+        token1,
+        reserve0: reserve0 as bigint,
+        reserve1: reserve1 as bigint,
+        blockNumber,
+        fetchedAt: Date.now(),
+      });
+    }),
+  );
+}
+
+/**
+ * Make sure every hop of the given paths has fresh reserves in the snapshot.
+ * Pairs already read at the latest block are served from memory.
+ */
+export async function loadV2Reserves(
+  provider: Provider,
+  config: V2ReservesConfig,
+  paths: string[][],
+): Promise<void> {
+  refreshProvider = provider;
+  const now = Date.now();
+  const stale = new Map<string, { config: V2ReservesConfig; tokenA: string; tokenB: string }>();
+
+  for (const path of paths) {
+    for (let i = 0; i < path.length - 1; i++) {
+      const key = getPairKey(config.factoryAddress, path[i], path[i + 1]);
+      const pair = { config, tokenA: path[i], tokenB: path[i + 1] };
+      trackedPairs.set(key, { ...pair, usedAt: now });
+      const entry = reservesCache.get(key);
+      if (entry ? !isFresh(entry) : !isKnownMissing(key)) stale.set(key, pair);
+    }
+  }
+
+  if (refreshInFlight) await refreshInFlight;
+  const remaining = [...stale.entries()].filter(([key]) => {
+    const entry = reservesCache.get(key);
+    return !entry || !isFresh(entry);
+  });
+  if (remaining.length > 0) {
+    await fetchReserves(provider, remaining.map(([, pair]) => pair));
+  }
+}
+
+/**
+ * Compute amounts along a V2 path from the snapshot.
+ * Returns null when a hop has no pair or its reserves aren't loaded.
+ */
+export function getV2AmountsOutLocal(
+  factoryAddress: string,
+  path: string[],
+  amountIn: bigint,
+): bigint[] | null {
+  const amounts = [amountIn];
+  for (let i = 0; i < path.length - 1; i++) {
+    const entry = reservesCache.get(getPairKey(factoryAddress, path[i], path[i + 1]));
+    if (!entry) return null;
+    const zeroForOne = path[i].toLowerCase() === entry.token0;
+    const [reserveIn, reserveOut] = zeroForOne
+      ? [entry.reserve0, entry.reserve1]
+      : [entry.reserve1, entry.reserve0];
+    amounts.push(getV2AmountOut(amounts[i], reserveIn, reserveOut));
+  }
+  return amounts;
+}
+
+/**
+ * Compute the inputs needed along a V2 path for an exact final output.
+ * Returns null when a hop has no pair, isn't loaded, or lacks the liquidity.
+ */
+export function getV2AmountsInLocal(
+  factoryAddress: string,
+  path: string[],
+  amountOut: bigint,
+): bigint[] | null {
+  const amounts = new Array<bigint>(path.length);
+  amounts[path.length - 1] = amountOut;
+  for (let i = path.length - 1; i > 0; i--) {
+    const entry = reservesCache.get(getPairKey(factoryAddress, path[i - 1], path[i]));
+    if (!entry) return null;
+    const zeroForOne = path[i - 1].toLowerCase() === entry.token0;
+    const [reserveIn, reserveOut] = zeroForOne
+      ? [entry.reserve0, entry.reserve1]
+      : [entry.reserve1, entry.reserve0];
+    const amountIn = getV2AmountIn(amounts[i], reserveIn, reserveOut);
+    if (amountIn === null) return null;
+    amounts[i - 1] = amountIn;
+  }
+  return amounts;
+}
+
+/**
+ * Called on every new block: re-reads reserves for recently quoted pairs in
+ * the background so the next quote is served from memory.
+ */
+export function refreshV2ReservesForBlock(blockNumber: number): void {
+  if (latestBlockNumber !== undefined && blockNumber <= latestBlockNumber) return;
+  latestBlockNumber = blockNumber;
+
+  const now = Date.now();
+  for (const [key, pair] of trackedPairs.entries()) {
+    if (now - pair.usedAt > TRACKED_PAIR_TTL) trackedPairs.delete(key);
+  }
+  if (!refreshProvider || refreshInFlight || trackedPairs.size === 0) return;
+
+  refreshInFlight = fetchReserves(refreshProvider, [...trackedPairs.values()])
+    .catch((error) => {
+      console.warn("[V2Reserves] Block refresh failed:", error);
+    })
+    .finally(() => {
+      refreshInFlight = null;
+    });
+}
@@ -3,6 +3,7 @@ import type { JsonRpcProvider } from "ethers";
 import type { Token } from "@shared/schema";
 import { V3_FACTORY_ABI, V3_POOL_ABI, FEE_TIER_LABELS } from "./abis/v3";
 import { createAlchemyProvider } from "./config";
+import { readContract, tryReadContract } from "./multicall";
 
 // ─── ABIs ────────────────────────────────────────────────────────────────────
 
@@ -118,8 +119,8 @@ export async function safeTokenInfo(
     return info;
   }
 
-  // 3. RPC fallback — fetch each field independently so one failure
-  //    does not kill the rest.
+  // 3. RPC fallback — every field (and its bytes32 variant) is read in one
+  //    multicall batch; each fails independently so one does not kill the rest.
   const contract  = new Contract(address, ERC20_ABI, provider);
   const contractBytes32 = new Contract(address, [
     "function symbol() external view returns (bytes32)",
@@ -128,84 +129,51 @@ export async function safeTokenInfo(
   
   const shortAddr = `${address.slice(0, 6)}…${address.slice(-4)}`;
 
-  // Symbol fallback logic (string -> bytes32 -> short address)
-  let symbol = shortAddr;
-  try {
-    const s = await contract.symbol();
-    if (s && s.length > 0) symbol = s;
-  } catch (e) {
+  const [rawSymbol, rawSymbol32, rawName, rawName32, rawDecimals] = await Promise.all([
+    tryReadContract<string>(contract, "symbol"),
+    tryReadContract<string>(contractBytes32, "symbol"),
+    tryReadContract<string>(contract, "name"),
+    tryReadContract<string>(contractBytes32, "name"),
+    tryReadContract<bigint>(contract, "decimals"),
+  ]);
+
+  const decodeBytes32 = (value: string | null): string | null => {
+    if (!value) return null;
     try {
-      const s32 = await contractBytes32.symbol();
-      const s = decodeBytes32String(s32);
-      if (s && s.length > 0) symbol = s;
-    } catch (e2) {}
-  }
+      return decodeBytes32String(value);
+    } catch {
+      return null;
+    }
+  };
+
+  // Symbol fallback logic (string -> bytes32 -> short address)
+  const symbol = rawSymbol || decodeBytes32(rawSymbol32) || shortAddr;
 
   // Name fallback logic (string -> bytes32 -> Token shortAddr)
-  let name = `Token ${shortAddr}`;
-  try {
-    const n = await contract.name();
-    if (n && n.length > 0) name = n;
-  } catch (e) {
-    try {
-      const n32 = await contractBytes32.name();
-      const n = decodeBytes32String(n32);
-      if (n && n.length > 0) name = n;
-    } catch (e2) {}
-  }
+  const name = rawName || decodeBytes32(rawName32) || `Token ${shortAddr}`;
 
   // Decimals fallback logic
-  let decimals = 18;
-  try {
-    decimals = Number(await contract.decimals());
-  } catch (e) {}
+  const decimals = rawDecimals !== null ? Number(rawDecimals) : 18;
 
   const info: TokenInfo = { symbol, decimals, name };
   tokenInfoCache.set(key, info);
   return info;
 }
 
-// ─── Concurrency helper ──────────────────────────────────────────────────────
-
-/**
- * Run async tasks with bounded concurrency.
- * Like Promise.all but limits how many are in-flight simultaneously.
- */
-async function pAll<T>(
-  tasks: (() => Promise<T>)[],
-  concurrency: number,
-): Promise<T[]> {
-  const results: T[] = new Array(tasks.length);
-  let idx = 0;
-
-  async function worker() {
-    while (idx < tasks.length) {
-      const i = idx++;
-      results[i] = await tasks[i]();
-    }
-  }
-
-  await Promise.all(
-    Array.from({ length: Math.min(concurrency, tasks.length) }, () => worker()),
-  );
-  return results;
-}
-
 // ─── Main export ──────────────────────────────────────────────────────────────
 
 /**
- * Two-phase pool discovery with batch RPC and throttled parallelism.
+ * Two-phase pool discovery over Multicall3.
  *
  * Phase 1 — pool address discovery:
  *   Call factory.getPool(tokenA, tokenB, fee) for every combination.
- *   Uses throttled parallelism (5 concurrent) instead of fully serial.
- *   The batch provider packs concurrent calls into a single HTTP request,
- *   so 5 concurrent calls ≈ 1 HTTP round-trip.
+ *   All calls are issued at once and aggregated into a handful of
+ *   aggregate3 requests.
  *
  * Phase 2 — pool detail fetch:
  *   For each discovered pool, fetch slot0, liquidity, token info, balances.
- *   Pools are loaded in parallel (3 concurrent) — within each pool, all
- *   reads are batched into a single HTTP request by the batch provider.
+ *   Every pool is loaded in parallel; reads issued in the same tick share
+ *   aggregate3 requests, so each phase costs a few HTTP round-trips.
  */
 export async function fetchAllV3Pools(
   factoryAddress: string,
@@ -268,11 +236,11 @@ export async function fetchAllV3Pools(
             for (const fee of ALL_FEE_TIERS) {
                 discoveryTasks.push(async () => {
                     try {
-                        const poolAddress: string = await factory.getPool(
+                        const poolAddress = await readContract<string>(factory, "getPool", [
                             tokenI.address,
                             tokenJ.address,
                             fee,
-                        );
+                        ]);
                         if (
                             poolAddress &&
                             poolAddress !== ZeroAddress &&
@@ -293,7 +261,7 @@ export async function fetchAllV3Pools(
     }
 
     try {
-      await pAll(discoveryTasks, 20);
+      await Promise.all(discoveryTasks.map((task) => task()));
     } catch (err) {
       console.error("[V3] Phase 1 discovery error:", err);
     }
@@ -307,8 +275,8 @@ export async function fetchAllV3Pools(
       try {
         const poolContract = new Contract(poolAddrLower, V3_POOL_ABI, provider);
 
-        // All 4 reads hit the same pool contract — the batch provider packs
-        // them + the token info + balances into a single HTTP request.
+        // All 4 reads hit the same pool contract — they are aggregated with
+        // every other pool's reads into shared multicall requests.
         let slot0Raw: any;
         let liquidity: bigint;
         let poolToken0Addr: string;
@@ -316,10 +284,10 @@ export async function fetchAllV3Pools(
 
         try {
           [slot0Raw, liquidity, poolToken0Addr, poolToken1Addr] = await Promise.all([
-            poolContract.slot0(),
-            poolContract.liquidity(),
-            poolContract.token0(),
-            poolContract.token1(),
+            readContract(poolContract, "slot0"),
+            readContract<bigint>(poolContract, "liquidity"),
+            readContract<string>(poolContract, "token0"),
+            readContract<string>(poolContract, "token1"),
           ]);
         } catch (err) {
           console.warn(`[V3] Cannot read state for pool ${poolAddrLower}:`, err);
@@ -334,15 +302,15 @@ export async function fetchAllV3Pools(
           return null;
         }
 
-        // Token metadata + balances — all in one batch thanks to the provider.
+        // Token metadata + balances — all in one multicall batch.
         const erc0 = new Contract(poolToken0Addr, ERC20_ABI, provider);
         const erc1 = new Contract(poolToken1Addr, ERC20_ABI, provider);
 
         const [info0, info1, raw0, raw1] = await Promise.all([
           safeTokenInfo(poolToken0Addr, provider, knownTokens),
           safeTokenInfo(poolToken1Addr, provider, knownTokens),
-          erc0.balanceOf(poolAddrLower).catch(() => 0n) as Promise<bigint>,
-          erc1.balanceOf(poolAddrLower).catch(() => 0n) as Promise<bigint>,
+          tryReadContract<bigint>(erc0, "balanceOf", [poolAddrLower]).then((balance) => balance ?? 0n),
+          tryReadContract<bigint>(erc1, "balanceOf", [poolAddrLower]).then((balance) => balance ?? 0n),
         ]);
 
         const balance0: bigint =
@@ -391,8 +359,8 @@ export async function fetchAllV3Pools(
     },
   );
 
-  // Load pools with bounded concurrency (3 pools at a time).
-  const results = await pAll(poolTasks, 3);
+  // Load every pool at once; the multicall batcher bounds the request count.
+  const results = await Promise.all(poolTasks.map((task) => task()));
   const pools = results.filter((p): p is V3PoolData => p !== null);
 
   console.log(
@@ -0,0 +1,368 @@
+import { Contract, ZeroAddress, type Provider } from "ethers";
+import { V3_FACTORY_ABI, V3_POOL_ABI } from "./abis/v3";
+import { getPopulatedTicksAround, type PopulatedTick } from "./ticklens-utils";
+import { Q96, MIN_TICK, MAX_TICK, MIN_SQRT_RATIO, MAX_SQRT_RATIO, tickToSqrtPriceX96 } from "./v3-utils";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface V3PoolState {
+  poolAddress: string;
+  token0: string; // lowercase
+  token1: string; // lowercase
+  fee: number;
+  tickSpacing: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  ticks: PopulatedTick[]; // sorted ascending
+  tickLower: number; // ticks are known from here...
+  tickUpper: number; // ...up to (not including) here
+  fetchedAt: number;
+}
+
+export interface V3SwapSimulation {
+  amountIn: bigint; // includes fees
+  amountOut: bigint;
+  sqrtPriceX96After: bigint;
+  ticksCrossed: number;
+}
+
+export interface V3SimulationConfig {
+  factoryAddress: string;
+  tickLensAddress: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const FEE_DENOMINATOR = 1_000_000n;
+const TICK_WORD_RADIUS = 2; // Bitmap words fetched on each side of the current tick
+const POOL_STATE_TTL = 12 * 1000; // ~ a few blocks
+
+const poolStateCache = new Map<string, { state: V3PoolState | null; fetchedAt: number }>();
+const poolStateInFlight = new Map<string, Promise<V3PoolState | null>>();
+
+// ─── Full-precision math (port of SqrtPriceMath / SwapMath) ──────────────────
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  return product / denominator + (product % denominator > 0n ? 1n : 0n);
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b > 0n ? 1n : 0n);
+}
+
+function getAmount0Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = sqrtB - sqrtA;
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtB), sqrtA)
+    : (numerator1 * numerator2) / sqrtB / sqrtA;
+}
+
+function getAmount1Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+  return roundUp
+    ? mulDivRoundingUp(liquidity, sqrtB - sqrtA, Q96)
+    : (liquidity * (sqrtB - sqrtA)) / Q96;
+}
+
+function getNextSqrtPriceFromAmount0RoundingUp(sqrtP: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+  if (amount === 0n) return sqrtP;
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtP;
+  const denominator = add ? numerator1 + product : numerator1 - product;
+  if (denominator <= 0n) throw new Error("Insufficient liquidity");
+  return mulDivRoundingUp(numerator1, sqrtP, denominator);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(sqrtP: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+  if (add) return sqrtP + (amount << 96n) / liquidity;
+  const quotient = divRoundingUp(amount << 96n, liquidity);
+  if (sqrtP <= quotient) throw new Error("Insufficient liquidity");
+  return sqrtP - quotient;
+}
+
+function getNextSqrtPriceFromInput(sqrtP: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtP, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtP, liquidity, amountIn, true);
+}
+
+function getNextSqrtPriceFromOutput(sqrtP: bigint, liquidity: bigint, amountOut: bigint, zeroForOne: boolean): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount1RoundingDown(sqrtP, liquidity, amountOut, false)
+    : getNextSqrtPriceFromAmount0RoundingUp(sqrtP, liquidity, amountOut, false);
+}
+
+/**
+ * One swap step within a single initialized-tick range.
+ * `amountRemaining` is positive for exact input and negative for exact output.
+ */
+function computeSwapStep(
+  sqrtCurrent: bigint,
+  sqrtTarget: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: bigint,
+): { sqrtNext: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+  const zeroForOne = sqrtCurrent >= sqrtTarget;
+  const exactIn = amountRemaining >= 0n;
+  let sqrtNext: bigint;
+  let amountIn = 0n;
+  let amountOut = 0n;
+
+  if (exactIn) {
+    const amountRemainingLessFee = (amountRemaining * (FEE_DENOMINATOR - feePips)) / FEE_DENOMINATOR;
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtTarget, sqrtCurrent, liquidity, true)
+      : getAmount1Delta(sqrtCurrent, sqrtTarget, liquidity, true);
+    sqrtNext = amountRemainingLessFee >= amountIn
+      ? sqrtTarget
+      : getNextSqrtPriceFromInput(sqrtCurrent, liquidity, amountRemainingLessFee, zeroForOne);
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtTarget, sqrtCurrent, liquidity, false)
+      : getAmount0Delta(sqrtCurrent, sqrtTarget, liquidity, false);
+    sqrtNext = -amountRemaining >= amountOut
+      ? sqrtTarget
+      : getNextSqrtPriceFromOutput(sqrtCurrent, liquidity, -amountRemaining, zeroForOne);
+  }
+
+  const reachedTarget = sqrtNext === sqrtTarget;
+
+  if (zeroForOne) {
+    if (!(reachedTarget && exactIn)) amountIn = getAmount0Delta(sqrtNext, sqrtCurrent, liquidity, true);
+    if (!(reachedTarget && !exactIn)) amountOut = getAmount1Delta(sqrtNext, sqrtCurrent, liquidity, false);
+  } else {
+    if (!(reachedTarget && exactIn)) amountIn = getAmount1Delta(sqrtCurrent, sqrtNext, liquidity, true);
+    if (!(reachedTarget && !exactIn)) amountOut = getAmount0Delta(sqrtCurrent, sqrtNext, liquidity, false);
+  }
+
+  if (!exactIn && amountOut > -amountRemaining) amountOut = -amountRemaining;
+
+  const feeAmount = exactIn && !reachedTarget
+    ? amountRemaining - amountIn
+    : mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+
+  return { sqrtNext, amountIn, amountOut, feeAmount };
+}
+
+// ─── Swap simulation ─────────────────────────────────────────────────────────
+
+function nextInitializedTick(pool: V3PoolState, tick: number, zeroForOne: boolean): { tick: number; initialized: PopulatedTick | null } {
+  if (zeroForOne) {
+    for (let i = pool.ticks.length - 1; i >= 0; i--) {
+      if (pool.ticks[i].tick <= tick) return { tick: pool.ticks[i].tick, initialized: pool.ticks[i] };
+    }
+    return { tick: Math.max(pool.tickLower, MIN_TICK), initialized: null };
+  }
+  for (const populated of pool.ticks) {
+    if (populated.tick > tick) return { tick: populated.tick, initialized: populated };
+  }
+  return { tick: Math.min(pool.tickUpper, MAX_TICK), initialized: null };
+}
+
+/**
+ * Simulate a swap against a pool snapshot, crossing initialized ticks like the
+ * pool contract does. `amount` is the exact input, or the exact output when
+ * `exactInput` is false.
+ * Returns null when the swap would leave the fetched tick window or drain the
+ * pool, in which case callers should fall back to QuoterV2.
+ */
+export function simulateV3Swap(
+  pool: V3PoolState,
+  zeroForOne: boolean,
+  amount: bigint,
+  exactInput = true,
+): V3SwapSimulation | null {
+  if (amount <= 0n) return null;
+
+  const feePips = BigInt(pool.fee);
+  const sqrtPriceLimit = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+  let remaining = exactInput ? amount : -amount;
+  let sqrtP = pool.sqrtPriceX96;
+  let tick = pool.tick;
+  let liquidity = pool.liquidity;
+  let amountIn = 0n;
+  let amountOut = 0n;
+  let ticksCrossed = 0;
+
+  try {
+    while (remaining !== 0n && sqrtP !== sqrtPriceLimit) {
+      const next = nextInitializedTick(pool, tick, zeroForOne);
+      const sqrtNextTick = tickToSqrtPriceX96(next.tick);
+      const sqrtTarget = (zeroForOne ? sqrtNextTick < sqrtPriceLimit : sqrtNextTick > sqrtPriceLimit)
+        ? sqrtPriceLimit
+        : sqrtNextTick;
+
+      const step = computeSwapStep(sqrtP, sqrtTarget, liquidity, remaining, feePips);
+      sqrtP = step.sqrtNext;
+      amountIn += step.amountIn + step.feeAmount;
+      amountOut += step.amountOut;
+      remaining = exactInput
+        ? remaining - (step.amountIn + step.feeAmount)
+        : remaining + step.amountOut;
+
+      if (sqrtP !== sqrtNextTick) break;
+
+      if (next.initialized) {
+        const liquidityNet = zeroForOne ? -next.initialized.liquidityNet : next.initialized.liquidityNet;
+        liquidity += liquidityNet;
+        ticksCrossed++;
+      } else if (remaining !== 0n && next.tick !== MIN_TICK && next.tick !== MAX_TICK) {
+        // Reached the edge of the fetched window; liquidity beyond it is unknown
+        return null;
+      }
+      tick = zeroForOne ? next.tick - 1 : next.tick;
+    }
+  } catch {
+    return null;
+  }
+
+  if (remaining !== 0n) return null;
+  return { amountIn, amountOut, sqrtPriceX96After: sqrtP, ticksCrossed };
+}
+
+// ─── Pool state loading ──────────────────────────────────────────────────────
+
+function getPoolStateKey(factoryAddress: string, tokenA: string, tokenB: string, fee: number): string {
+  const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort();
+  return `${factoryAddress.toLowerCase()}-${a}-${b}-${fee}`;
+}
+
+/**
+ * Load slot0, in-range liquidity and the populated ticks around the current
+ * price for a pool. Snapshots are cached for a few blocks and concurrent
+ * callers share one load. Resolves to null when the pool does not exist.
+ */
+export function loadV3PoolState(
+  provider: Provider,
+  config: V3SimulationConfig,
+  tokenA: string,
+  tokenB: string,
+  fee: number,
+): Promise<V3PoolState | null> {
+  const key = getPoolStateKey(config.factoryAddress, tokenA, tokenB, fee);
+  const cached = poolStateCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < POOL_STATE_TTL) {
+    return Promise.resolve(cached.state);
+  }
+
+  const inFlight = poolStateInFlight.get(key);
+  if (inFlight) return inFlight;
+
+  const promise = (async () => {
+    const factory = new Contract(config.factoryAddress, V3_FACTORY_ABI, provider);
+    const poolAddress: string = await factory.getPool(tokenA, tokenB, fee);
+    if (!poolAddress || poolAddress === ZeroAddress) {
+      poolStateCache.set(key, { state: null, fetchedAt: Date.now() });
+      return null;
+    }
+
+    const pool = new Contract(poolAddress, V3_POOL_ABI, provider);
+    const [slot0, liquidity, tickSpacing, token0, token1] = await Promise.all([
+      pool.slot0(),
+      pool.liquidity(),
+      pool.tickSpacing(),
+      pool.token0(),
+      pool.token1(),
+    ]);
+    const tick = Number(slot0[1]);
+    const window = await getPopulatedTicksAround(
+      config.tickLensAddress,
+      poolAddress,
+      provider,
+      tick,
+      Number(tickSpacing),
+      TICK_WORD_RADIUS,
+    );
+
+    const state: V3PoolState = {
+      poolAddress: poolAddress.toLowerCase(),
+      token0: String(token0).toLowerCase(),
+      token1: String(token1).toLowerCase(),
+      fee,
+      tickSpacing: Number(tickSpacing),
+      sqrtPriceX96: slot0[0] as bigint,
+      tick,
+      liquidity: liquidity as bigint,
+      ticks: window.ticks,
+      tickLower: window.tickLower,
+      tickUpper: window.tickUpper,
+      fetchedAt: Date.now(),
+    };
+    poolStateCache.set(key, { state, fetchedAt: state.fetchedAt });
+    return state;
+  })().finally(() => {
+    poolStateInFlight.delete(key);
+  });
+
+  poolStateInFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Simulate an exact-input swap along a V3 path (tokens[i] → tokens[i+1] at fees[i]).
+ * Returns null when any pool is missing or can't be simulated locally.
+ */
+export async function simulateV3ExactInputPath(
+  provider: Provider,
+  config: V3SimulationConfig,
+  tokens: string[],
+  fees: number[],
+  amountIn: bigint,
+): Promise<V3SwapSimulation | null> {
+  const pools = await Promise.all(
+    fees.map((fee, i) => loadV3PoolState(provider, config, tokens[i], tokens[i + 1], fee)),
+  );
+
+  let amount = amountIn;
+  let ticksCrossed = 0;
+  let sqrtPriceX96After = 0n;
+  for (let i = 0; i < pools.length; i++) {
+    const pool = pools[i];
+    if (!pool) return null;
+    const zeroForOne = tokens[i].toLowerCase() === pool.token0;
+    const result = simulateV3Swap(pool, zeroForOne, amount);
+    if (!result || result.amountOut === 0n) return null;
+    amount = result.amountOut;
+    ticksCrossed += result.ticksCrossed;
+    sqrtPriceX96After = result.sqrtPriceX96After;
+  }
+
+  return { amountIn, amountOut: amount, sqrtPriceX96After, ticksCrossed };
+}
+
+/**
+ * Simulate an exact-output swap along a V3 path (tokens[0] → tokens[n]).
+ * Pools are walked backwards from the output; `amountIn` is the required input.
+ */
+export async function simulateV3ExactOutputPath(
+  provider: Provider,
+  config: V3SimulationConfig,
+  tokens: string[],
+  fees: number[],
+  amountOut: bigint,
+): Promise<V3SwapSimulation | null> {
+  const pools = await Promise.all(
+    fees.map((fee, i) => loadV3PoolState(provider, config, tokens[i], tokens[i + 1], fee)),
+  );
+
+  let amount = amountOut;
+  let ticksCrossed = 0;
+  let sqrtPriceX96After = 0n;
+  for (let i = pools.length - 1; i >= 0; i--) {
+    const pool = pools[i];
+    if (!pool) return null;
+    const zeroForOne = tokens[i].toLowerCase() === pool.token0;
+    const result = simulateV3Swap(pool, zeroForOne, amount, false);
+    if (!result || result.amountOut < amount) return null;
+    amount = result.amountIn;
+    ticksCrossed += result.ticksCrossed;
+    if (i === pools.length - 1) sqrtPriceX96After = result.sqrtPriceX96After;
+  }
+
+  return { amountIn: amount, amountOut, sqrtPriceX96After, ticksCrossed };
+}
@@ -1,12 +1,12 @@
 import { Token } from "@shared/schema";
 
 // Constants from Uniswap V3
-const Q96 = 2n ** 96n;
+export const Q96 = 2n ** 96n;
 const Q192 = Q96 * Q96;
-const MIN_TICK = -887272;
-const MAX_TICK = 887272;
-const MIN_SQRT_RATIO = 4295128739n;
-const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
 
 /**
  * Convert price to sqrtPriceX96
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { readLinkParams } from "@/lib/deep-links";
 import { AddLiquidityV2 } from "@/components/AddLiquidityV2";
 import { AddLiquidityV3Basic } from "@/components/AddLiquidityV3Basic";
 import { AddLiquidityV3Advanced } from "@/components/AddLiquidityV3Advanced";
@@ -10,9 +11,10 @@ type V3Tab = "basic" | "advanced";
 type Proto = "v2" | "v3";
 
 export default function AddLiquidity() {
-  const [proto, setProto] = useState<Proto>("v2");
+  // ?protocol=v3&mode=advanced opens that form; the form itself reads the pair and amount
+  const [proto, setProto] = useState<Proto>(() => (readLinkParams().get("protocol")?.toLowerCase() === "v3" ? "v3" : "v2"));
   const [v2Tab, setV2Tab] = useState<V2Tab>("add");
-  const [v3Tab, setV3Tab] = useState<V3Tab>("basic");
+  const [v3Tab, setV3Tab] = useState<V3Tab>(() => (readLinkParams().get("mode")?.toLowerCase() === "advanced" ? "advanced" : "basic"));
 
   return (
     <>
@@ -15,9 +15,12 @@ import {
   MESSAGE_TRANSMITTER_V2_ABI,
   getWorkingProvider,
   getChainByDomain,
+  getChainByChainId,
   getCCTPFeeRate,
   type CCTPChain,
 } from "@/lib/cctp-config";
+import { trackTransaction } from "@/lib/tx-tracker";
+import { parseLinkAmount, parseLinkNumber, readLinkParams } from "@/lib/deep-links";
 import {
   savePendingTransfer,
   updateTransferStatus,
@@ -657,6 +660,23 @@ function StepIndicator({ step, burnTxHash, mintTxHash, sourceChain, destChain }:
   );
 }
 
+// ── Link prefill ──────────────────────────────────────────────────────────────
+// ?sourceChain=<chain id>&destChain=<chain id>&amount=…&fast=false
+function readBridgeLink() {
+  const params = readLinkParams();
+  const source = getChainByChainId(parseLinkNumber(params.get("sourceChain")) ?? 0) ?? CCTP_TESTNET_CHAINS[0]; // Arc Testnet
+  const linkedDest = getChainByChainId(parseLinkNumber(params.get("destChain")) ?? 0);
+  const dest = linkedDest && linkedDest.domain !== source.domain
+    ? linkedDest
+    : CCTP_TESTNET_CHAINS.find(c => c.domain !== source.domain) ?? CCTP_TESTNET_CHAINS[1];
+  return {
+    source,
+    dest,
+    amount: parseLinkAmount(params.get("amount")) ?? "",
+    fast: params.get("fast") !== "false",
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Main Bridge component
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -664,18 +684,19 @@ export default function Bridge() {
   const { address, isConnected } = useAccount();
   const { toast } = useToast();
 
-  // Chain selection
-  const [sourceChain, setSourceChain] = useState<CCTPChain>(CCTP_TESTNET_CHAINS[0]); // Arc Testnet
-  const [destChain, setDestChain] = useState<CCTPChain>(CCTP_TESTNET_CHAINS[1]); // Ethereum Sepolia
+  // Chain selection, prefilled from the link if there is one
+  const [bridgeLink] = useState(readBridgeLink);
+  const [sourceChain, setSourceChain] = useState<CCTPChain>(bridgeLink.source);
+  const [destChain, setDestChain] = useState<CCTPChain>(bridgeLink.dest);
   const [showSourceSelector, setShowSourceSelector] = useState(false);
   const [showDestSelector, setShowDestSelector] = useState(false);
 
   // Amount + balances
-  const [amount, setAmount] = useState("");
+  const [amount, setAmount] = useState(bridgeLink.amount);
   const [sourceBalance, setSourceBalance] = useState<string | null>(null);
   const [sourceBalanceRaw, setSourceBalanceRaw] = useState<bigint | null>(null);
   const [isLoadingBalance, setIsLoadingBalance] = useState(false);
-  const [useFastTransfer, setUseFastTransfer] = useState(true);
+  const [useFastTransfer, setUseFastTransfer] = useState(bridgeLink.fast);
   const balanceIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const balanceFetchVersionRef = useRef(0);
 
@@ -1170,7 +1191,7 @@ export default function Bridge() {
         gasLimit,
         maxPriorityFeePerGas: PRIORITY_FEE_PER_GAS,
       });
-      const mintReceipt = await mintTx.wait();
+      const mintReceipt = await trackTransaction(mintTx, { label: `Mint USDC on ${dstChain.name}`, chainId: dstChain.chainId });
 
       if (!mintReceipt || mintReceipt.status !== 1) {
         const errorMsg = mintReceipt ? "Mint transaction failed" : "Failed to get mint receipt";
@@ -1764,7 +1785,7 @@ export default function Bridge() {
         const approveTx = await usdcContract.approve(sourceChain.tokenMessengerV2, amountWei, {
           maxPriorityFeePerGas: PRIORITY_FEE_PER_GAS,
         });
-        await approveTx.wait();
+        await trackTransaction(approveTx, { label: `Approve USDC on ${sourceChain.name}`, chainId: sourceChain.chainId });
       }
 
       if (abortRef.current) return;
@@ -1810,7 +1831,7 @@ export default function Bridge() {
         console.error("[bridge] Failed to persist post-burn transfer in background:", err);
       });
 
-      const burnReceipt = await burnTx.wait();
+      const burnReceipt = await trackTransaction(burnTx, { label: `Bridge USDC from ${sourceChain.name}`, chainId: sourceChain.chainId });
       if (burnReceipt?.status === 0) {
         throw new Error("Burn transaction failed on-chain");
       }
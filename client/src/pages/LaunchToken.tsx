@@ -8,6 +8,7 @@ import { useAccount, useBalance, useChainId } from "wagmi";
 import { useToast } from "@/hooks/use-toast";
 import { BrowserProvider, Contract, parseUnits, formatUnits } from "ethers";
 import { getContractsForChain } from "@/lib/contracts";
+import { trackTransaction } from "@/lib/tx-tracker";
 import { ACH_TOKEN_FACTORY_ABI, FACTORY_ADDRESS } from "@/lib/factory-abi";
 import { uploadToIPFS } from "@/lib/ipfs-upload";
 import { compressImage } from "@/lib/image-utils";
@@ -159,7 +160,7 @@ export default function LaunchToken() {
 
       toast({ title: "Transaction submitted!", description: "Waiting for confirmation…" });
 
-      const receipt = await tx.wait();
+      const receipt = await trackTransaction(tx, { label: `Launch ${symbol.trim().toUpperCase()}` });
 
       // Parse TokenCreated event to get deployed token address.
       // Primary: iface.parseLog (full decode, named args)
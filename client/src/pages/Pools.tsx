@@ -18,6 +18,7 @@ import {
   BarChart3,
   Coins,
   DollarSign,
+  Download,
   Flame,
   Layers,
   Search,
@@ -40,10 +41,13 @@ import {
   type ChartConfig,
 } from "@/components/ui/chart";
 import { useAccount } from "wagmi";
+import { useActivityExport } from "@/hooks/use-activity-export";
+import { ARC_TESTNET_CHAIN_ID } from "@/lib/config";
 
 const SUBGRAPH_PROXY_URL = "/api/subgraph";
 const ANALYTICS_SUMMARY_URL = "/api/analytics-summary";
 const SUBGRAPH_PROXY_APP_TOKEN = (import.meta.env.VITE_SUBGRAPH_PROXY_TOKEN as string | undefined)?.trim();
+const DAY_MS = 86400000;
 
 type Maybe<T> = T | null;
 
@@ -302,6 +306,11 @@ function shortenAddress(value: string): string {
   return `${value.slice(0, 6)}...${value.slice(-4)}`;
 }
 
+// "YYYY-MM-DD" in UTC, as date inputs expect
+function toDateInput(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
 function formatDate(ts: number): string {
   if (!Number.isFinite(ts) || ts <= 0) return "-";
   return new Date(ts * 1000).toLocaleString();
@@ -652,6 +661,16 @@ export default function Pools() {
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [selectedVolumeDay, setSelectedVolumeDay] = useState<number | null>(null);
   const [refreshNonce, setRefreshNonce] = useState(0);
+  const [exportFrom, setExportFrom] = useState(() => toDateInput(Date.now() - 30 * DAY_MS));
+  const [exportTo, setExportTo] = useState(() => toDateInput(Date.now()));
+  const { exporting, exportActivity } = useActivityExport();
+
+  // Whole UTC days, inclusive of the end date
+  const handleExport = (format: "csv" | "json") => {
+    const from = exportFrom ? Date.parse(exportFrom) : 0;
+    const to = exportTo ? Date.parse(exportTo) + DAY_MS - 1 : Date.now();
+    exportActivity(format, ARC_TESTNET_CHAIN_ID, appliedWallet, { from, to });
+  };
 
   useEffect(() => {
     const preferred = normalizeAddressInput(address ?? "");
@@ -1378,6 +1397,43 @@ export default function Pools() {
                           <span className="text-muted-foreground">Last Seen</span>
                           <span className="font-semibold">{formatDate(parseNum(data.targetUser.lastSeenTimestamp))}</span>
                         </div>
+                        <div className="space-y-2 rounded-lg border border-border/60 px-3 py-2">
+                          <span className="text-muted-foreground">Export Activity</span>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Input
+                              type="date"
+                              value={exportFrom}
+                              max={exportTo || undefined}
+                              onChange={(event) => setExportFrom(event.target.value)}
+                              className="h-8 w-auto text-xs"
+                              aria-label="Export from"
+                            />
+                            <span className="text-xs text-muted-foreground">to</span>
+                            <Input
+                              type="date"
+                              value={exportTo}
+                              min={exportFrom || undefined}
+                              onChange={(event) => setExportTo(event.target.value)}
+                              className="h-8 w-auto text-xs"
+                              aria-label="Export to"
+                            />
+                          </div>
+                          <div className="flex gap-2">
+                            {(["csv", "json"] as const).map((format) => (
+                              <Button
+                                key={format}
+                                variant="outline"
+                                size="sm"
+                                disabled={!!exporting}
+                                onClick={() => handleExport(format)}
+                                data-testid={`button-export-${format}`}
+                              >
+                                <Download className="h-3.5 w-3.5" />
+                                {exporting === format ? "Exporting…" : format.toUpperCase()}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
                       </CardContent>
                     </Card>
                   </div>
@@ -1,23 +1,53 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import {
-  ArrowDownUp, AlertTriangle, ExternalLink, ChevronDown, Bell, Zap, Settings, ZapOff, Loader2, Copy,
+  ArrowDownUp, AlertTriangle, ExternalLink, ChevronDown, Bell, Zap, Settings, ZapOff, Loader2, Copy, ListOrdered, Repeat, Link2,
 } from "lucide-react";
 import { TokenSelector } from "@/components/TokenSelector";
 import { SwapSettings } from "@/components/SwapSettings";
 import { TransactionHistory } from "@/components/TransactionHistory";
-import { PathVisualizer, type RouteHop } from "@/components/PathVisualizer";
-import { useAccount, useBalance, useChainId } from "wagmi";
+import { SignedPermits } from "@/components/SignedPermits";
+import { LimitOrders } from "@/components/LimitOrders";
+import { DcaOrders } from "@/components/DcaOrders";
+import { LinkedRecipientConfirm } from "@/components/LinkedRecipientConfirm";
+import { LinkedTokenImport } from "@/components/LinkedTokenImport";
+import { PathVisualizer, type RouteHop, type RouteStepQuote } from "@/components/PathVisualizer";
+import { RouteComparison } from "@/components/RouteComparison";
+import { useAccount, useBalance, useBlockNumber, useChainId } from "wagmi";
 import { useToast } from "@/hooks/use-toast";
+import { useLinkedTokens } from "@/hooks/use-linked-tokens";
 import type { Token } from "@shared/schema";
-import { Contract, BrowserProvider, getAddress, formatUnits } from "ethers";
-import { getTokensByChainId, isNativeToken, getWrappedAddress, isRWAToken, isRWASwapPair, getUSDC, getWUSDC, isCanonicalUSDC, isCanonicalWUSDC } from "@/data/tokens";
+import { Contract, BrowserProvider, getAddress, formatUnits, type JsonRpcSigner } from "ethers";
+import { getTokensByChainId, isNativeToken, getWrappedAddress, isRWAToken, isRWASwapPair, isCompositeRWAPair, getUSDC, getWUSDC, isCanonicalUSDC, isCanonicalWUSDC } from "@/data/tokens";
 import { formatAmount, parseAmount, getMaxAmount } from "@/lib/decimal-utils";
 import { getContractsForChain } from "@/lib/contracts";
-import { getSmartRouteQuote, getRWAQuote, type SmartRoutingResult, type RWAQuoteResult } from "@/lib/smart-routing";
-import { loadDexSettings, saveDexSettings } from "@/lib/dex-settings";
-import { getCachedQuote, setCachedQuote } from "@/lib/quote-cache";
+import {
+  getSmartRouteQuote,
+  getExactOutputQuote,
+  getRWAQuote,
+  getRWAExactOutputQuote,
+  getCompositeRWAQuote,
+  isCompositeRWAQuote,
+  getRoutingOutputAmount,
+  getRoutingNetOutputAmount,
+  getRoutingGasCost,
+  getRoutingPriceImpact,
+  getRoutingPoolAddresses,
+  applyRoutePin,
+  getRWACandidate,
+  type SmartRoutingResult,
+  type QuoteResult,
+  type SplitRouteLeg,
+  type RWAQuoteResult,
+  type CompositeRWAQuoteResult,
+} from "@/lib/smart-routing";
+import { loadRouteGraph, type RouteGraph } from "@/lib/route-graph";
+import { loadDexSettings, saveDexSettings, getRoutingPreferencesKey, DEFAULT_ROUTING_PREFERENCES, type RoutingPreferences } from "@/lib/dex-settings";
+import { buildRouteFilters, loadFlaggedPools } from "@/lib/route-filters";
+import { getQuoteCacheKey, invalidateQuote, loadQuote, peekCachedQuote, updateBlockNumber, type QuoteCacheParams } from "@/lib/quote-cache";
+import { getMulticallProvider } from "@/lib/multicall";
 import { SWAP_ROUTER_V3_ABI } from "@/lib/abis/v3";
+import { encodePath } from "@/lib/v3-utils";
 import { RWA_VAULT_ABI } from "@/lib/abis/rwa";
 import { createAlchemyProvider } from "@/lib/config";
 import { getErrorForToast, parseError } from "@/lib/error-utils";
@@ -27,8 +57,25 @@ import {
   executeGaslessSwapV2,
   executeGaslessSwapV3,
   executeGaslessSwapV3MultiHop,
+  executeGaslessSplit,
+  executeGaslessRWASwap,
+  getGaslessQuota,
+  loadPendingGaslessSwaps,
+  removePendingGaslessSwap,
+  resumeGaslessSwap,
+  buildV2Segment,
+  buildV3Segment,
+  buildV3MultiHopSegment,
+  buildRWASegment,
+  MAX_SPLIT_SEGMENTS,
+  type GaslessSegment,
+  type GaslessSwapMeta,
+  type GaslessQuota,
 } from "@/lib/gasless-swap";
 import { GASLESS_CONFIG, NATIVE_TOKEN, NATIVE_TOKEN_DECIMALS } from "@/lib/gasless-config";
+import { getSignedPermits, getSignedPermitStatus } from "@/lib/signed-permits";
+import { DEFAULT_SLIPPAGE, SWAP_LINK_TOKEN_FIELDS, parseLinkAddress, parseLinkAmount, parseLinkExactField, parseLinkSlippage, writeLinkParams } from "@/lib/deep-links";
+import { trackTransaction, TransactionTrackingError, type TrackableTransaction } from "@/lib/tx-tracker";
 
 const ERC20_ABI = [
   "function name() view returns (string)",
@@ -66,15 +113,21 @@ export default function Swap() {
   const [toToken, setToToken] = useState<Token | null>(null);
   const [fromAmount, setFromAmount] = useState("");
   const [toAmount, setToAmount] = useState("");
+  // Which box the user typed in: the other side is quoted
+  const [tradeType, setTradeType] = useState<"EXACT_INPUT" | "EXACT_OUTPUT">("EXACT_INPUT");
+  const isExactOutput = tradeType === "EXACT_OUTPUT";
+  const independentAmount = isExactOutput ? toAmount : fromAmount;
   const [showFromSelector, setShowFromSelector] = useState(false);
   const [showToSelector, setShowToSelector] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [tokens, setTokens] = useState<Token[]>([]);
   const [isSwapping, setIsSwapping] = useState(false);
   const [isLoadingQuote, setIsLoadingQuote] = useState(false);
-  const [slippage, setSlippage] = useState(0.5);
+  const [isRefreshingQuote, setIsRefreshingQuote] = useState(false); // A stale cached quote is shown while it revalidates
+  const [slippage, setSlippage] = useState(DEFAULT_SLIPPAGE);
   const [deadline, setDeadline] = useState(20);
   const [recipientAddress, setRecipientAddress] = useState("");
+  const [linkedRecipient, setLinkedRecipient] = useState<string | null>(null); // From a link; applied only once confirmed
   const [priceImpact, setPriceImpact] = useState<number | null>(null);
   const [quoteRefreshInterval, setQuoteRefreshInterval] = useState(30);
   const [showTransactionHistory, setShowTransactionHistory] = useState(false);
@@ -101,22 +154,34 @@ export default function Swap() {
   const [permit2Approved, setPermit2Approved] = useState(false);
   const [isCheckingPermit2, setIsCheckingPermit2] = useState(false);
   const [isApprovingPermit2, setIsApprovingPermit2] = useState(false);
+  const [gaslessQuota, setGaslessQuota] = useState<GaslessQuota | null>(null); // Null until checked, or when the check failed
+  const [showSignedPermits, setShowSignedPermits] = useState(false);
+  const [outstandingPermits, setOutstandingPermits] = useState(0); // Signed Permit2 messages that could still be spent
+  const [showLimitOrders, setShowLimitOrders] = useState(false);
+  const [showDcaOrders, setShowDcaOrders] = useState(false);
 
   const [smartRoutingResult, setSmartRoutingResult] = useState<SmartRoutingResult | null>(null);
   const [rwaQuoteResult, setRwaQuoteResult] = useState<RWAQuoteResult | null>(null);
   const [routeHops, setRouteHops] = useState<RouteHop[]>([]);
   const [v2Enabled, setV2Enabled] = useState(true);
   const [v3Enabled, setV3Enabled] = useState(true);
+  const [routingPreferences, setRoutingPreferences] = useState<RoutingPreferences>(DEFAULT_ROUTING_PREFERENCES);
+  const [flaggedPools, setFlaggedPools] = useState<Set<string> | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const maxAmountWeiRef = useRef<bigint | null>(null);
   const maxJustClickedRef = useRef<boolean>(false);
   const quoteRefreshNonceRef = useRef<number>(0);
+  const lastQuotedNonceRef = useRef<number>(0); // Nonce of the last quote request; a bump forces revalidation
+  const routeGraphRef = useRef<RouteGraph | null>(null);
+  const routerResultRef = useRef<SmartRoutingResult | null>(null); // Router's own result, before any pinned route is applied
+  const pinnedRouteIdRef = useRef<string | null>(null); // Candidate the user pinned; kept across re-quotes of the same pair
   const [quoteRefreshNonce, setQuoteRefreshNonce] = useState(0);
 
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
   const { toast } = useToast();
 
   // Recent tokens: last 5 selected tokens (per chain), stored in localStorage
@@ -221,14 +286,43 @@ export default function Swap() {
   let contracts: ReturnType<typeof getContractsForChain> | null = null;
   try { contracts = chainId ? getContractsForChain(chainId) : null; } catch { /* wrong chain */ }
 
-  const isRWAPair = isRWASwapPair(fromToken, toToken);
+  const isCompositeRwaPair = isCompositeRWAPair(fromToken, toToken); // token → USDC → RWA (and back) via the DEX
+  const isGaslessRwaBlocked = isCompositeRwaPair || (isRWASwapPair(fromToken, toToken) && !GASLESS_CONFIG.rwaSegments);
+  const isRWAPair = isRWASwapPair(fromToken, toToken) || isCompositeRwaPair;
   const isRwaBuy = isRWAPair && isRWAToken(toToken);  // USDC → RWA
   const isRwaRedeem = isRWAPair && isRWAToken(fromToken); // RWA → USDC
   const isWrapPair = !!(fromToken && toToken && isCanonicalUSDC(fromToken) && isCanonicalWUSDC(toToken));
   const isUnwrapPair = !!(fromToken && toToken && isCanonicalWUSDC(fromToken) && isCanonicalUSDC(toToken));
 
-  useEffect(() => { const s = loadDexSettings(); setV2Enabled(s.v2Enabled); setV3Enabled(s.v3Enabled); }, []);
-  useEffect(() => { saveDexSettings({ v2Enabled, v3Enabled }); }, [v2Enabled, v3Enabled]);
+  useEffect(() => {
+    const { v2Enabled: storedV2, v3Enabled: storedV3, ...storedPreferences } = loadDexSettings();
+    setV2Enabled(storedV2); setV3Enabled(storedV3); setRoutingPreferences(storedPreferences);
+  }, []);
+  useEffect(() => { saveDexSettings({ v2Enabled, v3Enabled, ...routingPreferences }); }, [v2Enabled, v3Enabled, routingPreferences]);
+
+  // Subgraph outlier flags feed the pool deny list; routing proceeds without them until loaded
+  useEffect(() => {
+    if (!routingPreferences.excludeFlaggedPools) return;
+    let cancelled = false;
+    loadFlaggedPools().then((pools) => { if (!cancelled) setFlaggedPools(pools); });
+    return () => { cancelled = true; };
+  }, [routingPreferences.excludeFlaggedPools]);
+
+  const routeFilters = useMemo(() => buildRouteFilters(routingPreferences, flaggedPools), [routingPreferences, flaggedPools]);
+  // Quote cache key part: a filter change (or the flagged list arriving) must not reuse old quotes
+  // Gasless and wallet-sent swaps split differently (v3OnlySplits), so they quote separately
+  const routingKey = `${getRoutingPreferencesKey(routingPreferences)}|${routingPreferences.excludeFlaggedPools ? flaggedPools?.size ?? "pending" : "off"}|${gaslessMode ? "gasless" : "wallet"}`;
+
+  // Pool graph for multi-hop discovery; quotes fall back to wrapped-token hops until it loads
+  useEffect(() => {
+    routeGraphRef.current = null;
+    if (!contracts || tokens.length === 0) return;
+    let cancelled = false;
+    loadRouteGraph(chainId, contracts, tokens)
+      .then((graph) => { if (!cancelled) routeGraphRef.current = graph; })
+      .catch((error) => console.warn("[Swap] Route graph unavailable:", error));
+    return () => { cancelled = true; };
+  }, [chainId, contracts, tokens]);
 
   const openExplorer = (txHash: string) => { if (contracts) window.open(`${contracts.explorer}${txHash}`, "_blank"); };
 
@@ -292,16 +386,35 @@ export default function Swap() {
     return {};
   };
 
-  const ensureTxSucceeded = async (tx: { wait: () => Promise<any> }, context: string): Promise<any> => {
-    const receipt = await tx.wait();
-    if (!receipt || receipt.status === 0) {
-      throw new Error(`${context} transaction reverted`);
+  const ensureTxSucceeded = async (tx: TrackableTransaction, context: string): Promise<any> => {
+    try {
+      return await trackTransaction(tx, { label: context });
+    } catch (error) {
+      if (error instanceof TransactionTrackingError && error.code === "CALL_EXCEPTION") {
+        throw new Error(`${context} transaction reverted`);
+      }
+      throw error;
+    }
+  };
+
+  // V2 quotes are computed from the local reserve snapshot; the router double-checks right before sending
+  const confirmV2Output = async (path: string[], amountIn: bigint, minAmountOut: bigint) => {
+    if (!contracts) return;
+    const router = new Contract(
+      contracts.v2.router,
+      ["function getAmountsOut(uint,address[]) view returns (uint[])"],
+      createAlchemyProvider(chainId),
+    );
+    const amounts: bigint[] = await router.getAmountsOut(amountIn, path);
+    if (amounts[amounts.length - 1] < minAmountOut) {
+      throw new Error("Price moved since the quote. Please refresh the quote and try again.");
     }
-    return receipt;
   };
 
   useEffect(() => { loadTokens(); }, [chainId]);
 
+  useEffect(() => { if (blockNumber !== undefined) updateBlockNumber(Number(blockNumber), getMulticallProvider(chainId)); }, [blockNumber]);
+
   useEffect(() => {
     if (!gaslessMode || !address || !fromToken) {
       setPermit2Approved(false);
@@ -310,6 +423,80 @@ export default function Swap() {
     checkPermit2();
   }, [gaslessMode, address, fromToken?.address, chainId]);
 
+  const refreshOutstandingPermits = () => {
+    setOutstandingPermits(address ? getSignedPermits(address, chainId).filter((p) => getSignedPermitStatus(p) === "outstanding").length : 0);
+  };
+
+  useEffect(() => { refreshOutstandingPermits(); }, [address, chainId, isSwapping]);
+
+  // ── Gasless quota ──────────────────────────────────────────────────────────
+  // Daily sponsorship left for this wallet, and whether the current trade qualifies
+  useEffect(() => {
+    if (!gaslessMode || !address || isSwapping) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      let tokenIn: string | undefined;
+      let amountIn: bigint | undefined;
+      if (fromToken && !isExactOutput) {
+        const amount = parseAmount(fromAmount, fromToken.decimals);
+        if (amount > 0n) {
+          tokenIn = getGaslessTokenAddress(fromToken.address);
+          amountIn = isNativeToken(fromToken.address)
+            ? amount / 10n ** BigInt((fromToken.decimals || 18) - NATIVE_TOKEN_DECIMALS)
+            : amount;
+        }
+      }
+      getGaslessQuota(address, tokenIn, amountIn, controller.signal)
+        .then(setGaslessQuota)
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          console.warn("[Gasless] Quota check failed:", error);
+          setGaslessQuota(null);
+        });
+    }, 400);
+    return () => { clearTimeout(timer); controller.abort(); };
+  }, [gaslessMode, address, fromToken?.address, fromAmount, isExactOutput, isSwapping]);
+
+  // ── Pending gasless swaps ──────────────────────────────────────────────────
+  // Gasless swaps still in flight when the page was closed are tracked to completion
+  useEffect(() => {
+    if (!address) return;
+    const pending = loadPendingGaslessSwaps(address, chainId);
+    if (pending.length === 0) return;
+    const controller = new AbortController();
+    const provider = createAlchemyProvider(chainId);
+    toast({ title: "Checking pending gasless swap…", description: `Resuming ${pending.length} swap${pending.length > 1 ? "s" : ""} from your last visit` });
+
+    for (const swap of pending) {
+      resumeGaslessSwap(provider, swap, controller.signal).then(async (outcome) => {
+        if (controller.signal.aborted || outcome.status === "pending") return;
+        removePendingGaslessSwap(swap.id);
+        if (outcome.status === "unknown") return; // Never broadcast, so nothing was spent
+        const txHash = outcome.txHash;
+        const meta = swap.meta;
+        if (outcome.status === "mined" && txHash) {
+          await Promise.all([refetchFromBalance(), refetchToBalance()]);
+          toast({
+            title: "Gasless swap successful!",
+            description: (
+              <div className="flex items-center gap-2">
+                <span>{meta ? `Swapped ${meta.fromAmount} ${meta.fromToken.symbol} → ${meta.toAmount} ${meta.toToken.symbol}` : "Your pending swap was mined"}</span>
+                <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => openExplorer(txHash)}><ExternalLink className="h-3 w-3" /></Button>
+              </div>
+            ),
+          });
+        } else {
+          toast({
+            title: outcome.status === "replaced" ? "Gasless swap dropped" : "Gasless swap failed",
+            description: outcome.error || "The pending swap from your last visit did not complete",
+            variant: "destructive",
+          });
+        }
+      }).catch((error) => console.warn("[Gasless] Resume failed:", error));
+    }
+    return () => controller.abort();
+  }, [address, chainId]);
+
   const getGaslessTokenAddress = (tokenAddress: string) => {
     return isNativeToken(tokenAddress) ? NATIVE_TOKEN : tokenAddress;
   };
@@ -481,6 +668,50 @@ export default function Swap() {
     }
   };
 
+  // ── Link params ────────────────────────────────────────────────────────────
+  // A shared link (?inputCurrency=…&outputCurrency=…&exactAmount=…) replaces the
+  // default pair once the token list is loaded; after that the URL follows the form.
+  // A linked recipient is only applied after the user confirms the address in full
+  const linkedTokens = useLinkedTokens({
+    fields: SWAP_LINK_TOKEN_FIELDS,
+    tokens,
+    onToken: (field, token) => (field === "inputCurrency" ? setFromToken(token) : setToToken(token)),
+    onApply: (params) => {
+      const amount = parseLinkAmount(params.get("exactAmount"));
+      if (amount && parseLinkExactField(params.get("exactField")) === "output") {
+        setTradeType("EXACT_OUTPUT"); setToAmount(amount);
+      } else if (amount) {
+        setTradeType("EXACT_INPUT"); setFromAmount(amount);
+      }
+      const linkedSlippage = parseLinkSlippage(params.get("slippage"));
+      if (linkedSlippage !== null) setSlippage(linkedSlippage);
+      setLinkedRecipient(parseLinkAddress(params.get("recipient")));
+    },
+    importToken: handleImportToken,
+  });
+
+  useEffect(() => {
+    // Leave the link alone while one of its tokens or its recipient still waits on a confirmation
+    if (!linkedTokens.applied || linkedTokens.pendingImport || linkedRecipient) return;
+    writeLinkParams({
+      inputCurrency: fromToken?.address,
+      outputCurrency: toToken?.address,
+      exactAmount: independentAmount || null,
+      exactField: independentAmount ? (isExactOutput ? "output" : "input") : null,
+      slippage: slippage !== DEFAULT_SLIPPAGE ? String(slippage) : null,
+      recipient: parseLinkAddress(recipientAddress),
+    });
+  }, [linkedTokens.applied, linkedTokens.pendingImport, linkedRecipient, fromToken?.address, toToken?.address, independentAmount, isExactOutput, slippage, recipientAddress]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "It opens this swap with the same tokens and amount" });
+    } catch {
+      toast({ title: "Couldn't copy link", description: "Copy it from the address bar instead", variant: "destructive" });
+    }
+  };
+
   // ── Quote fetching ─────────────────────────────────────────────────────────
   useEffect(() => {
     // Only clear max amount ref if it wasn't just set by MAX button
@@ -492,6 +723,7 @@ export default function Swap() {
 
     if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
     if (abortControllerRef.current) abortControllerRef.current.abort();
+    setIsRefreshingQuote(false);
     debounceTimeoutRef.current = setTimeout(() => {
       const controller = new AbortController();
       abortControllerRef.current = controller;
@@ -501,7 +733,7 @@ export default function Swap() {
       if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
       if (abortControllerRef.current) abortControllerRef.current.abort();
     };
-  }, [fromAmount, fromToken, toToken, tokens, contracts, chainId, v2Enabled, v3Enabled, quoteRefreshNonce]);
+  }, [independentAmount, tradeType, fromToken, toToken, tokens, contracts, chainId, v2Enabled, v3Enabled, routingKey, quoteRefreshNonce]);
 
   useEffect(() => {
     setFromImgError(false);
@@ -512,15 +744,160 @@ export default function Swap() {
   useEffect(() => {
     if (!quoteRefreshInterval || quoteRefreshInterval < 5) return;
     const id = setInterval(() => {
-      if (!fromAmount || parseFloat(fromAmount) <= 0) return;
+      if (!independentAmount || parseFloat(independentAmount) <= 0) return;
       const next = quoteRefreshNonceRef.current + 1;
       quoteRefreshNonceRef.current = next;
       setQuoteRefreshNonce(next);
     }, quoteRefreshInterval * 1000);
     return () => clearInterval(id);
-  }, [quoteRefreshInterval, fromAmount]);
+  }, [quoteRefreshInterval, independentAmount]);
+
+  // ── Cached quoting ─────────────────────────────────────────────────────────
+  // A fresh cached quote is returned as-is. A stale one is shown right away
+  // (marked as refreshing) while the request revalidates it; identical requests
+  // share one fetch. Resolves undefined when this request has been superseded.
+  const resolveQuote = async <T,>(
+    params: Omit<QuoteCacheParams, "chainId" | "v2Enabled" | "v3Enabled" | "routingKey" | "recipient">,
+    fetcher: (signal: AbortSignal) => Promise<T | null>,
+    signal: AbortSignal,
+    showStale: (value: T) => void,
+    getPools?: (value: T) => string[] | null,
+  ): Promise<T | null | undefined> => {
+    const key = getQuoteCacheKey({ ...params, chainId, v2Enabled, v3Enabled, routingKey, recipient: recipientAddress || address });
+    if (lastQuotedNonceRef.current !== quoteRefreshNonceRef.current) {
+      lastQuotedNonceRef.current = quoteRefreshNonceRef.current;
+      invalidateQuote(key);
+    }
+    const cached = peekCachedQuote<T>(key);
+    if (cached && !cached.stale) return cached.value;
+    if (cached) {
+      showStale(cached.value);
+      setIsLoadingQuote(false);
+      setIsRefreshingQuote(true);
+    }
+    try {
+      const value = await loadQuote(key, fetcher, { signal, getPools });
+      return signal.aborted ? undefined : value;
+    } catch (error) {
+      if (signal.aborted) return undefined;
+      throw error;
+    } finally {
+      if (!signal.aborted) setIsRefreshingQuote(false);
+    }
+  };
+
+  const getResultPools = (result: SmartRoutingResult) => {
+    const wrapped = getWUSDC(chainId);
+    return wrapped ? getRoutingPoolAddresses(result, routeGraphRef.current, wrapped.address) : null;
+  };
+
+  // ── Exact-output quoting ───────────────────────────────────────────────────
+  // The "to" amount is fixed; the required input is quoted into the "from" box
+  const fetchExactOutputQuote = async (signal: AbortSignal) => {
+    if (!fromToken || !toToken || !toAmount || parseFloat(toAmount) <= 0) {
+      setIsLoadingQuote(false);
+      setFromAmount(""); setPriceImpact(null); setRwaQuoteResult(null); setSmartRoutingResult(null); return;
+    }
+    const clearQuote = () => { setFromAmount(""); setPriceImpact(null); setRouteHops([]); setRwaQuoteResult(null); setSmartRoutingResult(null); };
+    if (isCanonicalUSDC(fromToken) && isCanonicalWUSDC(toToken) || isCanonicalWUSDC(fromToken) && isCanonicalUSDC(toToken)) {
+      setIsLoadingQuote(false);
+      setFromAmount(toAmount); setPriceImpact(0);
+      setRouteHops([{ tokenIn: fromToken, tokenOut: toToken, protocol: "V2" }]); setRwaQuoteResult(null); return;
+    }
+    if (!contracts) { setIsLoadingQuote(false); clearQuote(); return; }
+
+    setIsLoadingQuote(true);
+    const provider = createAlchemyProvider(chainId);
+    try {
+      const amountOut = parseAmount(toAmount, toToken.decimals);
+
+      // Composite RWA routes are quoted from the input side only
+      if (isCompositeRWAPair(fromToken, toToken)) { clearQuote(); return; }
+
+      if (isRWASwapPair(fromToken, toToken)) {
+        if (!contracts.rwa) { clearQuote(); return; }
+        const rwa = contracts.rwa;
+        const showRwaResult = (rwaResult: RWAQuoteResult) => {
+          setRwaQuoteResult(rwaResult);
+          setSmartRoutingResult(null);
+          setFromAmount(formatUnits(rwaResult.inputAmount, fromToken.decimals));
+          setPriceImpact(rwaResult.priceImpact);
+          setRouteHops(rwaResult.route);
+        };
+        const rwaResult = await resolveQuote(
+          { kind: "rwaExactOutput", fromToken: fromToken.address, toToken: toToken.address, amount: amountOut },
+          (fetchSignal) => getRWAExactOutputQuote(provider, rwa.vault, fromToken, toToken, amountOut, fetchSignal),
+          signal,
+          showRwaResult,
+        );
+        if (rwaResult === undefined) return;
+        if (!rwaResult) { clearQuote(); return; }
+        if (rwaResult.isStale) {
+          toast({ title: "Price is stale", description: "Oracle price may be outdated. Swap may fail.", variant: "destructive" });
+        }
+        showRwaResult(rwaResult);
+        return;
+      }
+
+      const wrappedTokenData = getWUSDC(chainId);
+      if (!wrappedTokenData) throw new Error("wUSDC not found");
+      if (!v2Enabled && !v3Enabled) {
+        toast({ title: "No protocols enabled", description: "Enable at least one in settings", variant: "destructive" });
+        clearQuote(); return;
+      }
+      const showExactOutputResult = (result: SmartRoutingResult) => {
+        setSmartRoutingResult(result);
+        setRwaQuoteResult(null);
+        setFromAmount(formatUnits(result.inputAmount, fromToken.decimals));
+        setPriceImpact(getRoutingPriceImpact(result) ?? null);
+        setRouteHops(result.bestQuote.route);
+      };
+      const result = await resolveQuote(
+        { kind: "exactOutput", fromToken: fromToken.address, toToken: toToken.address, amount: amountOut },
+        (fetchSignal) => getExactOutputQuote(provider, contracts.v2.router, contracts.v3.quoter02, fromToken, toToken, amountOut, wrappedTokenData, v2Enabled, v3Enabled, fetchSignal, {
+          routeGraph: routeGraphRef.current,
+          v3Simulation: { factoryAddress: contracts.v3.factory, tickLensAddress: contracts.v3.tickLens },
+          v2Reserves: { factoryAddress: contracts.v2.factory },
+          maxHops: routingPreferences.maxHops,
+          filters: routeFilters,
+        }),
+        signal,
+        showExactOutputResult,
+        getResultPools,
+      );
+      if (result === undefined) return;
+      if (!result) { clearQuote(); return; }
+      showExactOutputResult(result);
+    } catch { if (signal.aborted) return; clearQuote(); }
+    finally { if (!signal.aborted) setIsLoadingQuote(false); }
+  };
+
+  const showRoutingResult = (result: SmartRoutingResult) => {
+    if (!toToken) return;
+    setSmartRoutingResult(result);
+    const displayDecimals = Math.min(4, toToken.decimals);
+    const threshold = 10 ** -displayDecimals;
+    const outputAmount = getRoutingOutputAmount(result);
+    const rawOutput = parseFloat(formatUnits(outputAmount, toToken.decimals));
+    const formatted = formatAmount(outputAmount, toToken.decimals);
+    setToAmountBelowThreshold(rawOutput > 0 && rawOutput < threshold);
+    setToAmount(formatted);
+    setPriceImpact(getRoutingPriceImpact(result) ?? null);
+    setRouteHops(result.bestQuote.route);
+  };
+
+  // ── Route pinning ──────────────────────────────────────────────────────────
+  // Execution reads smartRoutingResult, so pinning swaps the candidate in as bestQuote
+  const handlePinRoute = (routeId: string | null) => {
+    const routerResult = routerResultRef.current;
+    if (!routerResult || routerResult.kind === "exactOutput") return;
+    pinnedRouteIdRef.current = routeId;
+    setImpactAcknowledged(false);
+    showRoutingResult(applyRoutePin(routerResult, routeId));
+  };
 
   const fetchQuote = async (signal: AbortSignal) => {
+    if (isExactOutput) return fetchExactOutputQuote(signal);
     if (!fromToken || !toToken || !fromAmount || parseFloat(fromAmount) <= 0) {
       setIsLoadingQuote(false);
       setToAmount(""); setPriceImpact(null); setToAmountBelowThreshold(false); setRwaQuoteResult(null); return;
@@ -535,14 +912,46 @@ export default function Swap() {
 
     // ── RWA Swap Path ───────────────────────────────────────────────────────
     const isRwa = isRWASwapPair(fromToken, toToken);
-    if (isRwa && contracts?.rwa) {
+    const isCompositeRwa = isCompositeRWAPair(fromToken, toToken);
+    if ((isRwa || isCompositeRwa) && contracts?.rwa) {
       setIsLoadingQuote(true);
       try {
         const provider = createAlchemyProvider(chainId);
         if (signal.aborted) return;
         const amountIn = maxAmountWeiRef.current !== null ? maxAmountWeiRef.current : parseAmount(fromAmount, fromToken.decimals);
-        const rwaResult = await getRWAQuote(provider, contracts.rwa.vault, fromToken, toToken, amountIn, signal);
-        if (signal.aborted) return;
+        const usdcToken = getUSDC(chainId);
+        const wrappedTokenData = getWUSDC(chainId);
+        const rwa = contracts.rwa;
+        const showRwaResult = (rwaResult: RWAQuoteResult) => {
+          setRwaQuoteResult(rwaResult);
+          setSmartRoutingResult(null);
+          const formatted = formatAmount(rwaResult.outputAmount, toToken.decimals);
+          const rawOutput = parseFloat(formatUnits(rwaResult.outputAmount, toToken.decimals));
+          const displayDecimals = Math.min(4, toToken.decimals);
+          const threshold = 10 ** -displayDecimals;
+          setToAmountBelowThreshold(rawOutput > 0 && rawOutput < threshold);
+          setToAmount(formatted);
+          setPriceImpact(rwaResult.priceImpact);
+          setRouteHops(rwaResult.route);
+        };
+        // Vault quotes follow the oracle, so these entries go stale on every block
+        const rwaResult = await resolveQuote<RWAQuoteResult>(
+          { kind: isCompositeRwa ? "compositeRwa" : "rwaExactInput", fromToken: fromToken.address, toToken: toToken.address, amount: amountIn },
+          (fetchSignal) => !isCompositeRwa
+            ? getRWAQuote(provider, rwa.vault, fromToken, toToken, amountIn, fetchSignal)
+            : usdcToken && wrappedTokenData
+              ? getCompositeRWAQuote(provider, contracts.v2.router, contracts.v3.quoter02, rwa.vault, fromToken, toToken, amountIn, usdcToken, wrappedTokenData, v2Enabled, v3Enabled, fetchSignal, {
+                  routeGraph: routeGraphRef.current,
+                  v3Simulation: { factoryAddress: contracts.v3.factory, tickLensAddress: contracts.v3.tickLens },
+                  v2Reserves: { factoryAddress: contracts.v2.factory },
+                  maxHops: routingPreferences.maxHops,
+                  filters: routeFilters,
+                })
+              : Promise.resolve(null),
+          signal,
+          showRwaResult,
+        );
+        if (rwaResult === undefined) return;
         if (!rwaResult) {
           setToAmount(""); setPriceImpact(null); setRouteHops([]); setRwaQuoteResult(null); setToAmountBelowThreshold(false);
           return;
@@ -550,16 +959,7 @@ export default function Swap() {
         if (rwaResult.isStale) {
           toast({ title: "Price is stale", description: "Oracle price may be outdated. Swap may fail.", variant: "destructive" });
         }
-        setRwaQuoteResult(rwaResult);
-        setSmartRoutingResult(null);
-        const formatted = formatAmount(rwaResult.outputAmount, toToken.decimals);
-        const rawOutput = parseFloat(formatUnits(rwaResult.outputAmount, toToken.decimals));
-        const displayDecimals = Math.min(4, toToken.decimals);
-        const threshold = 10 ** -displayDecimals;
-        setToAmountBelowThreshold(rawOutput > 0 && rawOutput < threshold);
-        setToAmount(formatted);
-        setPriceImpact(rwaResult.priceImpact);
-        setRouteHops(rwaResult.route);
+        showRwaResult(rwaResult);
       } catch {
         if (signal.aborted) return;
         setToAmount(""); setPriceImpact(null); setRouteHops([]); setRwaQuoteResult(null);
@@ -589,55 +989,60 @@ export default function Swap() {
         setToAmount(""); setPriceImpact(null); setRouteHops([]); setSmartRoutingResult(null); return;
       }
       if (signal.aborted) return;
-      const cached = getCachedQuote(fromToken.address, toToken.address, fromAmount + (quoteRefreshNonceRef.current ? `#${quoteRefreshNonceRef.current}` : ""), v2Enabled, v3Enabled);
-      let result: SmartRoutingResult | null;
-      if (cached) { result = cached; }
-      else {
-        result = await getSmartRouteQuote(provider, contracts.v2.router, contracts.v3.quoter02, fromToken, toToken, amountIn, wrappedTokenData, v2Enabled, v3Enabled, signal);
-        if (signal.aborted) return;
-        if (result) setCachedQuote(fromToken.address, toToken.address, fromAmount + (quoteRefreshNonceRef.current ? `#${quoteRefreshNonceRef.current}` : ""), v2Enabled, v3Enabled, result);
-      }
+      const showRouterResult = (result: SmartRoutingResult) => {
+        routerResultRef.current = result;
+        const active = applyRoutePin(result, pinnedRouteIdRef.current);
+        // The pinned route may not be quotable at the new amount; fall back to the router's pick
+        if (!active.pinnedRouteId) pinnedRouteIdRef.current = null;
+        setRwaQuoteResult(null);
+        showRoutingResult(active);
+      };
+      const result = await resolveQuote(
+        { kind: "exactInput", fromToken: fromToken.address, toToken: toToken.address, amount: amountIn },
+        (fetchSignal) => getSmartRouteQuote(provider, contracts.v2.router, contracts.v3.quoter02, fromToken, toToken, amountIn, wrappedTokenData, v2Enabled, v3Enabled, fetchSignal, {
+          routeGraph: routeGraphRef.current,
+          v3Simulation: { factoryAddress: contracts.v3.factory, tickLensAddress: contracts.v3.tickLens },
+          v2Reserves: { factoryAddress: contracts.v2.factory },
+          maxHops: routingPreferences.maxHops,
+          filters: routeFilters,
+          v3OnlySplits: !gaslessMode,
+        }),
+        signal,
+        showRouterResult,
+        getResultPools,
+      );
+      if (result === undefined) return;
       if (!result?.bestQuote) { setToAmount(""); setPriceImpact(null); setRouteHops([]); setToAmountBelowThreshold(false); setSmartRoutingResult(null); return; }
-      setSmartRoutingResult(result);
-      setRwaQuoteResult(null);
-      const displayDecimals = Math.min(4, toToken.decimals);
-      const threshold = 10 ** -displayDecimals;
-      const rawOutput = parseFloat(formatUnits(result.bestQuote.outputAmount, toToken.decimals));
-      const formatted = formatAmount(result.bestQuote.outputAmount, toToken.decimals);
-      setToAmountBelowThreshold(rawOutput > 0 && rawOutput < threshold);
-      setToAmount(formatted);
-      setPriceImpact(result.bestQuote.priceImpact ?? null);
-      setRouteHops(result.bestQuote.route);
+      showRouterResult(result);
     } catch { if (signal.aborted) return; setToAmount(""); setPriceImpact(null); setRouteHops([]); setSmartRoutingResult(null); }
     finally { if (!signal.aborted) setIsLoadingQuote(false); }
   };
 
   const handleSwapTokens = () => {
-    setFromToken(toToken); setToToken(fromToken);
+    pinnedRouteIdRef.current = null;
+    setFromToken(toToken); setToToken(fromToken); setTradeType("EXACT_INPUT");
     setFromAmount(""); setToAmount(""); setSmartRoutingResult(null); setRwaQuoteResult(null);
   };
 
   // ── RWA token selection constraints ─────────────────────────────────────────
-  // When one side is RWA, the other must be USDC
+  // When one side is RWA, the other can't be RWA; non-USDC tokens route through USDC
   const handleFromSelect = (t: Token) => {
-    if (isRWAToken(t)) {
+    if (isRWAToken(t) && (!toToken || isRWAToken(toToken))) {
       const usdc = getUSDC(chainId);
       if (usdc && toToken?.address !== usdc.address) setToToken(usdc);
-    } else if (isRWAToken(toToken) && !isCanonicalUSDC(t)) {
-      setToToken(null);
     }
+    pinnedRouteIdRef.current = null;
     setFromToken(t); setShowFromSelector(false);
     setFromAmount(""); setToAmount(""); setSmartRoutingResult(null); setRwaQuoteResult(null);
     addRecentToken(t);
   };
 
   const handleToSelect = (t: Token) => {
-    if (isRWAToken(t)) {
+    if (isRWAToken(t) && (!fromToken || isRWAToken(fromToken))) {
       const usdc = getUSDC(chainId);
       if (usdc && fromToken?.address !== usdc.address) setFromToken(usdc);
-    } else if (isRWAToken(fromToken) && !isCanonicalUSDC(t)) {
-      setFromToken(null);
     }
+    pinnedRouteIdRef.current = null;
     setToToken(t); setShowToSelector(false);
     setFromAmount(""); setToAmount(""); setSmartRoutingResult(null); setRwaQuoteResult(null);
     addRecentToken(t);
@@ -693,12 +1098,507 @@ export default function Swap() {
     finally { setIsSwapping(false); }
   };
 
-  const saveTransaction = (from: Token, to: Token, fromAmt: string, toAmt: string, txHash: string) => {
-    const key = `transactions_${chainId}`;
-    const txs = JSON.parse(localStorage.getItem(key) || "[]");
-    txs.unshift({ id: txHash, fromToken: from, toToken: to, fromAmount: fromAmt, toAmount: toAmt, timestamp: Date.now(), chainId });
-    if (txs.length > 50) txs.pop();
-    localStorage.setItem(key, JSON.stringify(txs));
+  // ── Split swap ─────────────────────────────────────────────────────────────
+  // All legs go into one SwapRouter multicall, so the split fills completely or
+  // not at all. Wallet-sent quotes only split across V3 paths (v3OnlySplits);
+  // splits with V2 legs run through the relayer's executeSplit instead.
+  const executeSplitLegs = async (
+    legs: SplitRouteLeg[],
+    signer: JsonRpcSigner,
+    provider: BrowserProvider,
+    recipient: string,
+    deadlineTimestamp: number,
+    slippageBps: bigint,
+  ): Promise<any> => {
+    if (!fromToken || !toToken || !contracts || !address) throw new Error("Swap not ready");
+    if (legs.length === 0) throw new Error("Split route has no executable legs");
+    if (legs.some((leg) => leg.quote.protocol !== "V3")) {
+      throw new Error("This split includes V2 legs and can only run gaslessly. Refresh the quote and try again.");
+    }
+    const wrappedAddr = getWrappedAddress(chainId, "0x0000000000000000000000000000000000000000");
+    if (!wrappedAddr) throw new Error("Wrapped token address not found");
+    const fromNative = isNativeToken(fromToken.address);
+    const toNative = isNativeToken(toToken.address);
+    const toPathAddress = (tokenAddress: string) => (isNativeToken(tokenAddress) ? wrappedAddr : tokenAddress);
+    const getLegPath = (leg: SplitRouteLeg) => [
+      toPathAddress(leg.quote.route[0].tokenIn.address),
+      ...leg.quote.route.map((hop) => toPathAddress(hop.tokenOut.address)),
+    ];
+    const getLegMinOut = (leg: SplitRouteLeg) => (leg.quote.outputAmount * (10000n - slippageBps)) / 10000n;
+    const totalIn = legs.reduce((sum, leg) => sum + leg.amountIn, 0n);
+
+    if (!fromNative) {
+      const tc = new Contract(fromToken.address, ERC20_ABI, signer);
+      if (await tc.allowance(address, contracts.v3.swapRouter) < totalIn) {
+        toast({ title: "Approval needed" });
+        const ag = await tc.approve.estimateGas(contracts.v3.swapRouter, totalIn);
+        const approvalFeeOverrides = await getFastTxOverrides(provider);
+        await ensureTxSucceeded(
+          await tc.approve(contracts.v3.swapRouter, totalIn, { gasLimit: ag * 150n / 100n, ...approvalFeeOverrides }),
+          "V3 approval",
+        );
+      }
+    }
+
+    const swapRouter = new Contract(contracts.v3.swapRouter, SWAP_ROUTER_V3_ABI, signer);
+    // Native output is collected by the router and unwrapped once for all legs
+    const swapRecipient = toNative ? contracts.v3.swapRouter : recipient;
+    const calls = legs.map((leg) =>
+      swapRouter.interface.encodeFunctionData("exactInput", [{
+        path: encodePath(getLegPath(leg), leg.quote.route.map((hop) => hop.fee || 3000)),
+        recipient: swapRecipient,
+        deadline: deadlineTimestamp,
+        amountIn: leg.amountIn,
+        amountOutMinimum: getLegMinOut(leg),
+      }]),
+    );
+    if (toNative) {
+      calls.push(swapRouter.interface.encodeFunctionData("unwrapWETH9", [legs.reduce((sum, leg) => sum + getLegMinOut(leg), 0n), recipient]));
+    }
+    const totalValue = fromNative ? totalIn : 0n;
+    const swapFeeOverrides = await getFastTxOverrides(provider);
+    const g = await swapRouter.multicall.estimateGas(calls, { value: totalValue });
+    return swapRouter.multicall(calls, { gasLimit: g * 150n / 100n, value: totalValue, ...swapFeeOverrides });
+  };
+
+  // ── Gasless split ──────────────────────────────────────────────────────────
+  // Each leg becomes one executeSplit segment under a single Permit2 signature.
+  // Leg amounts are converted to the permit token's decimals and the last leg
+  // takes the rounding remainder, so the segments sum exactly to the signed total.
+  const buildGaslessSplitSegments = (
+    legs: SplitRouteLeg[],
+    permitTotal: bigint,
+    toPermitAmount: (amount: bigint) => bigint,
+    slippageBps: bigint,
+    deadlineTimestamp: number,
+  ): GaslessSegment[] => {
+    const wrappedAddr = getWrappedAddress(chainId, "0x0000000000000000000000000000000000000000");
+    if (!wrappedAddr) throw new Error("Wrapped token address not found");
+    const toPathAddress = (tokenAddress: string) => (isNativeToken(tokenAddress) ? wrappedAddr : tokenAddress);
+
+    let assigned = 0n;
+    return legs.map((leg, i) => {
+      const amountIn = i === legs.length - 1 ? permitTotal - assigned : toPermitAmount(leg.amountIn);
+      if (amountIn <= 0n) throw new Error("Split leg is too small for a gasless swap");
+      assigned += amountIn;
+      const minOut = (leg.quote.outputAmount * (10000n - slippageBps)) / 10000n;
+      const route = leg.quote.route;
+
+      if (leg.quote.protocol === "V2") {
+        const path = [toPathAddress(route[0].tokenIn.address), ...route.map((hop) => toPathAddress(hop.tokenOut.address))];
+        return buildV2Segment(path, amountIn, minOut, deadlineTimestamp);
+      }
+      if (leg.quote.protocol === "V3" && route.length === 1) {
+        return buildV3Segment(toPathAddress(route[0].tokenOut.address), route[0].fee || 3000, amountIn, minOut, deadlineTimestamp);
+      }
+      if (leg.quote.protocol === "V3") {
+        const path = encodePath(
+          [toPathAddress(route[0].tokenIn.address), ...route.map((hop) => toPathAddress(hop.tokenOut.address))],
+          route.map((hop) => hop.fee || 3000),
+        );
+        return buildV3MultiHopSegment(path, amountIn, minOut, deadlineTimestamp);
+      }
+      throw new Error("Mixed V2/V3 legs can't be executed gaslessly. Try regular swap.");
+    });
+  };
+
+  // ── Mixed V2/V3 route ──────────────────────────────────────────────────────
+  // Each same-protocol segment is its own transaction. Intermediate output lands
+  // in the user's wallet and the next segment spends exactly what arrived.
+  const executeMixedRoute = async (
+    quote: QuoteResult,
+    signer: JsonRpcSigner,
+    provider: BrowserProvider,
+    recipient: string,
+    deadlineTimestamp: number,
+    amountIn: bigint,
+    minAmountOut: bigint,
+    slippageBps: bigint,
+  ): Promise<any> => {
+    if (!fromToken || !toToken || !contracts || !address) throw new Error("Swap not ready");
+    const wrappedAddr = getWrappedAddress(chainId, "0x0000000000000000000000000000000000000000");
+    if (!wrappedAddr) throw new Error("Wrapped token address not found");
+    const toPathAddress = (tokenAddress: string) => (isNativeToken(tokenAddress) ? wrappedAddr : tokenAddress);
+
+    const segments: RouteHop[][] = [];
+    for (const hop of quote.route) {
+      const last = segments[segments.length - 1];
+      if (last && last[0].protocol === hop.protocol) last.push(hop);
+      else segments.push([hop]);
+    }
+
+    const V2_ABI = [
+      "function swapExactTokensForTokens(uint,uint,address[],address,uint) external returns (uint[])",
+      "function swapExactETHForTokens(uint,address[],address,uint) external payable returns (uint[])",
+      "function swapExactTokensForETH(uint,uint,address[],address,uint) external returns (uint[])",
+    ];
+
+    let segmentAmountIn = amountIn;
+    let lastTx: any = null;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const isFirst = i === 0;
+      const isLast = i === segments.length - 1;
+      const segmentFromNative = isFirst && isNativeToken(fromToken.address);
+      const segmentToNative = isLast && isNativeToken(toToken.address);
+      const tokenInAddr = toPathAddress(segment[0].tokenIn.address);
+      const tokenOutAddr = toPathAddress(segment[segment.length - 1].tokenOut.address);
+      const path = [tokenInAddr, ...segment.map((hop) => toPathAddress(hop.tokenOut.address))];
+      const segmentRecipient = isLast ? recipient : address;
+      const quotedOut = quote.segmentOutputs?.[i] ?? 0n;
+      const segmentMinOut = isLast ? minAmountOut : (quotedOut * (10000n - slippageBps)) / 10000n;
+      const spender = segment[0].protocol === "V3" ? contracts.v3.swapRouter : contracts.v2.router;
+
+      if (!segmentFromNative) {
+        const tc = new Contract(tokenInAddr, ERC20_ABI, signer);
+        if (await tc.allowance(address, spender) < segmentAmountIn) {
+          toast({ title: "Approval needed" });
+          const ag = await tc.approve.estimateGas(spender, segmentAmountIn);
+          const approvalFeeOverrides = await getFastTxOverrides(provider);
+          await ensureTxSucceeded(
+            await tc.approve(spender, segmentAmountIn, { gasLimit: ag * 150n / 100n, ...approvalFeeOverrides }),
+            `${segment[0].protocol} approval`,
+          );
+        }
+      }
+
+      const outToken = new Contract(tokenOutAddr, ERC20_ABI, provider);
+      const balanceBefore: bigint = isLast ? 0n : await outToken.balanceOf(address);
+      const swapFeeOverrides = await getFastTxOverrides(provider);
+
+      if (segment[0].protocol === "V3") {
+        const swapRouter = new Contract(contracts.v3.swapRouter, SWAP_ROUTER_V3_ABI, signer);
+        const calls = [
+          swapRouter.interface.encodeFunctionData("exactInput", [{
+            path: encodePath(path, segment.map((hop) => hop.fee || 3000)),
+            recipient: segmentToNative ? contracts.v3.swapRouter : segmentRecipient,
+            deadline: deadlineTimestamp,
+            amountIn: segmentAmountIn,
+            amountOutMinimum: segmentMinOut,
+          }]),
+        ];
+        if (segmentToNative) {
+          calls.push(swapRouter.interface.encodeFunctionData("unwrapWETH9", [segmentMinOut, segmentRecipient]));
+        }
+        const value = segmentFromNative ? segmentAmountIn : 0n;
+        const g = await swapRouter.multicall.estimateGas(calls, { value });
+        lastTx = await swapRouter.multicall(calls, { gasLimit: g * 150n / 100n, value, ...swapFeeOverrides });
+      } else {
+        const router = new Contract(contracts.v2.router, V2_ABI, signer);
+        if (segmentFromNative) {
+          const g = await router.swapExactETHForTokens.estimateGas(segmentMinOut, path, segmentRecipient, deadlineTimestamp, { value: segmentAmountIn });
+          lastTx = await router.swapExactETHForTokens(segmentMinOut, path, segmentRecipient, deadlineTimestamp, { value: segmentAmountIn, gasLimit: g * 150n / 100n, ...swapFeeOverrides });
+        } else if (segmentToNative) {
+          const g = await router.swapExactTokensForETH.estimateGas(segmentAmountIn, segmentMinOut, path, segmentRecipient, deadlineTimestamp);
+          lastTx = await router.swapExactTokensForETH(segmentAmountIn, segmentMinOut, path, segmentRecipient, deadlineTimestamp, { gasLimit: g * 150n / 100n, ...swapFeeOverrides });
+        } else {
+          const g = await router.swapExactTokensForTokens.estimateGas(segmentAmountIn, segmentMinOut, path, segmentRecipient, deadlineTimestamp);
+          lastTx = await router.swapExactTokensForTokens(segmentAmountIn, segmentMinOut, path, segmentRecipient, deadlineTimestamp, { gasLimit: g * 150n / 100n, ...swapFeeOverrides });
+        }
+      }
+
+      if (!isLast) {
+        await ensureTxSucceeded(lastTx, `${segment[0].protocol} route segment`);
+        const balanceAfter: bigint = await outToken.balanceOf(address);
+        segmentAmountIn = balanceAfter - balanceBefore;
+        if (segmentAmountIn <= 0n) throw new Error("Route segment returned no output");
+      }
+    }
+
+    if (!lastTx) throw new Error("Mixed route has no executable segments");
+    return lastTx;
+  };
+
+  // ── Gasless mixed route ────────────────────────────────────────────────────
+  // Same segments as executeMixedRoute, each relayed as its own gasless swap
+  // under its own permit. The intermediate token lands in the wallet and the
+  // next permit covers exactly what arrived, so intermediate tokens are checked
+  // for a Permit2 approval and gasless eligibility before the first segment runs.
+  const executeGaslessMixedRoute = async (
+    quote: QuoteResult,
+    signer: JsonRpcSigner,
+    tokenIn: string,
+    amountIn: bigint,
+    permitAmountIn: bigint,
+    minAmountOut: bigint,
+    slippageBps: bigint,
+    deadlineTimestamp: number,
+    meta: GaslessSwapMeta,
+  ): Promise<{ txHash: string; receipt: any }> => {
+    if (!address) throw new Error("Swap not ready");
+    const wrappedAddr = getWrappedAddress(chainId, "0x0000000000000000000000000000000000000000");
+    if (!wrappedAddr) throw new Error("Wrapped token address not found");
+    const toPathAddress = (tokenAddress: string) => (isNativeToken(tokenAddress) ? wrappedAddr : tokenAddress);
+
+    const segments: RouteHop[][] = [];
+    for (const hop of quote.route) {
+      const last = segments[segments.length - 1];
+      if (last && last[0].protocol === hop.protocol) last.push(hop);
+      else segments.push([hop]);
+    }
+
+    for (let i = 1; i < segments.length; i++) {
+      const hopToken = segments[i][0].tokenIn;
+      const token = toPathAddress(hopToken.address);
+      if (!(await checkPermit2Approval(signer, token))) {
+        toast({ title: "Approval needed", description: `Approve Permit2 for ${hopToken.symbol} so the next segment can run gasless` });
+        await approvePermit2(signer, token);
+      }
+      const quota = await getGaslessQuota(address, token, quote.segmentOutputs?.[i - 1] ?? 0n);
+      if (!quota.eligible) throw new Error(quota.reason || `${hopToken.symbol} can't be swapped gaslessly. Try regular swap.`);
+      if (quota.swapsRemaining !== null && quota.swapsRemaining < segments.length) {
+        throw new Error(`This route takes ${segments.length} gasless swaps and your daily quota has ${quota.swapsRemaining} left. Try regular swap.`);
+      }
+    }
+
+    let segmentTokenIn = tokenIn;
+    let segmentAmountIn = amountIn;
+    let segmentPermitAmount = permitAmountIn;
+    let result: { txHash: string; receipt: any } | null = null;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const isLast = i === segments.length - 1;
+      const path = [toPathAddress(segment[0].tokenIn.address), ...segment.map((hop) => toPathAddress(hop.tokenOut.address))];
+      const quotedOut = quote.segmentOutputs?.[i] ?? 0n;
+      const segmentMinOut = isLast ? minAmountOut : (quotedOut * (10000n - slippageBps)) / 10000n;
+
+      let gaslessSegment: GaslessSegment;
+      if (segment[0].protocol === "V2") {
+        await confirmV2Output(path, segmentAmountIn, segmentMinOut);
+        gaslessSegment = buildV2Segment(path, segmentPermitAmount, segmentMinOut, deadlineTimestamp);
+      } else if (segment.length === 1) {
+        gaslessSegment = buildV3Segment(path[1], segment[0].fee || 3000, segmentPermitAmount, segmentMinOut, deadlineTimestamp);
+      } else {
+        const encoded = encodePath(path, segment.map((hop) => hop.fee || 3000));
+        gaslessSegment = buildV3MultiHopSegment(encoded, segmentPermitAmount, segmentMinOut, deadlineTimestamp);
+      }
+
+      if (i > 0) toast({ title: `Route segment ${i + 1}/${segments.length}`, description: `Sign the permit for the ${segment[0].protocol} segment` });
+      const outToken = new Contract(path[path.length - 1], ERC20_ABI, signer.provider);
+      const balanceBefore: bigint = isLast ? 0n : await outToken.balanceOf(address);
+      result = await executeGaslessSplit(signer, segmentTokenIn, [gaslessSegment], deadlineTimestamp, isLast ? meta : undefined);
+
+      if (!isLast) {
+        const balanceAfter: bigint = await outToken.balanceOf(address);
+        segmentAmountIn = balanceAfter - balanceBefore;
+        if (segmentAmountIn <= 0n) throw new Error("Route segment returned no output");
+        segmentPermitAmount = segmentAmountIn;
+        segmentTokenIn = path[path.length - 1];
+      }
+    }
+
+    if (!result) throw new Error("Mixed route has no executable segments");
+    return result;
+  };
+
+  // ── Exact-output swap ──────────────────────────────────────────────────────
+  // Receives exactly quote.outputAmount, spending at most maxAmountIn. Unused
+  // native input is refunded by the router.
+  const executeExactOutputSwap = async (
+    quote: QuoteResult,
+    signer: JsonRpcSigner,
+    provider: BrowserProvider,
+    recipient: string,
+    deadlineTimestamp: number,
+    maxAmountIn: bigint,
+  ): Promise<any> => {
+    if (!fromToken || !toToken || !contracts || !address) throw new Error("Swap not ready");
+    const wrappedAddr = getWrappedAddress(chainId, "0x0000000000000000000000000000000000000000");
+    if (!wrappedAddr) throw new Error("Wrapped token address not found");
+    const fromNative = isNativeToken(fromToken.address);
+    const toNative = isNativeToken(toToken.address);
+    const toPathAddress = (tokenAddress: string) => (isNativeToken(tokenAddress) ? wrappedAddr : tokenAddress);
+    const path = [toPathAddress(quote.route[0].tokenIn.address), ...quote.route.map((hop) => toPathAddress(hop.tokenOut.address))];
+    const amountOut = quote.outputAmount;
+    const spender = quote.protocol === "V3" ? contracts.v3.swapRouter : contracts.v2.router;
+
+    if (!fromNative) {
+      const tc = new Contract(fromToken.address, ERC20_ABI, signer);
+      if (await tc.allowance(address, spender) < maxAmountIn) {
+        toast({ title: "Approval needed" });
+        const ag = await tc.approve.estimateGas(spender, maxAmountIn);
+        const approvalFeeOverrides = await getFastTxOverrides(provider);
+        await ensureTxSucceeded(
+          await tc.approve(spender, maxAmountIn, { gasLimit: ag * 150n / 100n, ...approvalFeeOverrides }),
+          `${quote.protocol} approval`,
+        );
+      }
+    }
+
+    const swapFeeOverrides = await getFastTxOverrides(provider);
+
+    if (quote.protocol === "V3") {
+      const swapRouter = new Contract(contracts.v3.swapRouter, SWAP_ROUTER_V3_ABI, signer);
+      const swapRecipient = toNative ? contracts.v3.swapRouter : recipient;
+      const fees = quote.route.map((hop) => hop.fee || 3000);
+      const calls = [
+        quote.route.length === 1
+          ? swapRouter.interface.encodeFunctionData("exactOutputSingle", [{
+              tokenIn: path[0],
+              tokenOut: path[1],
+              fee: fees[0],
+              recipient: swapRecipient,
+              deadline: deadlineTimestamp,
+              amountOut,
+              amountInMaximum: maxAmountIn,
+              sqrtPriceLimitX96: 0n,
+            }])
+          : swapRouter.interface.encodeFunctionData("exactOutput", [{
+              // exactOutput paths are encoded from the output token back to the input
+              path: encodePath([...path].reverse(), [...fees].reverse()),
+              recipient: swapRecipient,
+              deadline: deadlineTimestamp,
+              amountOut,
+              amountInMaximum: maxAmountIn,
+            }]),
+      ];
+      if (toNative) calls.push(swapRouter.interface.encodeFunctionData("unwrapWETH9", [amountOut, recipient]));
+      if (fromNative) calls.push(swapRouter.interface.encodeFunctionData("refundETH", []));
+      const value = fromNative ? maxAmountIn : 0n;
+      const g = await swapRouter.multicall.estimateGas(calls, { value });
+      return swapRouter.multicall(calls, { gasLimit: g * 150n / 100n, value, ...swapFeeOverrides });
+    }
+
+    const V2_ABI = [
+      "function swapTokensForExactTokens(uint,uint,address[],address,uint) external returns (uint[])",
+      "function swapETHForExactTokens(uint,address[],address,uint) external payable returns (uint[])",
+      "function swapTokensForExactETH(uint,uint,address[],address,uint) external returns (uint[])",
+    ];
+    const router = new Contract(contracts.v2.router, V2_ABI, signer);
+    if (fromNative) {
+      const g = await router.swapETHForExactTokens.estimateGas(amountOut, path, recipient, deadlineTimestamp, { value: maxAmountIn });
+      return router.swapETHForExactTokens(amountOut, path, recipient, deadlineTimestamp, { value: maxAmountIn, gasLimit: g * 150n / 100n, ...swapFeeOverrides });
+    }
+    if (toNative) {
+      const g = await router.swapTokensForExactETH.estimateGas(amountOut, maxAmountIn, path, recipient, deadlineTimestamp);
+      return router.swapTokensForExactETH(amountOut, maxAmountIn, path, recipient, deadlineTimestamp, { gasLimit: g * 150n / 100n, ...swapFeeOverrides });
+    }
+    const g = await router.swapTokensForExactTokens.estimateGas(amountOut, maxAmountIn, path, recipient, deadlineTimestamp);
+    return router.swapTokensForExactTokens(amountOut, maxAmountIn, path, recipient, deadlineTimestamp, { gasLimit: g * 150n / 100n, ...swapFeeOverrides });
+  };
+
+  // ── Composite RWA swap ─────────────────────────────────────────────────────
+  // token → USDC → RWA: the DEX leg pays native USDC into the wallet and the
+  // vault buys with exactly what arrived. Redeems run the vault leg first.
+  // Intermediate legs carry their own min-out; the last leg the end-to-end one.
+  const executeCompositeRWASwap = async (
+    quote: CompositeRWAQuoteResult,
+    signer: JsonRpcSigner,
+    provider: BrowserProvider,
+    amountIn: bigint,
+    slippageBps: bigint,
+  ): Promise<any> => {
+    if (!fromToken || !toToken || !contracts?.rwa || !address || !wrappedToken) throw new Error("Swap not ready");
+    const vault = new Contract(contracts.rwa.vault, RWA_VAULT_ABI, signer);
+    const wc = new Contract(wrappedToken.address, WRAPPED_TOKEN_ABI, signer);
+    const deadlineTimestamp = Math.floor(Date.now() / 1000) + deadline * 60;
+    const applySlippage = (amount: bigint) => (amount * (10000n - slippageBps)) / 10000n;
+    const minFinalOut = applySlippage(quote.outputAmount);
+
+    // USDC is also the gas token, so the tx fee is added back to the balance delta
+    const sendForNativeOutput = async (send: () => Promise<any>, context: string) => {
+      const balanceBefore = await provider.getBalance(address);
+      const receipt = await ensureTxSucceeded(await send(), context);
+      const balanceAfter = await provider.getBalance(address, receipt.blockNumber);
+      const received: bigint = balanceAfter - balanceBefore + receipt.fee;
+      if (received <= 0n) throw new Error(`${context} returned no USDC`);
+      return received;
+    };
+
+    const sendDexLeg = async (dex: QuoteResult, legAmountIn: bigint, minOut: bigint, fromNative: boolean) => {
+      const toPathAddress = (tokenAddress: string) => (isNativeToken(tokenAddress) ? wrappedToken.address : tokenAddress);
+      const path = [toPathAddress(dex.route[0].tokenIn.address), ...dex.route.map((hop) => toPathAddress(hop.tokenOut.address))];
+      const swapFeeOverrides = await getFastTxOverrides(provider);
+      if (dex.protocol === "V3") {
+        const swapRouter = new Contract(contracts.v3.swapRouter, SWAP_ROUTER_V3_ABI, signer);
+        const calls = [
+          swapRouter.interface.encodeFunctionData("exactInput", [{
+            path: encodePath(path, dex.route.map((hop) => hop.fee || 3000)),
+            recipient: fromNative ? address : contracts.v3.swapRouter,
+            deadline: deadlineTimestamp,
+            amountIn: legAmountIn,
+            amountOutMinimum: minOut,
+          }]),
+        ];
+        if (!fromNative) calls.push(swapRouter.interface.encodeFunctionData("unwrapWETH9", [minOut, address]));
+        const value = fromNative ? legAmountIn : 0n;
+        const g = await swapRouter.multicall.estimateGas(calls, { value });
+        return swapRouter.multicall(calls, { gasLimit: g * 150n / 100n, value, ...swapFeeOverrides });
+      }
+      await confirmV2Output(path, legAmountIn, minOut);
+      const router = new Contract(contracts.v2.router, [
+        "function swapExactETHForTokens(uint,address[],address,uint) external payable returns (uint[])",
+        "function swapExactTokensForETH(uint,uint,address[],address,uint) external returns (uint[])",
+      ], signer);
+      if (fromNative) {
+        const g = await router.swapExactETHForTokens.estimateGas(minOut, path, address, deadlineTimestamp, { value: legAmountIn });
+        return router.swapExactETHForTokens(minOut, path, address, deadlineTimestamp, { value: legAmountIn, gasLimit: g * 150n / 100n, ...swapFeeOverrides });
+      }
+      const g = await router.swapExactTokensForETH.estimateGas(legAmountIn, minOut, path, address, deadlineTimestamp);
+      return router.swapExactTokensForETH(legAmountIn, minOut, path, address, deadlineTimestamp, { gasLimit: g * 150n / 100n, ...swapFeeOverrides });
+    };
+
+    if (quote.isBuy) {
+      // Leg 1: token → native USDC (wUSDC is unwrapped 1:1)
+      let usdcIn: bigint;
+      if (!quote.dexQuote) {
+        toast({ title: "Unwrapping…", description: `Step 1 of 2: ${fromToken.symbol} → USDC` });
+        const g = await wc.withdraw.estimateGas(amountIn);
+        const feeOverrides = await getFastTxOverrides(provider);
+        await ensureTxSucceeded(await wc.withdraw(amountIn, { gasLimit: g * 150n / 100n, ...feeOverrides }), "Unwrap");
+        usdcIn = amountIn;
+      } else {
+        const dex = quote.dexQuote;
+        const spender = dex.protocol === "V3" ? contracts.v3.swapRouter : contracts.v2.router;
+        const tc = new Contract(fromToken.address, ERC20_ABI, signer);
+        if (await tc.allowance(address, spender) < amountIn) {
+          toast({ title: "Approval needed" });
+          const ag = await tc.approve.estimateGas(spender, amountIn);
+          const approvalFeeOverrides = await getFastTxOverrides(provider);
+          await ensureTxSucceeded(
+            await tc.approve(spender, amountIn, { gasLimit: ag * 150n / 100n, ...approvalFeeOverrides }),
+            `${dex.protocol} approval`,
+          );
+        }
+        toast({ title: "Swapping to USDC…", description: `Step 1 of 2: ${fromToken.symbol} → USDC` });
+        usdcIn = await sendForNativeOutput(
+          () => sendDexLeg(dex, amountIn, applySlippage(dex.outputAmount), false),
+          `${dex.protocol} swap`,
+        );
+      }
+
+      // Leg 2: vault.buy with the USDC that arrived
+      toast({ title: "Buying RWA token…", description: `Step 2 of 2: USDC → ${toToken.symbol}` });
+      await vault.buy.staticCall(quote.pairId, minFinalOut, { value: usdcIn });
+      const g = await vault.buy.estimateGas(quote.pairId, minFinalOut, { value: usdcIn });
+      const tx = await sendWithWalletFeeFallback(vault.buy, [quote.pairId, minFinalOut], { value: usdcIn, gasLimit: g * 150n / 100n }, provider, "RWA buy");
+      return ensureTxSucceeded(tx, "RWA buy");
+    }
+
+    // Leg 1: vault.redeem into native USDC
+    const minUsdc = quote.dexQuote ? applySlippage(quote.vaultQuote.outputAmount) : minFinalOut;
+    toast({ title: "Redeeming RWA token…", description: `Step 1 of 2: ${fromToken.symbol} → USDC` });
+    await vault.redeem.staticCall(quote.pairId, amountIn, minUsdc);
+    const rg = await vault.redeem.estimateGas(quote.pairId, amountIn, minUsdc);
+    const usdcOut = await sendForNativeOutput(
+      () => sendWithWalletFeeFallback(vault.redeem, [quote.pairId, amountIn, minUsdc], { gasLimit: rg * 150n / 100n }, provider, "RWA redeem"),
+      "RWA redeem",
+    );
+
+    // Leg 2: native USDC → token (wrapped 1:1 for wUSDC)
+    if (!quote.dexQuote) {
+      toast({ title: "Wrapping…", description: `Step 2 of 2: USDC → ${toToken.symbol}` });
+      const g = await wc.deposit.estimateGas({ value: usdcOut });
+      const feeOverrides = await getFastTxOverrides(provider);
+      return ensureTxSucceeded(await wc.deposit({ value: usdcOut, gasLimit: g * 150n / 100n, ...feeOverrides }), "Wrap");
+    }
+    toast({ title: "Swapping from USDC…", description: `Step 2 of 2: USDC → ${toToken.symbol}` });
+    return ensureTxSucceeded(
+      await sendDexLeg(quote.dexQuote, usdcOut, minFinalOut, true),
+      `${quote.dexQuote.protocol} swap`,
+    );
   };
 
   // ── Main swap ──────────────────────────────────────────────────────────────
@@ -723,9 +1623,11 @@ export default function Swap() {
         const provider = new BrowserProvider(window.ethereum);
         const signer = await provider.getSigner();
         const vault = new Contract(contracts.rwa.vault, RWA_VAULT_ABI, signer);
-        const amountIn = maxAmountWeiRef.current !== null ? maxAmountWeiRef.current : parseAmount(fromAmount, fromToken.decimals);
+        const amountIn = isExactOutput
+          ? rwaQuoteResult.inputAmount
+          : maxAmountWeiRef.current !== null ? maxAmountWeiRef.current : parseAmount(fromAmount, fromToken.decimals);
 
-        if (!isCanonicalUSDC(fromToken) && !isCanonicalUSDC(toToken)) {
+        if (!isCompositeRWAQuote(rwaQuoteResult) && !isCanonicalUSDC(fromToken) && !isCanonicalUSDC(toToken)) {
           toast({ title: "Invalid RWA pair", description: "RWA swaps require native USDC", variant: "destructive" });
           setIsSwapping(false);
           return;
@@ -733,7 +1635,10 @@ export default function Swap() {
 
         const currentRwaInput = amountIn.toString();
         const quotedRwaInput = (rwaQuoteResult as any).inputAmount ? String((rwaQuoteResult as any).inputAmount) : null;
-        if (!quotedRwaInput || quotedRwaInput !== currentRwaInput) {
+        const rwaQuoteCurrent = isExactOutput
+          ? rwaQuoteResult.outputAmount >= parseAmount(toAmount, toToken.decimals)
+          : !!quotedRwaInput && quotedRwaInput === currentRwaInput;
+        if (!rwaQuoteCurrent) {
           toast({ title: "Quote out of date", description: "Please re-quote before swapping", variant: "destructive" });
           setIsSwapping(false);
           return;
@@ -758,7 +1663,64 @@ export default function Swap() {
           }
         }
 
-        if (rwaQuoteResult.isBuy) {
+        // Direct vault trades can be relayed; composite routes still need the DEX leg from the wallet
+        if (gaslessMode && GASLESS_CONFIG.rwaSegments && !isCompositeRWAQuote(rwaQuoteResult)) {
+          if (isExactOutput) {
+            toast({ title: "Exact output not supported", description: "Turn off gasless mode to receive an exact amount", variant: "destructive" });
+            setIsSwapping(false);
+            return;
+          }
+          if (!permit2Approved) {
+            toast({ title: "Permit2 not approved", description: "Please enable Permit2 first", variant: "destructive" });
+            setIsSwapping(false);
+            return;
+          }
+          if (gaslessQuota && !gaslessQuota.eligible) {
+            toast({ title: "Not eligible for gasless", description: gaslessQuota.reason || "Turn off gasless mode to trade with your own gas", variant: "destructive" });
+            setIsSwapping(false);
+            return;
+          }
+
+          // Buys are paid in native USDC, which Permit2 moves as the 6-decimal NATIVE_TOKEN
+          const amountInForPermit2 = rwaQuoteResult.isBuy
+            ? amountIn / 10n ** BigInt((fromToken.decimals || 18) - NATIVE_TOKEN_DECIMALS)
+            : amountIn;
+          const minAmountOut = (rwaQuoteResult.outputAmount * (10000n - slippageBps)) / 10000n;
+          const deadlineTimestamp = Math.floor(Date.now() / 1000) + deadline * 60;
+          const segment = buildRWASegment(rwaQuoteResult.isBuy, rwaQuoteResult.pairId, amountInForPermit2, minAmountOut, deadlineTimestamp);
+          toast({ title: "Initiating gasless RWA trade...", description: "Please sign the permit and request" });
+          const result = await executeGaslessRWASwap(
+            signer,
+            getGaslessTokenAddress(fromToken.address),
+            segment,
+            deadlineTimestamp,
+            { fromToken, toToken, fromAmount, toAmount: toAmountDisplay },
+          );
+          await Promise.all([refetchFromBalance(), refetchToBalance()]);
+          setFromAmount(""); setToAmount(""); setRwaQuoteResult(null); setRouteHops([]);
+          toast({
+            title: rwaQuoteResult.isBuy ? "Gasless RWA buy successful!" : "Gasless RWA redeem successful!",
+            description: (
+              <div className="flex items-center gap-2">
+                <span>{rwaQuoteResult.isBuy ? `Bought ${toAmount} ${toToken.symbol}` : `Redeemed ${fromAmount} ${fromToken.symbol} → ${toAmount} USDC`}</span>
+                <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => openExplorer(result.txHash)}><ExternalLink className="h-3 w-3" /></Button>
+              </div>
+            ),
+          });
+        } else if (isCompositeRWAQuote(rwaQuoteResult)) {
+          const receipt = await executeCompositeRWASwap(rwaQuoteResult, signer, provider, amountIn, slippageBps);
+          await Promise.all([refetchFromBalance(), refetchToBalance()]);
+          setFromAmount(""); setToAmount(""); setRwaQuoteResult(null); setRouteHops([]);
+          toast({
+            title: rwaQuoteResult.isBuy ? "RWA buy successful!" : "RWA redeem successful!",
+            description: (
+              <div className="flex items-center gap-2">
+                <span>Swapped {fromAmount} {fromToken.symbol} → {toAmount} {toToken.symbol} via USDC</span>
+                <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => openExplorer(receipt.hash)}><ExternalLink className="h-3 w-3" /></Button>
+              </div>
+            ),
+          });
+        } else if (rwaQuoteResult.isBuy) {
           // USDC → RWA: vault.buy(pairId, minSynth) with msg.value
           const minSynth = (rwaQuoteResult.outputAmount * (10000n - slippageBps)) / 10000n;
           toast({ title: "Buying RWA token…", description: `Buying ${toToken.symbol} with USDC` });
@@ -772,7 +1734,6 @@ export default function Swap() {
             "RWA buy",
           );
           const receipt = await ensureTxSucceeded(tx, "RWA buy");
-          saveTransaction(fromToken, toToken, fromAmount, toAmount, receipt.hash);
           await Promise.all([refetchFromBalance(), refetchToBalance()]);
           setFromAmount(""); setToAmount(""); setRwaQuoteResult(null); setRouteHops([]);
           toast({
@@ -798,7 +1759,6 @@ export default function Swap() {
             "RWA redeem",
           );
           const receipt = await ensureTxSucceeded(tx, "RWA redeem");
-          saveTransaction(fromToken, toToken, fromAmount, toAmount, receipt.hash);
           await Promise.all([refetchFromBalance(), refetchToBalance()]);
           setFromAmount(""); setToAmount(""); setRwaQuoteResult(null); setRouteHops([]);
           toast({
@@ -829,8 +1789,14 @@ export default function Swap() {
       if (!smartRoutingResult?.bestQuote) throw new Error("No valid quote available");
       
       // Verify the quote matches current amount
-      const currentAmountIn = maxAmountWeiRef.current !== null ? maxAmountWeiRef.current : parseAmount(fromAmount, fromToken.decimals);
-      if ((smartRoutingResult as SmartRoutingResult).inputAmount !== currentAmountIn) {
+      const exactOutputResult = smartRoutingResult.kind === "exactOutput";
+      const currentAmountIn = exactOutputResult
+        ? smartRoutingResult.inputAmount
+        : maxAmountWeiRef.current !== null ? maxAmountWeiRef.current : parseAmount(fromAmount, fromToken.decimals);
+      const quoteMatches = exactOutputResult
+        ? isExactOutput && smartRoutingResult.bestQuote.outputAmount === parseAmount(toAmount, toToken.decimals)
+        : !isExactOutput && smartRoutingResult.inputAmount === currentAmountIn;
+      if (!quoteMatches) {
         toast({ title: "Quote mismatch", description: "Amount changed. Please wait for a fresh quote.", variant: "destructive" });
         setIsSwapping(false); return;
       }
@@ -841,6 +1807,13 @@ export default function Swap() {
       }
       
       // ── GASLESS SWAP PATH ───────────────────────────────────────────────────
+
+      // The gasless contract only executes exact-input segments
+      if (gaslessMode && exactOutputResult) {
+        toast({ title: "Exact output not supported", description: "Turn off gasless mode to receive an exact amount", variant: "destructive" });
+        setIsSwapping(false);
+        return;
+      }
       
       // Custom recipient not supported in gasless mode
       if (gaslessMode && permit2Approved && recipientAddress) {
@@ -849,10 +1822,18 @@ export default function Swap() {
         return;
       }
       
+      // Known to be over quota or outside the sponsorship rules; the relay would reject it
+      if (gaslessMode && permit2Approved && gaslessQuota && !gaslessQuota.eligible) {
+        toast({ title: "Not eligible for gasless", description: gaslessQuota.reason || "Turn off gasless mode to swap with your own gas", variant: "destructive" });
+        setIsSwapping(false);
+        return;
+      }
+
       if (gaslessMode && permit2Approved) {
         try {
           const provider = new BrowserProvider(window.ethereum);
           const signer = await provider.getSigner();
+          // Split results go through executeSplit; mixed V2/V3 routes relay one swap per segment
           const bestQuote = smartRoutingResult.bestQuote;
           const amountIn = currentAmountIn;
           maxAmountWeiRef.current = null;
@@ -881,7 +1862,27 @@ export default function Swap() {
           // Execute gasless swap if enabled and available
           if (gaslessMode) {
             const deadlineTimestamp = Math.floor(Date.now() / 1000) + deadline * 60;
-            if (useV2 && v2Enabled) {
+            // Lets a reload mid-swap finish the toast and history entry
+            const gaslessMeta: GaslessSwapMeta = { fromToken, toToken, fromAmount, toAmount: toAmountDisplay };
+            if (smartRoutingResult.kind === "split") {
+              const legs = smartRoutingResult.split.legs;
+              if (legs.length > MAX_SPLIT_SEGMENTS) throw new Error("Split has too many legs for a gasless swap. Try regular swap.");
+              const toPermitAmount = (amount: bigint) => (fromNative ? amount / 10n ** decimalDiff : amount);
+              const segments = buildGaslessSplitSegments(legs, amountInForPermit2, toPermitAmount, slippageBps, deadlineTimestamp);
+              // V2 legs are re-checked against the router like single V2 swaps
+              const wrappedAddr = getWrappedAddress(chainId, "0x0000000000000000000000000000000000000000") ?? "";
+              for (const leg of legs) {
+                if (leg.quote.protocol !== "V2") continue;
+                const path = [leg.quote.route[0].tokenIn, ...leg.quote.route.map((hop) => hop.tokenOut)]
+                  .map((token) => (isNativeToken(token.address) ? wrappedAddr : token.address));
+                await confirmV2Output(path, leg.amountIn, (leg.quote.outputAmount * (10000n - slippageBps)) / 10000n);
+              }
+              result = await executeGaslessSplit(signer, tokenInAddress, segments, deadlineTimestamp, gaslessMeta);
+            } else if (bestQuote.protocol === "MIXED") {
+              result = await executeGaslessMixedRoute(
+                bestQuote, signer, tokenInAddress, amountIn, amountInForPermit2, minAmountOut, slippageBps, deadlineTimestamp, gaslessMeta,
+              );
+            } else if (useV2 && v2Enabled) {
               const path: string[] = [];
               const wrappedAddr = getWrappedAddress(chainId, "0x0000000000000000000000000000000000000000");
               if (!wrappedAddr) throw new Error("Wrapped token address not found");
@@ -891,29 +1892,22 @@ export default function Swap() {
                 const o = isNativeToken(hop.tokenOut.address) ? wrappedAddr : hop.tokenOut.address;
                 if (o !== path[path.length - 1]) path.push(o);
               }
-              result = await executeGaslessSwapV2(signer, tokenInAddress, amountInForPermit2, minAmountOut, path, deadlineTimestamp);
+              await confirmV2Output(path, amountIn, minAmountOut);
+              result = await executeGaslessSwapV2(signer, tokenInAddress, amountInForPermit2, minAmountOut, path, deadlineTimestamp, gaslessMeta);
             } else if (useV3 && v3Enabled && bestQuote.route.length === 1) {
               const wrappedAddr = getWrappedAddress(chainId, "0x0000000000000000000000000000000000000000");
               const tokenOutV3 = isNativeToken(toToken.address) && wrappedAddr ? wrappedAddr : toToken.address;
               const fee = bestQuote.route[0].fee || 3000;
-              result = await executeGaslessSwapV3(signer, tokenInAddress, tokenOutV3, fee, amountInForPermit2, minAmountOut, deadlineTimestamp);
-            } else if (isV3MultiHop && v3Enabled && bestQuote.route.length === 2) {
+              result = await executeGaslessSwapV3(signer, tokenInAddress, tokenOutV3, fee, amountInForPermit2, minAmountOut, deadlineTimestamp, gaslessMeta);
+            } else if (isV3MultiHop && v3Enabled) {
               const wrappedAddr = getWrappedAddress(chainId, "0x0000000000000000000000000000000000000000");
               if (!wrappedAddr) throw new Error("Wrapped token address not found");
+              const toPathAddress = (tokenAddress: string) => (isNativeToken(tokenAddress) ? wrappedAddr : tokenAddress);
 
-              const tokenInForPath = isNativeToken(bestQuote.route[0].tokenIn.address)
-                ? wrappedAddr
-                : bestQuote.route[0].tokenIn.address;
-              const midForPath = isNativeToken(bestQuote.route[0].tokenOut.address)
-                ? wrappedAddr
-                : bestQuote.route[0].tokenOut.address;
-              const tokenOutForPath = isNativeToken(bestQuote.route[1].tokenOut.address)
-                ? wrappedAddr
-                : bestQuote.route[1].tokenOut.address;
-
-              const fee1 = bestQuote.route[0].fee || 3000;
-              const fee2 = bestQuote.route[1].fee || 3000;
-              const path = `0x${tokenInForPath.slice(2)}${fee1.toString(16).padStart(6, "0")}${midForPath.slice(2)}${fee2.toString(16).padStart(6, "0")}${tokenOutForPath.slice(2)}`;
+              const path = encodePath(
+                [toPathAddress(bestQuote.route[0].tokenIn.address), ...bestQuote.route.map((hop) => toPathAddress(hop.tokenOut.address))],
+                bestQuote.route.map((hop) => hop.fee || 3000),
+              );
 
               result = await executeGaslessSwapV3MultiHop(
                 signer,
@@ -922,12 +1916,12 @@ export default function Swap() {
                 amountInForPermit2,
                 minAmountOut,
                 deadlineTimestamp,
+                gaslessMeta,
               );
             } else {
               throw new Error("Selected protocol not available. Try regular swap.");
             }
             
-            saveTransaction(fromToken, toToken, fromAmount, toAmount, result.txHash);
             await Promise.all([refetchFromBalance(), refetchToBalance()]);
             setFromAmount(""); setToAmount(""); setSmartRoutingResult(null); setRouteHops([]);
             const toSymbol = isCanonicalWUSDC(toToken) ? "USDC" : toToken.symbol;
@@ -993,10 +1987,23 @@ export default function Swap() {
           throw new Error("Invalid recipient address format");
         }
       }
-      toast({ title: "Swapping…", description: `Using ${bestQuote.protocol} protocol` });
+      const isSplitRoute = smartRoutingResult.kind === "split";
+      toast({
+        title: "Swapping…",
+        description: isSplitRoute
+          ? `Splitting across ${smartRoutingResult.split.legs.length} routes`
+          : `Using ${bestQuote.protocol} protocol`,
+      });
       let tx: any;
 
-      if (bestQuote.protocol === "V3") {
+      if (smartRoutingResult.kind === "exactOutput") {
+        const maxAmountIn = (amountIn * (10000n + slippageBps)) / 10000n;
+        tx = await executeExactOutputSwap(bestQuote, signer, provider, recipient, deadlineTimestamp, maxAmountIn);
+      } else if (smartRoutingResult.kind === "split") {
+        tx = await executeSplitLegs(smartRoutingResult.split.legs, signer, provider, recipient, deadlineTimestamp, slippageBps);
+      } else if (bestQuote.protocol === "MIXED") {
+        tx = await executeMixedRoute(bestQuote, signer, provider, recipient, deadlineTimestamp, amountIn, minAmountOut, slippageBps);
+      } else if (bestQuote.protocol === "V3") {
         const swapRouter = new Contract(contracts.v3.swapRouter, SWAP_ROUTER_V3_ABI, signer);
         const fromNative = isNativeToken(fromToken.address);
         const toNative = isNativeToken(toToken.address);
@@ -1101,6 +2108,7 @@ export default function Swap() {
           const o = isNativeToken(hop.tokenOut.address) ? wrappedAddr : hop.tokenOut.address;
           if (o !== path[path.length - 1]) path.push(o);
         }
+        await confirmV2Output(path, amountIn, minAmountOut);
         if (fromNative) {
           const swapFeeOverrides = await getFastTxOverrides(provider);
           const g = await router.swapExactETHForTokens.estimateGas(minAmountOut, path, recipient, deadlineTimestamp, { value: amountIn });
@@ -1135,14 +2143,13 @@ export default function Swap() {
       }
 
       const receipt = await ensureTxSucceeded(tx, "Swap");
-      saveTransaction(fromToken, toToken, fromAmount, toAmount, receipt.hash);
       await Promise.all([refetchFromBalance(), refetchToBalance()]);
       setFromAmount(""); setToAmount(""); setSmartRoutingResult(null); setRouteHops([]);
       toast({
         title: "Swap successful!",
         description: (
           <div className="flex items-center gap-2">
-            <span>Swapped {fromAmount} {fromToken.symbol} → {toAmountDisplay} {toToken.symbol} via {bestQuote.protocol}</span>
+            <span>Swapped {fromAmount} {fromToken.symbol} → {toAmountDisplay} {toToken.symbol} via {isSplitRoute ? "split route" : bestQuote.protocol}</span>
             <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => openExplorer(receipt.hash)}><ExternalLink className="h-3 w-3" /></Button>
           </div>
         ),
@@ -1212,16 +2219,69 @@ export default function Swap() {
   } catch {
     currentInputAmount = null;
   }
+  let currentOutputAmount: bigint | null = null;
+  try {
+    if (isExactOutput && toToken && toAmount && parseFloat(toAmount) > 0) {
+      currentOutputAmount = parseAmount(toAmount, toToken.decimals);
+    }
+  } catch {
+    currentOutputAmount = null;
+  }
+  const quoteMatchesAmount = isExactOutput
+    ? smartRoutingResult?.kind === "exactOutput" &&
+      currentOutputAmount !== null &&
+      smartRoutingResult.bestQuote.outputAmount === currentOutputAmount
+    : smartRoutingResult?.kind !== "exactOutput" &&
+      currentInputAmount !== null &&
+      smartRoutingResult?.inputAmount === currentInputAmount;
   const hasCurrentSmartQuote = Boolean(
     smartRoutingResult?.bestQuote &&
-    currentInputAmount !== null &&
-    smartRoutingResult.inputAmount === currentInputAmount &&
+    quoteMatchesAmount &&
     Date.now() - (smartRoutingResult.timestamp || 0) <= 30000,
   );
   const hasValidRwaQuote = !isRWAPair || (!!rwaQuoteResult && !rwaQuoteResult.isStale && (rwaQuoteResult.isBuy || rwaQuoteResult.reserveOk));
   const hasSmartQuote = isRWAPair || isWrapPair || isUnwrapPair || hasCurrentSmartQuote;
-  const canSwap = !!(isConnected && fromToken && toToken && fromAmount && parseFloat(fromAmount) > 0 && !isSwapping && !isLoadingQuote && hasValidRwaQuote && hasSmartQuote);
-  const protocolLabel = isRWAPair ? "RWA" : smartRoutingResult?.bestQuote?.protocol;
+  const canSwap = !!(isConnected && fromToken && toToken && fromAmount && parseFloat(fromAmount) > 0 && !isSwapping && !isLoadingQuote && !isRefreshingQuote && hasValidRwaQuote && hasSmartQuote);
+  const protocolLabel = isRWAPair
+    ? "RWA"
+    : smartRoutingResult?.kind === "split"
+      ? "Split"
+      : smartRoutingResult?.bestQuote?.protocol === "MIXED"
+        ? "V2+V3"
+        : smartRoutingResult?.bestQuote?.protocol;
+  const splitLegs = !isRWAPair && smartRoutingResult?.kind === "split" ? smartRoutingResult.split.legs : undefined;
+  // Gross vs net-of-gas output for exact-input DEX routes
+  const netOutput = !isRWAPair && smartRoutingResult && smartRoutingResult.kind !== "exactOutput" && hasCurrentSmartQuote
+    ? getRoutingNetOutputAmount(smartRoutingResult)
+    : undefined;
+  const gasCostInOutput = netOutput !== undefined && smartRoutingResult ? getRoutingGasCost(smartRoutingResult) : undefined;
+  const routeCandidates = isRWAPair
+    ? (rwaQuoteResult ? [getRWACandidate(rwaQuoteResult)] : [])
+    : hasCurrentSmartQuote ? smartRoutingResult?.candidates ?? [] : [];
+  const compositeSteps = ((): RouteStepQuote[] | undefined => {
+    if (!isCompositeRWAQuote(rwaQuoteResult) || !fromToken || !toToken || !nativeToken) return undefined;
+    const { dexQuote, vaultQuote, isBuy } = rwaQuoteResult;
+    const fmt = (amount: bigint, token: Token) => `${formatAmount(amount, token.decimals)} ${token.symbol}`;
+    const vaultStep: RouteStepQuote = {
+      label: "RWA",
+      amountIn: isBuy ? fmt(vaultQuote.inputAmount, nativeToken) : fmt(vaultQuote.inputAmount, fromToken),
+      amountOut: isBuy ? fmt(vaultQuote.outputAmount, toToken) : fmt(vaultQuote.outputAmount, nativeToken),
+      priceImpact: vaultQuote.priceImpact,
+    };
+    const dexStep: RouteStepQuote = dexQuote
+      ? {
+          label: dexQuote.protocol,
+          amountIn: isBuy ? fmt(rwaQuoteResult.inputAmount, fromToken) : fmt(vaultQuote.outputAmount, nativeToken),
+          amountOut: isBuy ? fmt(dexQuote.outputAmount, nativeToken) : fmt(dexQuote.outputAmount, toToken),
+          priceImpact: dexQuote.priceImpact,
+        }
+      : {
+          label: isBuy ? "Unwrap" : "Wrap",
+          amountIn: isBuy ? fmt(rwaQuoteResult.inputAmount, fromToken) : fmt(vaultQuote.outputAmount, nativeToken),
+          amountOut: isBuy ? fmt(rwaQuoteResult.inputAmount, nativeToken) : fmt(vaultQuote.outputAmount, toToken),
+        };
+    return isBuy ? [dexStep, vaultStep] : [vaultStep, dexStep];
+  })();
 
   // ── Render ─────────────────────────────────────────────────────────────────
   return (
@@ -1256,6 +2316,7 @@ export default function Swap() {
 
         .sw-box-top { display:flex; align-items:center; justify-content:space-between; margin-bottom:10px; }
         .sw-box-label { font-size:11px; font-weight:700; color:rgba(255,255,255,0.28); text-transform:uppercase; letter-spacing:0.08em; }
+        .sw-refreshing { color:rgba(129,140,248,0.7); text-transform:none; letter-spacing:normal; font-weight:600; }
         .sw-bal { font-size:11px; color:rgba(255,255,255,0.28); }
         .sw-bal-val { color:rgba(255,255,255,0.6); font-weight:600; cursor:pointer; }
         .sw-bal-val:hover { color:#a5b4fc; }
@@ -1301,6 +2362,7 @@ export default function Swap() {
         .sw-proto-v2 { background:rgba(99,102,241,0.14); color:#818cf8; border:1px solid rgba(99,102,241,0.25); }
         .sw-proto-v3 { background:rgba(139,92,246,0.14); color:#c4b5fd; border:1px solid rgba(139,92,246,0.25); }
         .sw-proto-rwa { background:rgba(16,185,129,0.14); color:#6ee7b7; border:1px solid rgba(16,185,129,0.25); }
+        .sw-proto-split { background:rgba(59,130,246,0.14); color:#93c5fd; border:1px solid rgba(59,130,246,0.25); }
 
         /* submit */
         .sw-submit { width:100%; height:52px; border-radius:16px; font-weight:800; font-size:16px; letter-spacing:0.02em; border:none; cursor:pointer; display:flex; align-items:center; justify-content:center; gap:9px; transition:all 0.22s; margin-top:14px; }
@@ -1317,6 +2379,7 @@ export default function Swap() {
         /* gasless mode */
         .sw-gasless-active { background:rgba(34,197,94,0.2) !important; border-color:rgba(34,197,94,0.4) !important; color:#4ade80 !important; }
         .sw-gasless-notice { padding:10px 16px; background:rgba(34,197,94,0.06); border-bottom:1px solid rgba(34,197,94,0.15); display:flex; align-items:center; justify-content:center; }
+        .sw-permits-link { margin-left:10px; background:none; border:none; padding:0; color:#fbbf24; font-size:11px; font-weight:600; cursor:pointer; text-decoration:underline; text-underline-offset:2px; }
         .sw-permit2-btn { display:inline-flex; align-items:center; gap:6px; padding:6px 14px; border-radius:8px; background:rgba(34,197,94,0.15); border:1px solid rgba(34,197,94,0.35); color:#4ade80; font-size:11px; font-weight:700; cursor:pointer; transition:all 0.2s; }
         .sw-permit2-btn:hover:not(:disabled) { background:rgba(34,197,94,0.25); border-color:rgba(34,197,94,0.5); }
         .sw-permit2-btn:disabled { opacity:0.6; cursor:not-allowed; }
@@ -1371,14 +2434,27 @@ export default function Swap() {
                   <button 
                     className={`sw-hdr-btn ${gaslessMode ? 'sw-gasless-active' : ''}`}
                     onClick={() => setGaslessMode(!gaslessMode)}
-                    title={isRWAPair ? "Gasless not available for RWA swaps" : gaslessMode ? "Gasless mode ON - click to disable" : "Gasless mode OFF - click to enable"}
-                    style={gaslessMode ? { background: 'rgba(34,197,94,0.2)', borderColor: 'rgba(34,197,94,0.4)', color: '#4ade80' } : isRWAPair ? { opacity: 0.3, cursor: 'not-allowed' } : {}}
-                    disabled={isRWAPair}
+                    title={isCompositeRwaPair ? "Gasless not available for RWA swaps routed through the DEX" : isGaslessRwaBlocked ? "Gasless RWA trades aren't available yet" : gaslessMode ? "Gasless mode ON - click to disable" : "Gasless mode OFF - click to enable"}
+                    style={gaslessMode ? { background: 'rgba(34,197,94,0.2)', borderColor: 'rgba(34,197,94,0.4)', color: '#4ade80' } : isGaslessRwaBlocked ? { opacity: 0.3, cursor: 'not-allowed' } : {}}
+                    disabled={isGaslessRwaBlocked}
                   >
                     {gaslessMode ? <Zap style={{ width: 15, height: 15 }} /> : <ZapOff style={{ width: 15, height: 15 }} />}
                   </button>
                 )}
-                <button className="sw-hdr-btn" data-testid="button-transaction-history" onClick={() => setShowTransactionHistory(true)} title="Transaction history">
+                {isConnected && (
+                  <button className="sw-hdr-btn" data-testid="button-limit-orders" onClick={() => setShowLimitOrders(true)} title="Limit orders">
+                    <ListOrdered style={{ width: 15, height: 15 }} />
+                  </button>
+                )}
+                {isConnected && (
+                  <button className="sw-hdr-btn" data-testid="button-dca-orders" onClick={() => setShowDcaOrders(true)} title="Recurring swaps (DCA)">
+                    <Repeat style={{ width: 15, height: 15 }} />
+                  </button>
+                )}
+                <button className="sw-hdr-btn" data-testid="button-copy-link" onClick={handleCopyLink} title="Copy link to this swap">
+                  <Link2 style={{ width: 15, height: 15 }} />
+                </button>
+                <button className="sw-hdr-btn" data-testid="button-transaction-history" onClick={() => setShowTransactionHistory(true)} title="Activity">
                   <Bell style={{ width: 15, height: 15 }} />
                 </button>
                 <button className="sw-hdr-btn" data-testid="button-settings" onClick={() => setShowSettings(true)} title="Settings">
@@ -1388,7 +2464,7 @@ export default function Swap() {
             </div>
             
             {/* Gasless Mode Notice */}
-            {gaslessMode && isConnected && !isRWAPair && (
+            {gaslessMode && isConnected && !isGaslessRwaBlocked && (
               <div className="sw-gasless-notice">
                 {isCheckingPermit2 ? (
                   <span style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
@@ -1407,13 +2483,25 @@ export default function Swap() {
                       <>Enable Permit2 for Gasless</>
                     )}
                   </button>
+                ) : gaslessQuota && !gaslessQuota.eligible ? (
+                  <span style={{ color: '#fbbf24', fontSize: 11, fontWeight: 600 }}>
+                    Not eligible for gasless: {gaslessQuota.reason}
+                  </span>
                 ) : (
                   <span style={{ color: '#4ade80', fontSize: 11, fontWeight: 600 }}>
-                    {isNativeToken(fromToken?.address || "") 
+                    {isRWAPair
+                      ? "✓ Permit2 Enabled - Relayer settles with the RWA vault"
+                      : isNativeToken(fromToken?.address || "") 
                       ? "✓ Permit2 Enabled - Native USDC will wrap automatically"
                       : "✓ Permit2 Enabled - Gasless swaps available"}
+                    {gaslessQuota?.swapsRemaining != null && ` · ${gaslessQuota.swapsRemaining} left today`}
                   </span>
                 )}
+                {outstandingPermits > 0 && !isSwapping && (
+                  <button className="sw-permits-link" onClick={() => setShowSignedPermits(true)}>
+                    {outstandingPermits} pending gasless order{outstandingPermits > 1 ? "s" : ""} · Cancel
+                  </button>
+                )}
               </div>
             )}
 
@@ -1423,12 +2511,13 @@ export default function Swap() {
               {/* FROM box */}
               <div className="sw-box">
                 <div className="sw-box-top">
-                  <span className="sw-box-label">From</span>
+                  <span className="sw-box-label">From{isRefreshingQuote && isExactOutput && <span className="sw-refreshing"> · Refreshing…</span>}</span>
                   {isConnected && fromToken && (
                       <span className="sw-bal">
                       Balance:{" "}
                       <span className="sw-bal-val" onClick={() => {
                         if (!fromBalance) return;
+                        setTradeType("EXACT_INPUT");
                         setFromAmount(computeAndSetMaxSelection(fromBalance, fromToken));
                       }}>
                         {fromBalFmt}
@@ -1437,12 +2526,16 @@ export default function Swap() {
                   )}
                 </div>
                 <div className="sw-row">
-                  <input
-                    data-testid="input-from-amount"
-                    type="number" placeholder="0.00" value={fromAmount}
-                    onChange={e => setFromAmount(e.target.value)}
-                    className="sw-amount-input"
-                  />
+                  {isLoadingQuote && isExactOutput ? (
+                    <span className="sw-loading-text">Calculating…</span>
+                  ) : (
+                    <input
+                      data-testid="input-from-amount"
+                      type="number" placeholder="0.00" value={fromAmount}
+                      onChange={e => { setTradeType("EXACT_INPUT"); setFromAmount(e.target.value); }}
+                      className="sw-amount-input"
+                    />
+                  )}
                   <div className="sw-token-col">
                     <button data-testid="button-select-from-token" onClick={() => setShowFromSelector(true)} className={`sw-token-btn ${!fromToken ? "empty" : ""}`}>
                       {fromToken ? (
@@ -1454,6 +2547,7 @@ export default function Swap() {
                     </button>
                     {isConnected && fromBalance && fromToken && (
                       <button data-testid="button-max-from" className="sw-max-btn" onClick={() => {
+                        setTradeType("EXACT_INPUT");
                         setFromAmount(computeAndSetMaxSelection(fromBalance, fromToken));
                       }}>MAX</button>
                     )}
@@ -1471,20 +2565,20 @@ export default function Swap() {
               {/* TO box */}
               <div className="sw-box to-box">
                 <div className="sw-box-top">
-                  <span className="sw-box-label">To</span>
+                  <span className="sw-box-label">To{isRefreshingQuote && !isExactOutput && <span className="sw-refreshing"> · Refreshing…</span>}</span>
                   {isConnected && toToken && (
                     <span className="sw-bal">Balance: <span style={{ color: "rgba(255,255,255,0.6)", fontWeight: 600 }}>{toBalFmt}</span></span>
                   )}
                 </div>
                 <div className="sw-row">
-                  {isLoadingQuote ? (
+                  {isLoadingQuote && !isExactOutput ? (
                     <span className="sw-loading-text">Calculating…</span>
                   ) : (
                     <input
                       data-testid="input-to-amount"
                       type="number" placeholder="0.00" value={toAmount}
-                      onChange={e => setToAmount(e.target.value)}
-                      disabled className="sw-amount-input"
+                      onChange={e => { setTradeType("EXACT_OUTPUT"); setToAmount(e.target.value); }}
+                      disabled={isCompositeRwaPair} className="sw-amount-input"
                     />
                   )}
                   <div className="sw-token-col">
@@ -1520,7 +2614,7 @@ export default function Swap() {
                         1 {fromToken!.symbol} = {(toAmountNum / parseFloat(fromAmount)).toFixed(6)} {toToken!.symbol}
                       </span>
                         {protocolLabel && (
-                        <span className={`sw-proto ${protocolLabel === "V3" ? "sw-proto-v3" : protocolLabel === "RWA" ? "sw-proto-rwa" : "sw-proto-v2"}`}>{protocolLabel}</span>
+                        <span className={`sw-proto ${protocolLabel === "V3" ? "sw-proto-v3" : protocolLabel === "RWA" ? "sw-proto-rwa" : protocolLabel === "Split" || protocolLabel === "V2+V3" ? "sw-proto-split" : "sw-proto-v2"}`}>{protocolLabel}</span>
                       )}
                     </div>
                     <ChevronDown style={{ width: 15, height: 15, color: "rgba(255,255,255,0.3)", transform: tradeDetailsOpen ? "rotate(180deg)" : "none", transition: "transform 0.2s" }} />
@@ -1541,32 +2635,79 @@ export default function Swap() {
                           </span>
                         </div>
                       )}
-                      <div className="sw-detail-row">
-                        <span className="sw-detail-label">Minimum Received</span>
-                        <span className="sw-detail-val">{(parseFloat(toAmount) * (100 - slippage) / 100).toFixed(6)} {toToken!.symbol}</span>
-                      </div>
+                      {isExactOutput ? (
+                        <div className="sw-detail-row">
+                          <span className="sw-detail-label">Maximum Sold</span>
+                          <span className="sw-detail-val">{(parseFloat(fromAmount) * (100 + slippage) / 100).toFixed(6)} {fromToken!.symbol}</span>
+                        </div>
+                      ) : (
+                        <div className="sw-detail-row">
+                          <span className="sw-detail-label">Minimum Received</span>
+                          <span className="sw-detail-val">{(parseFloat(toAmount) * (100 - slippage) / 100).toFixed(6)} {toToken!.symbol}</span>
+                        </div>
+                      )}
+                      {netOutput !== undefined && gasCostInOutput !== undefined && smartRoutingResult && (
+                        <>
+                          <div className="sw-detail-row">
+                            <span className="sw-detail-label">Expected Output</span>
+                            <span className="sw-detail-val">{formatAmount(getRoutingOutputAmount(smartRoutingResult), toToken!.decimals)} {toToken!.symbol}</span>
+                          </div>
+                          <div className="sw-detail-row">
+                            <span className="sw-detail-label">Network Fee</span>
+                            <span className="sw-detail-val">≈ {formatAmount(gasCostInOutput, toToken!.decimals)} {toToken!.symbol}</span>
+                          </div>
+                          <div className="sw-detail-row">
+                            <span className="sw-detail-label">Net After Gas</span>
+                            <span className="sw-detail-val">{netOutput > 0n ? formatAmount(netOutput, toToken!.decimals) : "0"} {toToken!.symbol}</span>
+                          </div>
+                        </>
+                      )}
                       <div className="sw-detail-row">
                         <span className="sw-detail-label">Slippage</span>
                         <span className="sw-detail-val">{slippage}%</span>
                       </div>
-                      {routeHops.length > 0 && (
-                        <div className="sw-route-section"><PathVisualizer route={routeHops} /></div>
+                      {(routeHops.length > 0 || splitLegs) && (
+                        <div className="sw-route-section">
+                          <PathVisualizer
+                            route={routeHops}
+                            legs={splitLegs?.map((leg) => ({ route: leg.quote.route, shareBps: leg.shareBps }))}
+                            steps={compositeSteps}
+                            priceImpact={compositeSteps ? priceImpact : undefined}
+                          />
+                        </div>
+                      )}
+                      {smartRoutingResult?.kind === "split" && (
+                        <div className="sw-routing-note">
+                          <Zap style={{ width: 13, height: 13, color: "#818cf8", flexShrink: 0 }} />
+                          <span style={{ fontSize: 11, color: "#a5b4fc", fontWeight: 600 }}>
+                            Smart Routing: split across {smartRoutingResult.split.legs.length} routes (
+                            {formatAmount(smartRoutingResult.split.netOutputAmount ?? smartRoutingResult.split.outputAmount, toToken?.decimals || 18)} vs{" "}
+                            {formatAmount(smartRoutingResult.bestQuote.netOutputAmount ?? smartRoutingResult.bestQuote.outputAmount, toToken?.decimals || 18)} single route
+                            {smartRoutingResult.split.netOutputAmount !== undefined ? " after gas" : ""})
+                          </span>
+                        </div>
                       )}
-                      {smartRoutingResult?.v2Quote && smartRoutingResult?.v3Quote && (
+                      {smartRoutingResult?.kind !== "split" && smartRoutingResult?.alternativeQuotes?.[0] && (
                         <div className="sw-routing-note">
                           <Zap style={{ width: 13, height: 13, color: "#818cf8", flexShrink: 0 }} />
                           <span style={{ fontSize: 11, color: "#a5b4fc", fontWeight: 600 }}>
-                            Smart Routing: {smartRoutingResult.bestQuote.protocol} selected (
-                            {formatAmount(smartRoutingResult.bestQuote.outputAmount, toToken?.decimals || 18)} vs{" "}
-                            {formatAmount(
-                              smartRoutingResult.bestQuote.protocol === "V3"
-                                ? smartRoutingResult.v2Quote.outputAmount
-                                : smartRoutingResult.v3Quote.outputAmount,
-                              toToken?.decimals || 18
-                            )})
+                            Smart Routing: {protocolLabel} {smartRoutingResult.pinnedRouteId ? "pinned" : "selected"} (
+                            {formatAmount(smartRoutingResult.bestQuote.netOutputAmount ?? smartRoutingResult.bestQuote.outputAmount, toToken?.decimals || 18)} vs{" "}
+                            {formatAmount(smartRoutingResult.alternativeQuotes[0].netOutputAmount ?? smartRoutingResult.alternativeQuotes[0].outputAmount, toToken?.decimals || 18)}
+                            {smartRoutingResult.bestQuote.netOutputAmount !== undefined ? " after gas" : ""})
                           </span>
                         </div>
                       )}
+                      {routeCandidates.length > 0 && (
+                        <div className="sw-route-section">
+                          <RouteComparison
+                            candidates={routeCandidates}
+                            toToken={toToken!}
+                            pinnedRouteId={isRWAPair ? null : smartRoutingResult?.pinnedRouteId ?? null}
+                            onPin={isRWAPair || isExactOutput ? undefined : handlePinRoute}
+                          />
+                        </div>
+                      )}
                     </div>
                   )}
                 </>
@@ -1590,10 +2731,21 @@ export default function Swap() {
         </div>
       </div>
 
-      <TokenSelector open={showFromSelector} onClose={() => setShowFromSelector(false)} onSelect={handleFromSelect} tokens={isRWAToken(toToken) ? tokens.filter(t => isCanonicalUSDC(t)) : tokens} onImport={handleImportToken} onDelete={handleDeleteToken} recentTokens={isRWAToken(toToken) ? recentTokens.filter(t => isCanonicalUSDC(t)) : recentTokens} favoriteTokens={isRWAToken(toToken) ? favoriteTokens.filter(t => isCanonicalUSDC(t)) : favoriteTokens} onToggleFavorite={toggleFavoriteToken} showBalances />
-      <TokenSelector open={showToSelector} onClose={() => setShowToSelector(false)} onSelect={handleToSelect} tokens={isRWAToken(fromToken) ? tokens.filter(t => isCanonicalUSDC(t)) : tokens} onImport={handleImportToken} onDelete={handleDeleteToken} recentTokens={isRWAToken(fromToken) ? recentTokens.filter(t => isCanonicalUSDC(t)) : recentTokens} favoriteTokens={isRWAToken(fromToken) ? favoriteTokens.filter(t => isCanonicalUSDC(t)) : favoriteTokens} onToggleFavorite={toggleFavoriteToken} showBalances />
-      <SwapSettings open={showSettings} onClose={() => setShowSettings(false)} slippage={slippage} onSlippageChange={setSlippage} deadline={deadline} onDeadlineChange={setDeadline} recipientAddress={recipientAddress} onRecipientAddressChange={setRecipientAddress} quoteRefreshInterval={quoteRefreshInterval} onQuoteRefreshIntervalChange={setQuoteRefreshInterval} v2Enabled={v2Enabled} v3Enabled={v3Enabled} onV2EnabledChange={setV2Enabled} onV3EnabledChange={setV3Enabled} />
+      <TokenSelector open={showFromSelector} onClose={() => setShowFromSelector(false)} onSelect={handleFromSelect} tokens={isRWAToken(toToken) ? tokens.filter(t => !isRWAToken(t)) : tokens} onImport={handleImportToken} onDelete={handleDeleteToken} recentTokens={isRWAToken(toToken) ? recentTokens.filter(t => !isRWAToken(t)) : recentTokens} favoriteTokens={isRWAToken(toToken) ? favoriteTokens.filter(t => !isRWAToken(t)) : favoriteTokens} onToggleFavorite={toggleFavoriteToken} showBalances />
+      <TokenSelector open={showToSelector} onClose={() => setShowToSelector(false)} onSelect={handleToSelect} tokens={isRWAToken(fromToken) ? tokens.filter(t => !isRWAToken(t)) : tokens} onImport={handleImportToken} onDelete={handleDeleteToken} recentTokens={isRWAToken(fromToken) ? recentTokens.filter(t => !isRWAToken(t)) : recentTokens} favoriteTokens={isRWAToken(fromToken) ? favoriteTokens.filter(t => !isRWAToken(t)) : favoriteTokens} onToggleFavorite={toggleFavoriteToken} showBalances />
+      <SwapSettings open={showSettings} onClose={() => setShowSettings(false)} slippage={slippage} onSlippageChange={setSlippage} deadline={deadline} onDeadlineChange={setDeadline} recipientAddress={recipientAddress} onRecipientAddressChange={setRecipientAddress} quoteRefreshInterval={quoteRefreshInterval} onQuoteRefreshIntervalChange={setQuoteRefreshInterval} v2Enabled={v2Enabled} v3Enabled={v3Enabled} onV2EnabledChange={setV2Enabled} onV3EnabledChange={setV3Enabled} routingPreferences={routingPreferences} onRoutingPreferencesChange={setRoutingPreferences} />
       <TransactionHistory open={showTransactionHistory} onClose={() => setShowTransactionHistory(false)} />
+      <SignedPermits open={showSignedPermits} onClose={() => setShowSignedPermits(false)} onChange={refreshOutstandingPermits} />
+      <DcaOrders open={showDcaOrders} onClose={() => setShowDcaOrders(false)} fromToken={fromToken} toToken={toToken} fromAmount={fromAmount} slippage={slippage} onChange={refreshOutstandingPermits} />
+      <LinkedTokenImport pendingImport={linkedTokens.pendingImport} onConfirm={linkedTokens.confirmImport} onDismiss={linkedTokens.dismissImport} />
+      {!linkedTokens.pendingImport && (
+        <LinkedRecipientConfirm
+          recipient={linkedRecipient}
+          onConfirm={() => { setRecipientAddress(linkedRecipient ?? ""); setLinkedRecipient(null); }}
+          onDismiss={() => setLinkedRecipient(null)}
+        />
+      )}
+      <LimitOrders open={showLimitOrders} onClose={() => setShowLimitOrders(false)} fromToken={fromToken} toToken={toToken} fromAmount={fromAmount} quotedAmount={toAmount} onChange={refreshOutstandingPermits} />
 
       {highImpactConfirm && (
         <div className="sw-impact-overlay" onClick={e => { if (e.target === e.currentTarget) { setHighImpactConfirm(false); setImpactChecked(false); setImpactText(""); } }}>